@@ -1,3 +1,35 @@
+exports['Bootstrapper buildDiscoveryPullRequest configures all discovered packages 1'] = `
+{
+  "packages": {
+    "packages/a": {
+      "package-name": "a",
+      "release-type": "node",
+      "bump-minor-pre-major": true
+    },
+    "packages/b": {
+      "package-name": "b",
+      "release-type": "node",
+      "bump-minor-pre-major": true
+    }
+  },
+  "$schema": "https://raw.githubusercontent.com/googleapis/release-please/main/schemas/config.json",
+  "plugins": [
+    "node-workspace"
+  ]
+}
+`
+
+exports['Bootstrapper buildDiscoveryPullRequest configures all discovered packages 2'] = `
+Configuring release-please for discovered packages:
+
+| Path | Release type | Version | Detected from |
+| ---- | ------------ | ------- | ------------- |
+| \`packages/a\` | node | 1.2.3 | \`packages/a/package.json\` |
+| \`packages/b\` | node | 0.1.0 | \`packages/b/package.json\` |
+
+Suggested plugins: \`node-workspace\`
+`
+
 exports['Bootstrapper should open a PR 1'] = `
 {
   "packages": {
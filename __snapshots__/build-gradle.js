@@ -0,0 +1,35 @@
+exports['BuildGradle updateContent updates the version of a Kotlin build script 1'] = `
+plugins {
+    kotlin("jvm") version "1.9.22"
+    \`maven-publish\`
+}
+
+group = "com.example"
+version = "1.3.0"
+
+dependencies {
+    implementation(project(":core"))
+    implementation(libs.kotlinx.coroutines)
+}
+
+`
+
+exports['BuildGradle updateContent updates the versionName of a Groovy build script 1'] = `
+plugins {
+    id 'com.android.library'
+}
+
+android {
+    namespace 'com.example.widget'
+    defaultConfig {
+        minSdk 24
+        versionCode 12
+        versionName '1.3.0'
+    }
+}
+
+dependencies {
+    implementation project(':core')
+}
+
+`
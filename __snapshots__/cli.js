@@ -12,11 +12,16 @@ Options:
                                 debugging).           [boolean] [default: false]
   --plugin                      load plugin named release-please-<plugin-name>
                                                            [array] [default: []]
+  --provider                    The SCM provider hosting the repository. Use
+                                with --api-url for self-hosted instances
+             [choices: "github", "gitlab", "gitea", "local"] [default: "github"]
   --token                       GitHub token with repo write permissions
   --api-url                     URL to use when making API requests
                                     [string] [default: "https://api.github.com"]
   --graphql-url                 URL to use when making GraphQL requests
                                     [string] [default: "https://api.github.com"]
+  --cache-dir                   Directory to persist GitHub API responses for
+                                commits and files across runs           [string]
   --default-branch              The branch to open release PRs against and tag
                                 releases on
                               [deprecated: use --target-branch instead] [string]
@@ -25,6 +30,9 @@ Options:
   --repo-url                    GitHub URL to generate release for    [required]
   --dry-run                     Prepare but do not take action
                                                       [boolean] [default: false]
+  --output-format               Format of the --dry-run output. \`json\` prints
+                                the plan to stdout and all logs to stderr
+                                     [choices: "text", "json"] [default: "text"]
   --include-v-in-tags           include "v" in tag versions
                                                        [boolean] [default: true]
   --monorepo-tags               include library name in tags and release
@@ -43,11 +51,11 @@ Options:
                                                                         [string]
   --release-type                what type of repo is a release being created
                                 for?
-  [choices: "bazel", "dart", "dotnet-yoshi", "elixir", "expo", "go", "go-yoshi",
-          "helm", "java", "java-backport", "java-bom", "java-lts", "java-yoshi",
-       "java-yoshi-mono-repo", "krm-blueprint", "maven", "node", "ocaml", "php",
-         "php-yoshi", "python", "r", "ruby", "ruby-yoshi", "rust", "salesforce",
-                                           "sfdx", "simple", "terraform-module"]
+  [choices: "bazel", "dart", "deno", "docker", "dotnet-yoshi", "elixir", "expo",
+        "go", "go-yoshi", "gradle", "helm", "java", "java-backport", "java-bom",
+     "java-lts", "java-yoshi", "java-yoshi-mono-repo", "krm-blueprint", "maven",
+       "node", "ocaml", "php", "php-yoshi", "python", "r", "ruby", "ruby-yoshi",
+            "rust", "salesforce", "sfdx", "simple", "swift", "terraform-module"]
   --config-file                 where can the config file be found in the
                                 project? [default: "release-please-config.json"]
   --manifest-file               where can the manifest file be found in the
@@ -84,17 +92,25 @@ Options:
                         debugging).                   [boolean] [default: false]
   --plugin              load plugin named release-please-<plugin-name>
                                                            [array] [default: []]
+  --provider            The SCM provider hosting the repository. Use with
+                        --api-url for self-hosted instances
+             [choices: "github", "gitlab", "gitea", "local"] [default: "github"]
   --token               GitHub token with repo write permissions
   --api-url             URL to use when making API requests
                                     [string] [default: "https://api.github.com"]
   --graphql-url         URL to use when making GraphQL requests
                                     [string] [default: "https://api.github.com"]
+  --cache-dir           Directory to persist GitHub API responses for commits
+                        and files across runs                           [string]
   --default-branch      The branch to open release PRs against and tag releases
                         on    [deprecated: use --target-branch instead] [string]
   --target-branch       The branch to open release PRs against and tag releases
                         on                                              [string]
   --repo-url            GitHub URL to generate release for            [required]
   --dry-run             Prepare but do not take action[boolean] [default: false]
+  --output-format       Format of the --dry-run output. \`json\` prints the plan
+                        to stdout and all logs to stderr
+                                     [choices: "text", "json"] [default: "text"]
   --label               comma-separated list of labels to add to from release PR
                                                [default: "autorelease: pending"]
   --skip-labeling       skip application of labels to pull requests
@@ -125,17 +141,25 @@ Options:
                                                       [boolean] [default: false]
   --plugin          load plugin named release-please-<plugin-name>
                                                            [array] [default: []]
+  --provider        The SCM provider hosting the repository. Use with --api-url
+                    for self-hosted instances
+             [choices: "github", "gitlab", "gitea", "local"] [default: "github"]
   --token           GitHub token with repo write permissions
   --api-url         URL to use when making API requests
                                     [string] [default: "https://api.github.com"]
   --graphql-url     URL to use when making GraphQL requests
                                     [string] [default: "https://api.github.com"]
+  --cache-dir       Directory to persist GitHub API responses for commits and
+                    files across runs                                   [string]
   --default-branch  The branch to open release PRs against and tag releases on
                               [deprecated: use --target-branch instead] [string]
   --target-branch   The branch to open release PRs against and tag releases on
                                                                         [string]
   --repo-url        GitHub URL to generate release for                [required]
   --dry-run         Prepare but do not take action    [boolean] [default: false]
+  --output-format   Format of the --dry-run output. \`json\` prints the plan to
+                    stdout and all logs to stderr
+                                     [choices: "text", "json"] [default: "text"]
   --draft           mark release as a draft. no tag is created but tag_name and
                     target_commitish are associated with the release for future
                     tag creation upon "un-drafting" the release.
@@ -170,11 +194,16 @@ Options:
   --plugin                          load plugin named
                                     release-please-<plugin-name>
                                                            [array] [default: []]
+  --provider                        The SCM provider hosting the repository. Use
+                                    with --api-url for self-hosted instances
+             [choices: "github", "gitlab", "gitea", "local"] [default: "github"]
   --token                           GitHub token with repo write permissions
   --api-url                         URL to use when making API requests
                                     [string] [default: "https://api.github.com"]
   --graphql-url                     URL to use when making GraphQL requests
                                     [string] [default: "https://api.github.com"]
+  --cache-dir                       Directory to persist GitHub API responses
+                                    for commits and files across runs   [string]
   --default-branch                  The branch to open release PRs against and
                                     tag releases on
                               [deprecated: use --target-branch instead] [string]
@@ -183,6 +212,10 @@ Options:
   --repo-url                        GitHub URL to generate release for[required]
   --dry-run                         Prepare but do not take action
                                                       [boolean] [default: false]
+  --output-format                   Format of the --dry-run output. \`json\`
+                                    prints the plan to stdout and all logs to
+                                    stderr
+                                     [choices: "text", "json"] [default: "text"]
   --release-as                      override the semantically determined release
                                     version                             [string]
   --bump-minor-pre-major            should we bump the semver minor prior to the
@@ -193,6 +226,8 @@ Options:
                                     the first major release
                                                       [boolean] [default: false]
   --prerelease-type                 type of the prerelease, e.g., alpha [string]
+  --calver-format                   format of the calver versioning strategy,
+                                    e.g., YYYY.MM.MICRO                 [string]
   --extra-files                     extra files for the strategy to consider
                                                                         [string]
   --version-file                    path to version file to update, e.g.,
@@ -201,11 +236,12 @@ Options:
                                     generated?        [boolean] [default: false]
   --versioning-strategy             strategy used for bumping versions
         [choices: "always-bump-major", "always-bump-minor", "always-bump-patch",
-                   "default", "prerelease", "service-pack"] [default: "default"]
+          "calver", "default", "pep440", "prerelease", "service-pack"] [default:
+                                                                      "default"]
   --changelog-path                  where can the CHANGELOG be found in the
                                     project?  [string] [default: "CHANGELOG.md"]
   --changelog-type                  type of changelog to build
-                                                  [choices: "default", "github"]
+                                  [choices: "default", "github", "pull-request"]
   --changelog-sections              comma-separated list of scopes to include in
                                     the changelog                       [string]
   --changelog-host                  host for hyperlinks in the changelog[string]
@@ -250,11 +286,11 @@ Options:
                                                                         [string]
   --release-type                    what type of repo is a release being created
                                     for?
-  [choices: "bazel", "dart", "dotnet-yoshi", "elixir", "expo", "go", "go-yoshi",
-          "helm", "java", "java-backport", "java-bom", "java-lts", "java-yoshi",
-       "java-yoshi-mono-repo", "krm-blueprint", "maven", "node", "ocaml", "php",
-         "php-yoshi", "python", "r", "ruby", "ruby-yoshi", "rust", "salesforce",
-                                           "sfdx", "simple", "terraform-module"]
+  [choices: "bazel", "dart", "deno", "docker", "dotnet-yoshi", "elixir", "expo",
+        "go", "go-yoshi", "gradle", "helm", "java", "java-backport", "java-bom",
+     "java-lts", "java-yoshi", "java-yoshi-mono-repo", "krm-blueprint", "maven",
+       "node", "ocaml", "php", "php-yoshi", "python", "r", "ruby", "ruby-yoshi",
+            "rust", "salesforce", "sfdx", "simple", "swift", "terraform-module"]
   --config-file                     where can the config file be found in the
                                     project?
                                          [default: "release-please-config.json"]
@@ -0,0 +1,45 @@
+exports['DenoJson updateContent updates imports of workspace members 1'] = `
+{
+  // The package is published to JSR
+  "name": "@acme/utils",
+  "version": "0.5.0", /* bumped by release-please */
+  "exports": "./mod.ts",
+  "imports": {
+    "@acme/core": "jsr:@acme/core@^1.3.0",
+    "@acme/core/": "jsr:/@acme/core@^1.3.0/",
+    "@acme/http": "jsr:@acme/http@2.1.0/client",
+    "@std/path": "jsr:@std/path@^1.0.0",
+    "chalk": "npm:chalk@6.0.0",
+    "local": "./local/mod.ts",
+  },
+  "scopes": {
+    "./legacy/": {
+      "@acme/core": "jsr:@acme/core@~1.3.0"
+    }
+  }
+}
+
+`
+
+exports['DenoJson updateContent updates version in deno.jsonc, preserving comments 1'] = `
+{
+  // The package is published to JSR
+  "name": "@acme/utils",
+  "version": "0.5.0", /* bumped by release-please */
+  "exports": "./mod.ts",
+  "imports": {
+    "@acme/core": "jsr:@acme/core@^1.2.0",
+    "@acme/core/": "jsr:/@acme/core@^1.2.0/",
+    "@acme/http": "jsr:@acme/http@2.0.0/client",
+    "@std/path": "jsr:@std/path@^1.0.0",
+    "chalk": "npm:chalk@5",
+    "local": "./local/mod.ts",
+  },
+  "scopes": {
+    "./legacy/": {
+      "@acme/core": "jsr:@acme/core@~1.1.0"
+    }
+  }
+}
+
+`
@@ -0,0 +1,29 @@
+exports['DenoLock updateContent updates workspace member dependencies 1'] = `
+{
+  "version": "4",
+  "specifiers": {
+    "jsr:@std/path@^1.0.0": "1.0.8"
+  },
+  "jsr": {
+    "@std/path@1.0.8": {
+      "integrity": "548fa456bb6a04d3c1a1e7477986b6cffbce95102d0bb447c67c4ee70e0364be"
+    }
+  },
+  "workspace": {
+    "members": {
+      "packages/http": {
+        "dependencies": [
+          "jsr:@acme/utils@~0.4.1"
+        ]
+      },
+      "packages/utils": {
+        "dependencies": [
+          "jsr:@acme/core@^1.3.0",
+          "jsr:@std/path@^2.0.0"
+        ]
+      }
+    }
+  }
+}
+
+`
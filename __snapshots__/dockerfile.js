@@ -0,0 +1,17 @@
+exports['Dockerfile updateContent updates the version label and VERSION argument 1'] = `
+FROM node:20-alpine AS build
+ARG VERSION=1.3.0
+WORKDIR /app
+COPY . .
+RUN npm ci && npm run build
+
+FROM node:20-alpine
+ARG VERSION="1.3.0"
+ARG NODE_VERSION=20
+LABEL org.opencontainers.image.title="api" \\
+      org.opencontainers.image.version="1.3.0" \\
+      org.opencontainers.image.source="https://github.com/acme/services"
+COPY --from=build /app/dist /app
+CMD ["node", "/app/main.js"]
+
+`
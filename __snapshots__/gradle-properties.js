@@ -0,0 +1,9 @@
+exports['GradleProperties updateContent updates the version property 1'] = `
+# Project-wide Gradle settings.
+org.gradle.jvmargs=-Xmx2048m
+kotlin.code.style=official
+
+group=com.example
+version=1.2.3
+
+`
@@ -0,0 +1,17 @@
+exports['HelmValuesYaml updateContent updates the tags of the image 1'] = `
+replicaCount: 2
+image:
+  repository: ghcr.io/acme/api
+  # pinned by release-please
+  tag: "1.3.0"
+  pullPolicy: IfNotPresent
+worker:
+  image:
+    repository: ghcr.io/acme/api
+    tag: ""
+redis:
+  image:
+    repository: redis
+    tag: 7.2.4
+
+`
@@ -0,0 +1,18 @@
+exports['KustomizationYaml updateContent updates the tags of the image 1'] = `
+apiVersion: kustomize.config.k8s.io/v1beta1
+kind: Kustomization
+resources:
+  - deployment.yaml
+images:
+  # the service image
+  - name: ghcr.io/acme/api
+    newTag: "1.3.0"
+  - name: api-migrations
+    newName: ghcr.io/acme/api
+    newTag: v1.3.0
+  - name: ghcr.io/acme/api-worker
+    newTag: 1.2.3
+  - name: redis
+    newTag: "7.2"
+
+`
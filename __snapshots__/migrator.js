@@ -0,0 +1,71 @@
+exports['Migrator migrates a changesets workspace 1'] = `
+{
+  "packages": {
+    "packages/a": {
+      "package-name": "@fake/a",
+      "component": "@fake/a",
+      "release-type": "node",
+      "include-v-in-tag": false,
+      "tag-separator": "@"
+    },
+    "packages/b": {
+      "package-name": "@fake/b",
+      "component": "@fake/b",
+      "release-type": "node",
+      "include-v-in-tag": false,
+      "tag-separator": "@"
+    }
+  },
+  "$schema": "https://raw.githubusercontent.com/googleapis/release-please/main/schemas/config.json",
+  "changes-path": ".changeset",
+  "plugins": [
+    {
+      "type": "linked-versions",
+      "groupName": "fixed-1",
+      "components": [
+        "@fake/a",
+        "@fake/b"
+      ]
+    },
+    "node-workspace"
+  ]
+}
+`
+
+exports['Migrator migrates a changesets workspace 2'] = `
+Migrating release configuration from changesets (\`.changeset/config.json\`):
+
+| Path | Release type | Version |
+| ---- | ------------ | ------- |
+| \`packages/a\` | node | 1.0.0 |
+| \`packages/b\` | node | 1.0.0 |
+
+Remove \`.changeset/config.json\` once this pull request is merged.
+`
+
+exports['Migrator migrates a semantic-release config 1'] = `
+{
+  "packages": {
+    ".": {
+      "changelog-path": "HISTORY.md",
+      "release-type": "node",
+      "include-component-in-tag": false,
+      "include-v-in-tag": true
+    }
+  },
+  "$schema": "https://raw.githubusercontent.com/googleapis/release-please/main/schemas/config.json",
+  "channels": {
+    "beta": "beta"
+  }
+}
+`
+
+exports['Migrator migrates a semantic-release config 2'] = `
+Migrating release configuration from semantic-release (\`.releaserc.json\`):
+
+| Path | Release type | Version |
+| ---- | ------------ | ------- |
+| \`.\` | node | 1.2.3 |
+
+Remove \`.releaserc.json\` once this pull request is merged.
+`
@@ -339,6 +339,29 @@ Release notes for path: node4, releaseType: node
 This PR was generated with [Release Please](https://github.com/googleapis/release-please). See [documentation](https://github.com/googleapis/release-please#release-please).
 `
 
+exports['NodeWorkspace plugin with discoverWorkspaces: true updates dependencies of packages in pnpm-workspace.yaml 1'] = `
+:robot: I have created a release *beep* *boop*
+---
+
+
+<details><summary>@here/pkg-a: 1.1.0</summary>
+
+Release notes for path: packages/pkg-a, releaseType: node
+</details>
+
+<details><summary>@here/pkg-b: 2.0.1</summary>
+
+### Dependencies
+
+* The following workspace dependencies were updated
+  * dependencies
+    * @here/pkg-a bumped from workspace:^1.0.0 to workspace:^1.1.0
+</details>
+
+---
+This PR was generated with [Release Please](https://github.com/googleapis/release-please). See [documentation](https://github.com/googleapis/release-please#release-please).
+`
+
 exports['NodeWorkspace plugin with updatePeerDependencies: true respects version prefix and updates peer dependencies 1'] = `
 {
   "name": "@here/plugin1",
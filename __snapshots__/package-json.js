@@ -215,3 +215,37 @@ exports['PackageJson updateContent updates the package version 1'] = `
 }
 
 `
+
+exports['PackageJson updateContent updates workspace dependencies with explicit versions 1'] = `
+{
+  "name": "@here/app",
+  "version": "1.0.1",
+  "private": true,
+  "dependencies": {
+    "@here/pkg-a": "workspace:*",
+    "@here/pkg-b": "workspace:^",
+    "@here/pkg-c": "workspace:^2.1.0",
+    "@here/pkg-d": "workspace:~2.1.0",
+    "@here/pkg-e": "workspace:packages/pkg-e",
+    "@here/pkg-f": "^2.1.0"
+  }
+}
+
+`
+
+exports['PackageJsonDependencies updateContent updates dependency versions without the package version 1'] = `
+{
+  "name": "@here/app",
+  "version": "1.0.0",
+  "private": true,
+  "dependencies": {
+    "@here/pkg-a": "workspace:*",
+    "@here/pkg-b": "workspace:^",
+    "@here/pkg-c": "workspace:^2.1.0",
+    "@here/pkg-d": "workspace:~1.1.0",
+    "@here/pkg-e": "workspace:packages/pkg-e",
+    "@here/pkg-f": "^0.4.0"
+  }
+}
+
+`
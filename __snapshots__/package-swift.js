@@ -0,0 +1,22 @@
+exports['PackageSwift updateContent updates pins of matching dependencies 1'] = `
+// swift-tools-version:5.9
+import PackageDescription
+
+let package = Package(
+    name: "Feature",
+    platforms: [.iOS(.v13)],
+    products: [
+        .library(name: "Feature", targets: ["Feature"]),
+    ],
+    dependencies: [
+        .package(url: "https://github.com/example/Core.git", from: "1.3.0"),
+        .package(name: "Networking", url: "https://github.com/example/networking-swift", .upToNextMajor(from: "2.1.0")),
+        .package(url: "https://github.com/apple/swift-log.git", exact: "1.5.3"),
+        .package(path: "../Local"),
+    ],
+    targets: [
+        .target(name: "Feature", dependencies: ["Core", "Networking"]),
+    ]
+)
+
+`
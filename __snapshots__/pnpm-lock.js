@@ -0,0 +1,83 @@
+exports['PnpmLock updateContent updates workspace dependency specifiers 1'] = `
+lockfileVersion: '9.0'
+
+settings:
+  autoInstallPeers: true
+  excludeLinksFromLockfile: false
+
+importers:
+
+  .:
+    devDependencies:
+      typescript:
+        specifier: ^5.4.0
+        version: 5.4.5
+
+  packages/app:
+    dependencies:
+      '@here/pkg-a':
+        specifier: workspace:*
+        version: link:../pkg-a
+      '@here/pkg-b':
+        specifier: workspace:^1.3.0
+        version: link:../pkg-b
+    devDependencies:
+      '@here/pkg-c':
+        specifier: ~0.4.0
+        version: link:../pkg-c
+
+  packages/pkg-a: {}
+
+  packages/pkg-b:
+    dependencies:
+      '@here/pkg-a':
+        specifier: '>=2.1.0'
+        version: link:../pkg-a
+
+  packages/pkg-c: {}
+
+packages:
+
+  typescript@5.4.5:
+    resolution: {integrity: sha512-vcI4UpRgg81oIRUFwR0WSIHKt11nJ7SAVlYNIu+QpqeyXP+gpQJy/Z4+F0aGxSE4MqwjyXvW/TzgkLAx2AGHwQ==}
+    engines: {node: '>=14.17'}
+    hasBin: true
+
+snapshots:
+
+  typescript@5.4.5: {}
+
+`
+
+exports['PnpmLock updateContent updates workspace dependency specifiers of a v5 lockfile 1'] = `
+lockfileVersion: 5.4
+
+importers:
+
+  .:
+    specifiers: {}
+
+  packages/app:
+    specifiers:
+      '@here/pkg-a': workspace:*
+      '@here/pkg-b': workspace:^1.3.0
+      '@here/pkg-c': ~0.4.0
+    dependencies:
+      '@here/pkg-a': link:../pkg-a
+      '@here/pkg-b': link:../pkg-b
+    devDependencies:
+      '@here/pkg-c': link:../pkg-c
+
+  packages/pkg-a:
+    specifiers: {}
+
+  packages/pkg-b:
+    specifiers:
+      '@here/pkg-a': '>=2.1.0'
+    dependencies:
+      '@here/pkg-a': link:../pkg-a
+
+  packages/pkg-c:
+    specifiers: {}
+
+`
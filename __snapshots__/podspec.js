@@ -0,0 +1,13 @@
+exports['Podspec updateContent updates the podspec version 1'] = `
+Pod::Spec.new do |s|
+  s.name             = 'Example'
+  s.version          = '1.3.0'
+  s.summary          = 'An example library.'
+  s.homepage         = 'https://github.com/example/Example'
+  s.source           = { :git => 'https://github.com/example/Example.git', :tag => s.version.to_s }
+
+  s.ios.deployment_target = '13.0'
+  s.dependency 'Alamofire', '~> 5.8'
+end
+
+`
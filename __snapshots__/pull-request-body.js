@@ -1,3 +1,41 @@
+exports['PullRequestBody template renders the body with the template 1'] = `
+:robot: I have created a release *beep* *boop*
+---
+
+<details><summary>pkg1: 1.3.0</summary>
+
+## [1.3.0](https://github.com/fake/fake/compare/pkg1-v1.2.3...pkg1-v1.3.0) (1983-10-10)
+
+
+### Features
+
+* a feature ([abc123](https://github.com/fake/fake/commit/abc123))
+* another <feature> ([def456](https://github.com/fake/fake/commit/def456))
+
+### Bug Fixes
+
+* a fix ([aaa111](https://github.com/fake/fake/commit/aaa111))
+</details>
+
+<details><summary>pkg2: 2.0.0</summary>
+
+### Features
+
+* some feature
+</details>
+
+---
+pkg1: 1.2.3 -> 1.3.0
+Features: 2
+Bug Fixes: 1
+- feat(api): a feature (abc123)
+Closes: #12 
+pkg2:  -> 2.0.0
+Features: 1
+
+This PR was generated with [Release Please](https://github.com/googleapis/release-please). See [documentation](https://github.com/googleapis/release-please#release-please).
+`
+
 exports['PullRequestBody toString can handle a custom header and footer 1'] = `
 My special header!!!
 ---
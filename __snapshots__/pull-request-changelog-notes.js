@@ -0,0 +1,61 @@
+exports['PullRequestChangelogNotes buildNotes should group pull requests by label 1'] = `
+## [1.2.3](https://github.com/googleapis/java-asset/compare/v1.2.2...v1.2.3) (1983-10-10)
+
+
+### ⚠ BREAKING CHANGES
+
+* Fix the thing by @newcomer in [#12](https://github.com/googleapis/java-asset/pull/12)
+
+### Features
+
+* Add a shiny feature by @octocat in [#11](https://github.com/googleapis/java-asset/pull/11)
+
+### Bug Fixes
+
+* Fix the thing by @newcomer in [#12](https://github.com/googleapis/java-asset/pull/12)
+
+### Other Changes
+
+* Improve the docs by @octocat in [#13](https://github.com/googleapis/java-asset/pull/13)
+* direct push in [abcdef1](https://github.com/googleapis/java-asset/commit/abcdef1234567)
+
+### Contributors
+
+* @octocat
+* @newcomer
+
+### New Contributors
+
+* @newcomer made their first contribution in [#12](https://github.com/googleapis/java-asset/pull/12)
+`
+
+exports['PullRequestChangelogNotes buildNotes should use custom label sections 1'] = `
+## [1.2.3](https://github.com/googleapis/java-asset/compare/v1.2.2...v1.2.3) (1983-10-10)
+
+
+### ⚠ BREAKING CHANGES
+
+* Fix the thing by @newcomer in [#12](https://github.com/googleapis/java-asset/pull/12)
+
+### Fixed
+
+* Fix the thing by @newcomer in [#12](https://github.com/googleapis/java-asset/pull/12)
+
+### Added
+
+* Add a shiny feature by @octocat in [#11](https://github.com/googleapis/java-asset/pull/11)
+
+### Other Changes
+
+* Improve the docs by @octocat in [#13](https://github.com/googleapis/java-asset/pull/13)
+* direct push in [abcdef1](https://github.com/googleapis/java-asset/commit/abcdef1234567)
+
+### Contributors
+
+* @octocat
+* @newcomer
+
+### New Contributors
+
+* @newcomer made their first contribution in [#12](https://github.com/googleapis/java-asset/pull/12)
+`
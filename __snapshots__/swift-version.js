@@ -0,0 +1,9 @@
+exports['SwiftVersion updateContent updates the version constant 1'] = `
+import Foundation
+
+/// The version of the SDK, reported in the user agent.
+public let sdkVersion = "1.3.0"
+
+public let buildVersion = "42"
+
+`
@@ -0,0 +1,12 @@
+exports['VersionCatalog updateContent updates matching versions while preserving formatting 1'] = `
+[versions]
+# workspace libraries
+core = "1.3.0"
+widget = "0.4.1" # keep in sync
+kotlin = "1.9.22"
+
+[libraries]
+example-core = { module = "com.example:core", version.ref = "core" }
+kotlin-stdlib = { module = "org.jetbrains.kotlin:kotlin-stdlib", version.ref = "kotlin" }
+
+`
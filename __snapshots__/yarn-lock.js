@@ -0,0 +1,50 @@
+exports['YarnLock updateContent updates workspace descriptors and dependencies 1'] = `
+# This file is generated by running "yarn install" inside your project.
+# Manual changes might be lost - proceed with caution!
+
+__metadata:
+  version: 8
+  cacheKey: 10c0
+
+"@here/app@workspace:packages/app":
+  version: 0.0.0-use.local
+  resolution: "@here/app@workspace:packages/app"
+  dependencies:
+    "@here/pkg-a": "workspace:*"
+    "@here/pkg-b": "workspace:^1.3.0"
+    "@here/pkg-c": "npm:~0.4.0"
+    typescript: "npm:^5.4.0"
+  languageName: unknown
+  linkType: soft
+
+"@here/pkg-a@workspace:*, @here/pkg-a@workspace:packages/pkg-a":
+  version: 0.0.0-use.local
+  resolution: "@here/pkg-a@workspace:packages/pkg-a"
+  languageName: unknown
+  linkType: soft
+
+"@here/pkg-b@workspace:^1.3.0, @here/pkg-b@workspace:packages/pkg-b":
+  version: 0.0.0-use.local
+  resolution: "@here/pkg-b@workspace:packages/pkg-b"
+  dependencies:
+    "@here/pkg-a": "workspace:*"
+  languageName: unknown
+  linkType: soft
+
+"@here/pkg-c@npm:~0.4.0, @here/pkg-c@workspace:packages/pkg-c":
+  version: 0.0.0-use.local
+  resolution: "@here/pkg-c@workspace:packages/pkg-c"
+  languageName: unknown
+  linkType: soft
+
+"typescript@npm:^5.4.0":
+  version: 5.4.5
+  resolution: "typescript@npm:5.4.5"
+  bin:
+    tsc: bin/tsc
+    tsserver: bin/tsserver
+  checksum: 10c0/2954022ada340fd3d6a9e2b8e534f65d57c92d5f3989a263754a78aba549f7e6529acc1921913560a4b816c46dce7df4a4d29f9f11a3dc0d4213bb76d043251e
+  languageName: node
+  linkType: hard
+
+`
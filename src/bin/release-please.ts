@@ -17,6 +17,10 @@
 import {coerceOption} from '../util/coerce-option';
 import * as yargs from 'yargs';
 import {GitHub, GH_API_URL, GH_GRAPHQL_URL} from '../github';
+import {GitLab} from '../gitlab';
+import {Gitea} from '../gitea';
+import {LocalGit} from '../local-git';
+import {ScmProvider} from '../scm-provider';
 import {Manifest, ManifestOptions, ROOT_PROJECT_PATH} from '../manifest';
 import {ChangelogSection, buildChangelogSections} from '../changelog-notes';
 import {logger, setLogger, CheckpointLogger} from '../util/logger';
@@ -29,7 +33,25 @@ import {
   getChangelogTypes,
 } from '../factory';
 import {Bootstrapper} from '../bootstrapper';
+import {Migrator} from '../migrator';
+import {
+  MIGRATION_CONFIG_FILES,
+  MigrationSource,
+} from '../util/config-migration';
 import {createPatch} from 'diff';
+import * as chalk from 'chalk';
+import {
+  buildPullRequestPlans,
+  buildReleasePlans,
+  colorizeDiff,
+} from '../util/release-plan';
+import {
+  CommitLintRules,
+  lintCommits,
+  parseCommitLintRules,
+} from '../util/commit-lint';
+import {Commit} from '../commit';
+import {ConfigurationError} from '../errors';
 
 // eslint-disable-next-line @typescript-eslint/no-var-requires
 const parseGithubRepoUrl = require('parse-github-repo-url');
@@ -41,13 +63,18 @@ interface ErrorObject {
   stack: string;
 }
 
+type Provider = 'github' | 'gitlab' | 'gitea' | 'local';
+const PROVIDERS: Provider[] = ['github', 'gitlab', 'gitea', 'local'];
+
 interface GitHubArgs {
   dryRun?: boolean;
   trace?: boolean;
+  provider?: Provider;
   repoUrl?: string;
   token?: string;
   apiUrl?: string;
   graphqlUrl?: string;
+  cacheDir?: string;
   fork?: boolean;
 
   // deprecated in favor of targetBranch
@@ -55,6 +82,10 @@ interface GitHubArgs {
   targetBranch?: string;
 }
 
+interface OutputArgs {
+  outputFormat?: 'text' | 'json';
+}
+
 interface ManifestArgs {
   configFile?: string;
   manifestFile?: string;
@@ -64,6 +95,7 @@ interface VersioningArgs {
   bumpMinorPreMajor?: boolean;
   bumpPatchForMinorPreMajor?: boolean;
   prereleaseType?: string;
+  calverFormat?: string;
   releaseAs?: string;
 
   // only for Ruby: TODO replace with generic bootstrap option
@@ -119,7 +151,7 @@ interface TaggingArgs {
   componentNoSpace?: boolean;
 }
 
-interface CreatePullRequestArgs
+interface DiffArgs
   extends GitHubArgs,
     ManifestArgs,
     ManifestConfigArgs,
@@ -129,18 +161,22 @@ interface CreatePullRequestArgs
     TaggingArgs {
   changelogType?: ChangelogNotesType;
 }
+interface CreatePullRequestArgs extends DiffArgs, OutputArgs {}
 interface CreateReleaseArgs
   extends GitHubArgs,
+    OutputArgs,
     ManifestArgs,
     ManifestConfigArgs,
     ReleaseArgs,
     TaggingArgs {}
 interface CreateManifestPullRequestArgs
   extends GitHubArgs,
+    OutputArgs,
     ManifestArgs,
     PullRequestArgs {}
 interface CreateManifestReleaseArgs
   extends GitHubArgs,
+    OutputArgs,
     ManifestArgs,
     ReleaseArgs {}
 interface BootstrapArgs
@@ -152,11 +188,28 @@ interface BootstrapArgs
     PullRequestStrategyArgs,
     ReleaseArgs {
   initialVersion?: string;
+  discover?: boolean;
 }
 interface DebugConfigArgs extends GitHubArgs, ManifestArgs {}
+interface MigrateArgs extends GitHubArgs, ManifestArgs {
+  from?: MigrationSource;
+}
+interface LintCommitsArgs extends GitHubArgs, OutputArgs, ManifestArgs {
+  from?: string;
+  pullRequest?: number;
+  message?: string;
+  rules?: Partial<CommitLintRules>;
+  scopes?: string[];
+}
 
 function gitHubOptions(yargs: yargs.Argv): yargs.Argv {
   return yargs
+    .option('provider', {
+      describe:
+        'The SCM provider hosting the repository. Use with --api-url for self-hosted instances',
+      choices: PROVIDERS,
+      default: 'github',
+    })
     .option('token', {describe: 'GitHub token with repo write permissions'})
     .option('api-url', {
       describe: 'URL to use when making API requests',
@@ -168,6 +221,11 @@ function gitHubOptions(yargs: yargs.Argv): yargs.Argv {
       default: GH_GRAPHQL_URL,
       type: 'string',
     })
+    .option('cache-dir', {
+      describe:
+        'Directory to persist GitHub API responses for commits and files across runs',
+      type: 'string',
+    })
     .option('default-branch', {
       describe: 'The branch to open release PRs against and tag releases on',
       type: 'string',
@@ -196,6 +254,24 @@ function gitHubOptions(yargs: yargs.Argv): yargs.Argv {
     });
 }
 
+function outputOptions(yargs: yargs.Argv): yargs.Argv {
+  return yargs
+    .option('output-format', {
+      describe:
+        'Format of the --dry-run output. `json` prints the plan to stdout and all logs to stderr',
+      choices: ['text', 'json'],
+      default: 'text',
+    })
+    .middleware(_argv => {
+      const argv = _argv as OutputArgs & {debug?: boolean; trace?: boolean};
+      if (argv.outputFormat === 'json') {
+        setLogger(
+          new CheckpointLogger(!!argv.debug || !!argv.trace, !!argv.trace, true)
+        );
+      }
+    });
+}
+
 function releaseOptions(yargs: yargs.Argv): yargs.Argv {
   return yargs
     .option('draft', {
@@ -282,6 +358,10 @@ function pullRequestStrategyOptions(yargs: yargs.Argv): yargs.Argv {
       describe: 'type of the prerelease, e.g., alpha',
       type: 'string',
     })
+    .option('calver-format', {
+      describe: 'format of the calver versioning strategy, e.g., YYYY.MM.MICRO',
+      type: 'string',
+    })
     .option('extra-files', {
       describe: 'extra files for the strategy to consider',
       type: 'string',
@@ -438,6 +518,60 @@ function taggingOptions(yargs: yargs.Argv): yargs.Argv {
     });
 }
 
+/**
+ * Build the manifest for the release-pr and diff commands, either from the
+ * release type options or from the manifest config.
+ */
+async function buildPullRequestManifest(
+  github: ScmProvider,
+  targetBranch: string,
+  argv: DiffArgs
+): Promise<Manifest> {
+  if (argv.releaseType) {
+    return await Manifest.fromConfig(
+      github,
+      targetBranch,
+      {
+        releaseType: argv.releaseType,
+        component: argv.component,
+        packageName: argv.packageName,
+        draftPullRequest: argv.draftPullRequest,
+        bumpMinorPreMajor: argv.bumpMinorPreMajor,
+        bumpPatchForMinorPreMajor: argv.bumpPatchForMinorPreMajor,
+        prereleaseType: argv.prereleaseType,
+        calverFormat: argv.calverFormat,
+        changelogPath: argv.changelogPath,
+        changelogType: argv.changelogType,
+        changelogHost: argv.changelogHost,
+        pullRequestTitlePattern: argv.pullRequestTitlePattern,
+        pullRequestHeader: argv.pullRequestHeader,
+        pullRequestFooter: argv.pullRequestFooter,
+        componentNoSpace: argv.componentNoSpace,
+        changelogSections: argv.changelogSections,
+        releaseAs: argv.releaseAs,
+        versioning: argv.versioningStrategy,
+        extraFiles: argv.extraFiles,
+        versionFile: argv.versionFile,
+        includeComponentInTag: argv.monorepoTags,
+        includeVInTag: argv.includeVInTags,
+      },
+      extractManifestOptions(argv),
+      argv.path
+    );
+  } else {
+    const manifestOptions = extractManifestOptions(argv);
+    return await Manifest.fromManifest(
+      github,
+      targetBranch,
+      argv.configFile,
+      argv.manifestFile,
+      manifestOptions,
+      argv.path,
+      argv.releaseAs
+    );
+  }
+}
+
 const createReleasePullRequestCommand: yargs.CommandModule<
   {},
   CreatePullRequestArgs
@@ -448,7 +582,9 @@ const createReleasePullRequestCommand: yargs.CommandModule<
     return manifestOptions(
       manifestConfigOptions(
         taggingOptions(
-          pullRequestOptions(pullRequestStrategyOptions(gitHubOptions(yargs)))
+          pullRequestOptions(
+            pullRequestStrategyOptions(outputOptions(gitHubOptions(yargs)))
+          )
         )
       )
     );
@@ -456,51 +592,18 @@ const createReleasePullRequestCommand: yargs.CommandModule<
   async handler(argv) {
     const github = await buildGitHub(argv);
     const targetBranch = argv.targetBranch || github.repository.defaultBranch;
-    let manifest: Manifest;
-    if (argv.releaseType) {
-      manifest = await Manifest.fromConfig(
-        github,
-        targetBranch,
-        {
-          releaseType: argv.releaseType,
-          component: argv.component,
-          packageName: argv.packageName,
-          draftPullRequest: argv.draftPullRequest,
-          bumpMinorPreMajor: argv.bumpMinorPreMajor,
-          bumpPatchForMinorPreMajor: argv.bumpPatchForMinorPreMajor,
-          prereleaseType: argv.prereleaseType,
-          changelogPath: argv.changelogPath,
-          changelogType: argv.changelogType,
-          changelogHost: argv.changelogHost,
-          pullRequestTitlePattern: argv.pullRequestTitlePattern,
-          pullRequestHeader: argv.pullRequestHeader,
-          pullRequestFooter: argv.pullRequestFooter,
-          componentNoSpace: argv.componentNoSpace,
-          changelogSections: argv.changelogSections,
-          releaseAs: argv.releaseAs,
-          versioning: argv.versioningStrategy,
-          extraFiles: argv.extraFiles,
-          versionFile: argv.versionFile,
-          includeComponentInTag: argv.monorepoTags,
-          includeVInTag: argv.includeVInTags,
-        },
-        extractManifestOptions(argv),
-        argv.path
-      );
-    } else {
-      const manifestOptions = extractManifestOptions(argv);
-      manifest = await Manifest.fromManifest(
-        github,
-        targetBranch,
-        argv.configFile,
-        argv.manifestFile,
-        manifestOptions,
-        argv.path,
-        argv.releaseAs
-      );
-    }
+    const manifest = await buildPullRequestManifest(github, targetBranch, argv);
 
-    if (argv.dryRun) {
+    if (argv.dryRun && argv.outputFormat === 'json') {
+      const pullRequests = await manifest.buildPullRequests();
+      printJson({
+        pullRequests: await buildPullRequestPlans(
+          github,
+          pullRequests,
+          targetBranch
+        ),
+      });
+    } else if (argv.dryRun) {
       const pullRequests = await manifest.buildPullRequests();
       console.log(`Would open ${pullRequests.length} pull requests`);
       console.log('fork:', manifest.fork);
@@ -542,13 +645,54 @@ const createReleasePullRequestCommand: yargs.CommandModule<
   },
 };
 
+const diffCommand: yargs.CommandModule<{}, DiffArgs> = {
+  command: 'diff',
+  describe: 'print a unified diff of the files a release PR would update',
+  builder(yargs) {
+    return manifestOptions(
+      manifestConfigOptions(
+        taggingOptions(
+          pullRequestOptions(pullRequestStrategyOptions(gitHubOptions(yargs)))
+        )
+      )
+    );
+  },
+  async handler(argv) {
+    const github = await buildGitHub(argv);
+    const targetBranch = argv.targetBranch || github.repository.defaultBranch;
+    const manifest = await buildPullRequestManifest(github, targetBranch, argv);
+    const pullRequests = await manifest.buildPullRequests();
+    if (pullRequests.length === 0) {
+      logger.info('No release pull requests to open');
+      return;
+    }
+    const plans = await buildPullRequestPlans(
+      github,
+      pullRequests,
+      targetBranch
+    );
+    for (const plan of plans) {
+      console.log(chalk.bold(`${plan.title} (${plan.headRefName})`));
+      for (const update of plan.updates) {
+        if (update.diff) {
+          console.log(colorizeDiff(update.diff));
+        } else {
+          console.log(chalk.dim(`${update.path}: no changes`));
+        }
+      }
+    }
+  },
+};
+
 const createReleaseCommand: yargs.CommandModule<{}, CreateReleaseArgs> = {
   command: 'github-release',
   describe: 'create a GitHub release from a release PR',
   builder(yargs) {
     return releaseOptions(
       manifestOptions(
-        manifestConfigOptions(taggingOptions(gitHubOptions(yargs)))
+        manifestConfigOptions(
+          taggingOptions(outputOptions(gitHubOptions(yargs)))
+        )
       )
     );
   },
@@ -586,7 +730,10 @@ const createReleaseCommand: yargs.CommandModule<{}, CreateReleaseArgs> = {
       );
     }
 
-    if (argv.dryRun) {
+    if (argv.dryRun && argv.outputFormat === 'json') {
+      const releases = await manifest.buildReleases();
+      printJson({releases: buildReleasePlans(releases)});
+    } else if (argv.dryRun) {
       const releases = await manifest.buildReleases();
       logger.info(`Would tag ${releases.length} releases:`);
       for (const release of releases) {
@@ -615,7 +762,9 @@ const createManifestPullRequestCommand: yargs.CommandModule<
   describe: 'create a release-PR using a manifest file',
   deprecated: 'use release-pr instead.',
   builder(yargs) {
-    return manifestOptions(pullRequestOptions(gitHubOptions(yargs)));
+    return manifestOptions(
+      pullRequestOptions(outputOptions(gitHubOptions(yargs)))
+    );
   },
   async handler(argv) {
     logger.warn('manifest-pr is deprecated. Please use release-pr instead.');
@@ -633,7 +782,16 @@ const createManifestPullRequestCommand: yargs.CommandModule<
       manifestOptions
     );
 
-    if (argv.dryRun) {
+    if (argv.dryRun && argv.outputFormat === 'json') {
+      const pullRequests = await manifest.buildPullRequests();
+      printJson({
+        pullRequests: await buildPullRequestPlans(
+          github,
+          pullRequests,
+          targetBranch
+        ),
+      });
+    } else if (argv.dryRun) {
       const pullRequests = await manifest.buildPullRequests();
       console.log(`Would open ${pullRequests.length} pull requests`);
       console.log('fork:', manifest.fork);
@@ -666,7 +824,7 @@ const createManifestReleaseCommand: yargs.CommandModule<
   describe: 'create releases/tags from last release-PR using a manifest file',
   deprecated: 'use github-release instead',
   builder(yargs) {
-    return manifestOptions(releaseOptions(gitHubOptions(yargs)));
+    return manifestOptions(releaseOptions(outputOptions(gitHubOptions(yargs))));
   },
   async handler(argv) {
     logger.warn(
@@ -686,7 +844,10 @@ const createManifestReleaseCommand: yargs.CommandModule<
       manifestOptions
     );
 
-    if (argv.dryRun) {
+    if (argv.dryRun && argv.outputFormat === 'json') {
+      const releases = await manifest.buildReleases();
+      printJson({releases: buildReleasePlans(releases)});
+    } else if (argv.dryRun) {
       const releases = await manifest.buildReleases();
       logger.info(releases);
     } else {
@@ -708,6 +869,12 @@ const bootstrapCommand: yargs.CommandModule<{}, BootstrapArgs> = {
       .option('initial-version', {
         description: 'current version',
       })
+      .option('discover', {
+        describe:
+          'discover all packages in the repository and configure a release for each',
+        type: 'boolean',
+        default: false,
+      })
       .coerce('path', arg => {
         return arg || ROOT_PROJECT_PATH;
       });
@@ -736,6 +903,7 @@ const bootstrapCommand: yargs.CommandModule<{}, BootstrapArgs> = {
       bumpMinorPreMajor: argv.bumpMinorPreMajor,
       bumpPatchForMinorPreMajor: argv.bumpPatchForMinorPreMajor,
       prereleaseType: argv.prereleaseType,
+      calverFormat: argv.calverFormat,
       changelogPath: argv.changelogPath,
       changelogHost: argv.changelogHost,
       changelogSections: argv.changelogSections,
@@ -744,11 +912,16 @@ const bootstrapCommand: yargs.CommandModule<{}, BootstrapArgs> = {
       extraFiles: argv.extraFiles,
       versionFile: argv.versionFile,
     };
+    // the release type, package name and component are detected per
+    // package when discovering
+    const discoveryConfig = {
+      ...releaserConfig,
+      component: undefined,
+    };
     if (argv.dryRun) {
-      const pullRequest = await await bootstrapper.buildPullRequest(
-        path,
-        releaserConfig
-      );
+      const pullRequest = argv.discover
+        ? await bootstrapper.buildDiscoveryPullRequest(discoveryConfig)
+        : await bootstrapper.buildPullRequest(path, releaserConfig);
       console.log('Would open 1 pull request');
       console.log('title:', pullRequest.title);
       console.log('branch:', pullRequest.headBranchName);
@@ -779,7 +952,54 @@ const bootstrapCommand: yargs.CommandModule<{}, BootstrapArgs> = {
         }
       }
     } else {
-      const pullRequest = await bootstrapper.bootstrap(path, releaserConfig);
+      const pullRequest = argv.discover
+        ? await bootstrapper.bootstrapDiscovered(discoveryConfig)
+        : await bootstrapper.bootstrap(path, releaserConfig);
+      console.log(pullRequest);
+    }
+  },
+};
+
+const migrateCommand: yargs.CommandModule<{}, MigrateArgs> = {
+  command: 'migrate',
+  describe:
+    'convert semantic-release, changesets or standard-version config to a release manifest',
+  builder(yargs) {
+    return manifestOptions(gitHubOptions(yargs)).option('from', {
+      describe:
+        'the release tool to migrate from. Defaults to the first one configured',
+      choices: Object.keys(MIGRATION_CONFIG_FILES) as MigrationSource[],
+    });
+  },
+  async handler(argv) {
+    const github = await buildGitHub(argv);
+    const targetBranch =
+      argv.targetBranch ||
+      argv.defaultBranch ||
+      github.repository.defaultBranch;
+    const migrator = new Migrator(
+      github,
+      targetBranch,
+      argv.manifestFile,
+      argv.configFile
+    );
+    if (argv.dryRun) {
+      const pullRequest = await migrator.buildPullRequest(argv.from);
+      console.log('Would open 1 pull request');
+      console.log('title:', pullRequest.title);
+      console.log('branch:', pullRequest.headBranchName);
+      console.log('body:', pullRequest.body);
+      const changes = await github.buildChangeSet(
+        pullRequest.updates,
+        targetBranch
+      );
+      for (const update of pullRequest.updates) {
+        const change = changes.get(update.path);
+        console.log(`${update.path}:`);
+        console.log(change?.content);
+      }
+    } else {
+      const pullRequest = await migrator.migrate(argv.from);
       console.log(pullRequest);
     }
   },
@@ -809,7 +1029,168 @@ const debugConfigCommand: yargs.CommandModule<{}, DebugConfigArgs> = {
   },
 };
 
-async function buildGitHub(argv: GitHubArgs): Promise<GitHub> {
+const lintCommitsCommand: yargs.CommandModule<{}, LintCommitsArgs> = {
+  command: 'lint-commits',
+  describe:
+    'report commit messages that are not valid conventional commits for this repository',
+  builder(yargs) {
+    return manifestOptions(outputOptions(gitHubOptions(yargs)))
+      .option('from', {
+        describe: 'lint the commits on the target branch after this SHA',
+        type: 'string',
+      })
+      .option('pull-request', {
+        describe: 'lint the title and body of this pull request',
+        type: 'number',
+      })
+      .option('message', {
+        describe: 'lint a commit message, or a path to a file containing it',
+        type: 'string',
+        coerce(arg?: string) {
+          return arg === undefined ? arg : coerceOption(arg);
+        },
+      })
+      .option('rules', {
+        describe:
+          'comma-separated list of <rule>=<error|warning|off>, e.g., scope-enum=error',
+        type: 'string',
+        coerce(arg?: string) {
+          return arg === undefined ? arg : parseCommitLintRules(arg);
+        },
+      })
+      .option('scopes', {
+        describe: 'comma-separated list of allowed scopes besides components',
+        type: 'string',
+        coerce(arg?: string) {
+          return arg === undefined ? arg : arg.split(',');
+        },
+      })
+      .check(argv => {
+        if (
+          [argv.from, argv.pullRequest, argv.message].filter(
+            arg => arg !== undefined
+          ).length !== 1
+        ) {
+          throw new Error(
+            'Exactly one of --from, --pull-request or --message is required'
+          );
+        }
+        return true;
+      });
+  },
+  async handler(argv) {
+    const github = await buildGitHub(argv);
+    const targetBranch =
+      argv.targetBranch ||
+      argv.defaultBranch ||
+      github.repository.defaultBranch;
+    const manifest = await Manifest.fromManifest(
+      github,
+      targetBranch,
+      argv.configFile,
+      argv.manifestFile
+    );
+
+    let commits: Commit[];
+    if (argv.message !== undefined) {
+      commits = [{sha: '', message: argv.message}];
+    } else if (argv.pullRequest !== undefined) {
+      const pullRequest = await github.getPullRequest(argv.pullRequest);
+      commits = [
+        {
+          sha: pullRequest.sha ?? '',
+          message: `${pullRequest.title}\n\n${pullRequest.body}`,
+          pullRequest,
+        },
+      ];
+    } else {
+      let found = false;
+      commits = await github.commitsSince(
+        targetBranch,
+        commit => {
+          found = commit.sha.startsWith(argv.from!);
+          return found;
+        },
+        {maxResults: manifest.commitSearchDepth}
+      );
+      if (!found) {
+        throw new ConfigurationError(
+          `Commit ${argv.from} not found in the last ${manifest.commitSearchDepth} commits of ${targetBranch}`,
+          'core',
+          `${github.repository.owner}/${github.repository.repo}`
+        );
+      }
+    }
+
+    const changelogSections = Object.values(manifest.repositoryConfig).flatMap(
+      config => config.changelogSections ?? []
+    );
+    const components = Object.keys(await manifest.getPathsByComponent());
+    const result = lintCommits(commits, {
+      changelogSections,
+      scopes: [...components.filter(Boolean), ...(argv.scopes ?? [])],
+      rules: argv.rules,
+    });
+
+    if (argv.outputFormat === 'json') {
+      printJson(result);
+    } else {
+      for (const problem of result.problems) {
+        const sha = problem.sha ? `${problem.sha.substring(0, 7)} ` : '';
+        const message = `${sha}${problem.header}\n  ${problem.message} [${problem.rule}]`;
+        if (problem.severity === 'error') {
+          logger.error(message);
+        } else {
+          logger.warn(message);
+        }
+      }
+      logger.info(
+        `Linted ${commits.length} commits: ${result.errorCount} errors, ${result.warningCount} warnings`
+      );
+    }
+    if (result.errorCount > 0) {
+      process.exitCode = 1;
+    }
+  },
+};
+
+async function buildGitHub(argv: GitHubArgs): Promise<ScmProvider> {
+  // --api-url defaults to the GitHub API, which is meaningless for
+  // other providers
+  const apiUrl = argv.apiUrl === GH_API_URL ? undefined : argv.apiUrl;
+  if (argv.cacheDir && argv.provider !== 'github') {
+    throw new Error(
+      `--cache-dir is not supported by the ${argv.provider} provider`
+    );
+  }
+  if (argv.provider === 'gitlab') {
+    const [owner, repo] = parseRepoUrl(argv.repoUrl!, 'gitlab');
+    return await GitLab.create({
+      owner,
+      repo,
+      token: argv.token,
+      apiUrl,
+    });
+  }
+  if (argv.provider === 'local') {
+    // the repository is a path to a local clone
+    return await LocalGit.create({
+      path: argv.repoUrl!,
+      defaultBranch: argv.targetBranch || argv.defaultBranch,
+    });
+  }
+  if (argv.provider === 'gitea') {
+    if (!apiUrl) {
+      throw new Error('--api-url is required when using the gitea provider');
+    }
+    const [owner, repo] = parseRepoUrl(argv.repoUrl!, 'gitea');
+    return await Gitea.create({
+      owner,
+      repo,
+      token: argv.token,
+      apiUrl,
+    });
+  }
   const [owner, repo] = parseGithubRepoUrl(argv.repoUrl);
   const github = await GitHub.create({
     owner,
@@ -817,17 +1198,49 @@ async function buildGitHub(argv: GitHubArgs): Promise<GitHub> {
     token: argv.token!,
     apiUrl: argv.apiUrl,
     graphqlUrl: argv.graphqlUrl,
+    ...(argv.cacheDir ? {cacheDir: argv.cacheDir} : {}),
   });
   return github;
 }
 
+function printJson(output: object) {
+  console.log(JSON.stringify(output, null, 2));
+}
+
+/**
+ * Parse an `owner/repo` pair from a repository URL or path. Unlike
+ * GitHub, the owner may contain slashes (e.g. GitLab subgroups).
+ *
+ * @throws {ConfigurationError} if the URL does not name an owner and repo
+ */
+function parseRepoUrl(repoUrl: string, provider: Provider): [string, string] {
+  const path = repoUrl
+    .replace(/^(?:[\w+]+:\/\/|git@)[^/:]+[/:]/, '')
+    .replace(/\.git$/, '')
+    .replace(/\/$/, '');
+  const index = path.lastIndexOf('/');
+  const owner = path.slice(0, index);
+  const repo = path.slice(index + 1);
+  if (index <= 0 || !repo || owner.split('/').some(part => !part)) {
+    throw new ConfigurationError(
+      `--repo-url must be in the format <owner>/<repo>, got ${repoUrl}`,
+      provider,
+      repoUrl
+    );
+  }
+  return [owner, repo];
+}
+
 export const parser = yargs
   .command(createReleasePullRequestCommand)
+  .command(diffCommand)
   .command(createReleaseCommand)
   .command(createManifestPullRequestCommand)
   .command(createManifestReleaseCommand)
   .command(bootstrapCommand)
+  .command(migrateCommand)
   .command(debugConfigCommand)
+  .command(lintCommitsCommand)
   .option('debug', {
     describe: 'print verbose errors (use only for local debugging).',
     default: false,
@@ -12,31 +12,39 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
-import {GitHub} from './github';
+import {ScmProvider} from './scm-provider';
 import {
   DEFAULT_RELEASE_PLEASE_MANIFEST,
   DEFAULT_RELEASE_PLEASE_CONFIG,
   ReleaserConfig,
   ROOT_PROJECT_PATH,
+  PluginType,
 } from './manifest';
 import {PullRequest} from './pull-request';
 import {Version, VersionsMap} from './version';
 import {Update} from './update';
 import {ReleasePleaseManifest} from './updaters/release-please-manifest';
 import {ReleasePleaseConfig} from './updaters/release-please-config';
+import {mergeUpdates} from './updaters/composite';
+import {ConfigurationError} from './errors';
+import {
+  DiscoveredPackage,
+  discoverPackages,
+  suggestWorkspacePlugins,
+} from './util/package-discovery';
 
 interface BootstrapPullRequest extends PullRequest {
   updates: Update[];
 }
 
 export class Bootstrapper {
-  private github: GitHub;
+  private github: ScmProvider;
   private targetBranch: string;
   private manifestFile: string;
   private configFile: string;
   private initialVersion: Version;
   constructor(
-    github: GitHub,
+    github: ScmProvider,
     targetBranch: string,
     manifestFile: string = DEFAULT_RELEASE_PLEASE_MANIFEST,
     configFile: string = DEFAULT_RELEASE_PLEASE_CONFIG,
@@ -60,6 +68,86 @@ export class Bootstrapper {
     );
   }
 
+  /**
+   * Discover all packages in the repository and open a single pull request
+   * configuring releases for them.
+   *
+   * @param {Partial<ReleaserConfig>} config Options to apply to every
+   *   discovered package
+   * @returns {PullRequest} The opened pull request
+   */
+  async bootstrapDiscovered(
+    config: Partial<ReleaserConfig> = {}
+  ): Promise<PullRequest> {
+    const pullRequest = await this.buildDiscoveryPullRequest(config);
+    return await this.github.createPullRequest(
+      pullRequest,
+      this.targetBranch,
+      pullRequest.title,
+      pullRequest.updates,
+      {}
+    );
+  }
+
+  /**
+   * Build a pull request that configures releases for every package found
+   * in the repository. Versions are seeded from the package files or the
+   * latest existing tags, falling back to the initial version.
+   *
+   * @param {Partial<ReleaserConfig>} config Options to apply to every
+   *   discovered package
+   * @returns {BootstrapPullRequest} The pull request to open
+   */
+  async buildDiscoveryPullRequest(
+    config: Partial<ReleaserConfig> = {}
+  ): Promise<BootstrapPullRequest> {
+    const packages = await discoverPackages(this.github, this.targetBranch);
+    if (packages.length === 0) {
+      throw new ConfigurationError(
+        'No packages found to bootstrap',
+        'bootstrap',
+        `${this.github.repository.owner}/${this.github.repository.repo}`
+      );
+    }
+    const plugins = suggestWorkspacePlugins(packages);
+    const versionsMap: VersionsMap = new Map();
+    const updates: Update[] = [];
+    for (const pkg of packages) {
+      versionsMap.set(pkg.path, pkg.version ?? this.initialVersion);
+      updates.push({
+        path: this.configFile,
+        createIfMissing: true,
+        updater: new ReleasePleaseConfig(
+          pkg.path,
+          {
+            ...config,
+            releaseType: pkg.releaseType,
+            packageName: pkg.packageName,
+          },
+          {plugins}
+        ),
+      });
+    }
+    updates.push({
+      path: this.manifestFile,
+      createIfMissing: true,
+      updater: new ReleasePleaseManifest({
+        version: this.initialVersion,
+        versionsMap,
+      }),
+    });
+    return {
+      title: `chore: bootstrap releases for ${packages.length} packages`,
+      body: buildDiscoveryBody(packages, plugins, versionsMap),
+      baseBranchName: this.targetBranch,
+      headBranchName: 'release-please/bootstrap/discovered',
+      updates: mergeUpdates(updates),
+      number: -1,
+      labels: [],
+      files: [],
+    };
+  }
+
   async buildPullRequest(
     path: string,
     config: ReleaserConfig
@@ -93,3 +181,29 @@ export class Bootstrapper {
     };
   }
 }
+
+function buildDiscoveryBody(
+  packages: DiscoveredPackage[],
+  plugins: PluginType[],
+  versionsMap: VersionsMap
+): string {
+  const lines = [
+    'Configuring release-please for discovered packages:',
+    '',
+    '| Path | Release type | Version | Detected from |',
+    '| ---- | ------------ | ------- | ------------- |',
+    ...packages.map(
+      pkg =>
+        `| \`${pkg.path}\` | ${pkg.releaseType} | ${versionsMap.get(
+          pkg.path
+        )} | \`${pkg.packageFile}\` |`
+    ),
+  ];
+  if (plugins.length > 0) {
+    lines.push(
+      '',
+      `Suggested plugins: ${plugins.map(plugin => `\`${plugin}\``).join(', ')}`
+    );
+  }
+  return lines.join('\n');
+}
@@ -14,11 +14,11 @@
 
 import {ChangelogNotes, BuildNotesOptions} from '../changelog-notes';
 import {ConventionalCommit} from '../commit';
-import {GitHub} from '../github';
+import {ScmProvider} from '../scm-provider';
 
 export class GitHubChangelogNotes implements ChangelogNotes {
-  private github: GitHub;
-  constructor(github: GitHub) {
+  private github: ScmProvider;
+  constructor(github: ScmProvider) {
     this.github = github;
   }
   async buildNotes(
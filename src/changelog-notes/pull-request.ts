@@ -0,0 +1,224 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {ChangelogNotes, BuildNotesOptions} from '../changelog-notes';
+import {Commit, ConventionalCommit, parseConventionalCommits} from '../commit';
+
+const DEFAULT_HOST = 'https://github.com';
+const OTHER_CHANGES_SECTION = 'Other Changes';
+// GitHub reports the author association as of the time the commit history
+// is fetched, not when the pull request was opened. Once their first pull
+// request is merged, an author is usually reported as a CONTRIBUTOR, so
+// first contributions are only detected on a best-effort basis.
+const FIRST_TIME_ASSOCIATIONS = new Set([
+  'FIRST_TIMER',
+  'FIRST_TIME_CONTRIBUTOR',
+]);
+
+/**
+ * Default mapping of pull request label to changelog section. Sections are
+ * rendered in the order they first appear in the mapping.
+ */
+export const DEFAULT_LABEL_SECTIONS: Record<string, string> = {
+  feature: 'Features',
+  enhancement: 'Features',
+  bug: 'Bug Fixes',
+  documentation: 'Documentation',
+  dependencies: 'Dependencies',
+};
+
+interface PullRequestChangelogNotesOptions {
+  labelSections?: Record<string, string>;
+}
+
+interface Entry {
+  title: string;
+  number?: number;
+  sha: string;
+  labels: string[];
+  author?: string;
+  firstContribution: boolean;
+  breaking: boolean;
+}
+
+/**
+ * Builds release notes from the merged pull requests attached to each commit,
+ * grouping entries by pull request label rather than by commit type. All
+ * data comes from the commit history that was already fetched, so no extra
+ * API requests are made. Merged pull requests whose commit is not a
+ * conventional commit are listed too, if the raw commits are passed as
+ * the `commits` option.
+ */
+export class PullRequestChangelogNotes implements ChangelogNotes {
+  private labelSections: Record<string, string>;
+
+  constructor(options: PullRequestChangelogNotesOptions = {}) {
+    this.labelSections = options.labelSections ?? DEFAULT_LABEL_SECTIONS;
+  }
+
+  async buildNotes(
+    commits: ConventionalCommit[],
+    options: BuildNotesOptions
+  ): Promise<string> {
+    const repoUrl = `${options.host || DEFAULT_HOST}/${options.owner}/${
+      options.repository
+    }`;
+    const entries = collectEntries(commits, options.commits ?? []);
+
+    const sections = new Map<string, Entry[]>();
+    for (const section of Object.values(this.labelSections)) {
+      sections.set(section, []);
+    }
+    sections.set(OTHER_CHANGES_SECTION, []);
+    for (const entry of entries) {
+      const label = Object.keys(this.labelSections).find(label =>
+        entry.labels.includes(label)
+      );
+      const section = label ? this.labelSections[label] : OTHER_CHANGES_SECTION;
+      sections.get(section)!.push(entry);
+    }
+
+    const date = new Date().toLocaleDateString('en-CA');
+    const header = options.previousTag
+      ? `## [${options.version}](${repoUrl}/compare/${options.previousTag}...${options.currentTag}) (${date})`
+      : `## ${options.version} (${date})`;
+    const blocks: string[] = [];
+    const breaking = entries.filter(entry => entry.breaking);
+    if (breaking.length > 0) {
+      blocks.push(
+        formatBlock(
+          '⚠ BREAKING CHANGES',
+          breaking.map(entry => formatEntry(entry, repoUrl))
+        )
+      );
+    }
+    for (const [section, sectionEntries] of sections) {
+      if (sectionEntries.length > 0) {
+        blocks.push(
+          formatBlock(
+            section,
+            sectionEntries.map(entry => formatEntry(entry, repoUrl))
+          )
+        );
+      }
+    }
+
+    const contributors = new Set<string>();
+    const firstContributions = new Map<string, Entry>();
+    for (const entry of entries) {
+      if (!entry.author) {
+        continue;
+      }
+      contributors.add(entry.author);
+      if (entry.firstContribution && !firstContributions.has(entry.author)) {
+        firstContributions.set(entry.author, entry);
+      }
+    }
+    if (contributors.size > 0) {
+      blocks.push(
+        formatBlock(
+          'Contributors',
+          [...contributors].map(author => `* @${author}`)
+        )
+      );
+    }
+    if (firstContributions.size > 0) {
+      blocks.push(
+        formatBlock(
+          'New Contributors',
+          [...firstContributions].map(
+            ([author, entry]) =>
+              `* @${author} made their first contribution in ${formatLink(
+                entry,
+                repoUrl
+              )}`
+          )
+        )
+      );
+    }
+    return blocks.length > 0 ? `${header}\n\n\n${blocks.join('\n\n')}` : header;
+  }
+}
+
+/**
+ * Collapses the parsed commits into one entry per pull request. Commits that
+ * were pushed without a pull request are listed using their own subject.
+ * Raw commits that could not be parsed are listed if they belong to a pull
+ * request.
+ */
+function collectEntries(
+  commits: ConventionalCommit[],
+  rawCommits: Commit[]
+): Entry[] {
+  const entries = new Map<string, Entry>();
+  for (const commit of commits) {
+    const pullRequest = commit.pullRequest;
+    const key = pullRequest ? `#${pullRequest.number}` : commit.sha;
+    const existing = entries.get(key);
+    if (existing) {
+      existing.breaking ||= commit.breaking;
+      continue;
+    }
+    entries.set(key, {
+      title: pullRequest?.title ?? commit.bareMessage,
+      number: pullRequest?.number,
+      sha: commit.sha,
+      labels: pullRequest?.labels ?? [],
+      author: pullRequest?.author,
+      firstContribution: FIRST_TIME_ASSOCIATIONS.has(
+        pullRequest?.authorAssociation ?? ''
+      ),
+      breaking: commit.breaking,
+    });
+  }
+  for (const commit of rawCommits) {
+    const pullRequest = commit.pullRequest;
+    // conventional commits missing from the parsed commits were filtered
+    // on purpose
+    if (
+      !pullRequest ||
+      entries.has(`#${pullRequest.number}`) ||
+      parseConventionalCommits([commit]).length > 0
+    ) {
+      continue;
+    }
+    entries.set(`#${pullRequest.number}`, {
+      title: pullRequest.title,
+      number: pullRequest.number,
+      sha: commit.sha,
+      labels: pullRequest.labels,
+      author: pullRequest.author,
+      firstContribution: FIRST_TIME_ASSOCIATIONS.has(
+        pullRequest.authorAssociation ?? ''
+      ),
+      breaking: false,
+    });
+  }
+  return [...entries.values()];
+}
+
+function formatLink(entry: Entry, repoUrl: string): string {
+  return entry.number
+    ? `[#${entry.number}](${repoUrl}/pull/${entry.number})`
+    : `[${entry.sha.substring(0, 7)}](${repoUrl}/commit/${entry.sha})`;
+}
+
+function formatBlock(title: string, lines: string[]): string {
+  return `### ${title}\n\n${lines.join('\n')}`;
+}
+
+function formatEntry(entry: Entry, repoUrl: string): string {
+  const author = entry.author ? ` by @${entry.author}` : '';
+  return `* ${entry.title}${author} in ${formatLink(entry, repoUrl)}`;
+}
@@ -395,10 +395,23 @@ function splitMessages(message: string): string[] {
   return [...conventionalCommits, ...messages.slice(1)];
 }
 
+/**
+ * Called for each message of a raw commit that could not be parsed as a
+ * conventional commit.
+ */
+export type UnparsedCommitCallback = (
+  commit: Commit,
+  message: string,
+  error: Error
+) => void;
+
 /**
  * Given a list of raw commits, parse and expand into conventional commits.
  *
  * @param commits {Commit[]} The input commits
+ * @param logger {Logger} Optional. Logger for unparseable commits
+ * @param onUnparsed {UnparsedCommitCallback} Optional. Called for each
+ *   message that is not a conventional commit and is dropped
  *
  * @returns {ConventionalCommit[]} Parsed and expanded commits. There may be
  *   more commits returned as a single raw commit may contain multiple release
@@ -406,14 +419,13 @@ function splitMessages(message: string): string[] {
  */
 export function parseConventionalCommits(
   commits: Commit[],
-  logger: Logger = defaultLogger
+  logger: Logger = defaultLogger,
+  onUnparsed?: UnparsedCommitCallback
 ): ConventionalCommit[] {
   const conventionalCommits: ConventionalCommit[] = [];
 
   for (const commit of commits) {
-    for (const commitMessage of splitMessages(
-      preprocessCommitMessage(commit)
-    )) {
+    for (const commitMessage of splitCommitMessages(commit)) {
       try {
         for (const parsedCommit of parseCommits(commitMessage)) {
           const breaking =
@@ -439,6 +451,7 @@ export function parseConventionalCommits(
           }`
         );
         logger.debug(`error message: ${_err}`);
+        onUnparsed?.(commit, commitMessage, _err as Error);
       }
     }
   }
@@ -446,6 +459,18 @@ export function parseConventionalCommits(
   return conventionalCommits;
 }
 
+/**
+ * Splits a raw commit into the individual messages that are parsed as
+ * conventional commits, honoring any BEGIN_COMMIT_OVERRIDE section of its
+ * pull request.
+ *
+ * @param commit {Commit} The input commit
+ * @returns {string[]} The commit messages
+ */
+export function splitCommitMessages(commit: Commit): string[] {
+  return splitMessages(preprocessCommitMessage(commit));
+}
+
 function preprocessCommitMessage(commit: Commit): string {
   // look for 'BEGIN_COMMIT_OVERRIDE' section of pull request body
   if (commit.pullRequest) {
@@ -91,3 +91,16 @@ export class FileNotFoundError extends Error {
     this.name = FileNotFoundError.name;
   }
 }
+
+export class GitCommandError extends Error {
+  args: string[];
+  exitCode: number | null;
+  stderr: string;
+  constructor(args: string[], exitCode: number | null, stderr: string) {
+    super(`git ${args.join(' ')} failed with exit code ${exitCode}: ${stderr}`);
+    this.args = args;
+    this.exitCode = exitCode;
+    this.stderr = stderr;
+    this.name = GitCommandError.name;
+  }
+}
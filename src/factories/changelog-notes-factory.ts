@@ -12,18 +12,20 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
-import {GitHub} from '../github';
+import {ScmProvider} from '../scm-provider';
 import {ChangelogNotes, ChangelogSection} from '../changelog-notes';
 import {GitHubChangelogNotes} from '../changelog-notes/github';
 import {DefaultChangelogNotes} from '../changelog-notes/default';
+import {PullRequestChangelogNotes} from '../changelog-notes/pull-request';
 import {ConfigurationError} from '../errors';
 
 export type ChangelogNotesType = string;
 
 export interface ChangelogNotesFactoryOptions {
   type: ChangelogNotesType;
-  github: GitHub;
+  github: ScmProvider;
   changelogSections?: ChangelogSection[];
+  changelogLabelSections?: Record<string, string>;
   commitPartial?: string;
   headerPartial?: string;
   mainTemplate?: string;
@@ -36,6 +38,10 @@ export type ChangelogNotesBuilder = (
 const changelogNotesFactories: Record<string, ChangelogNotesBuilder> = {
   github: options => new GitHubChangelogNotes(options.github),
   default: options => new DefaultChangelogNotes(options),
+  'pull-request': options =>
+    new PullRequestChangelogNotes({
+      labelSections: options.changelogLabelSections,
+    }),
 };
 
 export function buildChangelogNotes(
@@ -0,0 +1,64 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {NotificationConfig} from '../manifest';
+import {ScmProvider} from '../scm-provider';
+import {Notifier} from '../notifier';
+import {WebhookNotifier} from '../notifiers/webhook';
+import {SlackNotifier} from '../notifiers/slack';
+import {TeamsNotifier} from '../notifiers/teams';
+import {ConfigurationError} from '../errors';
+import {Logger} from '../util/logger';
+
+export interface NotifierFactoryOptions extends NotificationConfig {
+  github: ScmProvider;
+  logger?: Logger;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  fetch?: any;
+}
+
+export type NotifierBuilder = (options: NotifierFactoryOptions) => Notifier;
+
+const notifierFactories: Record<string, NotifierBuilder> = {
+  webhook: options => new WebhookNotifier(options),
+  slack: options => new SlackNotifier(options),
+  teams: options => new TeamsNotifier(options),
+};
+
+export function buildNotifier(options: NotifierFactoryOptions): Notifier {
+  const builder = notifierFactories[options.type];
+  if (builder) {
+    return builder(options);
+  }
+  throw new ConfigurationError(
+    `Unknown notification type: ${options.type}`,
+    'core',
+    `${options.github.repository.owner}/${options.github.repository.repo}`
+  );
+}
+
+export function registerNotifier(
+  name: string,
+  notifierBuilder: NotifierBuilder
+) {
+  notifierFactories[name] = notifierBuilder;
+}
+
+export function unregisterNotifier(name: string) {
+  delete notifierFactories[name];
+}
+
+export function getNotifierTypes(): readonly string[] {
+  return Object.keys(notifierFactories).sort();
+}
@@ -18,14 +18,18 @@ import {
   RepositoryConfig,
   SentenceCasePluginConfig,
   GroupPriorityPluginConfig,
+  HelmWorkspacePluginConfig,
 } from '../manifest';
-import {GitHub} from '../github';
+import {ScmProvider} from '../scm-provider';
 import {ManifestPlugin} from '../plugin';
 import {LinkedVersions} from '../plugins/linked-versions';
 import {CargoWorkspace} from '../plugins/cargo-workspace';
 import {NodeWorkspace} from '../plugins/node-workspace';
 import {VersioningStrategyType} from './versioning-strategy-factory';
 import {MavenWorkspace} from '../plugins/maven-workspace';
+import {GradleWorkspace} from '../plugins/gradle-workspace';
+import {HelmWorkspace} from '../plugins/helm-workspace';
+import {DenoWorkspace} from '../plugins/deno-workspace';
 import {ConfigurationError} from '../errors';
 import {SentenceCase} from '../plugins/sentence-case';
 import {GroupPriority} from '../plugins/group-priority';
@@ -35,7 +39,7 @@ import {WorkspacePluginOptions} from '../plugins/workspace';
 
 export interface PluginFactoryOptions {
   type: PluginType;
-  github: GitHub;
+  github: ScmProvider;
   targetBranch: string;
   repositoryConfig: RepositoryConfig;
   manifestPath: string;
@@ -108,6 +112,45 @@ const pluginFactories: Record<string, PluginBuilder> = {
           !options.separatePullRequests,
       }
     ),
+  'gradle-workspace': options =>
+    new GradleWorkspace(
+      options.github,
+      options.targetBranch,
+      options.repositoryConfig,
+      {
+        ...options,
+        ...(options.type as WorkspacePluginOptions),
+        merge:
+          (options.type as WorkspacePluginOptions).merge ??
+          !options.separatePullRequests,
+      }
+    ),
+  'helm-workspace': options =>
+    new HelmWorkspace(
+      options.github,
+      options.targetBranch,
+      options.repositoryConfig,
+      {
+        ...options,
+        ...(options.type as HelmWorkspacePluginConfig),
+        merge:
+          (options.type as WorkspacePluginOptions).merge ??
+          !options.separatePullRequests,
+      }
+    ),
+  'deno-workspace': options =>
+    new DenoWorkspace(
+      options.github,
+      options.targetBranch,
+      options.repositoryConfig,
+      {
+        ...options,
+        ...(options.type as WorkspacePluginOptions),
+        merge:
+          (options.type as WorkspacePluginOptions).merge ??
+          !options.separatePullRequests,
+      }
+    ),
   'uv-workspace': options =>
     new UvWorkspace(
       options.github,
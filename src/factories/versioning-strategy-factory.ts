@@ -18,9 +18,12 @@ import {AlwaysBumpPatch} from '../versioning-strategies/always-bump-patch';
 import {AlwaysBumpMinor} from '../versioning-strategies/always-bump-minor';
 import {AlwaysBumpMajor} from '../versioning-strategies/always-bump-major';
 import {ServicePackVersioningStrategy} from '../versioning-strategies/service-pack';
-import {GitHub} from '../github';
+import {ScmProvider} from '../scm-provider';
+import {BumpRule} from '../versioning-strategies/default';
 import {ConfigurationError} from '../errors';
 import {PrereleaseVersioningStrategy} from '../versioning-strategies/prerelease';
+import {CalendarVersioningStrategy} from '../versioning-strategies/calver';
+import {Pep440VersioningStrategy} from '../versioning-strategies/pep440';
 
 export type VersioningStrategyType = string;
 
@@ -28,9 +31,11 @@ export interface VersioningStrategyFactoryOptions {
   type?: VersioningStrategyType;
   bumpMinorPreMajor?: boolean;
   bumpPatchForMinorPreMajor?: boolean;
+  bumpRules?: BumpRule[];
   prereleaseType?: string;
   prerelease?: boolean;
-  github: GitHub;
+  calverFormat?: string;
+  github: ScmProvider;
 }
 
 export type VersioningStrategyBuilder = (
@@ -44,6 +49,12 @@ const versioningTypes: Record<string, VersioningStrategyBuilder> = {
   'always-bump-major': options => new AlwaysBumpMajor(options),
   'service-pack': options => new ServicePackVersioningStrategy(options),
   prerelease: options => new PrereleaseVersioningStrategy(options),
+  pep440: options => new Pep440VersioningStrategy(options),
+  calver: options =>
+    new CalendarVersioningStrategy({
+      ...options,
+      format: options.calverFormat,
+    }),
 };
 
 export function buildVersioningStrategy(
@@ -15,16 +15,19 @@
 import {ConfigurationError} from './errors';
 import {buildChangelogNotes} from './factories/changelog-notes-factory';
 import {buildVersioningStrategy} from './factories/versioning-strategy-factory';
-import {GitHub} from './github';
+import {ScmProvider} from './scm-provider';
 import {ReleaserConfig} from './manifest';
 import {BaseStrategyOptions} from './strategies/base';
 import {Bazel} from './strategies/bazel';
 import {Dart} from './strategies/dart';
+import {Deno} from './strategies/deno';
+import {Docker} from './strategies/docker';
 import {DotnetYoshi} from './strategies/dotnet-yoshi';
 import {Elixir} from './strategies/elixir';
 import {Expo} from './strategies/expo';
 import {Go} from './strategies/go';
 import {GoYoshi} from './strategies/go-yoshi';
+import {Gradle} from './strategies/gradle';
 import {Helm} from './strategies/helm';
 import {Java} from './strategies/java';
 import {JavaYoshi} from './strategies/java-yoshi';
@@ -42,11 +45,13 @@ import {RubyYoshi} from './strategies/ruby-yoshi';
 import {Rust} from './strategies/rust';
 import {Sfdx} from './strategies/sfdx';
 import {Simple} from './strategies/simple';
+import {Swift} from './strategies/swift';
 import {TerraformModule} from './strategies/terraform-module';
 import {Strategy} from './strategy';
 import {AlwaysBumpPatch} from './versioning-strategies/always-bump-patch';
 import {DependencyManifest} from './versioning-strategies/dependency-manifest';
 import {ServicePackVersioningStrategy} from './versioning-strategies/service-pack';
+import {ChannelVersioningStrategy} from './versioning-strategies/channel';
 
 export * from './factories/changelog-notes-factory';
 export * from './factories/plugin-factory';
@@ -61,9 +66,11 @@ export type ReleaseType = string;
 export type ReleaseBuilder = (options: BaseStrategyOptions) => Strategy;
 
 export interface StrategyFactoryOptions extends ReleaserConfig {
-  github: GitHub;
+  github: ScmProvider;
   path?: string;
   targetBranch?: string;
+  // branch name => prerelease identifier
+  channels?: Record<string, string>;
 }
 
 const releasers: Record<string, ReleaseBuilder> = {
@@ -72,6 +79,7 @@ const releasers: Record<string, ReleaseBuilder> = {
   'go-yoshi': options => new GoYoshi(options),
   java: options => new Java(options),
   maven: options => new Maven(options),
+  gradle: options => new Gradle(options),
   'java-yoshi': options => new JavaYoshi(options),
   'java-yoshi-mono-repo': options => new JavaYoshiMonoRepo(options),
   'java-backport': options =>
@@ -105,11 +113,14 @@ const releasers: Record<string, ReleaseBuilder> = {
   rust: options => new Rust(options),
   salesforce: options => new Sfdx(options),
   sfdx: options => new Sfdx(options),
+  swift: options => new Swift(options),
   simple: options => new Simple(options),
   'terraform-module': options => new TerraformModule(options),
   helm: options => new Helm(options),
   elixir: options => new Elixir(options),
   dart: options => new Dart(options),
+  deno: options => new Deno(options),
+  docker: options => new Docker(options),
   bazel: options => new Bazel(options),
 };
 
@@ -118,18 +129,27 @@ export async function buildStrategy(
 ): Promise<Strategy> {
   const targetBranch =
     options.targetBranch ?? options.github.repository.defaultBranch;
-  const versioningStrategy = buildVersioningStrategy({
+  let versioningStrategy = buildVersioningStrategy({
     github: options.github,
     type: options.versioning,
     bumpMinorPreMajor: options.bumpMinorPreMajor,
     bumpPatchForMinorPreMajor: options.bumpPatchForMinorPreMajor,
+    bumpRules: options.bumpRules,
     prereleaseType: options.prereleaseType,
     prerelease: options.prerelease,
+    calverFormat: options.calverFormat,
   });
+  if (options.channels) {
+    versioningStrategy = new ChannelVersioningStrategy(versioningStrategy, {
+      prereleaseId: options.channels[targetBranch],
+      channelIds: Object.values(options.channels),
+    });
+  }
   const changelogNotes = buildChangelogNotes({
     type: options.changelogType || 'default',
     github: options.github,
     changelogSections: options.changelogSections,
+    changelogLabelSections: options.changelogLabelSections,
   });
   const strategyOptions: BaseStrategyOptions = {
     skipGitHubRelease: options.skipGithubRelease, // Note the case difference in GitHub
@@ -0,0 +1,1135 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {request} from '@octokit/request';
+import {RequestError} from '@octokit/request-error';
+import {GitHubFileContents} from '@google-automations/git-file-utils';
+import {Commit} from './commit';
+import {PullRequest} from './pull-request';
+import {Repository} from './repository';
+import {ReleasePullRequest} from './release-pull-request';
+import {Release} from './release';
+import {Update} from './update';
+import {
+  ConfigurationError,
+  DuplicateReleaseError,
+  FileNotFoundError,
+} from './errors';
+import {logger as defaultLogger, Logger} from './util/logger';
+import {signoffCommitMessage} from './util/signoff-commit-message';
+import {buildChangeSet} from './util/change-set';
+import {
+  filterByExtension,
+  filterByFilename,
+  filterByGlob,
+  normalizePrefix,
+} from './util/tree-search';
+import {wrapAsync} from './github';
+import {
+  ScmProvider,
+  ChangeSet,
+  CommitFilter,
+  CommitIteratorOptions,
+  CreatePullRequestOptions,
+  CreateReleasePullRequestOptions,
+  GitHubRelease,
+  GitHubTag,
+  PullRequestStatus,
+  ReleaseIteratorOptions,
+  ReleaseOptions,
+  ReleaseAsset,
+  TagIteratorOptions,
+  UpdatePullRequestOptions,
+} from './scm-provider';
+
+const PER_PAGE = 50;
+const DEFAULT_LABEL_COLOR = '#ededed';
+
+type RequestFunctionType = ReturnType<typeof request.defaults>;
+
+export interface GiteaOptions {
+  repository: Repository;
+  apiUrl: string;
+  request: RequestFunctionType;
+  logger?: Logger;
+}
+
+interface GiteaCreateOptions {
+  owner: string;
+  repo: string;
+  apiUrl: string;
+  defaultBranch?: string;
+  token?: string;
+  logger?: Logger;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  fetch?: any;
+}
+
+interface GiteaCommit {
+  sha: string;
+  commit: {
+    message: string;
+  };
+  files?: {filename: string}[] | null;
+}
+
+interface GiteaPullRequest {
+  number: number;
+  title: string;
+  body: string | null;
+  labels: {name: string}[] | null;
+  head: {ref: string};
+  base: {ref: string};
+  merged: boolean;
+  merge_commit_sha: string | null;
+}
+
+interface GiteaRelease {
+  id: number;
+  name: string | null;
+  tag_name: string;
+  target_commitish: string;
+  body?: string | null;
+  html_url: string;
+  upload_url?: string;
+  draft: boolean;
+}
+
+interface GiteaTag {
+  name: string;
+  commit: {
+    sha: string;
+  };
+}
+
+interface GiteaTree {
+  tree: {path: string; type: string}[] | null;
+  total_count: number;
+}
+
+interface GiteaLabel {
+  id: number;
+  name: string;
+}
+
+interface PageResponse<T> {
+  data: T[];
+  headers: Record<string, string | number | undefined>;
+}
+
+/**
+ * An SCM provider backed by the Gitea REST API (v1). Forgejo exposes the
+ * same API and is supported as well.
+ */
+export class Gitea implements ScmProvider {
+  readonly repository: Repository;
+  private apiUrl: string;
+  private request: RequestFunctionType;
+  private logger: Logger;
+  private fileCache: Map<string, GitHubFileContents>;
+  private treeCache: Map<string, string[]>;
+  private labelIds?: Map<string, number>;
+
+  private constructor(options: GiteaOptions) {
+    this.repository = options.repository;
+    this.apiUrl = options.apiUrl;
+    this.request = options.request;
+    this.logger = options.logger ?? defaultLogger;
+    this.fileCache = new Map();
+    this.treeCache = new Map();
+  }
+
+  /**
+   * Build a new Gitea client with auto-detected default branch.
+   *
+   * @param {GiteaCreateOptions} options Configuration options
+   * @param {string} options.owner The repository owner.
+   * @param {string} options.repo The repository name.
+   * @param {string} options.apiUrl The base url of the Gitea API, e.g.
+   *   `https://gitea.example.com/api/v1`.
+   * @param {string} options.defaultBranch Optional. The repository's default branch.
+   *   Defaults to the value fetched via the API.
+   * @param {string} token Optional. A Gitea access token used for authentication.
+   */
+  static async create(options: GiteaCreateOptions): Promise<Gitea> {
+    const releasePleaseVersion = require('../../package.json').version;
+    const headers: Record<string, string> = {
+      'user-agent': `release-please/${releasePleaseVersion}`,
+    };
+    if (options.token) {
+      headers.authorization = `token ${options.token}`;
+    }
+    const giteaRequest = request.defaults({
+      baseUrl: options.apiUrl,
+      headers,
+      request: {
+        fetch: options.fetch,
+      },
+    });
+    return new Gitea({
+      repository: {
+        owner: options.owner,
+        repo: options.repo,
+        defaultBranch:
+          options.defaultBranch ??
+          (await Gitea.defaultBranch(
+            options.owner,
+            options.repo,
+            giteaRequest
+          )),
+      },
+      apiUrl: options.apiUrl,
+      request: giteaRequest,
+      logger: options.logger,
+    });
+  }
+
+  /**
+   * Returns the default branch for a given repository.
+   *
+   * @param {string} owner The repository owner
+   * @param {string} repo The repository name
+   * @param {RequestFunctionType} giteaRequest An authenticated request function
+   * @returns {string} Name of the default branch
+   */
+  static async defaultBranch(
+    owner: string,
+    repo: string,
+    giteaRequest: RequestFunctionType
+  ): Promise<string> {
+    const {data} = await giteaRequest('GET /repos/{owner}/{repo}', {
+      owner,
+      repo,
+    });
+    return data.default_branch;
+  }
+
+  private get webUrl(): string {
+    return `${this.apiUrl.replace(/\/api\/v1\/?$/, '')}/${
+      this.repository.owner
+    }/${this.repository.repo}`;
+  }
+
+  /**
+   * Iterate through a paginated list endpoint, following the `next`
+   * relation of the `link` response header.
+   */
+  private async *paginate<T>(
+    route: string,
+    params: Record<string, string | number | boolean | undefined> = {}
+  ): AsyncGenerator<T, void, void> {
+    let page: number | undefined = 1;
+    while (page) {
+      const response: PageResponse<T> = await this.request(route, {
+        owner: this.repository.owner,
+        repo: this.repository.repo,
+        limit: PER_PAGE,
+        page,
+        ...params,
+      });
+      for (const item of response.data) {
+        yield item;
+      }
+      page = nextPage(response.headers['link']);
+    }
+  }
+
+  async commitsSince(
+    targetBranch: string,
+    filter: CommitFilter,
+    options: CommitIteratorOptions = {}
+  ): Promise<Commit[]> {
+    const commits: Commit[] = [];
+    for await (const commit of this.mergeCommitIterator(
+      targetBranch,
+      options
+    )) {
+      if (filter(commit)) {
+        break;
+      }
+      commits.push(commit);
+    }
+    return commits;
+  }
+
+  /**
+   * Iterate through commit history with a max number of results scanned.
+   * Each commit is cross-referenced with the pull request it merged, which
+   * costs one extra request per commit.
+   *
+   * @param {string} targetBranch target branch of commit
+   * @param {CommitIteratorOptions} options Query options
+   * @yields {Commit}
+   * @throws {GitHubAPIError} on an API error
+   */
+  async *mergeCommitIterator(
+    targetBranch: string,
+    options: CommitIteratorOptions = {}
+  ): AsyncGenerator<Commit, void, void> {
+    const maxResults = options.maxResults ?? Number.MAX_SAFE_INTEGER;
+    let results = 0;
+    try {
+      for await (const giteaCommit of this.paginate<GiteaCommit>(
+        'GET /repos/{owner}/{repo}/commits',
+        {sha: targetBranch, stat: false, verification: false, files: true}
+      )) {
+        if (results++ >= maxResults) {
+          break;
+        }
+        const commit: Commit = {
+          sha: giteaCommit.sha,
+          message: giteaCommit.commit.message,
+          files: (giteaCommit.files ?? []).map(file => file.filename),
+        };
+        const pullRequest = await this.findMergedPullRequest(giteaCommit.sha);
+        if (pullRequest) {
+          commit.pullRequest = pullRequest;
+        } else if (!options.backfillFiles) {
+          delete commit.files;
+        }
+        yield commit;
+      }
+    } catch (e) {
+      if (e instanceof RequestError && e.status === 404) {
+        this.logger.warn(
+          `Could not find commits for branch ${targetBranch} - it likely does not exist.`
+        );
+        return;
+      }
+      throw e;
+    }
+  }
+
+  private async findMergedPullRequest(
+    sha: string
+  ): Promise<PullRequest | undefined> {
+    try {
+      const {data} = await this.request(
+        'GET /repos/{owner}/{repo}/commits/{sha}/pull',
+        {owner: this.repository.owner, repo: this.repository.repo, sha}
+      );
+      return this.toPullRequest(data);
+    } catch (e) {
+      if (e instanceof RequestError && e.status === 404) {
+        return undefined;
+      }
+      throw e;
+    }
+  }
+
+  /**
+   * Get the list of file paths modified in a given commit.
+   *
+   * @param {string} sha The commit SHA
+   * @returns {string[]} File paths
+   * @throws {GitHubAPIError} on an API error
+   */
+  getCommitFiles = wrapAsync(async (sha: string): Promise<string[]> => {
+    this.logger.debug(`Backfilling file list for commit: ${sha}`);
+    const {data} = (await this.request(
+      'GET /repos/{owner}/{repo}/git/commits/{sha}',
+      {
+        owner: this.repository.owner,
+        repo: this.repository.repo,
+        sha,
+        stat: false,
+        verification: false,
+        files: true,
+      }
+    )) as {data: GiteaCommit};
+    const files = (data.files ?? []).map(file => file.filename);
+    this.logger.debug(`Found ${files.length} files`);
+    return files;
+  });
+
+  /**
+   * Iterate through pull requests with a max number of results scanned.
+   * Gitea cannot filter by base branch or merged state, so both are
+   * filtered locally.
+   *
+   * @param {string} targetBranch The base branch of the pull request
+   * @param {string} status The status of the pull request
+   * @param {number} maxResults Limit the number of results searched. Defaults to
+   *   unlimited.
+   * @param {boolean} includeFiles Whether to fetch the list of files included in
+   *   the pull request. Defaults to `true`.
+   * @yields {PullRequest}
+   * @throws {GitHubAPIError} on an API error
+   */
+  async *pullRequestIterator(
+    targetBranch: string,
+    status: PullRequestStatus = 'MERGED',
+    maxResults: number = Number.MAX_SAFE_INTEGER,
+    includeFiles = true
+  ): AsyncGenerator<PullRequest, void, void> {
+    let results = 0;
+    for await (const giteaPullRequest of this.paginate<GiteaPullRequest>(
+      'GET /repos/{owner}/{repo}/pulls',
+      {
+        state: status === 'OPEN' ? 'open' : 'closed',
+        sort: 'recentupdate',
+      }
+    )) {
+      if (giteaPullRequest.base.ref !== targetBranch) {
+        continue;
+      }
+      if (
+        status !== 'OPEN' &&
+        giteaPullRequest.merged !== (status === 'MERGED')
+      ) {
+        continue;
+      }
+      if (results++ >= maxResults) {
+        break;
+      }
+      const pullRequest = this.toPullRequest(giteaPullRequest);
+      if (includeFiles) {
+        const files: string[] = [];
+        for await (const file of this.paginate<{filename: string}>(
+          'GET /repos/{owner}/{repo}/pulls/{index}/files',
+          {index: giteaPullRequest.number}
+        )) {
+          files.push(file.filename);
+        }
+        yield {...pullRequest, files};
+      } else {
+        yield pullRequest;
+      }
+    }
+  }
+
+  private toPullRequest(pullRequest: GiteaPullRequest): PullRequest {
+    return {
+      headBranchName: pullRequest.head.ref,
+      baseBranchName: pullRequest.base.ref,
+      number: pullRequest.number,
+      title: pullRequest.title,
+      body: pullRequest.body || '',
+      labels: (pullRequest.labels ?? []).map(label => label.name),
+      files: [],
+      sha: pullRequest.merge_commit_sha || undefined,
+    };
+  }
+
+  /**
+   * Iterate through releases with a max number of results scanned. The
+   * commit of each release is resolved from its tag.
+   *
+   * @param {ReleaseIteratorOptions} options Query options
+   * @param {number} options.maxResults Limit the number of results searched.
+   *   Defaults to unlimited.
+   * @yields {GitHubRelease}
+   * @throws {GitHubAPIError} on an API error
+   */
+  async *releaseIterator(
+    options: ReleaseIteratorOptions = {}
+  ): AsyncGenerator<GitHubRelease, void, void> {
+    const maxResults = options.maxResults ?? Number.MAX_SAFE_INTEGER;
+    let results = 0;
+    for await (const release of this.paginate<GiteaRelease>(
+      'GET /repos/{owner}/{repo}/releases'
+    )) {
+      if (results++ >= maxResults) {
+        break;
+      }
+      yield this.toRelease(
+        release,
+        release.draft ? release.target_commitish : await this.tagSha(release)
+      );
+    }
+  }
+
+  private async tagSha(release: GiteaRelease): Promise<string> {
+    try {
+      const {data} = await this.request(
+        'GET /repos/{owner}/{repo}/tags/{tag}',
+        {
+          owner: this.repository.owner,
+          repo: this.repository.repo,
+          tag: release.tag_name,
+        }
+      );
+      return data.commit.sha;
+    } catch (e) {
+      if (e instanceof RequestError && e.status === 404) {
+        return release.target_commitish;
+      }
+      throw e;
+    }
+  }
+
+  private toRelease(release: GiteaRelease, sha: string): GitHubRelease {
+    return {
+      id: release.id,
+      name: release.name || undefined,
+      tagName: release.tag_name,
+      sha,
+      notes: release.body || undefined,
+      url: release.html_url,
+      draft: release.draft,
+      uploadUrl: release.upload_url,
+    };
+  }
+
+  /**
+   * Iterate through tags with a max number of results scanned.
+   *
+   * @param {TagIteratorOptions} options Query options
+   * @param {number} options.maxResults Limit the number of results searched.
+   *   Defaults to unlimited.
+   * @yields {GitHubTag}
+   * @throws {GitHubAPIError} on an API error
+   */
+  async *tagIterator(
+    options: TagIteratorOptions = {}
+  ): AsyncGenerator<GitHubTag, void, void> {
+    const maxResults = options.maxResults || Number.MAX_SAFE_INTEGER;
+    let results = 0;
+    for await (const tag of this.paginate<GiteaTag>(
+      'GET /repos/{owner}/{repo}/tags'
+    )) {
+      if (results++ >= maxResults) {
+        break;
+      }
+      yield {
+        name: tag.name,
+        sha: tag.commit.sha,
+      };
+    }
+  }
+
+  async getFileContents(path: string): Promise<GitHubFileContents> {
+    return await this.getFileContentsOnBranch(
+      path,
+      this.repository.defaultBranch
+    );
+  }
+
+  /**
+   * Fetch the contents of a file. Results are cached per branch until
+   * the branch is written to.
+   *
+   * @param {string} path The path to the file in the repository
+   * @param {string} branch The branch to fetch from
+   * @returns {GitHubFileContents}
+   * @throws {FileNotFoundError} if the file cannot be found
+   * @throws {GitHubAPIError} on other API errors
+   */
+  getFileContentsOnBranch = wrapAsync(
+    async (path: string, branch: string): Promise<GitHubFileContents> => {
+      this.logger.debug(`Fetching ${path} from branch ${branch}`);
+      const cacheKey = `${branch}:${path}`;
+      const cached = this.fileCache.get(cacheKey);
+      if (cached) {
+        return cached;
+      }
+      try {
+        const {data} = await this.request(
+          'GET /repos/{owner}/{repo}/contents/{path}',
+          {
+            owner: this.repository.owner,
+            repo: this.repository.repo,
+            path,
+            ref: branch,
+          }
+        );
+        if (Array.isArray(data) || data.type !== 'file') {
+          throw new FileNotFoundError(path);
+        }
+        const contents = {
+          sha: data.sha,
+          mode: '100644',
+          content: data.content,
+          parsedContent: Buffer.from(data.content, 'base64').toString('utf8'),
+        };
+        this.fileCache.set(cacheKey, contents);
+        return contents;
+      } catch (e) {
+        if (e instanceof RequestError && e.status === 404) {
+          throw new FileNotFoundError(path);
+        }
+        throw e;
+      }
+    }
+  );
+
+  async getFileJson<T>(path: string, branch: string): Promise<T> {
+    const content = await this.getFileContentsOnBranch(path, branch);
+    return JSON.parse(content.parsedContent);
+  }
+
+  /**
+   * List all file paths in the repository tree at the given ref.
+   * Results are cached per ref.
+   */
+  private async listFiles(ref: string): Promise<string[]> {
+    const cached = this.treeCache.get(ref);
+    if (cached) {
+      return cached;
+    }
+    const files: string[] = [];
+    let seen = 0;
+    for (let page = 1; ; page++) {
+      const {data} = (await this.request(
+        'GET /repos/{owner}/{repo}/git/trees/{ref}',
+        {
+          owner: this.repository.owner,
+          repo: this.repository.repo,
+          ref,
+          recursive: true,
+          page,
+        }
+      )) as {data: GiteaTree};
+      const entries = data.tree ?? [];
+      for (const entry of entries) {
+        if (entry.type === 'blob') {
+          files.push(entry.path);
+        }
+      }
+      seen += entries.length;
+      if (entries.length === 0 || seen >= data.total_count) {
+        break;
+      }
+    }
+    this.treeCache.set(ref, files);
+    return files;
+  }
+
+  async findFilesByFilename(
+    filename: string,
+    prefix?: string
+  ): Promise<string[]> {
+    return this.findFilesByFilenameAndRef(
+      filename,
+      this.repository.defaultBranch,
+      prefix
+    );
+  }
+
+  findFilesByFilenameAndRef = wrapAsync(
+    async (
+      filename: string,
+      ref: string,
+      prefix?: string
+    ): Promise<string[]> => {
+      if (prefix) {
+        prefix = normalizePrefix(prefix);
+      }
+      this.logger.debug(
+        `finding files by filename: ${filename}, ref: ${ref}, prefix: ${prefix}`
+      );
+      return filterByFilename(await this.listFiles(ref), filename, prefix);
+    }
+  );
+
+  async findFilesByGlob(glob: string, prefix?: string): Promise<string[]> {
+    return this.findFilesByGlobAndRef(
+      glob,
+      this.repository.defaultBranch,
+      prefix
+    );
+  }
+
+  findFilesByGlobAndRef = wrapAsync(
+    async (glob: string, ref: string, prefix?: string): Promise<string[]> => {
+      if (prefix) {
+        prefix = normalizePrefix(prefix);
+      }
+      this.logger.debug(
+        `finding files by glob: ${glob}, ref: ${ref}, prefix: ${prefix}`
+      );
+      return filterByGlob(await this.listFiles(ref), glob, prefix);
+    }
+  );
+
+  async findFilesByExtension(
+    extension: string,
+    prefix?: string
+  ): Promise<string[]> {
+    return this.findFilesByExtensionAndRef(
+      extension,
+      this.repository.defaultBranch,
+      prefix
+    );
+  }
+
+  findFilesByExtensionAndRef = wrapAsync(
+    async (
+      extension: string,
+      ref: string,
+      prefix?: string
+    ): Promise<string[]> => {
+      if (prefix) {
+        prefix = normalizePrefix(prefix);
+      }
+      return filterByExtension(await this.listFiles(ref), extension, prefix);
+    }
+  );
+
+  /**
+   * Open a pull request for a release.
+   *
+   * @deprecated This logic is handled by the Manifest class now as it
+   *   can be more complicated if the release notes are too big
+   */
+  async createReleasePullRequest(
+    releasePullRequest: ReleasePullRequest,
+    targetBranch: string,
+    options?: CreateReleasePullRequestOptions
+  ): Promise<PullRequest> {
+    let message = releasePullRequest.title.toString();
+    if (options?.signoffUser) {
+      message = signoffCommitMessage(message, options.signoffUser);
+    }
+    return await this.createPullRequest(
+      {
+        headBranchName: releasePullRequest.headRefName,
+        baseBranchName: targetBranch,
+        number: -1,
+        title: releasePullRequest.title.toString(),
+        body: releasePullRequest.body.toString(),
+        labels: options?.skipLabeling ? [] : releasePullRequest.labels,
+        files: [],
+      },
+      targetBranch,
+      message,
+      releasePullRequest.updates,
+      {
+        fork: options?.fork,
+        draft: releasePullRequest.draft,
+      }
+    );
+  }
+
+  /**
+   * Recreate the head branch from the target branch with the file updates
+   * applied and open a pull request.
+   *
+   * @param {PullRequest} pullRequest Pull request data to update
+   * @param {string} targetBranch The base branch of the pull request
+   * @param {string} message The commit message for the commit
+   * @param {Update[]} updates The files to update
+   * @param {CreatePullRequestOptions} options The pull request options
+   * @throws {GitHubAPIError} on an API error
+   */
+  createPullRequest = wrapAsync(
+    async (
+      pullRequest: PullRequest,
+      targetBranch: string,
+      message: string,
+      updates: Update[],
+      options?: CreatePullRequestOptions
+    ): Promise<PullRequest> => {
+      if (options?.fork) {
+        this.logger.warn('Gitea provider does not support forks, ignoring');
+      }
+      const changes = await this.buildChangeSet(updates, targetBranch);
+      await this.deleteBranch(pullRequest.headBranchName);
+      await this.commitChanges(
+        changes,
+        targetBranch,
+        message,
+        pullRequest.headBranchName
+      );
+      const {data} = await this.request('POST /repos/{owner}/{repo}/pulls', {
+        owner: this.repository.owner,
+        repo: this.repository.repo,
+        head: pullRequest.headBranchName,
+        base: targetBranch,
+        // Gitea marks pull requests with this title prefix as work in progress
+        title: options?.draft ? `WIP: ${pullRequest.title}` : pullRequest.title,
+        body: pullRequest.body,
+      });
+      await this.addIssueLabels(pullRequest.labels, data.number);
+      return {
+        ...this.toPullRequest(data),
+        labels: pullRequest.labels,
+      };
+    }
+  );
+
+  /**
+   * Fetch a pull request given the pull number
+   * @param {number} number The pull request number
+   * @returns {PullRequest}
+   */
+  getPullRequest = wrapAsync(async (number: number): Promise<PullRequest> => {
+    const {data} = await this.request(
+      'GET /repos/{owner}/{repo}/pulls/{index}',
+      {
+        owner: this.repository.owner,
+        repo: this.repository.repo,
+        index: number,
+      }
+    );
+    return this.toPullRequest(data);
+  });
+
+  /**
+   * Update a pull request's title, body and files. The updates are
+   * committed on top of the existing head branch, as deleting the head
+   * branch would close the pull request.
+   * @param {number} number The pull request number
+   * @param {ReleasePullRequest} releasePullRequest Pull request data to update
+   * @param {string} targetBranch The target branch of the pull request
+   * @param {UpdatePullRequestOptions} options The pull request options
+   */
+  updatePullRequest = wrapAsync(
+    async (
+      number: number,
+      releasePullRequest: ReleasePullRequest,
+      targetBranch: string,
+      options?: UpdatePullRequestOptions
+    ): Promise<PullRequest> => {
+      const changes = await this.buildChangeSet(
+        releasePullRequest.updates,
+        targetBranch
+      );
+      let message = releasePullRequest.title.toString();
+      if (options?.signoffUser) {
+        message = signoffCommitMessage(message, options.signoffUser);
+      }
+      await this.commitChanges(
+        changes,
+        releasePullRequest.headRefName,
+        message
+      );
+      const body = (
+        options?.pullRequestOverflowHandler
+          ? await options.pullRequestOverflowHandler.handleOverflow(
+              releasePullRequest
+            )
+          : releasePullRequest.body
+      ).toString();
+      const {data} = await this.request(
+        'PATCH /repos/{owner}/{repo}/pulls/{index}',
+        {
+          owner: this.repository.owner,
+          repo: this.repository.repo,
+          index: number,
+          title: releasePullRequest.title.toString(),
+          body,
+          state: 'open',
+        }
+      );
+      return this.toPullRequest(data);
+    }
+  );
+
+  private async deleteBranch(branch: string): Promise<void> {
+    try {
+      await this.request('DELETE /repos/{owner}/{repo}/branches/{branch}', {
+        owner: this.repository.owner,
+        repo: this.repository.repo,
+        branch,
+      });
+    } catch (e) {
+      if (e instanceof RequestError && e.status === 404) {
+        return;
+      }
+      throw e;
+    }
+  }
+
+  /**
+   * Apply the changes as a single commit on `branch`. If `newBranch` is
+   * set, the commit is made on a new branch forked from `branch`.
+   */
+  private async commitChanges(
+    changes: ChangeSet,
+    branch: string,
+    message: string,
+    newBranch?: string
+  ): Promise<void> {
+    if (changes.size === 0) {
+      if (newBranch) {
+        await this.request('POST /repos/{owner}/{repo}/branches', {
+          owner: this.repository.owner,
+          repo: this.repository.repo,
+          new_branch_name: newBranch,
+          old_branch_name: branch,
+        });
+      }
+      return;
+    }
+    const files = [];
+    for (const [path, change] of changes) {
+      let sha: string | undefined;
+      try {
+        sha = (await this.getFileContentsOnBranch(path, branch)).sha;
+      } catch (e) {
+        if (!(e instanceof FileNotFoundError)) {
+          throw e;
+        }
+      }
+      files.push({
+        operation:
+          change.content === null ? 'delete' : sha ? 'update' : 'create',
+        path,
+        content:
+          change.content === null
+            ? undefined
+            : Buffer.from(change.content, 'utf8').toString('base64'),
+        sha,
+      });
+    }
+    this.logger.debug(
+      `Committing ${files.length} changes to ${newBranch ?? branch}`
+    );
+    await this.request('POST /repos/{owner}/{repo}/contents', {
+      owner: this.repository.owner,
+      repo: this.repository.repo,
+      branch,
+      new_branch: newBranch,
+      message,
+      files,
+    });
+    this.invalidateBranch(newBranch ?? branch);
+  }
+
+  private invalidateBranch(branch: string) {
+    for (const key of this.fileCache.keys()) {
+      if (key.startsWith(`${branch}:`)) {
+        this.fileCache.delete(key);
+      }
+    }
+    this.treeCache.delete(branch);
+  }
+
+  async buildChangeSet(
+    updates: Update[],
+    defaultBranch: string
+  ): Promise<ChangeSet> {
+    return buildChangeSet(this, updates, defaultBranch, this.logger);
+  }
+
+  /**
+   * Create a release
+   *
+   * @param {Release} release Release parameters
+   * @param {ReleaseOptions} options Release option parameters
+   * @throws {DuplicateReleaseError} if the release tag already exists
+   * @throws {GitHubAPIError} on other API errors
+   */
+  createRelease = wrapAsync(
+    async (
+      release: Release,
+      options: ReleaseOptions = {}
+    ): Promise<GitHubRelease> => {
+      const {data} = await this.request('POST /repos/{owner}/{repo}/releases', {
+        owner: this.repository.owner,
+        repo: this.repository.repo,
+        tag_name: release.tag.toString(),
+        target_commitish: release.sha,
+        name: release.name,
+        body: release.notes,
+        draft: !!options.draft,
+        prerelease: !!options.prerelease,
+      });
+      return this.toRelease(data, release.sha);
+    },
+    e => {
+      if (e instanceof RequestError && e.status === 409) {
+        throw new DuplicateReleaseError(e, 'tagName');
+      }
+    }
+  );
+
+  /**
+   * Makes a comment on a issue/pull request.
+   *
+   * @param {string} comment The body of the comment to post.
+   * @param {number} number The issue or pull request number.
+   * @returns {string} The URL of the comment
+   * @throws {GitHubAPIError} on an API error
+   */
+  commentOnIssue = wrapAsync(
+    async (comment: string, number: number): Promise<string> => {
+      this.logger.debug(`adding comment to ${this.webUrl}/issues/${number}`);
+      const {data} = await this.request(
+        'POST /repos/{owner}/{repo}/issues/{index}/comments',
+        {
+          owner: this.repository.owner,
+          repo: this.repository.repo,
+          index: number,
+          body: comment,
+        }
+      );
+      return data.html_url;
+    }
+  );
+
+  /**
+   * Look up the ids of the repository's labels by name, creating the
+   * missing ones if requested.
+   */
+  private async getLabelIds(
+    labels: string[],
+    createMissing: boolean
+  ): Promise<number[]> {
+    if (!this.labelIds) {
+      const labelIds = new Map<string, number>();
+      for await (const label of this.paginate<GiteaLabel>(
+        'GET /repos/{owner}/{repo}/labels'
+      )) {
+        labelIds.set(label.name, label.id);
+      }
+      this.labelIds = labelIds;
+    }
+    const ids: number[] = [];
+    for (const label of labels) {
+      let id = this.labelIds.get(label);
+      if (id === undefined && createMissing) {
+        this.logger.debug(`creating label: ${label}`);
+        const {data} = await this.request('POST /repos/{owner}/{repo}/labels', {
+          owner: this.repository.owner,
+          repo: this.repository.repo,
+          name: label,
+          color: DEFAULT_LABEL_COLOR,
+        });
+        id = data.id as number;
+        this.labelIds.set(label, id);
+      }
+      if (id !== undefined) {
+        ids.push(id);
+      }
+    }
+    return ids;
+  }
+
+  /**
+   * Removes labels from an issue/pull request.
+   *
+   * @param {string[]} labels The labels to remove.
+   * @param {number} number The issue/pull request number.
+   */
+  removeIssueLabels = wrapAsync(
+    async (labels: string[], number: number): Promise<void> => {
+      if (labels.length === 0) {
+        return;
+      }
+      this.logger.debug(`removing labels: ${labels} from issue/pull ${number}`);
+      for (const id of await this.getLabelIds(labels, false)) {
+        await this.request(
+          'DELETE /repos/{owner}/{repo}/issues/{index}/labels/{id}',
+          {
+            owner: this.repository.owner,
+            repo: this.repository.repo,
+            index: number,
+            id,
+          }
+        );
+      }
+    }
+  );
+
+  /**
+   * Adds label to an issue/pull request. Labels that do not exist in the
+   * repository yet are created.
+   *
+   * @param {string[]} labels The labels to add.
+   * @param {number} number The issue/pull request number.
+   */
+  addIssueLabels = wrapAsync(
+    async (labels: string[], number: number): Promise<void> => {
+      if (labels.length === 0) {
+        return;
+      }
+      this.logger.debug(`adding labels: ${labels} from issue/pull ${number}`);
+      await this.request('POST /repos/{owner}/{repo}/issues/{index}/labels', {
+        owner: this.repository.owner,
+        repo: this.repository.repo,
+        index: number,
+        labels: await this.getLabelIds(labels, true),
+      });
+    }
+  );
+
+  /**
+   * Gitea does not have an equivalent of GitHub's generated release notes.
+   *
+   * @throws {ConfigurationError}
+   */
+  async generateReleaseNotes(
+    _tagName: string,
+    _targetCommitish: string,
+    _previousTag?: string
+  ): Promise<string> {
+    throw new ConfigurationError(
+      'Generated release notes are not supported by Gitea. Use the `default` changelog type instead.',
+      'gitea',
+      `${this.repository.owner}/${this.repository.repo}`
+    );
+  }
+
+  /**
+   * Uploading release assets is not yet supported for Gitea.
+   *
+   * @throws {ConfigurationError}
+   */
+  async uploadReleaseAssets(
+    _release: GitHubRelease,
+    _assets: ReleaseAsset[]
+  ): Promise<string[]> {
+    throw new ConfigurationError(
+      'Release assets are not supported by Gitea.',
+      'gitea',
+      `${this.repository.owner}/${this.repository.repo}`
+    );
+  }
+
+  /**
+   * Create a single file on a new branch based on an existing
+   * branch. This will force-push to that branch.
+   * @param {string} filename Filename with path in the repository
+   * @param {string} contents Contents of the file
+   * @param {string} newBranchName Name of the new branch
+   * @param {string} baseBranchName Name of the base branch (where
+   *   new branch is forked from)
+   * @returns {string} HTML URL of the new file
+   */
+  createFileOnNewBranch = wrapAsync(
+    async (
+      filename: string,
+      contents: string,
+      newBranchName: string,
+      baseBranchName: string
+    ): Promise<string> => {
+      await this.deleteBranch(newBranchName);
+      await this.commitChanges(
+        new Map([
+          [
+            filename,
+            {mode: '100644', content: contents, originalContent: null},
+          ],
+        ]),
+        baseBranchName,
+        'Saving release notes',
+        newBranchName
+      );
+      return `${this.webUrl}/src/branch/${newBranchName}/${filename}`;
+    }
+  );
+}
+
+/**
+ * Parse the next page number from a `link` header.
+ */
+function nextPage(link: string | number | undefined): number | undefined {
+  if (typeof link !== 'string') {
+    return undefined;
+  }
+  const match = link.match(/<[^>]*[?&]page=(\d+)[^>]*>;\s*rel="next"/);
+  return match ? Number(match[1]) : undefined;
+}
@@ -29,6 +29,38 @@ import {
 
 const MAX_ISSUE_BODY_SIZE = 65536;
 const MAX_SLEEP_SECONDS = 20;
+
+// GraphQL selections of the pull requests associated with a commit
+const PULL_REQUEST_FIELDS = `number
+  title
+  baseRefName
+  headRefName
+  author {
+    login
+  }
+  authorAssociation
+  labels(first: 10) {
+    nodes {
+      name
+    }
+  }
+  body
+  mergeCommit {
+    oid
+  }
+  files(first: $maxFilesChanged) {
+    nodes {
+      path
+    }
+    pageInfo {
+      endCursor
+      hasNextPage
+    }
+  }`;
+const PULL_REQUEST_KEY_FIELDS = `id
+  number
+  updatedAt`;
+
 export const GH_API_URL = 'https://api.github.com';
 export const GH_GRAPHQL_URL = 'https://api.github.com';
 type OctokitType = InstanceType<typeof Octokit>;
@@ -38,18 +70,41 @@ import {Repository} from './repository';
 import {ReleasePullRequest} from './release-pull-request';
 import {Update} from './update';
 import {Release} from './release';
-import {ROOT_PROJECT_PATH} from './manifest';
 import {signoffCommitMessage} from './util/signoff-commit-message';
 import {
   RepositoryFileCache,
   GitHubFileContents,
-  DEFAULT_FILE_MODE,
   FileNotFoundError as MissingFileError,
 } from '@google-automations/git-file-utils';
 import {Logger} from 'code-suggester/build/src/types';
 import {HttpsProxyAgent} from 'https-proxy-agent';
 import {HttpProxyAgent} from 'http-proxy-agent';
-import {PullRequestOverflowHandler} from './util/pull-request-overflow-handler';
+import {
+  ScmProvider,
+  CommitFilter,
+  CommitIteratorOptions,
+  ReleaseIteratorOptions,
+  TagIteratorOptions,
+  ReleaseOptions,
+  ReleaseAsset,
+  CreatePullRequestOptions,
+  CreateReleasePullRequestOptions,
+  UpdatePullRequestOptions,
+  PullRequestStatus,
+  GitHubRelease,
+  GitHubTag,
+  ChangeSet,
+} from './scm-provider';
+import {buildChangeSet} from './util/change-set';
+import {normalizePrefix} from './util/tree-search';
+import {ResponseCache} from './util/response-cache';
+
+export {
+  ReleaseOptions,
+  GitHubRelease,
+  GitHubTag,
+  ChangeSet,
+} from './scm-provider';
 
 // Extract some types from the `request` package.
 type RequestBuilderType = typeof request;
@@ -65,6 +120,7 @@ export interface GitHubOptions {
   repository: Repository;
   octokitAPIs: OctokitAPIs;
   logger?: Logger;
+  cacheDir?: string;
 }
 
 interface ProxyOption {
@@ -83,10 +139,9 @@ interface GitHubCreateOptions {
   logger?: Logger;
   proxy?: ProxyOption;
   fetch?: any;
+  cacheDir?: string;
 }
 
-type CommitFilter = (commit: Commit) => boolean;
-
 interface GraphQLCommit {
   sha: string;
   message: string;
@@ -95,12 +150,24 @@ interface GraphQLCommit {
   };
 }
 
+// the fields identifying a version of a pull request, fetched in place of
+// its details when they are cached
+interface GraphQLPullRequestKey {
+  id: string;
+  number: number;
+  updatedAt: string;
+}
+
 interface GraphQLPullRequest {
   number: number;
   title: string;
   body: string;
   baseRefName: string;
   headRefName: string;
+  author?: {
+    login: string;
+  } | null;
+  authorAssociation?: string;
   labels: {
     nodes: {
       name: string;
@@ -120,6 +187,7 @@ interface GraphQLPullRequest {
 }
 
 interface GraphQLRelease {
+  databaseId: number;
   name: string;
   tag: {
     name: string;
@@ -148,6 +216,11 @@ interface PullRequestHistory {
   data: PullRequest[];
 }
 
+interface UploadedReleaseAsset {
+  id: number;
+  browser_download_url: string;
+}
+
 interface ReleaseHistory {
   pageInfo: {
     hasNextPage: boolean;
@@ -156,58 +229,13 @@ interface ReleaseHistory {
   data: GitHubRelease[];
 }
 
-interface CommitIteratorOptions {
-  maxResults?: number;
-  backfillFiles?: boolean;
-}
-
-interface ReleaseIteratorOptions {
-  maxResults?: number;
-}
-
-interface TagIteratorOptions {
-  maxResults?: number;
-}
-
-export interface ReleaseOptions {
-  draft?: boolean;
-  prerelease?: boolean;
-}
-
-export interface GitHubRelease {
-  id: number;
-  name?: string;
-  tagName: string;
-  sha: string;
-  notes?: string;
-  url: string;
-  draft?: boolean;
-  uploadUrl?: string;
-}
-
-export interface GitHubTag {
-  name: string;
-  sha: string;
-}
-
-interface FileDiff {
-  readonly mode: '100644' | '100755' | '040000' | '160000' | '120000';
-  readonly content: string | null;
-  readonly originalContent: string | null;
-}
-export type ChangeSet = Map<string, FileDiff>;
-
-interface CreatePullRequestOptions {
-  fork?: boolean;
-  draft?: boolean;
-}
-
-export class GitHub {
+export class GitHub implements ScmProvider {
   readonly repository: Repository;
   private octokit: OctokitType;
   private request: RequestFunctionType;
   private graphql: Function;
   private fileCache: RepositoryFileCache;
+  private responseCache?: ResponseCache;
   private logger: Logger;
 
   private constructor(options: GitHubOptions) {
@@ -215,8 +243,20 @@ export class GitHub {
     this.octokit = options.octokitAPIs.octokit;
     this.request = options.octokitAPIs.request;
     this.graphql = options.octokitAPIs.graphql;
-    this.fileCache = new RepositoryFileCache(this.octokit, this.repository);
     this.logger = options.logger ?? defaultLogger;
+    if (options.cacheDir) {
+      this.responseCache = new ResponseCache(
+        options.cacheDir,
+        this.repository,
+        this.logger
+      );
+    }
+    this.fileCache = new RepositoryFileCache(
+      this.responseCache
+        ? withCachedBlobs(this.octokit, this.responseCache)
+        : this.octokit,
+      this.repository
+    );
   }
 
   static createDefaultAgent(baseUrl: string, defaultProxy?: ProxyOption) {
@@ -245,6 +285,9 @@ export class GitHub {
    * @param {OctokitAPISs} options.octokitAPIs Optional. Override the internal
    *   client instances with a pre-authenticated instance.
    * @param {string} token Optional. A GitHub API token used for authentication.
+   * @param {string} options.cacheDir Optional. A directory to persist
+   *   responses for immutable git objects (commit file lists and file
+   *   contents) across runs.
    */
   static async create(options: GitHubCreateOptions): Promise<GitHub> {
     const apiUrl = options.apiUrl ?? GH_API_URL;
@@ -294,6 +337,7 @@ export class GitHub {
       },
       octokitAPIs: apis,
       logger: options.logger,
+      cacheDir: options.cacheDir,
     };
     return new GitHub(opts);
   }
@@ -364,7 +408,7 @@ export class GitHub {
   async *mergeCommitIterator(
     targetBranch: string,
     options: CommitIteratorOptions = {}
-  ) {
+  ): AsyncGenerator<Commit, void, void> {
     const maxResults = options.maxResults ?? Number.MAX_SAFE_INTEGER;
     let cursor: string | undefined = undefined;
     let results = 0;
@@ -397,7 +441,12 @@ export class GitHub {
     this.logger.debug(
       `Fetching merge commits on branch ${targetBranch} with cursor: ${cursor}`
     );
-    const query = `query pullRequestsSince($owner: String!, $repo: String!, $num: Int!, $maxFilesChanged: Int, $targetBranch: String!, $cursor: String) {
+    // with a cache, pull requests are only identified here and their
+    // details are loaded separately
+    const cachePullRequests = !!this.responseCache;
+    const query = `query pullRequestsSince($owner: String!, $repo: String!, $num: Int!, ${
+      cachePullRequests ? '' : '$maxFilesChanged: Int, '
+    }$targetBranch: String!, $cursor: String) {
       repository(owner: $owner, name: $repo) {
         ref(qualifiedName: $targetBranch) {
           target {
@@ -406,27 +455,10 @@ export class GitHub {
                 nodes {
                   associatedPullRequests(first: 10) {
                     nodes {
-                      number
-                      title
-                      baseRefName
-                      headRefName
-                      labels(first: 10) {
-                        nodes {
-                          name
-                        }
-                      }
-                      body
-                      mergeCommit {
-                        oid
-                      }
-                      files(first: $maxFilesChanged) {
-                        nodes {
-                          path
-                        }
-                        pageInfo {
-                          endCursor
-                          hasNextPage
-                        }
+                      ${
+                        cachePullRequests
+                          ? PULL_REQUEST_KEY_FIELDS
+                          : PULL_REQUEST_FIELDS
                       }
                     }
                   }
@@ -449,7 +481,7 @@ export class GitHub {
       repo: this.repository.repo,
       num: 10,
       targetBranch,
-      maxFilesChanged: 100, // max is 100
+      ...(cachePullRequests ? {} : {maxFilesChanged: 100}), // max is 100
     };
     const response = await this.graphqlRequest({
       query,
@@ -473,6 +505,9 @@ export class GitHub {
     }
     const history = response.repository.ref.target.history;
     const commits = (history.nodes || []) as GraphQLCommit[];
+    if (cachePullRequests) {
+      await this.loadPullRequestDetails(commits);
+    }
     // Count the number of pull requests associated with each merge commit. This is
     // used in the next step to make sure we only find pull requests with a
     // merge commit that contain 1 merged commit.
@@ -519,6 +554,8 @@ export class GitHub {
           body: pullRequest.body,
           labels: pullRequest.labels.nodes.map(node => node.name),
           files: (pullRequest.files?.nodes || []).map(node => node.path),
+          author: pullRequest.author?.login,
+          authorAssociation: pullRequest.authorAssociation,
         };
       }
       if (mergePullRequest) {
@@ -552,6 +589,75 @@ export class GitHub {
     };
   }
 
+  /**
+   * Replace the pull requests of commits, fetched with only the fields of
+   * GraphQLPullRequestKey, with their details. As any change to a pull
+   * request bumps its `updatedAt`, details are cached by number and
+   * `updatedAt`. Those not cached are fetched in a single query.
+   *
+   * @param {GraphQLCommit[]} commits Commits from the history query
+   * @throws {GitHubAPIError} on an API error
+   */
+  private async loadPullRequestDetails(commits: GraphQLCommit[]) {
+    const cacheKeyOf = (key: GraphQLPullRequestKey) =>
+      `${key.number}-${Date.parse(key.updatedAt)}`;
+    const keysOf = (commit: GraphQLCommit) =>
+      commit.associatedPullRequests.nodes as unknown as GraphQLPullRequestKey[];
+
+    const details = new Map<string, GraphQLPullRequest>();
+    // node id => cache key
+    const missing = new Map<string, string>();
+    for (const commit of commits) {
+      for (const key of keysOf(commit)) {
+        const cacheKey = cacheKeyOf(key);
+        if (details.has(cacheKey) || missing.has(key.id)) {
+          continue;
+        }
+        const cached = await this.responseCache?.get<GraphQLPullRequest>(
+          'pull-requests',
+          cacheKey
+        );
+        if (cached) {
+          details.set(cacheKey, cached);
+        } else {
+          missing.set(key.id, cacheKey);
+        }
+      }
+    }
+    if (missing.size > 0) {
+      this.logger.debug(`Fetching details of ${missing.size} pull requests`);
+      const response = await this.graphqlRequest({
+        query: `query pullRequestDetails($ids: [ID!]!, $maxFilesChanged: Int) {
+          nodes(ids: $ids) {
+            ... on PullRequest {
+              id
+              ${PULL_REQUEST_FIELDS}
+            }
+          }
+        }`,
+        ids: [...missing.keys()],
+        maxFilesChanged: 100, // max is 100
+      });
+      for (const node of (response?.nodes ?? []) as (GraphQLPullRequest &
+        GraphQLPullRequestKey)[]) {
+        // unknown ids resolve to null
+        const cacheKey = node && missing.get(node.id);
+        if (!cacheKey) {
+          continue;
+        }
+        details.set(cacheKey, node);
+        await this.responseCache?.set('pull-requests', cacheKey, node);
+      }
+    }
+    for (const commit of commits) {
+      commit.associatedPullRequests.nodes = keysOf(commit)
+        .map(key => details.get(cacheKeyOf(key)))
+        .filter((pullRequest): pullRequest is GraphQLPullRequest =>
+          Boolean(pullRequest)
+        );
+    }
+  }
+
   /**
    * Get the list of file paths modified in a given commit.
    *
@@ -560,6 +666,11 @@ export class GitHub {
    * @throws {GitHubAPIError} on an API error
    */
   getCommitFiles = wrapAsync(async (sha: string): Promise<string[]> => {
+    const cached = await this.responseCache?.get<string[]>('commit-files', sha);
+    if (cached) {
+      this.logger.debug(`Using cached file list for commit: ${sha}`);
+      return cached;
+    }
     this.logger.debug(`Backfilling file list for commit: ${sha}`);
     const files: string[] = [];
     for await (const resp of this.octokit.paginate.iterator(
@@ -579,11 +690,13 @@ export class GitHub {
       }
     }
     if (files.length >= 3000) {
+      // the API truncates the list, so don't cache it
       this.logger.warn(
         `Found ${files.length} files. This may not include all the files.`
       );
     } else {
       this.logger.debug(`Found ${files.length} files`);
+      await this.responseCache?.set('commit-files', sha, files);
     }
     return files;
   });
@@ -591,7 +704,7 @@ export class GitHub {
   private graphqlRequest = wrapAsync(
     async (
       opts: {
-        [key: string]: string | number | null | undefined;
+        [key: string]: string | string[] | number | null | undefined;
       },
       options?: {
         maxRetries?: number;
@@ -644,7 +757,7 @@ export class GitHub {
    */
   async *pullRequestIterator(
     targetBranch: string,
-    status: 'OPEN' | 'CLOSED' | 'MERGED' = 'MERGED',
+    status: PullRequestStatus = 'MERGED',
     maxResults: number = Number.MAX_SAFE_INTEGER,
     includeFiles = true
   ): AsyncGenerator<PullRequest, void, void> {
@@ -666,7 +779,7 @@ export class GitHub {
    */
   private async *pullRequestIteratorWithFiles(
     targetBranch: string,
-    status: 'OPEN' | 'CLOSED' | 'MERGED' = 'MERGED',
+    status: PullRequestStatus = 'MERGED',
     maxResults: number = Number.MAX_SAFE_INTEGER
   ): AsyncGenerator<PullRequest, void, void> {
     let cursor: string | undefined = undefined;
@@ -699,7 +812,7 @@ export class GitHub {
    */
   private async *pullRequestIteratorWithoutFiles(
     targetBranch: string,
-    status: 'OPEN' | 'CLOSED' | 'MERGED' = 'MERGED',
+    status: PullRequestStatus = 'MERGED',
     maxResults: number = Number.MAX_SAFE_INTEGER
   ): AsyncGenerator<PullRequest, void, void> {
     const statusMap: Record<string, 'open' | 'closed'> = {
@@ -759,7 +872,7 @@ export class GitHub {
    */
   private async pullRequestsGraphQL(
     targetBranch: string,
-    states: 'OPEN' | 'CLOSED' | 'MERGED' = 'MERGED',
+    states: PullRequestStatus = 'MERGED',
     cursor?: string
   ): Promise<PullRequestHistory | null> {
     this.logger.debug(
@@ -842,7 +955,9 @@ export class GitHub {
    * @yields {GitHubRelease}
    * @throws {GitHubAPIError} on an API error
    */
-  async *releaseIterator(options: ReleaseIteratorOptions = {}) {
+  async *releaseIterator(
+    options: ReleaseIteratorOptions = {}
+  ): AsyncGenerator<GitHubRelease, void, void> {
     const maxResults = options.maxResults ?? Number.MAX_SAFE_INTEGER;
     let results = 0;
     let cursor: string | undefined = undefined;
@@ -880,6 +995,7 @@ export class GitHub {
               tagCommit {
                 oid
               }
+              databaseId
               url
               description
               isDraft
@@ -910,6 +1026,7 @@ export class GitHub {
             this.logger.debug(release);
           }
           return {
+            id: release.databaseId,
             name: release.name || undefined,
             tagName: release.tag ? release.tag.name : 'unknown',
             sha: release.tagCommit.oid,
@@ -930,7 +1047,9 @@ export class GitHub {
    * @yields {GitHubTag}
    * @throws {GitHubAPIError} on an API error
    */
-  async *tagIterator(options: TagIteratorOptions = {}) {
+  async *tagIterator(
+    options: TagIteratorOptions = {}
+  ): AsyncGenerator<GitHubTag, void, void> {
     const maxResults = options.maxResults || Number.MAX_SAFE_INTEGER;
     let results = 0;
     for await (const response of this.octokit.paginate.iterator(
@@ -1099,11 +1218,7 @@ export class GitHub {
   async createReleasePullRequest(
     releasePullRequest: ReleasePullRequest,
     targetBranch: string,
-    options?: {
-      signoffUser?: string;
-      fork?: boolean;
-      skipLabeling?: boolean;
-    }
+    options?: CreateReleasePullRequestOptions
   ): Promise<PullRequest> {
     let message = releasePullRequest.title.toString();
     if (options?.signoffUser) {
@@ -1210,11 +1325,7 @@ export class GitHub {
       number: number,
       releasePullRequest: ReleasePullRequest,
       targetBranch: string,
-      options?: {
-        signoffUser?: string;
-        fork?: boolean;
-        pullRequestOverflowHandler?: PullRequestOverflowHandler;
-      }
+      options?: UpdatePullRequestOptions
     ): Promise<PullRequest> => {
       //  Update the files for the release if not already supplied
       const changes = await this.buildChangeSet(
@@ -1287,39 +1398,7 @@ export class GitHub {
     updates: Update[],
     defaultBranch: string
   ): Promise<ChangeSet> {
-    const changes = new Map();
-    for (const update of updates) {
-      let content: GitHubFileContents | undefined;
-      try {
-        content = await this.getFileContentsOnBranch(
-          update.path,
-          defaultBranch
-        );
-      } catch (err) {
-        if (!(err instanceof FileNotFoundError)) throw err;
-        // if the file is missing and create = false, just continue
-        // to the next update, otherwise create the file.
-        if (!update.createIfMissing) {
-          this.logger.warn(`file ${update.path} did not exist`);
-          continue;
-        }
-      }
-      const contentText = content
-        ? Buffer.from(content.content, 'base64').toString('utf8')
-        : undefined;
-      const updatedContent = update.updater.updateContent(
-        contentText,
-        this.logger
-      );
-      if (updatedContent) {
-        changes.set(update.path, {
-          content: updatedContent,
-          originalContent: content?.parsedContent || null,
-          mode: content?.mode || DEFAULT_FILE_MODE,
-        });
-      }
-    }
-    return changes;
+    return buildChangeSet(this, updates, defaultBranch, this.logger);
   }
 
   /**
@@ -1425,6 +1504,119 @@ export class GitHub {
     }
   );
 
+  /**
+   * Upload files to a GitHub release. As GitHub rejects duplicate asset
+   * names, a replacement for an existing asset is uploaded under a
+   * temporary name first, and only renamed once the existing asset is
+   * deleted.
+   *
+   * @param {GitHubRelease} githubRelease The release, found by its id as
+   *   draft releases cannot be found by tag
+   * @param {ReleaseAsset[]} assets The files to upload
+   * @returns {string[]} Download URLs of the uploaded assets
+   * @throws {GitHubAPIError} on an API error
+   */
+  uploadReleaseAssets = wrapAsync(
+    async (
+      githubRelease: GitHubRelease,
+      assets: ReleaseAsset[]
+    ): Promise<string[]> => {
+      const {data: release} = await this.octokit.repos.getRelease({
+        owner: this.repository.owner,
+        repo: this.repository.repo,
+        release_id: githubRelease.id,
+      });
+      const existingAssets = await this.octokit.paginate(
+        this.octokit.repos.listReleaseAssets,
+        {
+          owner: this.repository.owner,
+          repo: this.repository.repo,
+          release_id: release.id,
+          per_page: 100,
+        }
+      );
+      const urls: string[] = [];
+      for (const asset of assets) {
+        const existing = existingAssets.find(({name}) => name === asset.name);
+        if (!existing) {
+          this.logger.info(`Uploading release asset: ${asset.name}`);
+          const uploaded = await this.uploadReleaseAsset(
+            release.upload_url,
+            asset.name,
+            asset
+          );
+          urls.push(uploaded.browser_download_url);
+          continue;
+        }
+
+        this.logger.info(`Replacing release asset: ${asset.name}`);
+        const temporaryName = `${asset.name}.uploading`;
+        // left behind by a previous run that failed part way
+        const stale = existingAssets.find(({name}) => name === temporaryName);
+        if (stale) {
+          await this.octokit.repos.deleteReleaseAsset({
+            owner: this.repository.owner,
+            repo: this.repository.repo,
+            asset_id: stale.id,
+          });
+        }
+        const uploaded = await this.uploadReleaseAsset(
+          release.upload_url,
+          temporaryName,
+          asset
+        );
+        await this.octokit.repos.deleteReleaseAsset({
+          owner: this.repository.owner,
+          repo: this.repository.repo,
+          asset_id: existing.id,
+        });
+        try {
+          const resp = await this.octokit.repos.updateReleaseAsset({
+            owner: this.repository.owner,
+            repo: this.repository.repo,
+            asset_id: uploaded.id,
+            name: asset.name,
+          });
+          urls.push(resp.data.browser_download_url);
+        } catch (e) {
+          this.logger.error(
+            `Release asset ${asset.name} was replaced, but its replacement is still named ${temporaryName}`
+          );
+          throw e;
+        }
+      }
+      return urls;
+    }
+  );
+
+  /**
+   * Upload a single file to a release. The generated octokit types only
+   * accept a string body, so the request is built directly to send the
+   * Buffer as-is.
+   *
+   * @param {string} uploadUrl The upload URL template of the release
+   * @param {string} name The name of the uploaded asset
+   * @param {ReleaseAsset} asset The file to upload
+   * @returns {UploadedReleaseAsset} The uploaded asset
+   */
+  private async uploadReleaseAsset(
+    uploadUrl: string,
+    name: string,
+    asset: ReleaseAsset
+  ): Promise<UploadedReleaseAsset> {
+    const resp = await this.octokit.request({
+      method: 'POST',
+      url: uploadUrl,
+      name,
+      data: asset.content,
+      headers: {
+        'content-type': asset.contentType ?? 'application/octet-stream',
+        'content-length': asset.content.length,
+      },
+    });
+    return resp.data;
+  }
+
   /**
    * Makes a comment on a issue/pull request.
    *
@@ -1678,20 +1870,6 @@ export class GitHub {
   }
 }
 
-/**
- * Normalize a provided prefix by removing leading and trailing
- * slashes.
- *
- * @param prefix String to normalize
- */
-function normalizePrefix(prefix: string) {
-  const normalized = prefix.replace(/^[/\\]/, '').replace(/[/\\]$/, '');
-  if (normalized === ROOT_PROJECT_PATH) {
-    return '';
-  }
-  return normalized;
-}
-
 /**
  * Wrap an async method with error handling
  *
@@ -1699,7 +1877,7 @@ function normalizePrefix(prefix: string) {
  * @param errorHandler An optional error handler for rethrowing custom exceptions
  */
 /* eslint-disable @typescript-eslint/no-explicit-any */
-const wrapAsync = <T extends Array<any>, V>(
+export const wrapAsync = <T extends Array<any>, V>(
   fn: (...args: T) => Promise<V>,
   errorHandler?: (e: Error) => void
 ) => {
@@ -1720,3 +1898,31 @@ const wrapAsync = <T extends Array<any>, V>(
 
 export const sleepInMs = (ms: number) =>
   new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Wrap an octokit instance so that git blobs read by the file cache are
+ * served from, and saved to, the persistent response cache. Blobs are
+ * addressed by their content so a cached blob never changes.
+ *
+ * @param {OctokitType} octokit The octokit instance to wrap
+ * @param {ResponseCache} cache The persistent response cache
+ */
+function withCachedBlobs(
+  octokit: OctokitType,
+  cache: ResponseCache
+): OctokitType {
+  const getBlob = async (
+    params: Parameters<OctokitType['git']['getBlob']>[0] & {file_sha: string}
+  ) => {
+    const content = await cache.get<string>('blobs', params.file_sha);
+    if (content !== undefined) {
+      return {data: {sha: params.file_sha, content, encoding: 'base64'}};
+    }
+    const response = await octokit.git.getBlob(params);
+    await cache.set('blobs', params.file_sha, response.data.content);
+    return response;
+  };
+  return Object.assign(Object.create(octokit), {
+    git: {...octokit.git, getBlob},
+  });
+}
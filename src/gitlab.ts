@@ -0,0 +1,1108 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {request} from '@octokit/request';
+import {RequestError} from '@octokit/request-error';
+import {
+  GitHubFileContents,
+  DEFAULT_FILE_MODE,
+} from '@google-automations/git-file-utils';
+import {Commit} from './commit';
+import {PullRequest} from './pull-request';
+import {Repository} from './repository';
+import {ReleasePullRequest} from './release-pull-request';
+import {Release} from './release';
+import {Update} from './update';
+import {
+  ConfigurationError,
+  DuplicateReleaseError,
+  FileNotFoundError,
+} from './errors';
+import {logger as defaultLogger, Logger} from './util/logger';
+import {signoffCommitMessage} from './util/signoff-commit-message';
+import {buildChangeSet} from './util/change-set';
+import {
+  filterByExtension,
+  filterByFilename,
+  filterByGlob,
+  normalizePrefix,
+} from './util/tree-search';
+import {wrapAsync} from './github';
+import {
+  ScmProvider,
+  ChangeSet,
+  CommitFilter,
+  CommitIteratorOptions,
+  CreatePullRequestOptions,
+  CreateReleasePullRequestOptions,
+  GitHubRelease,
+  GitHubTag,
+  PullRequestStatus,
+  ReleaseIteratorOptions,
+  ReleaseOptions,
+  ReleaseAsset,
+  TagIteratorOptions,
+  UpdatePullRequestOptions,
+} from './scm-provider';
+
+export const GL_API_URL = 'https://gitlab.com/api/v4';
+const PER_PAGE = 100;
+
+type RequestFunctionType = ReturnType<typeof request.defaults>;
+
+export interface GitLabOptions {
+  repository: Repository;
+  apiUrl: string;
+  request: RequestFunctionType;
+  logger?: Logger;
+}
+
+interface GitLabCreateOptions {
+  owner: string;
+  repo: string;
+  defaultBranch?: string;
+  apiUrl?: string;
+  token?: string;
+  logger?: Logger;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  fetch?: any;
+}
+
+interface GitLabCommit {
+  id: string;
+  message: string;
+  committed_date?: string;
+}
+
+interface GitLabMergeRequest {
+  iid: number;
+  title: string;
+  description: string | null;
+  source_branch: string;
+  target_branch: string;
+  labels: string[];
+  state: 'opened' | 'closed' | 'merged' | 'locked';
+  sha: string;
+  merge_commit_sha: string | null;
+  squash_commit_sha: string | null;
+  updated_at?: string;
+}
+
+interface GitLabRelease {
+  name: string | null;
+  tag_name: string;
+  description: string | null;
+  commit: {
+    id: string;
+  };
+  _links?: {
+    self?: string;
+  };
+}
+
+interface GitLabTag {
+  name: string;
+  commit: {
+    id: string;
+  };
+}
+
+interface GitLabTreeEntry {
+  path: string;
+  type: 'blob' | 'tree' | 'commit';
+}
+
+interface GitLabDiff {
+  new_path: string;
+  old_path: string;
+}
+
+interface GitLabFile {
+  blob_id: string;
+  content: string;
+  execute_filemode?: boolean;
+}
+
+interface PageResponse<T> {
+  data: T[];
+  headers: Record<string, string | number | undefined>;
+}
+
+const PULL_REQUEST_STATES: Record<PullRequestStatus, string> = {
+  OPEN: 'opened',
+  CLOSED: 'closed',
+  MERGED: 'merged',
+};
+
+const EXECUTABLE_FILE_MODE = '100755';
+
+// allowance for the merge commit being created slightly after the merge
+// request was last updated
+const MERGE_CLOCK_SKEW_MS = 60 * 60 * 1000;
+
+/**
+ * Lazily indexes merged merge requests by the commits that introduced
+ * them. Merge requests are read from the project listing, most recently
+ * updated first, so walking the history costs one request per page of
+ * merge requests rather than one per commit.
+ */
+class MergeRequestIndex {
+  private byMergeCommit = new Map<string, GitLabMergeRequest>();
+  private byHeadCommit = new Map<string, GitLabMergeRequest>();
+  private oldestUpdatedAt = Number.POSITIVE_INFINITY;
+  private exhausted = false;
+  private mergeRequests: AsyncGenerator<GitLabMergeRequest, void, void>;
+
+  constructor(mergeRequests: AsyncGenerator<GitLabMergeRequest, void, void>) {
+    this.mergeRequests = mergeRequests;
+  }
+
+  /**
+   * Find the merge request that introduced a commit.
+   *
+   * @param {GitLabCommit} commit The commit to look up
+   * @returns The merge request, and whether the commit is its merge (or
+   *   squash) commit rather than a commit on its source branch
+   */
+  async find(
+    commit: GitLabCommit
+  ): Promise<{mergeRequest: GitLabMergeRequest; merged: boolean} | undefined> {
+    const committedAt = commit.committed_date
+      ? Date.parse(commit.committed_date)
+      : Number.NaN;
+    for (;;) {
+      const merged = this.byMergeCommit.get(commit.id);
+      if (merged) {
+        return {mergeRequest: merged, merged: true};
+      }
+      const head = this.byHeadCommit.get(commit.id);
+      if (head) {
+        return {mergeRequest: head, merged: false};
+      }
+      // merging updates a merge request, so merge requests last updated
+      // before this commit was made cannot have introduced it
+      if (
+        this.exhausted ||
+        this.oldestUpdatedAt < committedAt - MERGE_CLOCK_SKEW_MS
+      ) {
+        return undefined;
+      }
+      const next = await this.mergeRequests.next();
+      if (next.done) {
+        this.exhausted = true;
+      } else {
+        this.add(next.value);
+      }
+    }
+  }
+
+  private add(mergeRequest: GitLabMergeRequest) {
+    for (const sha of [
+      mergeRequest.merge_commit_sha,
+      mergeRequest.squash_commit_sha,
+    ]) {
+      if (sha) {
+        this.byMergeCommit.set(sha, mergeRequest);
+      }
+    }
+    if (mergeRequest.merge_commit_sha || mergeRequest.squash_commit_sha) {
+      this.byHeadCommit.set(mergeRequest.sha, mergeRequest);
+    } else {
+      // fast-forward merges do not create a new commit
+      this.byMergeCommit.set(mergeRequest.sha, mergeRequest);
+    }
+    if (mergeRequest.updated_at) {
+      this.oldestUpdatedAt = Math.min(
+        this.oldestUpdatedAt,
+        Date.parse(mergeRequest.updated_at)
+      );
+    }
+  }
+}
+
+/**
+ * An SCM provider backed by the GitLab REST API (v4). Merge requests
+ * are exposed as pull requests, using the merge request `iid` as the
+ * pull request number.
+ */
+export class GitLab implements ScmProvider {
+  readonly repository: Repository;
+  private apiUrl: string;
+  private request: RequestFunctionType;
+  private logger: Logger;
+  private fileCache: Map<string, GitHubFileContents>;
+  private treeCache: Map<string, string[]>;
+
+  private constructor(options: GitLabOptions) {
+    this.repository = options.repository;
+    this.apiUrl = options.apiUrl;
+    this.request = options.request;
+    this.logger = options.logger ?? defaultLogger;
+    this.fileCache = new Map();
+    this.treeCache = new Map();
+  }
+
+  /**
+   * Build a new GitLab client with auto-detected default branch.
+   *
+   * @param {GitLabCreateOptions} options Configuration options
+   * @param {string} options.owner The project namespace (user or group path).
+   * @param {string} options.repo The project name.
+   * @param {string} options.defaultBranch Optional. The project's default branch.
+   *   Defaults to the value fetched via the API.
+   * @param {string} options.apiUrl Optional. The base url of the GitLab API.
+   *   Defaults to `https://gitlab.com/api/v4`.
+   * @param {string} token Optional. A GitLab access token used for authentication.
+   */
+  static async create(options: GitLabCreateOptions): Promise<GitLab> {
+    const apiUrl = options.apiUrl ?? GL_API_URL;
+    const releasePleaseVersion = require('../../package.json').version;
+    const headers: Record<string, string> = {
+      'user-agent': `release-please/${releasePleaseVersion}`,
+    };
+    if (options.token) {
+      headers['private-token'] = options.token;
+    }
+    const gitlabRequest = request.defaults({
+      baseUrl: apiUrl,
+      headers,
+      request: {
+        fetch: options.fetch,
+      },
+    });
+    return new GitLab({
+      repository: {
+        owner: options.owner,
+        repo: options.repo,
+        defaultBranch:
+          options.defaultBranch ??
+          (await GitLab.defaultBranch(
+            options.owner,
+            options.repo,
+            gitlabRequest
+          )),
+      },
+      apiUrl,
+      request: gitlabRequest,
+      logger: options.logger,
+    });
+  }
+
+  /**
+   * Returns the default branch for a given project.
+   *
+   * @param {string} owner The project namespace
+   * @param {string} repo The project name
+   * @param {RequestFunctionType} gitlabRequest An authenticated request function
+   * @returns {string} Name of the default branch
+   */
+  static async defaultBranch(
+    owner: string,
+    repo: string,
+    gitlabRequest: RequestFunctionType
+  ): Promise<string> {
+    const {data} = await gitlabRequest('GET /projects/{project}', {
+      project: `${owner}/${repo}`,
+    });
+    return data.default_branch;
+  }
+
+  private get project(): string {
+    return `${this.repository.owner}/${this.repository.repo}`;
+  }
+
+  private get webUrl(): string {
+    return `${this.apiUrl.replace(/\/api\/v4\/?$/, '')}/${this.project}`;
+  }
+
+  /**
+   * Iterate through a paginated list endpoint using the `x-next-page`
+   * response header.
+   */
+  private async *paginate<T>(
+    route: string,
+    params: Record<string, string | number | boolean | undefined> = {}
+  ): AsyncGenerator<T, void, void> {
+    let page: number | undefined = 1;
+    while (page) {
+      const response: PageResponse<T> = await this.request(route, {
+        project: this.project,
+        per_page: PER_PAGE,
+        page,
+        ...params,
+      });
+      for (const item of response.data) {
+        yield item;
+      }
+      const nextPage = response.headers['x-next-page'];
+      page = nextPage ? Number(nextPage) : undefined;
+    }
+  }
+
+  async commitsSince(
+    targetBranch: string,
+    filter: CommitFilter,
+    options: CommitIteratorOptions = {}
+  ): Promise<Commit[]> {
+    const commits: Commit[] = [];
+    for await (const commit of this.mergeCommitIterator(
+      targetBranch,
+      options
+    )) {
+      if (filter(commit)) {
+        break;
+      }
+      commits.push(commit);
+    }
+    return commits;
+  }
+
+  /**
+   * Iterate through commit history with a max number of results scanned.
+   * Each commit is cross-referenced with the merged merge request that
+   * introduced it, as either its merge commit, squash commit or the head
+   * of its source branch. Other commits of a merge request merged with a
+   * merge commit are not linked to it.
+   *
+   * @param {string} targetBranch target branch of commit
+   * @param {CommitIteratorOptions} options Query options
+   * @yields {Commit}
+   * @throws {GitHubAPIError} on an API error
+   */
+  async *mergeCommitIterator(
+    targetBranch: string,
+    options: CommitIteratorOptions = {}
+  ): AsyncGenerator<Commit, void, void> {
+    const maxResults = options.maxResults ?? Number.MAX_SAFE_INTEGER;
+    let results = 0;
+    const mergeRequests = new MergeRequestIndex(
+      this.paginate<GitLabMergeRequest>(
+        'GET /projects/{project}/merge_requests',
+        {
+          state: PULL_REQUEST_STATES.MERGED,
+          target_branch: targetBranch,
+          order_by: 'updated_at',
+          sort: 'desc',
+        }
+      )
+    );
+    try {
+      for await (const gitlabCommit of this.paginate<GitLabCommit>(
+        'GET /projects/{project}/repository/commits',
+        {ref_name: targetBranch}
+      )) {
+        if (results++ >= maxResults) {
+          break;
+        }
+        yield await this.buildCommit(gitlabCommit, mergeRequests, options);
+      }
+    } catch (e) {
+      if (e instanceof RequestError && e.status === 404) {
+        this.logger.warn(
+          `Could not find commits for branch ${targetBranch} - it likely does not exist.`
+        );
+        return;
+      }
+      throw e;
+    }
+  }
+
+  private async buildCommit(
+    gitlabCommit: GitLabCommit,
+    mergeRequests: MergeRequestIndex,
+    options: CommitIteratorOptions
+  ): Promise<Commit> {
+    const commit: Commit = {
+      sha: gitlabCommit.id,
+      message: gitlabCommit.message,
+    };
+    const found = await mergeRequests.find(gitlabCommit);
+    if (found) {
+      commit.pullRequest = {
+        ...this.toPullRequest(found.mergeRequest),
+        sha: commit.sha,
+        mergeCommitOid: found.merged ? gitlabCommit.id : undefined,
+      };
+    }
+    if (found?.merged || options.backfillFiles) {
+      commit.files = await this.getCommitFiles(gitlabCommit.id);
+    }
+    return commit;
+  }
+
+  /**
+   * Get the list of file paths modified in a given commit.
+   *
+   * @param {string} sha The commit SHA
+   * @returns {string[]} File paths
+   * @throws {GitHubAPIError} on an API error
+   */
+  getCommitFiles = wrapAsync(async (sha: string): Promise<string[]> => {
+    this.logger.debug(`Backfilling file list for commit: ${sha}`);
+    const files: string[] = [];
+    for await (const diff of this.paginate<GitLabDiff>(
+      'GET /projects/{project}/repository/commits/{sha}/diff',
+      {sha}
+    )) {
+      files.push(diff.new_path);
+    }
+    this.logger.debug(`Found ${files.length} files`);
+    return files;
+  });
+
+  /**
+   * Iterate through merge requests with a max number of results scanned.
+   *
+   * @param {string} targetBranch The target branch of the merge request
+   * @param {string} status The status of the merge request
+   * @param {number} maxResults Limit the number of results searched. Defaults to
+   *   unlimited.
+   * @param {boolean} includeFiles Whether to fetch the list of files included in
+   *   the merge request. Defaults to `true`.
+   * @yields {PullRequest}
+   * @throws {GitHubAPIError} on an API error
+   */
+  async *pullRequestIterator(
+    targetBranch: string,
+    status: PullRequestStatus = 'MERGED',
+    maxResults: number = Number.MAX_SAFE_INTEGER,
+    includeFiles = true
+  ): AsyncGenerator<PullRequest, void, void> {
+    let results = 0;
+    for await (const mergeRequest of this.paginate<GitLabMergeRequest>(
+      'GET /projects/{project}/merge_requests',
+      {
+        state: PULL_REQUEST_STATES[status],
+        target_branch: targetBranch,
+        order_by: 'updated_at',
+        sort: 'desc',
+      }
+    )) {
+      if (results++ >= maxResults) {
+        break;
+      }
+      const pullRequest = this.toPullRequest(mergeRequest);
+      if (includeFiles) {
+        const files: string[] = [];
+        for await (const diff of this.paginate<GitLabDiff>(
+          'GET /projects/{project}/merge_requests/{iid}/diffs',
+          {iid: mergeRequest.iid}
+        )) {
+          files.push(diff.new_path);
+        }
+        yield {...pullRequest, files};
+      } else {
+        yield pullRequest;
+      }
+    }
+  }
+
+  private toPullRequest(mergeRequest: GitLabMergeRequest): PullRequest {
+    return {
+      headBranchName: mergeRequest.source_branch,
+      baseBranchName: mergeRequest.target_branch,
+      number: mergeRequest.iid,
+      title: mergeRequest.title,
+      body: mergeRequest.description || '',
+      labels: mergeRequest.labels || [],
+      files: [],
+      sha:
+        mergeRequest.merge_commit_sha ||
+        mergeRequest.squash_commit_sha ||
+        // fast-forward merges do not create a new commit
+        (mergeRequest.state === 'merged' ? mergeRequest.sha : undefined),
+    };
+  }
+
+  /**
+   * Iterate through releases with a max number of results scanned.
+   *
+   * @param {ReleaseIteratorOptions} options Query options
+   * @param {number} options.maxResults Limit the number of results searched.
+   *   Defaults to unlimited.
+   * @yields {GitHubRelease}
+   * @throws {GitHubAPIError} on an API error
+   */
+  async *releaseIterator(
+    options: ReleaseIteratorOptions = {}
+  ): AsyncGenerator<GitHubRelease, void, void> {
+    const maxResults = options.maxResults ?? Number.MAX_SAFE_INTEGER;
+    let results = 0;
+    for await (const release of this.paginate<GitLabRelease>(
+      'GET /projects/{project}/releases'
+    )) {
+      if (results++ >= maxResults) {
+        break;
+      }
+      yield this.toRelease(release);
+    }
+  }
+
+  private toRelease(release: GitLabRelease): GitHubRelease {
+    return {
+      // GitLab releases are identified by their tag name
+      id: 0,
+      name: release.name || undefined,
+      tagName: release.tag_name,
+      sha: release.commit.id,
+      notes: release.description || undefined,
+      url:
+        release._links?.self ??
+        `${this.webUrl}/-/releases/${encodeURIComponent(release.tag_name)}`,
+      draft: false,
+    };
+  }
+
+  /**
+   * Iterate through tags with a max number of results scanned.
+   *
+   * @param {TagIteratorOptions} options Query options
+   * @param {number} options.maxResults Limit the number of results searched.
+   *   Defaults to unlimited.
+   * @yields {GitHubTag}
+   * @throws {GitHubAPIError} on an API error
+   */
+  async *tagIterator(
+    options: TagIteratorOptions = {}
+  ): AsyncGenerator<GitHubTag, void, void> {
+    const maxResults = options.maxResults || Number.MAX_SAFE_INTEGER;
+    let results = 0;
+    for await (const tag of this.paginate<GitLabTag>(
+      'GET /projects/{project}/repository/tags'
+    )) {
+      if (results++ >= maxResults) {
+        break;
+      }
+      yield {
+        name: tag.name,
+        sha: tag.commit.id,
+      };
+    }
+  }
+
+  async getFileContents(path: string): Promise<GitHubFileContents> {
+    return await this.getFileContentsOnBranch(
+      path,
+      this.repository.defaultBranch
+    );
+  }
+
+  /**
+   * Fetch the contents of a file. Results are cached per branch.
+   *
+   * @param {string} path The path to the file in the repository
+   * @param {string} branch The branch to fetch from
+   * @returns {GitHubFileContents}
+   * @throws {FileNotFoundError} if the file cannot be found
+   * @throws {GitHubAPIError} on other API errors
+   */
+  getFileContentsOnBranch = wrapAsync(
+    async (path: string, branch: string): Promise<GitHubFileContents> => {
+      this.logger.debug(`Fetching ${path} from branch ${branch}`);
+      const cacheKey = `${branch}:${path}`;
+      const cached = this.fileCache.get(cacheKey);
+      if (cached) {
+        return cached;
+      }
+      try {
+        const {data} = (await this.request(
+          'GET /projects/{project}/repository/files/{path}',
+          {project: this.project, path, ref: branch}
+        )) as {data: GitLabFile};
+        const contents: GitHubFileContents = {
+          sha: data.blob_id,
+          mode: data.execute_filemode
+            ? EXECUTABLE_FILE_MODE
+            : DEFAULT_FILE_MODE,
+          content: data.content,
+          parsedContent: Buffer.from(data.content, 'base64').toString('utf8'),
+        };
+        this.fileCache.set(cacheKey, contents);
+        return contents;
+      } catch (e) {
+        if (e instanceof RequestError && e.status === 404) {
+          throw new FileNotFoundError(path);
+        }
+        throw e;
+      }
+    }
+  );
+
+  async getFileJson<T>(path: string, branch: string): Promise<T> {
+    const content = await this.getFileContentsOnBranch(path, branch);
+    return JSON.parse(content.parsedContent);
+  }
+
+  /**
+   * List all file paths in the repository tree at the given ref.
+   * Results are cached per ref.
+   */
+  private async listFiles(ref: string): Promise<string[]> {
+    const cached = this.treeCache.get(ref);
+    if (cached) {
+      return cached;
+    }
+    const files: string[] = [];
+    for await (const entry of this.paginate<GitLabTreeEntry>(
+      'GET /projects/{project}/repository/tree',
+      {ref, recursive: true}
+    )) {
+      if (entry.type === 'blob') {
+        files.push(entry.path);
+      }
+    }
+    this.treeCache.set(ref, files);
+    return files;
+  }
+
+  async findFilesByFilename(
+    filename: string,
+    prefix?: string
+  ): Promise<string[]> {
+    return this.findFilesByFilenameAndRef(
+      filename,
+      this.repository.defaultBranch,
+      prefix
+    );
+  }
+
+  findFilesByFilenameAndRef = wrapAsync(
+    async (
+      filename: string,
+      ref: string,
+      prefix?: string
+    ): Promise<string[]> => {
+      if (prefix) {
+        prefix = normalizePrefix(prefix);
+      }
+      this.logger.debug(
+        `finding files by filename: ${filename}, ref: ${ref}, prefix: ${prefix}`
+      );
+      return filterByFilename(await this.listFiles(ref), filename, prefix);
+    }
+  );
+
+  async findFilesByGlob(glob: string, prefix?: string): Promise<string[]> {
+    return this.findFilesByGlobAndRef(
+      glob,
+      this.repository.defaultBranch,
+      prefix
+    );
+  }
+
+  findFilesByGlobAndRef = wrapAsync(
+    async (glob: string, ref: string, prefix?: string): Promise<string[]> => {
+      if (prefix) {
+        prefix = normalizePrefix(prefix);
+      }
+      this.logger.debug(
+        `finding files by glob: ${glob}, ref: ${ref}, prefix: ${prefix}`
+      );
+      return filterByGlob(await this.listFiles(ref), glob, prefix);
+    }
+  );
+
+  async findFilesByExtension(
+    extension: string,
+    prefix?: string
+  ): Promise<string[]> {
+    return this.findFilesByExtensionAndRef(
+      extension,
+      this.repository.defaultBranch,
+      prefix
+    );
+  }
+
+  findFilesByExtensionAndRef = wrapAsync(
+    async (
+      extension: string,
+      ref: string,
+      prefix?: string
+    ): Promise<string[]> => {
+      if (prefix) {
+        prefix = normalizePrefix(prefix);
+      }
+      return filterByExtension(await this.listFiles(ref), extension, prefix);
+    }
+  );
+
+  /**
+   * Open a merge request for a release.
+   *
+   * @deprecated This logic is handled by the Manifest class now as it
+   *   can be more complicated if the release notes are too big
+   */
+  async createReleasePullRequest(
+    releasePullRequest: ReleasePullRequest,
+    targetBranch: string,
+    options?: CreateReleasePullRequestOptions
+  ): Promise<PullRequest> {
+    let message = releasePullRequest.title.toString();
+    if (options?.signoffUser) {
+      message = signoffCommitMessage(message, options.signoffUser);
+    }
+    return await this.createPullRequest(
+      {
+        headBranchName: releasePullRequest.headRefName,
+        baseBranchName: targetBranch,
+        number: -1,
+        title: releasePullRequest.title.toString(),
+        body: releasePullRequest.body.toString(),
+        labels: options?.skipLabeling ? [] : releasePullRequest.labels,
+        files: [],
+      },
+      targetBranch,
+      message,
+      releasePullRequest.updates,
+      {
+        fork: options?.fork,
+        draft: releasePullRequest.draft,
+      }
+    );
+  }
+
+  /**
+   * Commit the file updates to the head branch and open a merge request.
+   *
+   * @param {PullRequest} pullRequest Pull request data to update
+   * @param {string} targetBranch The base branch of the pull request
+   * @param {string} message The commit message for the commit
+   * @param {Update[]} updates The files to update
+   * @param {CreatePullRequestOptions} options The pull request options
+   * @throws {GitHubAPIError} on an API error
+   */
+  createPullRequest = wrapAsync(
+    async (
+      pullRequest: PullRequest,
+      targetBranch: string,
+      message: string,
+      updates: Update[],
+      options?: CreatePullRequestOptions
+    ): Promise<PullRequest> => {
+      if (options?.fork) {
+        this.logger.warn('GitLab provider does not support forks, ignoring');
+      }
+      const changes = await this.buildChangeSet(updates, targetBranch);
+      await this.commitChanges(
+        changes,
+        pullRequest.headBranchName,
+        targetBranch,
+        message
+      );
+      const {data} = await this.request(
+        'POST /projects/{project}/merge_requests',
+        {
+          project: this.project,
+          source_branch: pullRequest.headBranchName,
+          target_branch: targetBranch,
+          title: options?.draft
+            ? `Draft: ${pullRequest.title}`
+            : pullRequest.title,
+          description: pullRequest.body,
+          labels: pullRequest.labels.join(','),
+          remove_source_branch: true,
+        }
+      );
+      return this.toPullRequest(data);
+    }
+  );
+
+  /**
+   * Fetch a merge request given its iid
+   * @param {number} number The merge request iid
+   * @returns {PullRequest}
+   */
+  getPullRequest = wrapAsync(async (number: number): Promise<PullRequest> => {
+    const {data} = await this.request(
+      'GET /projects/{project}/merge_requests/{iid}',
+      {project: this.project, iid: number}
+    );
+    return this.toPullRequest(data);
+  });
+
+  /**
+   * Update a merge request's title, description and files. Closed merge
+   * requests are reopened.
+   * @param {number} number The merge request iid
+   * @param {ReleasePullRequest} releasePullRequest Pull request data to update
+   * @param {string} targetBranch The target branch of the pull request
+   * @param {UpdatePullRequestOptions} options The pull request options
+   */
+  updatePullRequest = wrapAsync(
+    async (
+      number: number,
+      releasePullRequest: ReleasePullRequest,
+      targetBranch: string,
+      options?: UpdatePullRequestOptions
+    ): Promise<PullRequest> => {
+      const changes = await this.buildChangeSet(
+        releasePullRequest.updates,
+        targetBranch
+      );
+      let message = releasePullRequest.title.toString();
+      if (options?.signoffUser) {
+        message = signoffCommitMessage(message, options.signoffUser);
+      }
+      await this.commitChanges(
+        changes,
+        releasePullRequest.headRefName,
+        targetBranch,
+        message
+      );
+      const body = (
+        options?.pullRequestOverflowHandler
+          ? await options.pullRequestOverflowHandler.handleOverflow(
+              releasePullRequest
+            )
+          : releasePullRequest.body
+      ).toString();
+      const {data} = await this.request(
+        'PUT /projects/{project}/merge_requests/{iid}',
+        {
+          project: this.project,
+          iid: number,
+          title: releasePullRequest.title.toString(),
+          description: body,
+          state_event: 'reopen',
+        }
+      );
+      return this.toPullRequest(data);
+    }
+  );
+
+  /**
+   * Create a single commit on `branch`, forked from `startBranch`, that
+   * applies all the changes. The branch is force-reset to `startBranch`
+   * first.
+   */
+  private async commitChanges(
+    changes: ChangeSet,
+    branch: string,
+    startBranch: string,
+    message: string
+  ): Promise<void> {
+    const actions = [];
+    for (const [path, change] of changes) {
+      actions.push({
+        action:
+          change.content === null
+            ? 'delete'
+            : change.originalContent === null
+            ? 'create'
+            : 'update',
+        file_path: path,
+        content: change.content ?? undefined,
+      });
+      if (change.content !== null && change.mode === EXECUTABLE_FILE_MODE) {
+        actions.push({
+          action: 'chmod',
+          file_path: path,
+          execute_filemode: true,
+        });
+      }
+    }
+    this.logger.debug(
+      `Committing ${actions.length} changes to ${branch} from ${startBranch}`
+    );
+    await this.request('POST /projects/{project}/repository/commits', {
+      project: this.project,
+      branch,
+      start_branch: startBranch,
+      force: true,
+      commit_message: message,
+      actions,
+    });
+    // the branch was reset, so anything read from it is stale
+    for (const key of this.fileCache.keys()) {
+      if (key.startsWith(`${branch}:`)) {
+        this.fileCache.delete(key);
+      }
+    }
+    this.treeCache.delete(branch);
+  }
+
+  async buildChangeSet(
+    updates: Update[],
+    defaultBranch: string
+  ): Promise<ChangeSet> {
+    return buildChangeSet(this, updates, defaultBranch, this.logger);
+  }
+
+  /**
+   * Create a GitLab release. GitLab has no draft or prerelease releases,
+   * so those options are ignored.
+   *
+   * @param {Release} release Release parameters
+   * @param {ReleaseOptions} options Release option parameters
+   * @throws {DuplicateReleaseError} if the release tag already exists
+   * @throws {GitHubAPIError} on other API errors
+   */
+  createRelease = wrapAsync(
+    async (
+      release: Release,
+      options: ReleaseOptions = {}
+    ): Promise<GitHubRelease> => {
+      if (options.draft) {
+        this.logger.warn('GitLab does not support draft releases, ignoring');
+      }
+      const {data} = await this.request('POST /projects/{project}/releases', {
+        project: this.project,
+        name: release.name,
+        tag_name: release.tag.toString(),
+        ref: release.sha,
+        description: release.notes,
+      });
+      return this.toRelease(data);
+    },
+    e => {
+      if (e instanceof RequestError && e.status === 409) {
+        throw new DuplicateReleaseError(e, 'tagName');
+      }
+    }
+  );
+
+  /**
+   * Makes a comment on a merge request.
+   *
+   * @param {string} comment The body of the comment to post.
+   * @param {number} number The merge request iid.
+   * @returns {string} The URL of the comment
+   * @throws {GitHubAPIError} on an API error
+   */
+  commentOnIssue = wrapAsync(
+    async (comment: string, number: number): Promise<string> => {
+      const url = `${this.webUrl}/-/merge_requests/${number}`;
+      this.logger.debug(`adding comment to ${url}`);
+      const {data} = await this.request(
+        'POST /projects/{project}/merge_requests/{iid}/notes',
+        {project: this.project, iid: number, body: comment}
+      );
+      return `${url}#note_${data.id}`;
+    }
+  );
+
+  /**
+   * Removes labels from a merge request.
+   *
+   * @param {string[]} labels The labels to remove.
+   * @param {number} number The merge request iid.
+   */
+  removeIssueLabels = wrapAsync(
+    async (labels: string[], number: number): Promise<void> => {
+      if (labels.length === 0) {
+        return;
+      }
+      this.logger.debug(
+        `removing labels: ${labels} from merge request ${number}`
+      );
+      await this.request('PUT /projects/{project}/merge_requests/{iid}', {
+        project: this.project,
+        iid: number,
+        remove_labels: labels.join(','),
+      });
+    }
+  );
+
+  /**
+   * Adds labels to a merge request.
+   *
+   * @param {string[]} labels The labels to add.
+   * @param {number} number The merge request iid.
+   */
+  addIssueLabels = wrapAsync(
+    async (labels: string[], number: number): Promise<void> => {
+      if (labels.length === 0) {
+        return;
+      }
+      this.logger.debug(`adding labels: ${labels} to merge request ${number}`);
+      await this.request('PUT /projects/{project}/merge_requests/{iid}', {
+        project: this.project,
+        iid: number,
+        add_labels: labels.join(','),
+      });
+    }
+  );
+
+  /**
+   * GitLab does not have an equivalent of GitHub's generated release notes.
+   *
+   * @throws {ConfigurationError}
+   */
+  async generateReleaseNotes(
+    _tagName: string,
+    _targetCommitish: string,
+    _previousTag?: string
+  ): Promise<string> {
+    throw new ConfigurationError(
+      'Generated release notes are not supported by GitLab. Use the `default` changelog type instead.',
+      'gitlab',
+      this.project
+    );
+  }
+
+  /**
+   * Uploading release assets is not yet supported for GitLab.
+   *
+   * @throws {ConfigurationError}
+   */
+  async uploadReleaseAssets(
+    _release: GitHubRelease,
+    _assets: ReleaseAsset[]
+  ): Promise<string[]> {
+    throw new ConfigurationError(
+      'Release assets are not supported by GitLab.',
+      'gitlab',
+      this.project
+    );
+  }
+
+  /**
+   * Create a single file on a new branch based on an existing
+   * branch. This will force-push to that branch.
+   * @param {string} filename Filename with path in the repository
+   * @param {string} contents Contents of the file
+   * @param {string} newBranchName Name of the new branch
+   * @param {string} baseBranchName Name of the base branch (where
+   *   new branch is forked from)
+   * @returns {string} HTML URL of the new file
+   */
+  createFileOnNewBranch = wrapAsync(
+    async (
+      filename: string,
+      contents: string,
+      newBranchName: string,
+      baseBranchName: string
+    ): Promise<string> => {
+      let originalContent: string | null = null;
+      try {
+        originalContent = (
+          await this.getFileContentsOnBranch(filename, baseBranchName)
+        ).parsedContent;
+      } catch (e) {
+        if (!(e instanceof FileNotFoundError)) {
+          throw e;
+        }
+      }
+      await this.commitChanges(
+        new Map([
+          [filename, {mode: '100644', content: contents, originalContent}],
+        ]),
+        newBranchName,
+        baseBranchName,
+        'Saving release notes'
+      );
+      return `${this.webUrl}/-/blob/${newBranchName}/${filename}`;
+    }
+  );
+}
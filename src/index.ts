@@ -20,6 +20,7 @@ export {
   PluginType,
   CandidateRelease,
   CreatedRelease,
+  NotificationConfig,
 } from './manifest';
 export {ReleasePullRequest} from './release-pull-request';
 export {PullRequest} from './pull-request';
@@ -45,6 +46,20 @@ export {
   getPluginTypes,
   registerPlugin,
 } from './factories/plugin-factory';
+export {
+  NotifierBuilder,
+  NotifierFactoryOptions,
+  getNotifierTypes,
+  registerNotifier,
+} from './factories/notifier-factory';
+export {
+  Notification,
+  NotificationEvent,
+  Notifier,
+  NotifierOptions,
+  PullRequestNotification,
+  ReleaseNotification,
+} from './notifier';
 export {
   VersioningStrategyBuilder,
   VersioningStrategyFactoryOptions,
@@ -58,7 +73,19 @@ export {
   ChangelogSection,
 } from './changelog-notes';
 export {Logger, setLogger} from './util/logger';
+export {
+  CommitLintOptions,
+  CommitLintProblem,
+  CommitLintResult,
+  CommitLintRule,
+  CommitLintSeverity,
+  lintCommits,
+} from './util/commit-lint';
 export {GitHub} from './github';
+export {GitLab} from './gitlab';
+export {Gitea} from './gitea';
+export {LocalGit} from './local-git';
+export {ScmProvider} from './scm-provider';
 export const configSchema = require('../../schemas/config.json');
 export const manifestSchema = require('../../schemas/manifest.json');
 
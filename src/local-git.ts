@@ -0,0 +1,1029 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {spawn} from 'child_process';
+import {promises as fs} from 'fs';
+import {tmpdir} from 'os';
+import {basename, join, resolve} from 'path';
+import {RequestError} from '@octokit/request-error';
+import {GitHubFileContents} from '@google-automations/git-file-utils';
+import {Commit} from './commit';
+import {PullRequest} from './pull-request';
+import {Repository} from './repository';
+import {ReleasePullRequest} from './release-pull-request';
+import {Release} from './release';
+import {Update} from './update';
+import {
+  ConfigurationError,
+  DuplicateReleaseError,
+  FileNotFoundError,
+  GitCommandError,
+} from './errors';
+import {logger as defaultLogger, Logger} from './util/logger';
+import {signoffCommitMessage} from './util/signoff-commit-message';
+import {buildChangeSet} from './util/change-set';
+import {
+  filterByExtension,
+  filterByFilename,
+  filterByGlob,
+  normalizePrefix,
+} from './util/tree-search';
+import {
+  ScmProvider,
+  ChangeSet,
+  CommitFilter,
+  CommitIteratorOptions,
+  CreatePullRequestOptions,
+  CreateReleasePullRequestOptions,
+  GitHubRelease,
+  GitHubTag,
+  PullRequestStatus,
+  ReleaseIteratorOptions,
+  ReleaseOptions,
+  ReleaseAsset,
+  TagIteratorOptions,
+  UpdatePullRequestOptions,
+} from './scm-provider';
+
+const DEFAULT_IDENTITY_NAME = 'release-please';
+const DEFAULT_IDENTITY_EMAIL = 'release-please@localhost';
+
+export interface LocalGitOptions {
+  repository: Repository;
+  path: string;
+  outputDir: string;
+  env?: NodeJS.ProcessEnv;
+  logger?: Logger;
+}
+
+interface LocalGitCreateOptions {
+  path: string;
+  owner?: string;
+  repo?: string;
+  defaultBranch?: string;
+  outputDir?: string;
+  logger?: Logger;
+}
+
+/**
+ * A pull request recorded on disk. Its state is derived from git: it is
+ * merged once its head commit is reachable from the base branch.
+ */
+interface LocalPullRequest {
+  number: number;
+  title: string;
+  body: string;
+  headBranchName: string;
+  baseBranchName: string;
+  labels: string[];
+  headSha: string;
+  closed: boolean;
+  comments: string[];
+}
+
+/**
+ * An SCM provider that works from a local clone without any API. History
+ * and tags are read with git, release branches are written to local refs
+ * and release pull requests are recorded as files in the output directory
+ * (by default `.git/release-please`).
+ *
+ * A release is an annotated tag, whose message holds the release notes.
+ */
+export class LocalGit implements ScmProvider {
+  readonly repository: Repository;
+  private path: string;
+  private outputDir: string;
+  private env: NodeJS.ProcessEnv;
+  private logger: Logger;
+
+  private constructor(options: LocalGitOptions) {
+    this.repository = options.repository;
+    this.path = options.path;
+    this.outputDir = options.outputDir;
+    this.env = options.env ?? {};
+    this.logger = options.logger ?? defaultLogger;
+  }
+
+  /**
+   * Build a new local git provider.
+   *
+   * @param {LocalGitCreateOptions} options Configuration options
+   * @param {string} options.path Path to the local clone.
+   * @param {string} options.owner Optional. The repository owner. Defaults
+   *   to the owner of the `origin` remote.
+   * @param {string} options.repo Optional. The repository name. Defaults
+   *   to the name of the `origin` remote or the directory name.
+   * @param {string} options.defaultBranch Optional. Defaults to the
+   *   currently checked out branch or, if HEAD is detached, the default
+   *   branch of the `origin` remote.
+   * @param {string} options.outputDir Optional. Where release pull requests
+   *   are written. Defaults to `release-please` in the git directory.
+   * @throws {ConfigurationError} if no default branch is given and it
+   *   cannot be detected
+   */
+  static async create(options: LocalGitCreateOptions): Promise<LocalGit> {
+    const path = resolve(options.path);
+    const git = (...args: string[]) => runGit(path, args);
+    const gitDir = (await git('rev-parse', '--absolute-git-dir')).trim();
+    const [remoteOwner, remoteRepo] = await git('remote', 'get-url', 'origin')
+      .then(parseRemoteUrl)
+      .catch(() => [undefined, undefined]);
+    const defaultBranch =
+      options.defaultBranch ?? (await LocalGit.defaultBranch(path));
+    return new LocalGit({
+      repository: {
+        owner: options.owner ?? remoteOwner ?? 'local',
+        repo: options.repo ?? remoteRepo ?? basename(path),
+        defaultBranch,
+      },
+      path,
+      outputDir: resolve(options.outputDir ?? join(gitDir, 'release-please')),
+      env: await identityEnv(path),
+      logger: options.logger,
+    });
+  }
+
+  /**
+   * Returns the checked out branch. CI systems usually check out a
+   * detached HEAD, in which case the default branch of the `origin`
+   * remote is used.
+   *
+   * @param {string} path Path to the local clone
+   * @returns {string} Name of the default branch
+   * @throws {ConfigurationError} if neither can be found
+   */
+  static async defaultBranch(path: string): Promise<string> {
+    const symbolicRef = (ref: string) =>
+      runGit(path, ['symbolic-ref', '--quiet', '--short', ref]).then(
+        output => output.trim(),
+        () => ''
+      );
+    const head = await symbolicRef('HEAD');
+    if (head) {
+      return head;
+    }
+    const remoteHead = await symbolicRef('refs/remotes/origin/HEAD');
+    if (remoteHead) {
+      return remoteHead.replace(/^origin\//, '');
+    }
+    throw new ConfigurationError(
+      'HEAD is detached and origin/HEAD is not set, unable to detect the default branch. Pass --target-branch to choose one.',
+      'local',
+      path
+    );
+  }
+
+  private git(args: string[], input?: string, env?: NodeJS.ProcessEnv) {
+    return runGit(this.path, args, input, {...this.env, ...env});
+  }
+
+  private async revParse(rev: string): Promise<string | undefined> {
+    const sha = await this.git(['rev-parse', '--verify', '--quiet', rev]).catch(
+      () => ''
+    );
+    return sha.trim() || undefined;
+  }
+
+  async commitsSince(
+    targetBranch: string,
+    filter: CommitFilter,
+    options: CommitIteratorOptions = {}
+  ): Promise<Commit[]> {
+    const commits: Commit[] = [];
+    for await (const commit of this.mergeCommitIterator(
+      targetBranch,
+      options
+    )) {
+      if (filter(commit)) {
+        break;
+      }
+      commits.push(commit);
+    }
+    return commits;
+  }
+
+  /**
+   * Iterate through commit history with a max number of results scanned.
+   * Changed files are always included. Commits are never associated with
+   * a pull request.
+   *
+   * @param {string} targetBranch target branch of commit
+   * @param {CommitIteratorOptions} options Query options
+   * @yields {Commit}
+   */
+  async *mergeCommitIterator(
+    targetBranch: string,
+    options: CommitIteratorOptions = {}
+  ): AsyncGenerator<Commit, void, void> {
+    if (!(await this.revParse(`${targetBranch}^{commit}`))) {
+      this.logger.warn(
+        `Could not find commits for branch ${targetBranch} - it likely does not exist.`
+      );
+      return;
+    }
+    const args = ['log', '--format=%x1e%H%x00%B%x00', '--name-only'];
+    if (options.maxResults) {
+      args.push('-n', `${options.maxResults}`);
+    }
+    const output = await this.git([...args, targetBranch, '--']);
+    for (const record of output.split('\x1e').slice(1)) {
+      const [sha, message, files] = record.split('\0');
+      yield {
+        sha,
+        message: message.replace(/\n+$/, ''),
+        files: files.split('\n').filter(file => !!file),
+      };
+    }
+  }
+
+  /**
+   * Get the list of file paths modified in a given commit.
+   *
+   * @param {string} sha The commit SHA
+   * @returns {string[]} File paths
+   */
+  async getCommitFiles(sha: string): Promise<string[]> {
+    const output = await this.git([
+      'diff-tree',
+      '--root',
+      '--no-commit-id',
+      '--name-only',
+      '-r',
+      sha,
+    ]);
+    return output.split('\n').filter(file => !!file);
+  }
+
+  /**
+   * Iterate through the pull requests recorded in the output directory,
+   * newest first.
+   *
+   * @param {string} targetBranch The base branch of the pull request
+   * @param {string} status The status of the pull request
+   * @param {number} maxResults Limit the number of results searched. Defaults to
+   *   unlimited.
+   * @param {boolean} includeFiles Whether to fetch the list of files included in
+   *   the pull request. Defaults to `true`.
+   * @yields {PullRequest}
+   */
+  async *pullRequestIterator(
+    targetBranch: string,
+    status: PullRequestStatus = 'MERGED',
+    maxResults: number = Number.MAX_SAFE_INTEGER,
+    includeFiles = true
+  ): AsyncGenerator<PullRequest, void, void> {
+    let results = 0;
+    const records = (await this.readPullRequests()).sort(
+      (a, b) => b.number - a.number
+    );
+    for (const record of records) {
+      if (record.baseBranchName !== targetBranch) {
+        continue;
+      }
+      if ((await this.pullRequestStatus(record)) !== status) {
+        continue;
+      }
+      if (results++ >= maxResults) {
+        break;
+      }
+      const pullRequest = this.toPullRequest(record, status);
+      if (includeFiles) {
+        yield {
+          ...pullRequest,
+          files: await this.getCommitFiles(record.headSha),
+        };
+      } else {
+        yield pullRequest;
+      }
+    }
+  }
+
+  private async pullRequestStatus(
+    record: LocalPullRequest
+  ): Promise<PullRequestStatus> {
+    const merged = await this.git([
+      'merge-base',
+      '--is-ancestor',
+      record.headSha,
+      record.baseBranchName,
+    ]).then(
+      () => true,
+      () => false
+    );
+    if (merged) {
+      return 'MERGED';
+    }
+    return record.closed ? 'CLOSED' : 'OPEN';
+  }
+
+  private toPullRequest(
+    record: LocalPullRequest,
+    status: PullRequestStatus = 'OPEN'
+  ): PullRequest {
+    return {
+      headBranchName: record.headBranchName,
+      baseBranchName: record.baseBranchName,
+      number: record.number,
+      title: record.title,
+      body: record.body,
+      labels: record.labels,
+      files: [],
+      sha: status === 'MERGED' ? record.headSha : undefined,
+    };
+  }
+
+  private pullRequestPath(number: number, extension = 'json'): string {
+    return join(this.outputDir, 'pulls', `${number}.${extension}`);
+  }
+
+  private async readPullRequests(): Promise<LocalPullRequest[]> {
+    let filenames: string[];
+    try {
+      filenames = await fs.readdir(join(this.outputDir, 'pulls'));
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw e;
+    }
+    const records: LocalPullRequest[] = [];
+    for (const filename of filenames) {
+      if (filename.endsWith('.json')) {
+        records.push(
+          JSON.parse(
+            await fs.readFile(join(this.outputDir, 'pulls', filename), 'utf8')
+          )
+        );
+      }
+    }
+    return records;
+  }
+
+  private async readPullRequest(number: number): Promise<LocalPullRequest> {
+    try {
+      return JSON.parse(
+        await fs.readFile(this.pullRequestPath(number), 'utf8')
+      );
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error(`Pull request #${number} does not exist`);
+      }
+      throw e;
+    }
+  }
+
+  /**
+   * Write the pull request record and its body, so that the body can be
+   * reviewed without parsing the record.
+   */
+  private async writePullRequest(record: LocalPullRequest): Promise<void> {
+    await fs.mkdir(join(this.outputDir, 'pulls'), {recursive: true});
+    await fs.writeFile(
+      this.pullRequestPath(record.number),
+      JSON.stringify(record, null, 2)
+    );
+    await fs.writeFile(this.pullRequestPath(record.number, 'md'), record.body);
+  }
+
+  /**
+   * Iterate through releases with a max number of results scanned. Each
+   * tag is a release, with the tag annotation as the release notes.
+   *
+   * @param {ReleaseIteratorOptions} options Query options
+   * @param {number} options.maxResults Limit the number of results searched.
+   *   Defaults to unlimited.
+   * @yields {GitHubRelease}
+   */
+  async *releaseIterator(
+    options: ReleaseIteratorOptions = {}
+  ): AsyncGenerator<GitHubRelease, void, void> {
+    const maxResults = options.maxResults ?? Number.MAX_SAFE_INTEGER;
+    let results = 0;
+    for (const tag of await this.listTags()) {
+      if (results++ >= maxResults) {
+        break;
+      }
+      yield {
+        id: 0,
+        name: tag.name,
+        tagName: tag.name,
+        sha: tag.sha,
+        notes: tag.notes || undefined,
+        url: `refs/tags/${tag.name}`,
+        draft: false,
+      };
+    }
+  }
+
+  /**
+   * Iterate through tags with a max number of results scanned.
+   *
+   * @param {TagIteratorOptions} options Query options
+   * @param {number} options.maxResults Limit the number of results searched.
+   *   Defaults to unlimited.
+   * @yields {GitHubTag}
+   */
+  async *tagIterator(
+    options: TagIteratorOptions = {}
+  ): AsyncGenerator<GitHubTag, void, void> {
+    const maxResults = options.maxResults || Number.MAX_SAFE_INTEGER;
+    let results = 0;
+    for (const tag of await this.listTags()) {
+      if (results++ >= maxResults) {
+        break;
+      }
+      yield {
+        name: tag.name,
+        sha: tag.sha,
+      };
+    }
+  }
+
+  /**
+   * List tags, newest first, with their peeled commit SHA and annotation.
+   */
+  private async listTags(): Promise<
+    {name: string; sha: string; notes: string}[]
+  > {
+    const output = await this.git([
+      'for-each-ref',
+      '--sort=-creatordate',
+      '--format=%1e%(refname:strip=2)%00%(objectname)%00%(*objectname)%00%(contents)',
+      'refs/tags',
+    ]);
+    return output
+      .split('\x1e')
+      .slice(1)
+      .map(record => {
+        const [name, sha, peeledSha, notes] = record.split('\0');
+        return {
+          name,
+          sha: peeledSha || sha,
+          // lightweight tags have the commit message as their contents
+          notes: peeledSha ? notes.replace(/\n+$/, '') : '',
+        };
+      });
+  }
+
+  async getFileContents(path: string): Promise<GitHubFileContents> {
+    return await this.getFileContentsOnBranch(
+      path,
+      this.repository.defaultBranch
+    );
+  }
+
+  /**
+   * Fetch the contents of a file
+   *
+   * @param {string} path The path to the file in the repository
+   * @param {string} branch The branch to fetch from
+   * @returns {GitHubFileContents}
+   * @throws {FileNotFoundError} if the file cannot be found
+   */
+  async getFileContentsOnBranch(
+    path: string,
+    branch: string
+  ): Promise<GitHubFileContents> {
+    this.logger.debug(`Fetching ${path} from branch ${branch}`);
+    // a missing branch is reported like a missing file, as other
+    // providers do
+    const entry = (
+      await this.git(['ls-tree', branch, '--', path]).catch(e => {
+        if (e instanceof GitCommandError) {
+          return '';
+        }
+        throw e;
+      })
+    ).trim();
+    const match = entry.match(/^(\d+) blob (\w+)\t/);
+    if (!match) {
+      throw new FileNotFoundError(path);
+    }
+    const parsedContent = await this.git(['cat-file', 'blob', match[2]]);
+    return {
+      sha: match[2],
+      mode: match[1],
+      content: Buffer.from(parsedContent, 'utf8').toString('base64'),
+      parsedContent,
+    };
+  }
+
+  async getFileJson<T>(path: string, branch: string): Promise<T> {
+    const content = await this.getFileContentsOnBranch(path, branch);
+    return JSON.parse(content.parsedContent);
+  }
+
+  private async listFiles(ref: string): Promise<string[]> {
+    const output = await this.git(['ls-tree', '-r', '--name-only', ref]);
+    return output.split('\n').filter(file => !!file);
+  }
+
+  async findFilesByFilename(
+    filename: string,
+    prefix?: string
+  ): Promise<string[]> {
+    return this.findFilesByFilenameAndRef(
+      filename,
+      this.repository.defaultBranch,
+      prefix
+    );
+  }
+
+  async findFilesByFilenameAndRef(
+    filename: string,
+    ref: string,
+    prefix?: string
+  ): Promise<string[]> {
+    if (prefix) {
+      prefix = normalizePrefix(prefix);
+    }
+    this.logger.debug(
+      `finding files by filename: ${filename}, ref: ${ref}, prefix: ${prefix}`
+    );
+    return filterByFilename(await this.listFiles(ref), filename, prefix);
+  }
+
+  async findFilesByGlob(glob: string, prefix?: string): Promise<string[]> {
+    return this.findFilesByGlobAndRef(
+      glob,
+      this.repository.defaultBranch,
+      prefix
+    );
+  }
+
+  async findFilesByGlobAndRef(
+    glob: string,
+    ref: string,
+    prefix?: string
+  ): Promise<string[]> {
+    if (prefix) {
+      prefix = normalizePrefix(prefix);
+    }
+    this.logger.debug(
+      `finding files by glob: ${glob}, ref: ${ref}, prefix: ${prefix}`
+    );
+    return filterByGlob(await this.listFiles(ref), glob, prefix);
+  }
+
+  async findFilesByExtension(
+    extension: string,
+    prefix?: string
+  ): Promise<string[]> {
+    return this.findFilesByExtensionAndRef(
+      extension,
+      this.repository.defaultBranch,
+      prefix
+    );
+  }
+
+  async findFilesByExtensionAndRef(
+    extension: string,
+    ref: string,
+    prefix?: string
+  ): Promise<string[]> {
+    if (prefix) {
+      prefix = normalizePrefix(prefix);
+    }
+    return filterByExtension(await this.listFiles(ref), extension, prefix);
+  }
+
+  /**
+   * Open a pull request for a release.
+   *
+   * @deprecated This logic is handled by the Manifest class now as it
+   *   can be more complicated if the release notes are too big
+   */
+  async createReleasePullRequest(
+    releasePullRequest: ReleasePullRequest,
+    targetBranch: string,
+    options?: CreateReleasePullRequestOptions
+  ): Promise<PullRequest> {
+    let message = releasePullRequest.title.toString();
+    if (options?.signoffUser) {
+      message = signoffCommitMessage(message, options.signoffUser);
+    }
+    return await this.createPullRequest(
+      {
+        headBranchName: releasePullRequest.headRefName,
+        baseBranchName: targetBranch,
+        number: -1,
+        title: releasePullRequest.title.toString(),
+        body: releasePullRequest.body.toString(),
+        labels: options?.skipLabeling ? [] : releasePullRequest.labels,
+        files: [],
+      },
+      targetBranch,
+      message,
+      releasePullRequest.updates,
+      {
+        fork: options?.fork,
+        draft: releasePullRequest.draft,
+      }
+    );
+  }
+
+  /**
+   * Write the file updates to a local branch forked from the target branch
+   * and record the pull request in the output directory.
+   *
+   * @param {PullRequest} pullRequest Pull request data to update
+   * @param {string} targetBranch The base branch of the pull request
+   * @param {string} message The commit message for the commit
+   * @param {Update[]} updates The files to update
+   * @param {CreatePullRequestOptions} _options Ignored
+   */
+  async createPullRequest(
+    pullRequest: PullRequest,
+    targetBranch: string,
+    message: string,
+    updates: Update[],
+    _options?: CreatePullRequestOptions
+  ): Promise<PullRequest> {
+    const changes = await this.buildChangeSet(updates, targetBranch);
+    const headSha = await this.commitChanges(
+      changes,
+      pullRequest.headBranchName,
+      targetBranch,
+      message
+    );
+    const records = await this.readPullRequests();
+    const record: LocalPullRequest = {
+      number: Math.max(0, ...records.map(record => record.number)) + 1,
+      title: pullRequest.title,
+      body: pullRequest.body,
+      headBranchName: pullRequest.headBranchName,
+      baseBranchName: targetBranch,
+      labels: pullRequest.labels,
+      headSha,
+      closed: false,
+      comments: [],
+    };
+    await this.writePullRequest(record);
+    this.logger.info(
+      `Wrote pull request #${record.number} to ${this.pullRequestPath(
+        record.number,
+        'md'
+      )}`
+    );
+    return this.toPullRequest(record);
+  }
+
+  /**
+   * Fetch a pull request given the pull number
+   * @param {number} number The pull request number
+   * @returns {PullRequest}
+   */
+  async getPullRequest(number: number): Promise<PullRequest> {
+    const record = await this.readPullRequest(number);
+    return this.toPullRequest(record, await this.pullRequestStatus(record));
+  }
+
+  /**
+   * Reset the head branch to the target branch with the updates applied and
+   * rewrite the pull request record. Closed pull requests are reopened.
+   * @param {number} number The pull request number
+   * @param {ReleasePullRequest} releasePullRequest Pull request data to update
+   * @param {string} targetBranch The target branch of the pull request
+   * @param {UpdatePullRequestOptions} options The pull request options
+   */
+  async updatePullRequest(
+    number: number,
+    releasePullRequest: ReleasePullRequest,
+    targetBranch: string,
+    options?: UpdatePullRequestOptions
+  ): Promise<PullRequest> {
+    const record = await this.readPullRequest(number);
+    const changes = await this.buildChangeSet(
+      releasePullRequest.updates,
+      targetBranch
+    );
+    let message = releasePullRequest.title.toString();
+    if (options?.signoffUser) {
+      message = signoffCommitMessage(message, options.signoffUser);
+    }
+    const headSha = await this.commitChanges(
+      changes,
+      releasePullRequest.headRefName,
+      targetBranch,
+      message
+    );
+    const body = (
+      options?.pullRequestOverflowHandler
+        ? await options.pullRequestOverflowHandler.handleOverflow(
+            releasePullRequest
+          )
+        : releasePullRequest.body
+    ).toString();
+    const updated: LocalPullRequest = {
+      ...record,
+      title: releasePullRequest.title.toString(),
+      body,
+      headBranchName: releasePullRequest.headRefName,
+      baseBranchName: targetBranch,
+      headSha,
+      closed: false,
+    };
+    await this.writePullRequest(updated);
+    return this.toPullRequest(updated);
+  }
+
+  /**
+   * Create a single commit on top of `startBranch` that applies all the
+   * changes and point `branch` at it. The working tree and index of the
+   * clone are left untouched.
+   *
+   * @returns {string} The SHA of the new commit
+   */
+  private async commitChanges(
+    changes: ChangeSet,
+    branch: string,
+    startBranch: string,
+    message: string
+  ): Promise<string> {
+    const parent = (
+      await this.git(['rev-parse', '--verify', `${startBranch}^{commit}`])
+    ).trim();
+    const indexFile = join(
+      tmpdir(),
+      `release-please-index-${process.pid}-${Date.now()}`
+    );
+    const env = {GIT_INDEX_FILE: indexFile};
+    try {
+      await this.git(['read-tree', parent], undefined, env);
+      for (const [path, change] of changes) {
+        if (change.content === null) {
+          await this.git(
+            ['update-index', '--force-remove', '--', path],
+            undefined,
+            env
+          );
+          continue;
+        }
+        const blob = (
+          await this.git(['hash-object', '-w', '--stdin'], change.content)
+        ).trim();
+        await this.git(
+          [
+            'update-index',
+            '--add',
+            '--cacheinfo',
+            `${change.mode},${blob},${path}`,
+          ],
+          undefined,
+          env
+        );
+      }
+      const tree = (await this.git(['write-tree'], undefined, env)).trim();
+      const commit = (
+        await this.git(['commit-tree', tree, '-p', parent], message)
+      ).trim();
+      await this.git(['update-ref', `refs/heads/${branch}`, commit]);
+      this.logger.debug(`Committed ${changes.size} changes to ${branch}`);
+      return commit;
+    } finally {
+      await fs.rm(indexFile, {force: true});
+    }
+  }
+
+  async buildChangeSet(
+    updates: Update[],
+    defaultBranch: string
+  ): Promise<ChangeSet> {
+    return buildChangeSet(this, updates, defaultBranch, this.logger);
+  }
+
+  /**
+   * Create an annotated tag with the release notes as its message.
+   *
+   * @param {Release} release Release parameters
+   * @param {ReleaseOptions} options Release option parameters
+   * @throws {DuplicateReleaseError} if the release tag already exists
+   */
+  async createRelease(
+    release: Release,
+    options: ReleaseOptions = {}
+  ): Promise<GitHubRelease> {
+    if (options.draft || options.prerelease) {
+      this.logger.warn(
+        'Local git provider does not support draft or prerelease releases, ignoring'
+      );
+    }
+    const tagName = release.tag.toString();
+    if (await this.revParse(`refs/tags/${tagName}`)) {
+      throw new DuplicateReleaseError(
+        new RequestError(`Tag ${tagName} already exists`, 422, {
+          request: {
+            method: 'POST',
+            url: `refs/tags/${tagName}`,
+            headers: {},
+          },
+        }),
+        'tagName'
+      );
+    }
+    await this.git([
+      'tag',
+      '--annotate',
+      '--cleanup=verbatim',
+      '--message',
+      release.notes || tagName,
+      tagName,
+      release.sha,
+    ]);
+    return {
+      id: 0,
+      name: release.name,
+      tagName,
+      sha: release.sha,
+      notes: release.notes,
+      url: `refs/tags/${tagName}`,
+      draft: false,
+    };
+  }
+
+  /**
+   * Record a comment on a pull request.
+   *
+   * @param {string} comment The body of the comment to post.
+   * @param {number} number The pull request number.
+   * @returns {string} The path of the pull request record
+   */
+  async commentOnIssue(comment: string, number: number): Promise<string> {
+    const record = await this.readPullRequest(number);
+    record.comments.push(comment);
+    await this.writePullRequest(record);
+    return this.pullRequestPath(number);
+  }
+
+  /**
+   * Removes labels from a pull request.
+   *
+   * @param {string[]} labels The labels to remove.
+   * @param {number} number The pull request number.
+   */
+  async removeIssueLabels(labels: string[], number: number): Promise<void> {
+    if (labels.length === 0) {
+      return;
+    }
+    const record = await this.readPullRequest(number);
+    record.labels = record.labels.filter(label => !labels.includes(label));
+    await this.writePullRequest(record);
+  }
+
+  /**
+   * Adds labels to a pull request.
+   *
+   * @param {string[]} labels The labels to add.
+   * @param {number} number The pull request number.
+   */
+  async addIssueLabels(labels: string[], number: number): Promise<void> {
+    if (labels.length === 0) {
+      return;
+    }
+    const record = await this.readPullRequest(number);
+    record.labels = [...new Set([...record.labels, ...labels])];
+    await this.writePullRequest(record);
+  }
+
+  /**
+   * Release notes can only be generated by a hosted provider.
+   *
+   * @throws {ConfigurationError}
+   */
+  async generateReleaseNotes(
+    _tagName: string,
+    _targetCommitish: string,
+    _previousTag?: string
+  ): Promise<string> {
+    throw new ConfigurationError(
+      'Generated release notes are not supported by the local git provider. Use the `default` changelog type instead.',
+      'local',
+      `${this.repository.owner}/${this.repository.repo}`
+    );
+  }
+
+  /**
+   * Release assets can only be uploaded to a hosted provider.
+   *
+   * @throws {ConfigurationError}
+   */
+  async uploadReleaseAssets(
+    _release: GitHubRelease,
+    _assets: ReleaseAsset[]
+  ): Promise<string[]> {
+    throw new ConfigurationError(
+      'Release assets are not supported by the local git provider.',
+      'local',
+      `${this.repository.owner}/${this.repository.repo}`
+    );
+  }
+
+  /**
+   * Create a single file on a new branch based on an existing
+   * branch. This will overwrite that branch.
+   * @param {string} filename Filename with path in the repository
+   * @param {string} contents Contents of the file
+   * @param {string} newBranchName Name of the new branch
+   * @param {string} baseBranchName Name of the base branch (where
+   *   new branch is forked from)
+   * @returns {string} The git revision of the new file
+   */
+  async createFileOnNewBranch(
+    filename: string,
+    contents: string,
+    newBranchName: string,
+    baseBranchName: string
+  ): Promise<string> {
+    await this.commitChanges(
+      new Map([
+        [filename, {mode: '100644', content: contents, originalContent: null}],
+      ]),
+      newBranchName,
+      baseBranchName,
+      'Saving release notes'
+    );
+    return `${newBranchName}:${filename}`;
+  }
+}
+
+/**
+ * Run a git command and resolve with its standard output.
+ */
+function runGit(
+  cwd: string,
+  args: string[],
+  input?: string,
+  env?: NodeJS.ProcessEnv
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn('git', args, {
+      cwd,
+      env: {...process.env, ...env},
+    });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    child.stdout.on('data', chunk => stdout.push(chunk));
+    child.stderr.on('data', chunk => stderr.push(chunk));
+    child.on('error', reject);
+    child.on('close', code => {
+      if (code === 0) {
+        resolve(Buffer.concat(stdout).toString('utf8'));
+      } else {
+        reject(
+          new GitCommandError(
+            args,
+            code,
+            Buffer.concat(stderr).toString('utf8').trim()
+          )
+        );
+      }
+    });
+    child.stdin.end(input);
+  });
+}
+
+/**
+ * Commits and tags need an identity. Fall back to a default one if the
+ * clone has none configured, as is common in CI.
+ */
+async function identityEnv(cwd: string): Promise<NodeJS.ProcessEnv> {
+  const configured = async (key: string) =>
+    runGit(cwd, ['config', key]).then(
+      value => !!value.trim(),
+      () => false
+    );
+  const env: NodeJS.ProcessEnv = {};
+  if (!(await configured('user.name'))) {
+    env.GIT_AUTHOR_NAME = process.env.GIT_AUTHOR_NAME ?? DEFAULT_IDENTITY_NAME;
+    env.GIT_COMMITTER_NAME =
+      process.env.GIT_COMMITTER_NAME ?? DEFAULT_IDENTITY_NAME;
+  }
+  if (!(await configured('user.email'))) {
+    env.GIT_AUTHOR_EMAIL =
+      process.env.GIT_AUTHOR_EMAIL ?? DEFAULT_IDENTITY_EMAIL;
+    env.GIT_COMMITTER_EMAIL =
+      process.env.GIT_COMMITTER_EMAIL ?? DEFAULT_IDENTITY_EMAIL;
+  }
+  return env;
+}
+
+/**
+ * Parse the owner and repository name from a remote URL.
+ */
+function parseRemoteUrl(
+  url: string
+): [string, string] | [undefined, undefined] {
+  const match = url.trim().match(/[:/]([^/:]+)\/([^/]+?)(?:\.git)?\/?$/);
+  return match ? [match[1], match[2]] : [undefined, undefined];
+}
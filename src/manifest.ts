@@ -13,8 +13,20 @@
 // limitations under the License.
 
 import {ChangelogSection} from './changelog-notes';
-import {GitHub, GitHubRelease, GitHubTag} from './github';
-import {Version, VersionsMap} from './version';
+import {
+  ScmProvider,
+  GitHubRelease,
+  GitHubTag,
+  ReleaseAsset,
+} from './scm-provider';
+import {
+  CalendarVersion,
+  ParseVersionOptions,
+  Pep440Version,
+  Version,
+  VersionsMap,
+  parseVersion,
+} from './version';
 import {Commit, parseConventionalCommits} from './commit';
 import {PullRequest} from './pull-request';
 import {logger as defaultLogger, Logger} from './util/logger';
@@ -23,6 +35,7 @@ import {TagName} from './util/tag-name';
 import {Repository} from './repository';
 import {BranchName} from './util/branch-name';
 import {PullRequestTitle} from './util/pull-request-title';
+import {PullRequestBody} from './util/pull-request-body';
 import {ReleasePullRequest} from './release-pull-request';
 import {
   buildStrategy,
@@ -41,12 +54,23 @@ import {
   ConfigurationError,
 } from './errors';
 import {ManifestPlugin} from './plugin';
+import {Notification, NotificationEvent, Notifier} from './notifier';
+import {buildNotifier} from './factories/notifier-factory';
+import {buildChecksumsAsset, resolveReleaseAssets} from './util/release-assets';
 import {
   PullRequestOverflowHandler,
   FilePullRequestOverflowHandler,
 } from './util/pull-request-overflow-handler';
 import {signoffCommitMessage} from './util/signoff-commit-message';
 import {CommitExclude} from './util/commit-exclude';
+import {
+  ChangeFile,
+  ChangeFileBump,
+  buildChangeFileCommit,
+  fetchChangeFiles,
+} from './util/change-file';
+import {DeleteFile} from './updaters/delete-file';
+import {BumpRule} from './versioning-strategies/default';
 
 type ExtraGenericFile = {
   type: 'generic';
@@ -100,7 +124,9 @@ export interface ReleaserConfig {
   versioning?: VersioningStrategyType;
   bumpMinorPreMajor?: boolean;
   bumpPatchForMinorPreMajor?: boolean;
+  bumpRules?: BumpRule[];
   prereleaseType?: string;
+  calverFormat?: string;
 
   // Strategy options
   releaseAs?: string;
@@ -127,6 +153,7 @@ export interface ReleaserConfig {
 
   // Changelog options
   changelogSections?: ChangelogSection[];
+  changelogLabelSections?: Record<string, string>;
   changelogPath?: string;
   changelogType?: ChangelogNotesType;
   changelogHost?: string;
@@ -139,6 +166,7 @@ export interface ReleaserConfig {
   skipSnapshot?: boolean;
   // Manifest only
   excludePaths?: string[];
+  releaseAssets?: string[];
 }
 
 export interface CandidateReleasePullRequest {
@@ -159,8 +187,11 @@ interface ReleaserConfigJson {
   versioning?: VersioningStrategyType;
   'bump-minor-pre-major'?: boolean;
   'bump-patch-for-minor-pre-major'?: boolean;
+  'bump-rules'?: BumpRule[];
   'prerelease-type'?: string;
+  'calver-format'?: string;
   'changelog-sections'?: ChangelogSection[];
+  'changelog-label-sections'?: Record<string, string>;
   'release-as'?: string;
   'skip-github-release'?: boolean;
   'skip-changelog'?: boolean;
@@ -186,6 +217,7 @@ interface ReleaserConfigJson {
   'skip-snapshot'?: boolean; // Java-only
   'initial-version'?: string;
   'exclude-paths'?: string[]; // manifest-only
+  'release-assets'?: string[]; // manifest-only
   'date-format'?: string;
 }
 
@@ -212,6 +244,11 @@ export interface ManifestOptions {
   commitSearchDepth?: number;
   logger?: Logger;
   dateFormat?: string;
+  channels?: Record<string, string>;
+  scopeRouting?: Record<string, string>;
+  changesPath?: string;
+  pullRequestTemplate?: string;
+  notifications?: NotificationConfig[];
 }
 
 export interface ReleaserPackageConfig extends ReleaserConfigJson {
@@ -239,6 +276,10 @@ export interface WorkspacePluginConfig extends ConfigurablePluginType {
 }
 export interface NodeWorkspacePluginConfig extends WorkspacePluginConfig {
   updatePeerDependencies?: boolean;
+  discoverWorkspaces?: boolean;
+}
+export interface HelmWorkspacePluginConfig extends WorkspacePluginConfig {
+  appVersionFrom?: Record<string, string>;
 }
 export interface GroupPriorityPluginConfig extends ConfigurablePluginType {
   groups: string[];
@@ -250,7 +291,18 @@ export type PluginType =
   | LinkedVersionPluginConfig
   | SentenceCasePluginConfig
   | WorkspacePluginConfig
-  | NodeWorkspacePluginConfig;
+  | NodeWorkspacePluginConfig
+  | HelmWorkspacePluginConfig;
+
+export interface NotificationConfig {
+  type: string;
+  url?: string;
+  urlEnv?: string;
+  events?: NotificationEvent[];
+  components?: string[];
+  template?: string;
+  componentTemplates?: Record<string, string>;
+}
 
 /**
  * This is the schema of the manifest config json
@@ -267,11 +319,21 @@ export interface ManifestConfig extends ReleaserConfigJson {
   'commit-search-depth'?: number;
   'sequential-calls'?: boolean;
   'always-update'?: boolean;
+  channels?: Record<string, string>;
+  'scope-routing'?: Record<string, string>;
+  'changes-path'?: string;
+  'pull-request-template'?: string;
+  notifications?: NotificationConfig[];
 }
 // path => version
 export type ReleasedVersions = Record<string, Version>;
 // path => config
 export type RepositoryConfig = Record<string, ReleaserConfig>;
+// a change file releasing the component of a path
+interface PathChangeFile {
+  changeFile: ChangeFile;
+  bump: ChangeFileBump;
+}
 
 export const DEFAULT_RELEASE_PLEASE_CONFIG = 'release-please-config.json';
 export const DEFAULT_RELEASE_PLEASE_MANIFEST = '.release-please-manifest.json';
@@ -298,7 +360,7 @@ export interface CreatedRelease extends GitHubRelease {
 
 export class Manifest {
   private repository: Repository;
-  private github: GitHub;
+  private github: ScmProvider;
   readonly repositoryConfig: RepositoryConfig;
   readonly releasedVersions: ReleasedVersions;
   private targetBranch: string;
@@ -321,6 +383,11 @@ export class Manifest {
   private prerelease?: boolean;
   private draftPullRequest?: boolean;
   private groupPullRequestTitlePattern?: string;
+  private channels?: Record<string, string>;
+  private scopeRouting?: Record<string, string>;
+  private changesPath?: string;
+  private pullRequestTemplate?: string;
+  private notifiers: Notifier[];
   readonly releaseSearchDepth: number;
   readonly commitSearchDepth: number;
   readonly logger: Logger;
@@ -330,7 +397,7 @@ export class Manifest {
    * Create a Manifest from explicit config in code. This assumes that the
    * repository has a single component at the root path.
    *
-   * @param {GitHub} github GitHub client
+   * @param {ScmProvider} github SCM provider client
    * @param {string} targetBranch The releaseable base branch
    * @param {RepositoryConfig} repositoryConfig Parsed configuration of path => release configuration
    * @param {ReleasedVersions} releasedVersions Parsed versions of path => latest release version
@@ -354,9 +421,19 @@ export class Manifest {
    *   pull request. Defaults to `[autorelease: pending]`
    * @param {string[]} manifestOptions.releaseLabels Labels to apply to a tagged release
    *   pull request. Defaults to `[autorelease: tagged]`
+   * @param {Record<string, string>} manifestOptions.channels Release channels, mapping
+   *   branch names to prerelease identifiers
+   * @param {Record<string, string>} manifestOptions.scopeRouting Route commits
+   *   by scope, mapping scopes or scope globs to package paths
+   * @param {string} manifestOptions.changesPath Directory of change files
+   *   to release in addition to commits
+   * @param {string} manifestOptions.pullRequestTemplate Path to a Handlebars
+   *   template that renders the release pull request body
+   * @param {NotificationConfig[]} manifestOptions.notifications Webhooks to
+   *   notify after creating releases or release pull requests
    */
   constructor(
-    github: GitHub,
+    github: ScmProvider,
     targetBranch: string,
     repositoryConfig: RepositoryConfig,
     releasedVersions: ReleasedVersions,
@@ -388,6 +465,10 @@ export class Manifest {
     this.draftPullRequest = manifestOptions?.draftPullRequest;
     this.groupPullRequestTitlePattern =
       manifestOptions?.groupPullRequestTitlePattern;
+    this.channels = manifestOptions?.channels;
+    this.scopeRouting = manifestOptions?.scopeRouting;
+    this.changesPath = manifestOptions?.changesPath;
+    this.pullRequestTemplate = manifestOptions?.pullRequestTemplate;
     this.releaseSearchDepth =
       manifestOptions?.releaseSearchDepth || DEFAULT_RELEASE_SEARCH_DEPTH;
     this.commitSearchDepth =
@@ -403,6 +484,13 @@ export class Manifest {
         separatePullRequests: this.separatePullRequests,
       })
     );
+    this.notifiers = (manifestOptions?.notifications || []).map(notification =>
+      buildNotifier({
+        ...notification,
+        github: this.github,
+        logger: this.logger,
+      })
+    );
     this.pullRequestOverflowHandler = new FilePullRequestOverflowHandler(
       this.github,
       this.logger
@@ -412,7 +500,7 @@ export class Manifest {
   /**
    * Create a Manifest from config files in the repository.
    *
-   * @param {GitHub} github GitHub client
+   * @param {ScmProvider} github SCM provider client
    * @param {string} targetBranch The releaseable base branch
    * @param {string} configFile Optional. The path to the manifest config file
    * @param {string} manifestFile Optional. The path to the manifest versions file
@@ -420,7 +508,7 @@ export class Manifest {
    * @returns {Manifest}
    */
   static async fromManifest(
-    github: GitHub,
+    github: ScmProvider,
     targetBranch: string,
     configFile: string = DEFAULT_RELEASE_PLEASE_CONFIG,
     manifestFile: string = DEFAULT_RELEASE_PLEASE_MANIFEST,
@@ -428,13 +516,15 @@ export class Manifest {
     path?: string,
     releaseAs?: string
   ): Promise<Manifest> {
-    const [
-      {config: repositoryConfig, options: manifestOptions},
-      releasedVersions,
-    ] = await Promise.all([
-      parseConfig(github, configFile, targetBranch, path, releaseAs),
-      parseReleasedVersions(github, manifestFile, targetBranch),
-    ]);
+    const [{config: repositoryConfig, options: manifestOptions}, manifestJson] =
+      await Promise.all([
+        parseConfig(github, configFile, targetBranch, path, releaseAs),
+        fetchReleasedVersions(github, manifestFile, targetBranch),
+      ]);
+    const releasedVersions = parseReleasedVersions(
+      manifestJson,
+      repositoryConfig
+    );
     return new Manifest(
       github,
       targetBranch,
@@ -452,7 +542,7 @@ export class Manifest {
    * Create a Manifest from explicit config in code. This assumes that the
    * repository has a single component at the root path.
    *
-   * @param {GitHub} github GitHub client
+   * @param {ScmProvider} github SCM provider client
    * @param {string} targetBranch The releaseable base branch
    * @param {ReleaserConfig} config Release strategy options
    * @param {ManifestOptions} manifestOptions Optional. Manifest options
@@ -476,7 +566,7 @@ export class Manifest {
    * @returns {Manifest}
    */
   static async fromConfig(
-    github: GitHub,
+    github: ScmProvider,
     targetBranch: string,
     config: ReleaserConfig,
     manifestOptions?: ManifestOptions,
@@ -537,10 +627,11 @@ export class Manifest {
     // Releases by path
     const releasesByPath: Record<string, Release> = {};
     this.logger.debug(`release search depth: ${this.releaseSearchDepth}`);
+    const parseOptions = this.versionParseOptions();
     for await (const release of this.github.releaseIterator({
       maxResults: this.releaseSearchDepth,
     })) {
-      const tagName = TagName.parse(release.tagName);
+      const tagName = TagName.parse(release.tagName, parseOptions);
       if (!tagName) {
         this.logger.warn(`Unable to parse release name: ${release.name}`);
         continue;
@@ -553,6 +644,24 @@ export class Manifest {
         );
         continue;
       }
+      if (
+        tagName.version instanceof CalendarVersion &&
+        this.repositoryConfig[path].versioning !== 'calver'
+      ) {
+        this.logger.warn(
+          `Found calendar version tag ${release.tagName} for path '${path}', but it does not use calver versioning`
+        );
+        continue;
+      }
+      if (
+        tagName.version instanceof Pep440Version &&
+        this.repositoryConfig[path].versioning !== 'pep440'
+      ) {
+        this.logger.warn(
+          `Found PEP 440 version tag ${release.tagName} for path '${path}', but it does not use pep440 versioning`
+        );
+        continue;
+      }
       const expectedVersion = this.releasedVersions[path];
       if (!expectedVersion) {
         this.logger.warn(
@@ -670,9 +779,19 @@ export class Manifest {
 
     // split commits by path
     this.logger.info(`Splitting ${commits.length} commits by path`);
+    for (const path of Object.values(this.scopeRouting ?? {})) {
+      if (!this.repositoryConfig[path]) {
+        throw new ConfigurationError(
+          `scope-routing references unknown package path: ${path}`,
+          'core',
+          `${this.repository.owner}/${this.repository.repo}`
+        );
+      }
+    }
     const cs = new CommitSplit({
       includeEmpty: true,
       packagePaths: Object.keys(this.repositoryConfig),
+      scopeRouting: this.scopeRouting,
     });
     const splitCommits = cs.split(commits);
 
@@ -680,7 +799,13 @@ export class Manifest {
     let commitsPerPath: Record<string, Commit[]> = {};
     for (const path in this.repositoryConfig) {
       commitsPerPath[path] = commitsAfterSha(
-        path === ROOT_PROJECT_PATH ? commits : splitCommits[path],
+        path === ROOT_PROJECT_PATH
+          ? commits.filter(commit => {
+              // the root component gets all commits not routed elsewhere
+              const routedPaths = cs.routeByScope(commit);
+              return !routedPaths || routedPaths.includes(ROOT_PROJECT_PATH);
+            })
+          : splitCommits[path],
         releaseShasByPath[path]
       );
     }
@@ -723,6 +848,9 @@ export class Manifest {
       );
     }
 
+    const changeFilesByPath = await this.buildChangeFilesByPath();
+    const deletedChangeFiles = new Set<string>();
+
     let newReleasePullRequests: CandidateReleasePullRequest[] = [];
     for (const path in this.repositoryConfig) {
       const config = this.repositoryConfig[path];
@@ -735,6 +863,15 @@ export class Manifest {
         commitsPerPath[path],
         this.logger
       );
+      for (const {changeFile, bump} of changeFilesByPath[path] ?? []) {
+        pathCommits.push(
+          buildChangeFileCommit(
+            changeFile,
+            bump,
+            commits.find(commit => commit.files?.includes(changeFile.path))
+          )
+        );
+      }
       // The processCommits hook can be implemented by plugins to
       // post-process commits. This can be used to perform cleanup, e.g,, sentence
       // casing all commit messages:
@@ -754,7 +891,9 @@ export class Manifest {
         pathCommits,
         latestRelease,
         config.draftPullRequest ?? this.draftPullRequest,
-        this.labels
+        this.labels,
+        undefined,
+        commitsPerPath[path]
       );
       if (releasePullRequest) {
         // Update manifest, but only for valid release version - this will skip SNAPSHOT from java strategy
@@ -773,6 +912,24 @@ export class Manifest {
             }),
           });
         }
+        // separate release pull requests may be merged in any order, so
+        // each removes the change files it consumes. Once one is merged,
+        // the deletion of the others finds the file already gone and is
+        // skipped. Pull requests that are merged together remove each
+        // change file once.
+        for (const {changeFile} of changeFilesByPath[path] ?? []) {
+          if (
+            this.separatePullRequests ||
+            !deletedChangeFiles.has(changeFile.path)
+          ) {
+            deletedChangeFiles.add(changeFile.path);
+            releasePullRequest.updates.push({
+              path: changeFile.path,
+              createIfMissing: false,
+              updater: new DeleteFile(),
+            });
+          }
+        }
         newReleasePullRequests.push({
           path,
           config,
@@ -825,11 +982,85 @@ export class Manifest {
       newReleasePullRequests = await plugin.run(newReleasePullRequests);
     }
 
+    if (this.pullRequestTemplate) {
+      const template = await this.fetchPullRequestTemplate();
+      for (const {pullRequest} of newReleasePullRequests) {
+        pullRequest.body.template = template;
+        this.validatePullRequestTemplate(pullRequest.body);
+      }
+    }
+
     return newReleasePullRequests.map(
       pullRequestWithConfig => pullRequestWithConfig.pullRequest
     );
   }
 
+  /**
+   * Fetch the configured pull request body template from the target branch.
+   *
+   * @returns {string} The template contents
+   * @throws {ConfigurationError} if the template file does not exist
+   */
+  private async fetchPullRequestTemplate(): Promise<string> {
+    const path = this.pullRequestTemplate!;
+    try {
+      const contents = await this.github.getFileContentsOnBranch(
+        path,
+        this.targetBranch
+      );
+      return contents.parsedContent;
+    } catch (e) {
+      if (e instanceof FileNotFoundError) {
+        throw new ConfigurationError(
+          `Missing pull request template: ${path}`,
+          'core',
+          `${this.repository.owner}/${this.repository.repo}`
+        );
+      }
+      throw e;
+    }
+  }
+
+  /**
+   * Tags and pull request bodies may contain calendar or PEP 440 versions
+   * if any component uses calver or pep440 versioning.
+   */
+  private versionParseOptions(): ParseVersionOptions {
+    const configs = Object.values(this.repositoryConfig);
+    return {
+      calendar: configs.some(config => config.versioning === 'calver'),
+      pep440: configs.some(config => config.versioning === 'pep440'),
+    };
+  }
+
+  /**
+   * Ensure a templated pull request body can be parsed back into the same
+   * releases, otherwise the release could not be tagged once merged.
+   *
+   * @param {PullRequestBody} body The templated pull request body
+   * @throws {ConfigurationError} if the rendered body cannot be parsed
+   */
+  private validatePullRequestTemplate(body: PullRequestBody) {
+    const parsed = PullRequestBody.parse(
+      body.toString(),
+      this.logger,
+      this.versionParseOptions()
+    );
+    const expected = body.releaseData.map(release =>
+      release.version?.toString()
+    );
+    const actual = (parsed?.releaseData ?? []).map(release =>
+      release.version?.toString()
+    );
+    if (expected.join(',') !== actual.join(',')) {
+      throw new ConfigurationError(
+        `Pull request template ${this.pullRequestTemplate} does not render parseable release notes. Include {{{notes}}} between {{delimiter}} lines.`,
+        'core',
+        `${this.repository.owner}/${this.repository.repo}`
+      );
+    }
+  }
+
   private async backfillReleasesFromTags(
     missingPaths: string[],
     strategiesByPath: Record<string, Strategy>
@@ -933,7 +1164,14 @@ export class Manifest {
           openPullRequests,
           snoozedPullRequests
         );
-        if (resultPullRequest) pullRequests.push(resultPullRequest);
+        if (resultPullRequest) {
+          pullRequests.push(resultPullRequest);
+          await this.notifyPullRequest(
+            pullRequest,
+            resultPullRequest,
+            openPullRequests.concat(snoozedPullRequests)
+          );
+        }
       }
       return pullRequests;
     } else {
@@ -948,6 +1186,15 @@ export class Manifest {
         );
       }
       const pullNumbers = await Promise.all(promises);
+      for (const [index, pullNumber] of pullNumbers.entries()) {
+        if (pullNumber) {
+          await this.notifyPullRequest(
+            candidatePullRequests[index],
+            pullNumber,
+            openPullRequests.concat(snoozedPullRequests)
+          );
+        }
+      }
       // reject any pull numbers that were not created or updated
       return pullNumbers.filter(number => !!number);
     }
@@ -1184,10 +1431,11 @@ export class Manifest {
             path,
             pullRequest,
             draft: config.draft ?? this.draft,
-            prerelease:
-              config.prerelease &&
-              (!!release.tag.version.preRelease ||
-                release.tag.version.major === 0),
+            prerelease: this.channels?.[this.targetBranch]
+              ? !!release.tag.version.preRelease
+              : config.prerelease &&
+                (!!release.tag.version.preRelease ||
+                  release.tag.version.major === 0),
           });
         }
       }
@@ -1224,6 +1472,7 @@ export class Manifest {
         );
         resultReleases.push(...releases);
       }
+      await this.notifyReleases(resultReleases);
       return resultReleases;
     } else {
       const promises: Promise<CreatedRelease[]>[] = [];
@@ -1235,8 +1484,70 @@ export class Manifest {
           )
         );
       }
-      const releases = await Promise.all(promises);
-      return releases.reduce((collection, r) => collection.concat(r), []);
+      const releases = (await Promise.all(promises)).reduce(
+        (collection, r) => collection.concat(r),
+        []
+      );
+      await this.notifyReleases(releases);
+      return releases;
+    }
+  }
+
+  private async notifyReleases(releases: CreatedRelease[]) {
+    if (this.notifiers.length === 0) {
+      return;
+    }
+    const strategiesByPath = await this.getStrategiesByPath();
+    for (const release of releases) {
+      await this.notify({
+        event: 'release',
+        repository: this.repository,
+        component: await strategiesByPath[release.path]?.getComponent(),
+        path: release.path,
+        version: release.version,
+        tagName: release.tagName,
+        url: release.url,
+        notes: release.notes,
+        pullRequestNumber: release.prNumber,
+      });
+    }
+  }
+
+  private async notifyPullRequest(
+    candidate: ReleasePullRequest,
+    pullRequest: PullRequest,
+    existingPullRequests: PullRequest[]
+  ) {
+    await this.notify({
+      event: 'pull-request',
+      repository: this.repository,
+      number: pullRequest.number,
+      title: pullRequest.title,
+      headBranchName: pullRequest.headBranchName,
+      updated: existingPullRequests.some(
+        existing => existing.headBranchName === pullRequest.headBranchName
+      ),
+      releases: candidate.body.releaseData.map(release => ({
+        component: release.component,
+        version: release.version?.toString(),
+        notes: release.notes,
+      })),
+    });
+  }
+
+  /**
+   * Send a notification to every configured notifier. A failed
+   * notification is logged and does not fail the release.
+   */
+  private async notify(notification: Notification) {
+    for (const notifier of this.notifiers) {
+      try {
+        await notifier.notify(notification);
+      } catch (e) {
+        this.logger.warn(
+          `Failed to send ${notification.event} notification: ${e}`
+        );
+      }
     }
   }
 
@@ -1248,17 +1559,31 @@ export class Manifest {
       `Creating ${releases.length} releases for pull #${pullRequest.number}`
     );
     const duplicateReleases: DuplicateReleaseError[] = [];
+    const duplicateCandidates: CandidateRelease[] = [];
     const githubReleases: CreatedRelease[] = [];
+    // resolve the assets up front, so that a bad asset glob fails before
+    // anything is released
+    const assetsByRelease = new Map<CandidateRelease, ReleaseAsset[]>();
+    for (const release of releases) {
+      assetsByRelease.set(release, await this.resolveReleaseAssets(release));
+    }
     let error: unknown | undefined;
     for (const release of releases) {
       // stop releasing once we hit an error
       if (error) continue;
       try {
-        githubReleases.push(await this.createRelease(release, pullRequest));
+        githubReleases.push(
+          await this.createRelease(
+            release,
+            pullRequest,
+            assetsByRelease.get(release) ?? []
+          )
+        );
       } catch (err) {
         if (err instanceof DuplicateReleaseError) {
           this.logger.warn(`Duplicate release tag: ${release.tag.toString()}`);
           duplicateReleases.push(err);
+          duplicateCandidates.push(release);
         } else {
           error = err;
         }
@@ -1278,6 +1603,22 @@ export class Manifest {
       throw error;
     }
 
+    // a previous run may have failed after tagging, upload the assets again
+    for (const release of duplicateCandidates) {
+      const assets = assetsByRelease.get(release) ?? [];
+      if (assets.length === 0) {
+        continue;
+      }
+      const existing = await this.findRelease(release.tag.toString());
+      if (!existing) {
+        this.logger.warn(
+          `Could not find release ${release.tag.toString()} to upload assets to`
+        );
+        continue;
+      }
+      await this.uploadReleaseAssets(existing, assets);
+    }
+
     if (duplicateReleases.length > 0) {
       if (
         duplicateReleases.length + githubReleases.length ===
@@ -1306,12 +1647,14 @@ export class Manifest {
 
   private async createRelease(
     release: CandidateRelease,
-    pullRequest: PullRequest
+    pullRequest: PullRequest,
+    assets: ReleaseAsset[]
   ): Promise<CreatedRelease> {
     const githubRelease = await this.github.createRelease(release, {
       draft: release.draft,
       prerelease: release.prerelease,
     });
+    await this.uploadReleaseAssets(githubRelease, assets);
 
     return {
       ...githubRelease,
@@ -1324,6 +1667,109 @@ export class Manifest {
     };
   }
 
+  /**
+   * Resolve the configured release assets of a package, along with their
+   * checksums.
+   *
+   * @param {CandidateRelease} release The release to resolve assets for
+   * @returns {ReleaseAsset[]} The assets, empty if none are configured
+   * @throws {ConfigurationError} if a release asset glob cannot be resolved
+   */
+  private async resolveReleaseAssets(
+    release: CandidateRelease
+  ): Promise<ReleaseAsset[]> {
+    const globs = this.repositoryConfig[release.path]?.releaseAssets;
+    if (!globs || globs.length === 0) {
+      return [];
+    }
+    let assets: ReleaseAsset[];
+    try {
+      assets = await resolveReleaseAssets(globs, release.path);
+    } catch (e) {
+      throw new ConfigurationError(
+        (e as Error).message,
+        'core',
+        `${this.repository.owner}/${this.repository.repo}`
+      );
+    }
+    return [...assets, buildChecksumsAsset(assets)];
+  }
+
+  /**
+   * Upload the resolved release assets of a package to its release.
+   *
+   * @param {GitHubRelease} release The release to upload to
+   * @param {ReleaseAsset[]} assets The assets to upload
+   */
+  private async uploadReleaseAssets(
+    release: GitHubRelease,
+    assets: ReleaseAsset[]
+  ) {
+    if (assets.length === 0) {
+      return;
+    }
+    this.logger.info(`Uploading ${assets.length} assets to ${release.tagName}`);
+    await this.github.uploadReleaseAssets(release, assets);
+  }
+
+  /**
+   * Find an existing release, including drafts, by its tag.
+   *
+   * @param {string} tagName The tag of the release
+   * @returns {GitHubRelease|undefined} The release, if found
+   */
+  private async findRelease(
+    tagName: string
+  ): Promise<GitHubRelease | undefined> {
+    for await (const release of this.github.releaseIterator()) {
+      if (release.tagName === tagName) {
+        return release;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Fetch the change files and index them by the package path of each
+   * component they name.
+   *
+   * @returns {Record<string, PathChangeFile[]>} path => change files
+   * @throws {ConfigurationError} if a change file is invalid or names an
+   *   unknown component
+   */
+  private async buildChangeFilesByPath(): Promise<
+    Record<string, PathChangeFile[]>
+  > {
+    const changeFilesByPath: Record<string, PathChangeFile[]> = {};
+    if (!this.changesPath) {
+      return changeFilesByPath;
+    }
+    const changeFiles = await fetchChangeFiles(
+      this.github,
+      this.changesPath,
+      this.targetBranch
+    );
+    this.logger.info(`Found ${changeFiles.length} change files`);
+    const pathsByComponent = await this.getPathsByComponent();
+    for (const changeFile of changeFiles) {
+      for (const [component, bump] of Object.entries(changeFile.bumps)) {
+        const path = this.repositoryConfig[component]
+          ? component
+          : pathsByComponent[component];
+        if (!path) {
+          throw new ConfigurationError(
+            `Change file ${changeFile.path} names unknown component: ${component}`,
+            'core',
+            `${this.repository.owner}/${this.repository.repo}`
+          );
+        }
+        if (!changeFilesByPath[path]) changeFilesByPath[path] = [];
+        changeFilesByPath[path].push({changeFile, bump});
+      }
+    }
+    return changeFilesByPath;
+  }
+
   private async getStrategiesByPath(): Promise<Record<string, Strategy>> {
     if (!this._strategiesByPath) {
       this.logger.info('Building strategies by path');
@@ -1336,6 +1782,7 @@ export class Manifest {
           github: this.github,
           path,
           targetBranch: this.targetBranch,
+          channels: this.channels,
         });
         this._strategiesByPath[path] = strategy;
       }
@@ -1343,7 +1790,12 @@ export class Manifest {
     return this._strategiesByPath;
   }
 
-  private async getPathsByComponent(): Promise<Record<string, string>> {
+  /**
+   * Returns the path of each configured component.
+   *
+   * @returns {Record<string, string>} component => path
+   */
+  async getPathsByComponent(): Promise<Record<string, string>> {
     if (!this._pathsByComponent) {
       this._pathsByComponent = {};
       const strategiesByPath = await this.getStrategiesByPath();
@@ -1376,9 +1828,12 @@ function extractReleaserConfig(
     releaseType: config['release-type'],
     bumpMinorPreMajor: config['bump-minor-pre-major'],
     bumpPatchForMinorPreMajor: config['bump-patch-for-minor-pre-major'],
+    bumpRules: config['bump-rules'],
     prereleaseType: config['prerelease-type'],
+    calverFormat: config['calver-format'],
     versioning: config['versioning'],
     changelogSections: config['changelog-sections'],
+    changelogLabelSections: config['changelog-label-sections'],
     changelogPath: config['changelog-path'],
     changelogHost: config['changelog-host'],
     releaseAs: config['release-as'],
@@ -1406,6 +1861,7 @@ function extractReleaserConfig(
     skipSnapshot: config['skip-snapshot'],
     initialVersion: config['initial-version'],
     excludePaths: config['exclude-paths'],
+    releaseAssets: config['release-assets'],
     dateFormat: config['date-format'],
   };
 }
@@ -1414,14 +1870,14 @@ function extractReleaserConfig(
  * Helper to convert fetch the manifest config from the repository and
  * parse into configuration for the Manifest.
  *
- * @param {GitHub} github GitHub client
+ * @param {ScmProvider} github SCM provider client
  * @param {string} configFile Path in the repository to the manifest config
  * @param {string} branch Branch to fetch the config file from
  * @param {string} onlyPath Optional. Use only the given package
  * @param {string} releaseAs Optional. Override release-as and use the given version
  */
 async function parseConfig(
-  github: GitHub,
+  github: ScmProvider,
   configFile: string,
   branch: string,
   onlyPath?: string,
@@ -1460,6 +1916,11 @@ async function parseConfig(
     releaseSearchDepth: config['release-search-depth'],
     commitSearchDepth: config['commit-search-depth'],
     sequentialCalls: config['sequential-calls'],
+    channels: config['channels'],
+    scopeRouting: config['scope-routing'],
+    changesPath: config['changes-path'],
+    pullRequestTemplate: config['pull-request-template'],
+    notifications: config['notifications'],
   };
   return {config: repositoryConfig, options: manifestOptions};
 }
@@ -1467,14 +1928,14 @@ async function parseConfig(
 /**
  * Helper to fetch manifest config
  *
- * @param {GitHub} github
+ * @param {ScmProvider} github
  * @param {string} configFile
  * @param {string} branch
  * @returns {ManifestConfig}
  * @throws {ConfigurationError} if missing the manifest config file
  */
 async function fetchManifestConfig(
-  github: GitHub,
+  github: ScmProvider,
   configFile: string,
   branch: string
 ): Promise<ManifestConfig> {
@@ -1499,26 +1960,34 @@ async function fetchManifestConfig(
 }
 
 /**
- * Helper to parse the manifest versions file.
+ * The kinds of versions accepted for a component, based on its versioning
+ * strategy.
  *
- * @param {GitHub} github GitHub client
- * @param {string} manifestFile Path in the repository to the versions file
- * @param {string} branch Branch to fetch the versions file from
- * @returns {Record<string, string>}
+ * @param {string} versioning The configured versioning strategy
+ * @returns {ParseVersionOptions}
  */
-async function parseReleasedVersions(
-  github: GitHub,
-  manifestFile: string,
-  branch: string
-): Promise<ReleasedVersions> {
-  const manifestJson = await fetchReleasedVersions(
-    github,
-    manifestFile,
-    branch
-  );
+function versionParseOptionsFor(versioning?: string): ParseVersionOptions {
+  return {calendar: versioning === 'calver', pep440: versioning === 'pep440'};
+}
+
+/**
+ * Helper to parse the manifest versions file. Calendar and PEP 440 versions
+ * are only accepted for paths using calver or pep440 versioning.
+ *
+ * @param {Record<string, string>} manifestJson Versions by path
+ * @param {RepositoryConfig} repositoryConfig Parsed configuration by path
+ * @returns {ReleasedVersions}
+ */
+function parseReleasedVersions(
+  manifestJson: Record<string, string>,
+  repositoryConfig: RepositoryConfig
+): ReleasedVersions {
   const releasedVersions: ReleasedVersions = {};
   for (const path in manifestJson) {
-    releasedVersions[path] = Version.parse(manifestJson[path]);
+    releasedVersions[path] = parseVersion(
+      manifestJson[path],
+      versionParseOptionsFor(repositoryConfig[path]?.versioning)
+    );
   }
   return releasedVersions;
 }
@@ -1526,13 +1995,13 @@ async function parseReleasedVersions(
 /**
  * Helper to fetch manifest config
  *
- * @param {GitHub} github
+ * @param {ScmProvider} github
  * @param {string} manifestFile
  * @param {string} branch
  * @throws {ConfigurationError} if missing the manifest config file
  */
 async function fetchReleasedVersions(
-  github: GitHub,
+  github: ScmProvider,
   manifestFile: string,
   branch: string
 ): Promise<Record<string, string>> {
@@ -1569,13 +2038,13 @@ function isPublishedVersion(strategy: Strategy, version: Version): boolean {
  * Find the most recent matching release tag on the branch we're
  * configured for.
  *
- * @param github GitHub client instance.
+ * @param github SCM provider client instance.
  * @param {string} targetBranch Name of the scanned branch.
  * @param releaseFilter Validator function for release version. Used to filter-out SNAPSHOT releases for Java strategy.
  * @param {string} prefix Limit the release to a specific component.
  */
 async function latestReleaseVersion(
-  github: GitHub,
+  github: ScmProvider,
   targetBranch: string,
   releaseFilter: (version: Version) => boolean,
   config: ReleaserConfig,
@@ -1597,6 +2066,7 @@ async function latestReleaseVersion(
   const commitShas = new Set<string>();
 
   const candidateReleaseVersions: Version[] = [];
+  const parseOptions = versionParseOptionsFor(config.versioning);
   // only look at the last 250 or so commits to find the latest tag - we
   // don't want to scan the entire repository history if this repo has never
   // been released
@@ -1639,7 +2109,8 @@ async function latestReleaseVersion(
       mergedPullRequest.title,
       config.pullRequestTitlePattern,
       config.componentNoSpace,
-      logger
+      logger,
+      parseOptions
     );
     if (!pullRequestTitle) {
       logger.trace(
@@ -1662,7 +2133,7 @@ async function latestReleaseVersion(
   // through releases finding valid tags, then cross reference
   const releaseGenerator = github.releaseIterator();
   for await (const release of releaseGenerator) {
-    const tagName = TagName.parse(release.tagName);
+    const tagName = TagName.parse(release.tagName, parseOptions);
     if (!tagName) {
       continue;
     }
@@ -1693,7 +2164,7 @@ async function latestReleaseVersion(
   const tagGenerator = github.tagIterator();
   const candidateTagVersion: Version[] = [];
   for await (const tag of tagGenerator) {
-    const tagName = TagName.parse(tag.name);
+    const tagName = TagName.parse(tag.name, parseOptions);
     if (!tagName) {
       continue;
     }
@@ -1728,10 +2199,14 @@ function mergeReleaserConfig(
     bumpPatchForMinorPreMajor:
       pathConfig.bumpPatchForMinorPreMajor ??
       defaultConfig.bumpPatchForMinorPreMajor,
+    bumpRules: pathConfig.bumpRules ?? defaultConfig.bumpRules,
     prereleaseType: pathConfig.prereleaseType ?? defaultConfig.prereleaseType,
+    calverFormat: pathConfig.calverFormat ?? defaultConfig.calverFormat,
     versioning: pathConfig.versioning ?? defaultConfig.versioning,
     changelogSections:
       pathConfig.changelogSections ?? defaultConfig.changelogSections,
+    changelogLabelSections:
+      pathConfig.changelogLabelSections ?? defaultConfig.changelogLabelSections,
     changelogPath: pathConfig.changelogPath ?? defaultConfig.changelogPath,
     changelogHost: pathConfig.changelogHost ?? defaultConfig.changelogHost,
     changelogType: pathConfig.changelogType ?? defaultConfig.changelogType,
@@ -1766,6 +2241,7 @@ function mergeReleaserConfig(
     initialVersion: pathConfig.initialVersion ?? defaultConfig.initialVersion,
     extraLabels: pathConfig.extraLabels ?? defaultConfig.extraLabels,
     excludePaths: pathConfig.excludePaths ?? defaultConfig.excludePaths,
+    releaseAssets: pathConfig.releaseAssets ?? defaultConfig.releaseAssets,
     dateFormat: pathConfig.dateFormat ?? defaultConfig.dateFormat,
   };
 }
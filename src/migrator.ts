@@ -0,0 +1,309 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {ScmProvider} from './scm-provider';
+import {
+  DEFAULT_RELEASE_PLEASE_MANIFEST,
+  DEFAULT_RELEASE_PLEASE_CONFIG,
+  ReleaserConfig,
+  ROOT_PROJECT_PATH,
+} from './manifest';
+import {PullRequest} from './pull-request';
+import {Version, VersionsMap} from './version';
+import {Update} from './update';
+import {ReleasePleaseManifest} from './updaters/release-please-manifest';
+import {ReleasePleaseConfig} from './updaters/release-please-config';
+import {mergeUpdates} from './updaters/composite';
+import {ConfigurationError, FileNotFoundError} from './errors';
+import {
+  discoverPackages,
+  findLatestTaggedVersions,
+  suggestWorkspacePlugins,
+} from './util/package-discovery';
+import {
+  MIGRATION_CONFIG_FILES,
+  MigratedConfig,
+  MigrationSource,
+  migrateChangesets,
+  migrateSemanticRelease,
+  migrateStandardVersion,
+  parseMigrationConfig,
+} from './util/config-migration';
+
+interface MigrationPullRequest extends PullRequest {
+  updates: Update[];
+}
+
+interface SourceConfig {
+  source: MigrationSource;
+  path: string;
+  config: Record<string, unknown>;
+}
+
+interface MigratedPackage {
+  path: string;
+  config: ReleaserConfig;
+  version: Version;
+}
+
+const MIGRATORS: Record<
+  MigrationSource,
+  (config: Record<string, unknown>) => MigratedConfig
+> = {
+  changesets: migrateChangesets,
+  'semantic-release': migrateSemanticRelease,
+  'standard-version': migrateStandardVersion,
+};
+
+/**
+ * Opens a pull request that replaces the configuration of another release
+ * tool with an equivalent release-please config and a seeded manifest.
+ */
+export class Migrator {
+  private github: ScmProvider;
+  private targetBranch: string;
+  private manifestFile: string;
+  private configFile: string;
+  constructor(
+    github: ScmProvider,
+    targetBranch: string,
+    manifestFile: string = DEFAULT_RELEASE_PLEASE_MANIFEST,
+    configFile: string = DEFAULT_RELEASE_PLEASE_CONFIG
+  ) {
+    this.github = github;
+    this.targetBranch = targetBranch;
+    this.manifestFile = manifestFile;
+    this.configFile = configFile;
+  }
+
+  async migrate(source?: MigrationSource): Promise<PullRequest> {
+    const pullRequest = await this.buildPullRequest(source);
+    return await this.github.createPullRequest(
+      pullRequest,
+      this.targetBranch,
+      pullRequest.title,
+      pullRequest.updates,
+      {}
+    );
+  }
+
+  /**
+   * Build the migration pull request.
+   *
+   * @param {MigrationSource} source Optional. The tool to migrate from.
+   *   Defaults to the first tool whose config is found.
+   * @returns {MigrationPullRequest} The pull request to open
+   * @throws {ConfigurationError} if no config is found or it cannot be
+   *   migrated
+   */
+  async buildPullRequest(
+    source?: MigrationSource
+  ): Promise<MigrationPullRequest> {
+    const sourceConfig = await this.findSourceConfig(source);
+    let migrated: MigratedConfig;
+    try {
+      migrated = MIGRATORS[sourceConfig.source](sourceConfig.config);
+    } catch (e) {
+      throw this.configurationError(
+        `Unable to migrate ${sourceConfig.path}: ${(e as Error).message}`
+      );
+    }
+    const packages =
+      sourceConfig.source === 'changesets'
+        ? await this.buildWorkspacePackages(migrated)
+        : [await this.buildRootPackage(migrated)];
+    if (packages.length === 0) {
+      throw this.configurationError('No packages found to migrate');
+    }
+    if (sourceConfig.source === 'changesets') {
+      migrated.plugins.push(
+        ...suggestWorkspacePlugins(
+          packages.map(pkg => ({
+            path: pkg.path,
+            releaseType: pkg.config.releaseType,
+            packageFile: `${pkg.path}/package.json`,
+          }))
+        )
+      );
+    }
+
+    const versionsMap: VersionsMap = new Map();
+    const updates: Update[] = [];
+    for (const pkg of packages) {
+      versionsMap.set(pkg.path, pkg.version);
+      updates.push({
+        path: this.configFile,
+        createIfMissing: true,
+        updater: new ReleasePleaseConfig(pkg.path, pkg.config, {
+          plugins: migrated.plugins,
+          manifestConfig: migrated.manifestConfig,
+        }),
+      });
+    }
+    updates.push({
+      path: this.manifestFile,
+      createIfMissing: true,
+      updater: new ReleasePleaseManifest({
+        version: packages[0].version,
+        versionsMap,
+      }),
+    });
+    return {
+      title: `chore: migrate release configuration from ${sourceConfig.source}`,
+      body: buildMigrationBody(sourceConfig, packages, migrated.warnings),
+      baseBranchName: this.targetBranch,
+      headBranchName: `release-please/migrate/${sourceConfig.source}`,
+      updates: mergeUpdates(updates),
+      number: -1,
+      labels: [],
+      files: [],
+    };
+  }
+
+  private async findSourceConfig(
+    source?: MigrationSource
+  ): Promise<SourceConfig> {
+    const sources = source
+      ? [source]
+      : (Object.keys(MIGRATION_CONFIG_FILES) as MigrationSource[]);
+    for (const candidate of sources) {
+      for (const path of MIGRATION_CONFIG_FILES[candidate]) {
+        const content = await this.getFileContents(path);
+        if (content === undefined) {
+          continue;
+        }
+        try {
+          return {
+            source: candidate,
+            path,
+            config: parseMigrationConfig(path, content),
+          };
+        } catch (e) {
+          throw this.configurationError((e as Error).message);
+        }
+      }
+      if (candidate === 'semantic-release') {
+        const packageJson = await this.getFileContents('package.json');
+        const config = packageJson ? JSON.parse(packageJson).release : null;
+        if (config) {
+          return {source: candidate, path: 'package.json', config};
+        }
+      }
+    }
+    throw this.configurationError(
+      `No ${sources.join(', ')} configuration found`
+    );
+  }
+
+  private async buildRootPackage(
+    migrated: MigratedConfig
+  ): Promise<MigratedPackage> {
+    const packageJson = await this.getFileContents('package.json');
+    const taggedVersions = await findLatestTaggedVersions(this.github);
+    let version = taggedVersions.get(migrated.config.component ?? '');
+    if (!version && packageJson) {
+      try {
+        version = Version.parse(JSON.parse(packageJson).version);
+      } catch {
+        // fall back to the initial version
+      }
+    }
+    return {
+      path: ROOT_PROJECT_PATH,
+      config: {
+        ...migrated.config,
+        releaseType: packageJson ? 'node' : 'simple',
+      },
+      version: version ?? Version.parse('0.0.0'),
+    };
+  }
+
+  private async buildWorkspacePackages(
+    migrated: MigratedConfig
+  ): Promise<MigratedPackage[]> {
+    const ignored = new Set(migrated.ignoredPackages ?? []);
+    const packages = await discoverPackages(this.github, this.targetBranch);
+    return packages
+      .filter(
+        pkg =>
+          pkg.releaseType === 'node' &&
+          pkg.packageName &&
+          !ignored.has(pkg.packageName)
+      )
+      .map(pkg => ({
+        path: pkg.path,
+        config: {
+          ...migrated.config,
+          releaseType: 'node',
+          packageName: pkg.packageName,
+          component: pkg.packageName,
+        },
+        version: pkg.version ?? Version.parse('0.0.0'),
+      }));
+  }
+
+  private async getFileContents(path: string): Promise<string | undefined> {
+    try {
+      const contents = await this.github.getFileContentsOnBranch(
+        path,
+        this.targetBranch
+      );
+      return contents.parsedContent;
+    } catch (e) {
+      if (e instanceof FileNotFoundError) {
+        return undefined;
+      }
+      throw e;
+    }
+  }
+
+  private configurationError(message: string): ConfigurationError {
+    return new ConfigurationError(
+      message,
+      'migrate',
+      `${this.github.repository.owner}/${this.github.repository.repo}`
+    );
+  }
+}
+
+function buildMigrationBody(
+  sourceConfig: SourceConfig,
+  packages: MigratedPackage[],
+  warnings: string[]
+): string {
+  const lines = [
+    `Migrating release configuration from ${sourceConfig.source} (\`${sourceConfig.path}\`):`,
+    '',
+    '| Path | Release type | Version |',
+    '| ---- | ------------ | ------- |',
+    ...packages.map(
+      pkg => `| \`${pkg.path}\` | ${pkg.config.releaseType} | ${pkg.version} |`
+    ),
+  ];
+  if (warnings.length > 0) {
+    lines.push(
+      '',
+      'The following settings need manual changes:',
+      '',
+      ...warnings.map(warning => `* ${warning}`)
+    );
+  }
+  lines.push(
+    '',
+    sourceConfig.path === 'package.json'
+      ? 'Remove the `release` key from `package.json` once this pull request is merged.'
+      : `Remove \`${sourceConfig.path}\` once this pull request is merged.`
+  );
+  return lines.join('\n');
+}
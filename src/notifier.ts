@@ -0,0 +1,153 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as Handlebars from 'handlebars';
+import {request} from '@octokit/request';
+import {Repository} from './repository';
+import {logger as defaultLogger, Logger} from './util/logger';
+
+export type NotificationEvent = 'release' | 'pull-request';
+
+export interface ReleaseNotification {
+  event: 'release';
+  repository: Repository;
+  component?: string;
+  path: string;
+  version: string;
+  tagName: string;
+  url: string;
+  notes?: string;
+  pullRequestNumber: number;
+}
+
+export interface PullRequestNotification {
+  event: 'pull-request';
+  repository: Repository;
+  number: number;
+  title: string;
+  headBranchName: string;
+  // true if an existing release pull request was updated
+  updated: boolean;
+  releases: {component?: string; version?: string; notes: string}[];
+}
+
+export type Notification = ReleaseNotification | PullRequestNotification;
+
+export interface NotifierOptions {
+  url?: string;
+  // name of an environment variable holding the url
+  urlEnv?: string;
+  events?: NotificationEvent[];
+  components?: string[];
+  template?: string;
+  componentTemplates?: Record<string, string>;
+  logger?: Logger;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  fetch?: any;
+}
+
+const DEFAULT_TEMPLATES: Record<NotificationEvent, string> = {
+  release:
+    '{{#if component}}{{component}} {{/if}}{{version}} released in {{repository.owner}}/{{repository.repo}}: {{url}}',
+  'pull-request':
+    'Release pull request #{{number}} {{#if updated}}updated{{else}}opened{{/if}} in {{repository.owner}}/{{repository.repo}}: {{title}}',
+};
+
+/**
+ * A notifier posts a message to a webhook after release-please creates
+ * releases or release pull requests. Subclasses decide the shape of the
+ * JSON payload.
+ */
+export abstract class Notifier {
+  private url?: string;
+  private urlEnv?: string;
+  private events?: NotificationEvent[];
+  private components?: string[];
+  private template?: string;
+  private componentTemplates: Record<string, string>;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private fetch?: any;
+  protected logger: Logger;
+  constructor(options: NotifierOptions) {
+    this.url = options.url;
+    this.urlEnv = options.urlEnv;
+    this.events = options.events;
+    this.components = options.components;
+    this.template = options.template;
+    this.componentTemplates = options.componentTemplates ?? {};
+    this.fetch = options.fetch;
+    this.logger = options.logger ?? defaultLogger;
+  }
+
+  /**
+   * Build the JSON payload to post.
+   * @param {string} text The rendered message
+   * @param {Notification} notification The event being notified
+   * @returns {object} The request body
+   */
+  protected abstract buildPayload(
+    text: string,
+    notification: Notification
+  ): object;
+
+  /**
+   * Post a notification unless it is filtered out by event or component.
+   * @param {Notification} notification The event to notify
+   * @returns {boolean} Whether a notification was sent
+   */
+  async notify(notification: Notification): Promise<boolean> {
+    const components = notificationComponents(notification);
+    if (
+      (this.events && !this.events.includes(notification.event)) ||
+      (this.components &&
+        !components.some(component => this.components!.includes(component)))
+    ) {
+      return false;
+    }
+    const url =
+      this.url ?? (this.urlEnv ? process.env[this.urlEnv] : undefined);
+    if (!url) {
+      this.logger.warn(
+        `Skipping ${notification.event} notification: ${
+          this.urlEnv ? `${this.urlEnv} is not set` : 'no url configured'
+        }`
+      );
+      return false;
+    }
+    const template =
+      (components.length === 1
+        ? this.componentTemplates[components[0]]
+        : undefined) ??
+      this.template ??
+      DEFAULT_TEMPLATES[notification.event];
+    const text = Handlebars.compile(template, {noEscape: true})(notification);
+    this.logger.info(`Sending ${notification.event} notification`);
+    await request({
+      method: 'POST',
+      url,
+      headers: {'content-type': 'application/json; charset=utf-8'},
+      data: this.buildPayload(text, notification),
+      request: {fetch: this.fetch},
+    });
+    return true;
+  }
+}
+
+function notificationComponents(notification: Notification): string[] {
+  const components =
+    notification.event === 'release'
+      ? [notification.component]
+      : notification.releases.map(release => release.component);
+  return components.filter((component): component is string => !!component);
+}
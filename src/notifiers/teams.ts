@@ -0,0 +1,44 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {Notification, Notifier} from '../notifier';
+
+/**
+ * Posts an Adaptive Card message to a Microsoft Teams incoming webhook or
+ * workflow. Release notifications link to the created release.
+ */
+export class TeamsNotifier extends Notifier {
+  protected buildPayload(text: string, notification: Notification): object {
+    const content: Record<string, unknown> = {
+      $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+      type: 'AdaptiveCard',
+      version: '1.4',
+      body: [{type: 'TextBlock', text, wrap: true}],
+    };
+    if (notification.event === 'release') {
+      content.actions = [
+        {type: 'Action.OpenUrl', title: 'View release', url: notification.url},
+      ];
+    }
+    return {
+      type: 'message',
+      attachments: [
+        {
+          contentType: 'application/vnd.microsoft.card.adaptive',
+          content,
+        },
+      ],
+    };
+  }
+}
@@ -0,0 +1,483 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {posix} from 'path';
+import {CandidateReleasePullRequest, ROOT_PROJECT_PATH} from '../manifest';
+import {
+  WorkspacePlugin,
+  AllPackages,
+  DependencyGraph,
+  DependencyNode,
+  appendDependenciesSectionToChangelog,
+  addPath,
+} from './workspace';
+import {Version, VersionsMap} from '../version';
+import {ConfigurationError, FileNotFoundError} from '../errors';
+import {
+  DenoJson,
+  DenoImports,
+  parseSpecifier,
+  updatedRange,
+} from '../updaters/deno/deno-json';
+import {DenoLock} from '../updaters/deno/deno-lock';
+import {DENO_CONFIG_FILES} from '../strategies/deno';
+import {parseJsonc} from '../util/jsonc-edit';
+import {Changelog} from '../updaters/changelog';
+import {CompositeUpdater} from '../updaters/composite';
+import {ReleasePullRequest} from '../release-pull-request';
+import {PullRequestTitle} from '../util/pull-request-title';
+import {PullRequestBody} from '../util/pull-request-body';
+import {BranchName} from '../util/branch-name';
+import {PatchVersionUpdate} from '../versioning-strategy';
+import {Strategy} from '../strategy';
+import {Commit} from '../commit';
+import {Release} from '../release';
+
+const ROOT_CONFIG_FILES = ['deno.json', 'deno.jsonc'];
+const LOCK_FILE = 'deno.lock';
+
+interface DenoConfig {
+  name?: string;
+  version?: string;
+  workspace?: string[] | {members?: string[]};
+  imports?: Record<string, string>;
+  scopes?: Record<string, Record<string, string>>;
+}
+
+interface DenoPackage {
+  /**
+   * e.g. `packages/core`
+   */
+  path: string;
+
+  /**
+   * e.g. `@scope/core`, empty for unpublished members
+   */
+  name: string;
+
+  /**
+   * e.g. `1.0.0`, empty for unversioned members
+   */
+  version: string;
+
+  /**
+   * The config files of the member, e.g. `packages/core/deno.json`
+   */
+  configFiles: string[];
+
+  /**
+   * Package name => version range of the `jsr:` and `npm:` imports
+   */
+  dependencies: Record<string, string>;
+}
+
+/**
+ * The plugin analyzes the members of a Deno workspace, as listed by the
+ * `workspace` of the root `deno.json(c)`, and will bump members that
+ * import managed packages if those dependencies are being updated,
+ * rewriting the version ranges of their `imports`. Members that are not
+ * versioned themselves only have their `imports` updated.
+ *
+ * If multiple packages are being updated, it will merge them into a single
+ * release pull request.
+ */
+export class DenoWorkspace extends WorkspacePlugin<DenoPackage> {
+  private strategiesByPath: Record<string, Strategy> = {};
+  private releasesByPath: Record<string, Release> = {};
+  // workspace members without a version, e.g. applications
+  private unversionedMembers: DenoPackage[] = [];
+
+  private async fetchFile(path: string): Promise<string | undefined> {
+    try {
+      const content = await this.github.getFileContentsOnBranch(
+        path,
+        this.targetBranch
+      );
+      return content.parsedContent;
+    } catch (e) {
+      if (e instanceof FileNotFoundError) {
+        return undefined;
+      }
+      throw e;
+    }
+  }
+
+  private async fetchPackage(
+    path: string,
+    candidate?: CandidateReleasePullRequest
+  ): Promise<DenoPackage | undefined> {
+    let name: string | undefined;
+    let version: string | undefined;
+    const configFiles: string[] = [];
+    const dependencies: Record<string, string> = {};
+    for (const file of DENO_CONFIG_FILES.map(file => addPath(path, file))) {
+      const content =
+        candidate?.pullRequest.updates.find(update => update.path === file)
+          ?.cachedFileContents?.parsedContent ?? (await this.fetchFile(file));
+      if (!content) {
+        continue;
+      }
+      const config = parseJsonc(content) as DenoConfig;
+      const imports = [
+        ...Object.values(config.imports ?? {}),
+        ...Object.values(config.scopes ?? {}).flatMap(scope =>
+          Object.values(scope)
+        ),
+      ];
+      for (const specifier of imports) {
+        const parsed = parseSpecifier(specifier);
+        if (parsed) {
+          dependencies[parsed.name] = parsed.range;
+        }
+      }
+      name ??= config.name;
+      version ??= config.version;
+      configFiles.push(file);
+    }
+    if (configFiles.length === 0) {
+      this.logger.warn(`no deno.json(c) found for workspace member ${path}`);
+      return;
+    }
+    return {
+      path,
+      name: name ?? '',
+      version: version ?? '',
+      configFiles,
+      dependencies,
+    };
+  }
+
+  /**
+   * Lists the paths of the workspace members declared by the root
+   * `deno.json(c)`, expanding glob patterns.
+   */
+  private async discoverMemberPaths(): Promise<string[]> {
+    let rootConfig: DenoConfig | undefined;
+    for (const configFile of ROOT_CONFIG_FILES) {
+      const content = await this.fetchFile(configFile);
+      if (content) {
+        rootConfig = parseJsonc(content) as DenoConfig;
+        break;
+      }
+    }
+    const members = Array.isArray(rootConfig?.workspace)
+      ? rootConfig?.workspace
+      : rootConfig?.workspace?.members;
+    if (!members) {
+      throw new ConfigurationError(
+        'deno-workspace plugin used, but did not find a deno.json(c) with a workspace',
+        'deno-workspace',
+        `${this.github.repository.owner}/${this.github.repository.repo}`
+      );
+    }
+
+    const paths = new Set<string>();
+    for (const member of members) {
+      const path = posix.normalize(member).replace(/\/$/, '');
+      if (!path.includes('*')) {
+        paths.add(path);
+        continue;
+      }
+      for (const configFile of DENO_CONFIG_FILES) {
+        const files = await this.github.findFilesByGlobAndRef(
+          addPath(path, configFile),
+          this.targetBranch
+        );
+        files.forEach(file => paths.add(posix.dirname(file)));
+      }
+    }
+    return Array.from(paths);
+  }
+
+  protected async buildAllPackages(
+    candidates: CandidateReleasePullRequest[]
+  ): Promise<AllPackages<DenoPackage>> {
+    const allPackages: DenoPackage[] = [];
+    const candidatesByPackage: Record<string, CandidateReleasePullRequest> = {};
+    this.unversionedMembers = [];
+    for (const path of await this.discoverMemberPaths()) {
+      const candidate = candidates.find(c => c.path === path);
+      const pkg = await this.fetchPackage(path, candidate);
+      if (!pkg) {
+        continue;
+      }
+      if (!pkg.version) {
+        this.logger.debug(`Found unversioned workspace member ${path}`);
+        this.unversionedMembers.push(pkg);
+        continue;
+      }
+      if (!pkg.name) {
+        this.logger.warn(`no package name found for workspace member ${path}`);
+        continue;
+      }
+      allPackages.push(pkg);
+      if (candidate) {
+        candidatesByPackage[pkg.name] = candidate;
+      }
+    }
+    return {
+      allPackages,
+      candidatesByPackage,
+    };
+  }
+
+  protected async buildGraph(
+    allPackages: DenoPackage[]
+  ): Promise<DependencyGraph<DenoPackage>> {
+    const workspacePackageNames = new Set(allPackages.map(pkg => pkg.name));
+    const graph = new Map<string, DependencyNode<DenoPackage>>();
+    for (const pkg of allPackages) {
+      graph.set(pkg.name, {
+        deps: Object.keys(pkg.dependencies).filter(name =>
+          workspacePackageNames.has(name)
+        ),
+        value: pkg,
+      });
+    }
+    return graph;
+  }
+
+  protected bumpVersion(pkg: DenoPackage): Version {
+    const version = Version.parse(pkg.version);
+    const strategy = this.strategiesByPath[pkg.path];
+
+    if (strategy) return strategy.versioningStrategy.bump(version, []);
+    return new PatchVersionUpdate().bump(version);
+  }
+
+  protected updateCandidate(
+    existingCandidate: CandidateReleasePullRequest,
+    pkg: DenoPackage,
+    updatedVersions: VersionsMap
+  ): CandidateReleasePullRequest {
+    const version = updatedVersions.get(pkg.name);
+    if (!version) {
+      throw new Error(`Didn't find updated version for ${pkg.name}`);
+    }
+    const updater = new DenoJson({
+      version,
+      versionsMap: updatedVersions,
+    });
+    const dependencyNotes = getChangelogDepsNotes(pkg, updatedVersions);
+
+    existingCandidate.pullRequest.updates =
+      existingCandidate.pullRequest.updates.map(update => {
+        if (pkg.configFiles.includes(update.path)) {
+          update.updater = new CompositeUpdater(update.updater, updater);
+        } else if (update.updater instanceof Changelog) {
+          if (dependencyNotes) {
+            update.updater.changelogEntry =
+              appendDependenciesSectionToChangelog(
+                update.updater.changelogEntry,
+                dependencyNotes,
+                this.logger
+              );
+          }
+        }
+        return update;
+      });
+
+    // append dependency notes
+    if (dependencyNotes) {
+      if (existingCandidate.pullRequest.body.releaseData.length > 0) {
+        existingCandidate.pullRequest.body.releaseData[0].notes =
+          appendDependenciesSectionToChangelog(
+            existingCandidate.pullRequest.body.releaseData[0].notes,
+            dependencyNotes,
+            this.logger
+          );
+      } else {
+        existingCandidate.pullRequest.body.releaseData.push({
+          component: pkg.name,
+          version: existingCandidate.pullRequest.version,
+          notes: appendDependenciesSectionToChangelog(
+            '',
+            dependencyNotes,
+            this.logger
+          ),
+        });
+      }
+    }
+    return existingCandidate;
+  }
+
+  protected async newCandidate(
+    pkg: DenoPackage,
+    updatedVersions: VersionsMap
+  ): Promise<CandidateReleasePullRequest> {
+    const version = updatedVersions.get(pkg.name);
+    if (!version) {
+      throw new Error(`Didn't find updated version for ${pkg.name}`);
+    }
+
+    const strategy = this.strategiesByPath[pkg.path];
+    const latestRelease = this.releasesByPath[pkg.path];
+    const basePullRequest = strategy
+      ? await strategy.buildReleasePullRequest([], latestRelease, false, [], {
+          newVersion: version,
+        })
+      : undefined;
+
+    if (basePullRequest) {
+      return this.updateCandidate(
+        {
+          path: pkg.path,
+          pullRequest: basePullRequest,
+          config: {
+            releaseType: 'deno',
+          },
+        },
+        pkg,
+        updatedVersions
+      );
+    }
+
+    const dependencyNotes = getChangelogDepsNotes(pkg, updatedVersions);
+    const pullRequest: ReleasePullRequest = {
+      title: PullRequestTitle.ofTargetBranch(this.targetBranch),
+      body: new PullRequestBody([
+        {
+          component: pkg.name,
+          version,
+          notes: appendDependenciesSectionToChangelog(
+            '',
+            dependencyNotes,
+            this.logger
+          ),
+        },
+      ]),
+      updates: [
+        ...pkg.configFiles.map(path => ({
+          path,
+          createIfMissing: false,
+          updater: new DenoJson({
+            version,
+            versionsMap: updatedVersions,
+          }),
+        })),
+        {
+          path: addPath(pkg.path, 'CHANGELOG.md'),
+          createIfMissing: false,
+          updater: new Changelog({
+            version,
+            changelogEntry: dependencyNotes,
+          }),
+        },
+      ],
+      labels: [],
+      headRefName: BranchName.ofTargetBranch(this.targetBranch).toString(),
+      version,
+      draft: false,
+    };
+    return {
+      path: pkg.path,
+      pullRequest,
+      config: {
+        releaseType: 'deno',
+      },
+    };
+  }
+
+  protected postProcessCandidates(
+    candidates: CandidateReleasePullRequest[],
+    updatedVersions: VersionsMap
+  ): CandidateReleasePullRequest[] {
+    let rootCandidate = candidates.find(c => c.path === ROOT_PROJECT_PATH);
+    if (!rootCandidate) {
+      rootCandidate = candidates.find(c => this.inScope(c));
+    }
+    if (!rootCandidate) {
+      this.logger.warn('Unable to find a deno candidate pull request');
+      return candidates;
+    }
+
+    // update the imports of workspace members that are not released
+    for (const member of this.unversionedMembers) {
+      const needsUpdate = Object.entries(member.dependencies).some(
+        ([name, range]) => {
+          const newVersion = updatedVersions.get(name);
+          return newVersion && updatedRange(range, newVersion) !== range;
+        }
+      );
+      if (needsUpdate) {
+        for (const path of member.configFiles) {
+          rootCandidate.pullRequest.updates.push({
+            path,
+            createIfMissing: false,
+            updater: new DenoImports(updatedVersions),
+          });
+        }
+      }
+    }
+
+    if (!rootCandidate.pullRequest.updates.some(u => u.path === LOCK_FILE)) {
+      rootCandidate.pullRequest.updates.push({
+        path: LOCK_FILE,
+        createIfMissing: false,
+        updater: new DenoLock(updatedVersions),
+      });
+    }
+
+    return candidates;
+  }
+
+  protected inScope(candidate: CandidateReleasePullRequest): boolean {
+    return candidate.config.releaseType === 'deno';
+  }
+
+  protected packageNameFromPackage(pkg: DenoPackage): string {
+    return pkg.name;
+  }
+
+  protected pathFromPackage(pkg: DenoPackage): string {
+    return pkg.path;
+  }
+
+  async preconfigure(
+    strategiesByPath: Record<string, Strategy>,
+    _commitsByPath: Record<string, Commit[]>,
+    releasesByPath: Record<string, Release>
+  ): Promise<Record<string, Strategy>> {
+    // Using preconfigure to siphon releases and strategies.
+    this.strategiesByPath = strategiesByPath;
+    this.releasesByPath = releasesByPath;
+
+    return strategiesByPath;
+  }
+}
+
+function getChangelogDepsNotes(
+  pkg: DenoPackage,
+  updatedVersions: VersionsMap
+): string {
+  const depUpdateNotes: string[] = [];
+  for (const [name, range] of Object.entries(pkg.dependencies)) {
+    const newVersion = updatedVersions.get(name);
+    if (!newVersion) {
+      continue;
+    }
+    const newRange = updatedRange(range, newVersion);
+    if (newRange && newRange !== range) {
+      depUpdateNotes.push(
+        `\n    * ${name} bumped from ${range} to ${newRange}`
+      );
+    }
+  }
+  if (depUpdateNotes.length > 0) {
+    return `* The following workspace dependencies were updated${depUpdateNotes.join(
+      ''
+    )}`;
+  }
+  return '';
+}
@@ -0,0 +1,379 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {CandidateReleasePullRequest, ROOT_PROJECT_PATH} from '../manifest';
+import {
+  WorkspacePlugin,
+  AllPackages,
+  DependencyGraph,
+  DependencyNode,
+  addPath,
+  appendDependenciesSectionToChangelog,
+} from './workspace';
+import {Version, VersionsMap} from '../version';
+import {ConfigurationError, FileNotFoundError} from '../errors';
+import {Changelog} from '../updaters/changelog';
+import {GradleProperties} from '../updaters/gradle/gradle-properties';
+import {BuildGradle} from '../updaters/gradle/build-gradle';
+import {VersionCatalog} from '../updaters/gradle/version-catalog';
+import {
+  BUILD_FILES,
+  PROPERTIES_FILE,
+  SETTINGS_FILES,
+  parseBuildVersion,
+  parseProjectDependencies,
+  parsePropertiesVersion,
+  parseRootProjectName,
+  parseSettingsIncludes,
+  projectDirectory,
+} from '../updaters/gradle/common';
+import {ReleasePullRequest} from '../release-pull-request';
+import {PullRequestTitle} from '../util/pull-request-title';
+import {PullRequestBody} from '../util/pull-request-body';
+import {BranchName} from '../util/branch-name';
+import {JavaSnapshot} from '../versioning-strategies/java-snapshot';
+import {AlwaysBumpPatch} from '../versioning-strategies/always-bump-patch';
+
+const VERSION_CATALOG_PATH = 'gradle/libs.versions.toml';
+
+interface GradleProject {
+  /**
+   * e.g. `:libs:core`
+   */
+  projectPath: string;
+
+  /**
+   * e.g. `core`
+   */
+  name: string;
+
+  /**
+   * e.g. `libs/core`
+   */
+  path: string;
+
+  /**
+   * e.g. `1.0.0`
+   */
+  version: string;
+
+  /**
+   * The file declaring the version, e.g. `libs/core/gradle.properties`
+   */
+  versionFile: string;
+
+  /**
+   * Project paths of the `project(...)` dependencies of this project
+   */
+  dependencies: string[];
+}
+
+/**
+ * The plugin analyzes a Gradle multi-project build from the projects
+ * included by `settings.gradle(.kts)` and will bump dependent projects of
+ * managed projects if those dependencies are being updated.
+ *
+ * If multiple gradle projects are being updated, it will merge them
+ * into a single release pull request.
+ */
+export class GradleWorkspace extends WorkspacePlugin<GradleProject> {
+  private projectsByPath: Record<string, GradleProject> = {};
+
+  private async fetchFile(path: string): Promise<string | undefined> {
+    try {
+      const content = await this.github.getFileContentsOnBranch(
+        path,
+        this.targetBranch
+      );
+      return content.parsedContent;
+    } catch (e) {
+      if (e instanceof FileNotFoundError) {
+        return undefined;
+      }
+      throw e;
+    }
+  }
+
+  private async fetchProject(
+    projectPath: string,
+    name: string
+  ): Promise<GradleProject | undefined> {
+    const path = projectDirectory(projectPath) || ROOT_PROJECT_PATH;
+    const propertiesFile = addPath(path, PROPERTIES_FILE);
+    const propertiesContent = await this.fetchFile(propertiesFile);
+    let version = propertiesContent
+      ? parsePropertiesVersion(propertiesContent)
+      : undefined;
+    let versionFile = propertiesFile;
+    let dependencies: string[] = [];
+    for (const buildFile of BUILD_FILES.map(file => addPath(path, file))) {
+      const buildContent = await this.fetchFile(buildFile);
+      if (!buildContent) {
+        continue;
+      }
+      dependencies = parseProjectDependencies(buildContent);
+      if (!version) {
+        version = parseBuildVersion(buildContent);
+        versionFile = buildFile;
+      }
+      break;
+    }
+    if (!version) {
+      this.logger.warn(`no version found for project ${projectPath}`);
+      return;
+    }
+    return {
+      projectPath,
+      name,
+      path,
+      version,
+      versionFile,
+      dependencies,
+    };
+  }
+
+  protected async buildAllPackages(
+    candidates: CandidateReleasePullRequest[]
+  ): Promise<AllPackages<GradleProject>> {
+    let settingsContent: string | undefined;
+    for (const settingsFile of SETTINGS_FILES) {
+      settingsContent = await this.fetchFile(settingsFile);
+      if (settingsContent) {
+        break;
+      }
+    }
+    if (!settingsContent) {
+      throw new ConfigurationError(
+        'gradle-workspace plugin used, but did not find a settings.gradle(.kts) file',
+        'gradle-workspace',
+        `${this.github.repository.owner}/${this.github.repository.repo}`
+      );
+    }
+
+    const allPackages: GradleProject[] = [];
+    const candidatesByPackage: Record<string, CandidateReleasePullRequest> = {};
+    const projectPaths = [':', ...parseSettingsIncludes(settingsContent)];
+    for (const projectPath of projectPaths) {
+      const name =
+        projectPath === ':'
+          ? parseRootProjectName(settingsContent) ?? 'root'
+          : projectPath.split(':').pop()!;
+      const project = await this.fetchProject(projectPath, name);
+      if (!project) {
+        continue;
+      }
+      allPackages.push(project);
+      this.projectsByPath[projectPath] = project;
+      const candidate = candidates.find(c => c.path === project.path);
+      if (candidate) {
+        candidatesByPackage[project.projectPath] = candidate;
+      }
+    }
+    return {
+      allPackages,
+      candidatesByPackage,
+    };
+  }
+
+  protected async buildGraph(
+    allPackages: GradleProject[]
+  ): Promise<DependencyGraph<GradleProject>> {
+    const workspaceProjectPaths = new Set(
+      allPackages.map(project => project.projectPath)
+    );
+    const graph = new Map<string, DependencyNode<GradleProject>>();
+    for (const project of allPackages) {
+      graph.set(project.projectPath, {
+        deps: project.dependencies.filter(dep =>
+          workspaceProjectPaths.has(dep)
+        ),
+        value: project,
+      });
+    }
+    return graph;
+  }
+
+  /**
+   * Given a release version, determine if we should bump the manifest
+   * version as well. For gradle projects, SNAPSHOT versions are not
+   * considered releases.
+   * @param {Version} version The release version
+   */
+  protected isReleaseVersion(version: Version): boolean {
+    return !version.preRelease?.includes('SNAPSHOT');
+  }
+
+  protected bumpVersion(project: GradleProject): Version {
+    const strategy = new JavaSnapshot(new AlwaysBumpPatch());
+    return strategy.bump(Version.parse(project.version), []);
+  }
+
+  protected updateCandidate(
+    existingCandidate: CandidateReleasePullRequest,
+    project: GradleProject,
+    updatedVersions: VersionsMap
+  ): CandidateReleasePullRequest {
+    const dependencyNotes = getChangelogDepsNotes(project, updatedVersions);
+    if (!dependencyNotes) {
+      return existingCandidate;
+    }
+
+    existingCandidate.pullRequest.updates =
+      existingCandidate.pullRequest.updates.map(update => {
+        if (update.updater instanceof Changelog) {
+          update.updater.changelogEntry = appendDependenciesSectionToChangelog(
+            update.updater.changelogEntry,
+            dependencyNotes,
+            this.logger
+          );
+        }
+        return update;
+      });
+
+    // append dependency notes
+    if (existingCandidate.pullRequest.body.releaseData.length > 0) {
+      existingCandidate.pullRequest.body.releaseData[0].notes =
+        appendDependenciesSectionToChangelog(
+          existingCandidate.pullRequest.body.releaseData[0].notes,
+          dependencyNotes,
+          this.logger
+        );
+    } else {
+      existingCandidate.pullRequest.body.releaseData.push({
+        component: project.name,
+        version: existingCandidate.pullRequest.version,
+        notes: appendDependenciesSectionToChangelog(
+          '',
+          dependencyNotes,
+          this.logger
+        ),
+      });
+    }
+    return existingCandidate;
+  }
+
+  protected async newCandidate(
+    project: GradleProject,
+    updatedVersions: VersionsMap
+  ): Promise<CandidateReleasePullRequest> {
+    const version = updatedVersions.get(project.projectPath);
+    if (!version) {
+      throw new Error(`Didn't find updated version for ${project.projectPath}`);
+    }
+    const dependencyNotes = getChangelogDepsNotes(project, updatedVersions);
+    const pullRequest: ReleasePullRequest = {
+      title: PullRequestTitle.ofTargetBranch(this.targetBranch),
+      body: new PullRequestBody([
+        {
+          component: project.name,
+          version,
+          notes: appendDependenciesSectionToChangelog(
+            '',
+            dependencyNotes,
+            this.logger
+          ),
+        },
+      ]),
+      updates: [
+        {
+          path: project.versionFile,
+          createIfMissing: false,
+          updater: project.versionFile.endsWith(PROPERTIES_FILE)
+            ? new GradleProperties({version})
+            : new BuildGradle({version}),
+        },
+        {
+          path: addPath(project.path, 'CHANGELOG.md'),
+          createIfMissing: false,
+          updater: new Changelog({
+            version,
+            changelogEntry: dependencyNotes,
+          }),
+        },
+      ],
+      labels: [],
+      headRefName: BranchName.ofTargetBranch(this.targetBranch).toString(),
+      version,
+      draft: false,
+    };
+    return {
+      path: project.path,
+      pullRequest,
+      config: {
+        releaseType: 'gradle',
+      },
+    };
+  }
+
+  protected postProcessCandidates(
+    candidates: CandidateReleasePullRequest[],
+    updatedVersions: VersionsMap
+  ): CandidateReleasePullRequest[] {
+    let rootCandidate = candidates.find(c => c.path === ROOT_PROJECT_PATH);
+    if (!rootCandidate) {
+      rootCandidate = candidates.find(c => this.inScope(c));
+    }
+    if (!rootCandidate) {
+      this.logger.warn('Unable to find a gradle candidate pull request');
+      return candidates;
+    }
+
+    // Version catalog entries are keyed by the project name
+    const catalogVersions: VersionsMap = new Map();
+    for (const [projectPath, version] of updatedVersions) {
+      const project = this.projectsByPath[projectPath];
+      if (project) {
+        catalogVersions.set(project.name, version);
+      }
+    }
+    rootCandidate.pullRequest.updates.push({
+      path: VERSION_CATALOG_PATH,
+      createIfMissing: false,
+      updater: new VersionCatalog(catalogVersions),
+    });
+
+    return candidates;
+  }
+
+  protected inScope(candidate: CandidateReleasePullRequest): boolean {
+    return candidate.config.releaseType === 'gradle';
+  }
+
+  protected packageNameFromPackage(project: GradleProject): string {
+    return project.projectPath;
+  }
+
+  protected pathFromPackage(project: GradleProject): string {
+    return project.path;
+  }
+}
+
+function getChangelogDepsNotes(
+  project: GradleProject,
+  updatedVersions: VersionsMap
+): string {
+  const depUpdateNotes = [];
+  for (const dependency of project.dependencies) {
+    const version = updatedVersions.get(dependency);
+    if (version) {
+      depUpdateNotes.push(`\n    * ${dependency} bumped to ${version}`);
+    }
+  }
+  if (depUpdateNotes.length > 0) {
+    return `* The following workspace dependencies were updated${depUpdateNotes.join(
+      ''
+    )}`;
+  }
+  return '';
+}
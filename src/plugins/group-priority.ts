@@ -13,7 +13,7 @@
 // limitations under the License.
 
 import {ManifestPlugin} from '../plugin';
-import {GitHub} from '../github';
+import {ScmProvider} from '../scm-provider';
 import {RepositoryConfig, CandidateReleasePullRequest} from '../manifest';
 
 /**
@@ -26,14 +26,14 @@ export class GroupPriority extends ManifestPlugin {
   /**
    * Instantiate a new GroupPriority plugin.
    *
-   * @param {GitHub} github GitHub client
+   * @param {ScmProvider} github SCM provider client
    * @param {string} targetBranch Release branch
    * @param {RepositoryConfig} repositoryConfig Parsed configuration for the entire
    *   repository. This allows plugins to know how components interact.
    * @param {string[]} groups List of group names ordered with highest priority first
    */
   constructor(
-    github: GitHub,
+    github: ScmProvider,
     targetBranch: string,
     repositoryConfig: RepositoryConfig,
     groups: string[]
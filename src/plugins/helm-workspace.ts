@@ -0,0 +1,390 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as yaml from 'yaml';
+import {ScmProvider} from '../scm-provider';
+import {CandidateReleasePullRequest, RepositoryConfig} from '../manifest';
+import {
+  WorkspacePlugin,
+  AllPackages,
+  DependencyGraph,
+  DependencyNode,
+  WorkspacePluginOptions,
+  appendDependenciesSectionToChangelog,
+  addPath,
+} from './workspace';
+import {Version, VersionsMap} from '../version';
+import {ChartYaml} from '../updaters/helm/chart-yaml';
+import {newVersionWithRange} from '../updaters/node/package-json';
+import {Changelog} from '../updaters/changelog';
+import {CompositeUpdater} from '../updaters/composite';
+import {ReleasePullRequest} from '../release-pull-request';
+import {PullRequestTitle} from '../util/pull-request-title';
+import {PullRequestBody} from '../util/pull-request-body';
+import {BranchName} from '../util/branch-name';
+import {PatchVersionUpdate} from '../versioning-strategy';
+import {Strategy} from '../strategy';
+import {Commit} from '../commit';
+import {Release} from '../release';
+
+interface ChartDependency {
+  name: string;
+  version: string;
+}
+
+interface ChartInfo {
+  /**
+   * e.g. `charts/api`
+   */
+  path: string;
+
+  /**
+   * e.g. `api`
+   */
+  name: string;
+
+  /**
+   * e.g. `1.0.0`
+   */
+  version: string;
+
+  /**
+   * The `dependencies` of the chart that declare a version
+   */
+  dependencies: ChartDependency[];
+}
+
+interface HelmWorkspacePluginOptions extends WorkspacePluginOptions {
+  // chart path => path of the application component its appVersion follows
+  appVersionFrom?: Record<string, string>;
+}
+
+/**
+ * The plugin analyzes the Helm charts of the repository and will bump
+ * charts that depend on managed charts if those dependencies are being
+ * updated, rewriting their `dependencies[].version` ranges. It can also
+ * sync the `appVersion` of a chart with the release of an application
+ * component.
+ *
+ * If multiple charts are being updated, it will merge them into a single
+ * release pull request.
+ */
+export class HelmWorkspace extends WorkspacePlugin<ChartInfo> {
+  private appVersionFrom: Record<string, string>;
+  private appVersionsByPath = new Map<string, Version>();
+
+  private strategiesByPath: Record<string, Strategy> = {};
+  private releasesByPath: Record<string, Release> = {};
+
+  constructor(
+    github: ScmProvider,
+    targetBranch: string,
+    repositoryConfig: RepositoryConfig,
+    options: HelmWorkspacePluginOptions = {}
+  ) {
+    super(github, targetBranch, repositoryConfig, options);
+    this.appVersionFrom = options.appVersionFrom ?? {};
+  }
+
+  async run(
+    candidates: CandidateReleasePullRequest[]
+  ): Promise<CandidateReleasePullRequest[]> {
+    // Charts following a released application are released as well
+    const appCandidates: CandidateReleasePullRequest[] = [];
+    for (const [chartPath, appPath] of Object.entries(this.appVersionFrom)) {
+      const appVersion = candidates.find(
+        candidate => candidate.path === appPath
+      )?.pullRequest.version;
+      if (!appVersion) {
+        continue;
+      }
+      this.logger.info(
+        `Syncing appVersion of ${chartPath} to ${appVersion} from ${appPath}`
+      );
+      this.appVersionsByPath.set(chartPath, appVersion);
+      if (candidates.find(candidate => candidate.path === chartPath)) {
+        continue;
+      }
+      const chart = await this.fetchChart(chartPath);
+      appCandidates.push(
+        await this.newCandidate(
+          chart,
+          new Map([[chart.name, this.bumpVersion(chart)]])
+        )
+      );
+    }
+    return super.run([...candidates, ...appCandidates]);
+  }
+
+  private async fetchChart(
+    path: string,
+    candidate?: CandidateReleasePullRequest
+  ): Promise<ChartInfo> {
+    const chartPath = addPath(path, 'Chart.yaml');
+    const contents =
+      candidate?.pullRequest.updates.find(update => update.path === chartPath)
+        ?.cachedFileContents ??
+      (await this.github.getFileContentsOnBranch(chartPath, this.targetBranch));
+    const chart = yaml.parse(contents.parsedContent);
+    const dependencies: ChartDependency[] = (chart.dependencies ?? []).filter(
+      (dependency: Partial<ChartDependency>) =>
+        typeof dependency.name === 'string' &&
+        typeof dependency.version === 'string'
+    );
+    return {
+      path,
+      name: chart.name,
+      version: chart.version,
+      dependencies,
+    };
+  }
+
+  protected async buildAllPackages(
+    candidates: CandidateReleasePullRequest[]
+  ): Promise<AllPackages<ChartInfo>> {
+    const allPackages: ChartInfo[] = [];
+    const candidatesByPackage: Record<string, CandidateReleasePullRequest> = {};
+    for (const path in this.repositoryConfig) {
+      if (this.repositoryConfig[path].releaseType !== 'helm') {
+        continue;
+      }
+      const candidate = candidates.find(c => c.path === path);
+      const chart = await this.fetchChart(path, candidate);
+      allPackages.push(chart);
+      if (candidate) {
+        candidatesByPackage[chart.name] = candidate;
+      }
+    }
+    return {
+      allPackages,
+      candidatesByPackage,
+    };
+  }
+
+  protected async buildGraph(
+    allPackages: ChartInfo[]
+  ): Promise<DependencyGraph<ChartInfo>> {
+    const workspaceChartNames = new Set(allPackages.map(chart => chart.name));
+    const graph = new Map<string, DependencyNode<ChartInfo>>();
+    for (const chart of allPackages) {
+      graph.set(chart.name, {
+        deps: chart.dependencies
+          .map(dependency => dependency.name)
+          .filter(name => workspaceChartNames.has(name)),
+        value: chart,
+      });
+    }
+    return graph;
+  }
+
+  protected bumpVersion(chart: ChartInfo): Version {
+    const version = Version.parse(chart.version);
+    const strategy = this.strategiesByPath[chart.path];
+
+    if (strategy) return strategy.versioningStrategy.bump(version, []);
+    return new PatchVersionUpdate().bump(version);
+  }
+
+  protected updateCandidate(
+    existingCandidate: CandidateReleasePullRequest,
+    chart: ChartInfo,
+    updatedVersions: VersionsMap
+  ): CandidateReleasePullRequest {
+    const version = updatedVersions.get(chart.name);
+    if (!version) {
+      throw new Error(`Didn't find updated version for ${chart.name}`);
+    }
+    const updater = new ChartYaml({
+      version,
+      versionsMap: updatedVersions,
+      appVersion: this.appVersionsByPath.get(chart.path),
+    });
+    const dependencyNotes = getChangelogDepsNotes(chart, updatedVersions);
+
+    existingCandidate.pullRequest.updates =
+      existingCandidate.pullRequest.updates.map(update => {
+        if (update.path === addPath(existingCandidate.path, 'Chart.yaml')) {
+          update.updater = new CompositeUpdater(update.updater, updater);
+        } else if (update.updater instanceof Changelog) {
+          if (dependencyNotes) {
+            update.updater.changelogEntry =
+              appendDependenciesSectionToChangelog(
+                update.updater.changelogEntry,
+                dependencyNotes,
+                this.logger
+              );
+          }
+        }
+        return update;
+      });
+
+    // append dependency notes
+    if (dependencyNotes) {
+      if (existingCandidate.pullRequest.body.releaseData.length > 0) {
+        existingCandidate.pullRequest.body.releaseData[0].notes =
+          appendDependenciesSectionToChangelog(
+            existingCandidate.pullRequest.body.releaseData[0].notes,
+            dependencyNotes,
+            this.logger
+          );
+      } else {
+        existingCandidate.pullRequest.body.releaseData.push({
+          component: chart.name,
+          version: existingCandidate.pullRequest.version,
+          notes: appendDependenciesSectionToChangelog(
+            '',
+            dependencyNotes,
+            this.logger
+          ),
+        });
+      }
+    }
+    return existingCandidate;
+  }
+
+  protected async newCandidate(
+    chart: ChartInfo,
+    updatedVersions: VersionsMap
+  ): Promise<CandidateReleasePullRequest> {
+    const version = updatedVersions.get(chart.name);
+    if (!version) {
+      throw new Error(`Didn't find updated version for ${chart.name}`);
+    }
+
+    const strategy = this.strategiesByPath[chart.path];
+    const latestRelease = this.releasesByPath[chart.path];
+    const basePullRequest = strategy
+      ? await strategy.buildReleasePullRequest([], latestRelease, false, [], {
+          newVersion: version,
+        })
+      : undefined;
+
+    if (basePullRequest) {
+      return this.updateCandidate(
+        {
+          path: chart.path,
+          pullRequest: basePullRequest,
+          config: {
+            releaseType: 'helm',
+          },
+        },
+        chart,
+        updatedVersions
+      );
+    }
+
+    const dependencyNotes = getChangelogDepsNotes(chart, updatedVersions);
+    const pullRequest: ReleasePullRequest = {
+      title: PullRequestTitle.ofTargetBranch(this.targetBranch),
+      body: new PullRequestBody([
+        {
+          component: chart.name,
+          version,
+          notes: appendDependenciesSectionToChangelog(
+            '',
+            dependencyNotes,
+            this.logger
+          ),
+        },
+      ]),
+      updates: [
+        {
+          path: addPath(chart.path, 'Chart.yaml'),
+          createIfMissing: false,
+          updater: new ChartYaml({
+            version,
+            versionsMap: updatedVersions,
+            appVersion: this.appVersionsByPath.get(chart.path),
+          }),
+        },
+        {
+          path: addPath(chart.path, 'CHANGELOG.md'),
+          createIfMissing: false,
+          updater: new Changelog({
+            version,
+            changelogEntry: dependencyNotes,
+          }),
+        },
+      ],
+      labels: [],
+      headRefName: BranchName.ofTargetBranch(this.targetBranch).toString(),
+      version,
+      draft: false,
+    };
+    return {
+      path: chart.path,
+      pullRequest,
+      config: {
+        releaseType: 'helm',
+      },
+    };
+  }
+
+  protected postProcessCandidates(
+    candidates: CandidateReleasePullRequest[],
+    _updatedVersions: VersionsMap
+  ): CandidateReleasePullRequest[] {
+    // NOP for helm workspaces
+    return candidates;
+  }
+
+  protected inScope(candidate: CandidateReleasePullRequest): boolean {
+    return candidate.config.releaseType === 'helm';
+  }
+
+  protected packageNameFromPackage(chart: ChartInfo): string {
+    return chart.name;
+  }
+
+  protected pathFromPackage(chart: ChartInfo): string {
+    return chart.path;
+  }
+
+  async preconfigure(
+    strategiesByPath: Record<string, Strategy>,
+    _commitsByPath: Record<string, Commit[]>,
+    releasesByPath: Record<string, Release>
+  ): Promise<Record<string, Strategy>> {
+    // Using preconfigure to siphon releases and strategies.
+    this.strategiesByPath = strategiesByPath;
+    this.releasesByPath = releasesByPath;
+
+    return strategiesByPath;
+  }
+}
+
+function getChangelogDepsNotes(
+  chart: ChartInfo,
+  updatedVersions: VersionsMap
+): string {
+  const depUpdateNotes: string[] = [];
+  for (const dependency of chart.dependencies) {
+    const newVersion = updatedVersions.get(dependency.name);
+    if (!newVersion) {
+      continue;
+    }
+    const newRange = newVersionWithRange(dependency.version, newVersion);
+    if (newRange !== dependency.version) {
+      depUpdateNotes.push(
+        `\n    * ${dependency.name} bumped from ${dependency.version} to ${newRange}`
+      );
+    }
+  }
+  if (depUpdateNotes.length > 0) {
+    return `* The following workspace dependencies were updated${depUpdateNotes.join(
+      ''
+    )}`;
+  }
+  return '';
+}
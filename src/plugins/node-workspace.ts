@@ -12,7 +12,10 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
-import {GitHub} from '../github';
+import * as yaml from 'yaml';
+import {Minimatch} from 'minimatch';
+import {posix} from 'path';
+import {ScmProvider} from '../scm-provider';
 import {CandidateReleasePullRequest, RepositoryConfig} from '../manifest';
 import {PackageLockJson} from '../updaters/node/package-lock-json';
 import {Version, VersionsMap} from '../version';
@@ -33,13 +36,21 @@ import {Strategy} from '../strategy';
 import {Commit} from '../commit';
 import {Release} from '../release';
 import {CompositeUpdater} from '../updaters/composite';
-import {PackageJson, newVersionWithRange} from '../updaters/node/package-json';
+import {
+  PackageJson,
+  PackageJsonDependencies,
+  updatedDependencyRange,
+} from '../updaters/node/package-json';
+import {PnpmLock} from '../updaters/node/pnpm-lock';
+import {YarnLock} from '../updaters/node/yarn-lock';
 import {Logger} from '../util/logger';
 import {PatchVersionUpdate} from '../versioning-strategy';
+import {FileNotFoundError} from '../errors';
 
 interface ParsedPackageJson {
   name: string;
   version: string;
+  workspaces?: string[] | {packages?: string[]};
   dependencies?: Record<string, string>;
   devDependencies?: Record<string, string>;
   peerDependencies?: Record<string, string>;
@@ -60,6 +71,7 @@ interface Package {
 interface NodeWorkspaceOptions extends WorkspacePluginOptions {
   alwaysLinkLocal?: boolean;
   updatePeerDependencies?: boolean;
+  discoverWorkspaces?: boolean;
 }
 
 /**
@@ -74,10 +86,15 @@ export class NodeWorkspace extends WorkspacePlugin<Package> {
 
   private strategiesByPath: Record<string, Strategy> = {};
   private releasesByPath: Record<string, Release> = {};
+  // discovered workspace packages that are not released by release-please
+  private unreleasedPackages: Package[] = [];
+  // pnpm and Yarn lock files found on the target branch
+  private lockFiles: string[] = [];
 
   readonly updatePeerDependencies: boolean;
+  readonly discoverWorkspaces: boolean;
   constructor(
-    github: GitHub,
+    github: ScmProvider,
     targetBranch: string,
     repositoryConfig: RepositoryConfig,
     options: NodeWorkspaceOptions = {}
@@ -86,6 +103,7 @@ export class NodeWorkspace extends WorkspacePlugin<Package> {
 
     this.alwaysLinkLocal = options.alwaysLinkLocal === false ? false : true;
     this.updatePeerDependencies = options.updatePeerDependencies === true;
+    this.discoverWorkspaces = options.discoverWorkspaces === true;
   }
   protected async buildAllPackages(
     candidates: CandidateReleasePullRequest[]
@@ -161,6 +179,41 @@ export class NodeWorkspace extends WorkspacePlugin<Package> {
         packagesByPath.set(path, pkg);
       }
     }
+    if (this.discoverWorkspaces) {
+      this.unreleasedPackages = [];
+      for (const path of await this.discoverWorkspacePaths()) {
+        if (packagesByPath.has(path)) {
+          continue;
+        }
+        const packagePath = addPath(path, 'package.json');
+        this.logger.debug(
+          `Found unreleased workspace package ${path} - inspect package from ${packagePath}`
+        );
+        const contents = await this.github.getFileContentsOnBranch(
+          packagePath,
+          this.targetBranch
+        );
+        const packageJson: ParsedPackageJson = JSON.parse(
+          contents.parsedContent
+        );
+        this.unreleasedPackages.push({
+          name: packageJson.name,
+          path,
+          version: packageJson.version,
+          dependencies: packageJson.dependencies || {},
+          devDependencies: packageJson.devDependencies || {},
+          peerDependencies: packageJson.peerDependencies || {},
+          optionalDependencies: packageJson.optionalDependencies || {},
+          jsonContent: contents.parsedContent,
+        });
+      }
+    }
+    this.lockFiles = [];
+    for (const lockFile of ['pnpm-lock.yaml', 'yarn.lock']) {
+      if ((await this.getFileContents(lockFile)) !== undefined) {
+        this.lockFiles.push(lockFile);
+      }
+    }
     const allPackages = Array.from(packagesByPath.values());
     return {
       allPackages,
@@ -168,6 +221,68 @@ export class NodeWorkspace extends WorkspacePlugin<Package> {
     };
   }
 
+  /**
+   * Lists the paths of the workspace packages declared by the root
+   * pnpm-workspace.yaml, or else by the `workspaces` field of the root
+   * package.json (npm and Yarn).
+   */
+  private async discoverWorkspacePaths(): Promise<string[]> {
+    let patterns: string[] | undefined;
+    const pnpmWorkspace = await this.getFileContents('pnpm-workspace.yaml');
+    if (pnpmWorkspace) {
+      patterns = yaml.parse(pnpmWorkspace)?.packages;
+    } else {
+      const rootPackageJson = await this.getFileContents('package.json');
+      if (rootPackageJson) {
+        const workspaces = (JSON.parse(rootPackageJson) as ParsedPackageJson)
+          .workspaces;
+        patterns = Array.isArray(workspaces)
+          ? workspaces
+          : workspaces?.packages;
+      }
+    }
+    if (!patterns) {
+      this.logger.warn(
+        'node-workspace plugin could not find a pnpm-workspace.yaml or package.json workspaces'
+      );
+      return [];
+    }
+
+    const excludes = patterns
+      .filter(pattern => pattern.startsWith('!'))
+      .map(pattern => new Minimatch(pattern.substring(1)));
+    const paths = new Set<string>();
+    for (const pattern of patterns) {
+      if (pattern.startsWith('!')) {
+        continue;
+      }
+      const files = await this.github.findFilesByGlobAndRef(
+        addPath(pattern, 'package.json'),
+        this.targetBranch
+      );
+      for (const file of files) {
+        const path = posix.dirname(file);
+        if (!excludes.some(exclude => exclude.match(path))) {
+          paths.add(path);
+        }
+      }
+    }
+    return Array.from(paths);
+  }
+
+  private async getFileContents(path: string): Promise<string | undefined> {
+    try {
+      return (
+        await this.github.getFileContentsOnBranch(path, this.targetBranch)
+      ).parsedContent;
+    } catch (e) {
+      if (e instanceof FileNotFoundError) {
+        return undefined;
+      }
+      throw e;
+    }
+  }
+
   protected bumpVersion(pkg: Package): Version {
     const version = Version.parse(pkg.version);
     const strategy = this.strategiesByPath[pkg.path];
@@ -363,6 +478,41 @@ export class NodeWorkspace extends WorkspacePlugin<Package> {
 
     const [candidate] = candidates;
 
+    // update the dependencies of workspace packages that are not released
+    for (const pkg of this.unreleasedPackages) {
+      const allDeps = this.combineDeps(pkg);
+      const needsUpdate = Object.entries(allDeps).some(([depName, range]) => {
+        const newVersion = _updatedVersions.get(depName);
+        return (
+          newVersion && updatedDependencyRange(range, newVersion) !== range
+        );
+      });
+      if (needsUpdate) {
+        candidate.pullRequest.updates.push({
+          path: addPath(pkg.path, 'package.json'),
+          createIfMissing: false,
+          updater: new PackageJsonDependencies({
+            versionsMap: _updatedVersions,
+            updatePeerDependencies: this.updatePeerDependencies,
+          }),
+        });
+      }
+    }
+
+    // pnpm and Yarn Berry record the dependency ranges of workspaces
+    for (const lockFile of this.lockFiles) {
+      if (!candidate.pullRequest.updates.some(u => u.path === lockFile)) {
+        candidate.pullRequest.updates.push({
+          path: lockFile,
+          createIfMissing: false,
+          updater:
+            lockFile === 'pnpm-lock.yaml'
+              ? new PnpmLock(_updatedVersions)
+              : new YarnLock(_updatedVersions),
+        });
+      }
+    }
+
     // check for root lock file in pull request
     let hasRootLockFile: boolean | undefined;
     for (let i = 0; i < candidate.pullRequest.updates.length; i++) {
@@ -482,14 +632,14 @@ function getChangelogDepsNotes(
         continue;
       }
       const origDepVer = original[depType]?.[depName];
-      const newVersionString = newVersionWithRange(origDepVer, newVersion);
-      if (currentDepVer.startsWith('workspace:')) {
-        depUpdates.push(`\n    * ${depName} bumped to ${newVersionString}`);
-      } else if (newVersionString !== origDepVer) {
+      const newVersionString = updatedDependencyRange(origDepVer, newVersion);
+      if (currentDepVer.startsWith('workspace:') && !newVersionString) {
+        //handle case when "workspace:*" or "workspace:^" version is used
+        depUpdates.push(`\n    * ${depName} bumped to ${newVersion}`);
+      } else if (newVersionString && newVersionString !== origDepVer) {
         depUpdates.push(
           `\n    * ${depName} bumped from ${origDepVer} to ${newVersionString}`
         );
-        //handle case when "workspace:" version is used
       }
     }
     if (depUpdates.length > 0) {
@@ -22,4 +22,6 @@ export interface PullRequest {
   readonly labels: string[];
   readonly files: string[];
   readonly sha?: string;
+  readonly author?: string;
+  readonly authorAssociation?: string;
 }
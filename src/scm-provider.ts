@@ -0,0 +1,375 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {GitHubFileContents} from '@google-automations/git-file-utils';
+import {Commit} from './commit';
+import {PullRequest} from './pull-request';
+import {Release} from './release';
+import {ReleasePullRequest} from './release-pull-request';
+import {Repository} from './repository';
+import {Update} from './update';
+import {PullRequestOverflowHandler} from './util/pull-request-overflow-handler';
+
+export type CommitFilter = (commit: Commit) => boolean;
+
+export interface CommitIteratorOptions {
+  maxResults?: number;
+  backfillFiles?: boolean;
+}
+
+export interface ReleaseIteratorOptions {
+  maxResults?: number;
+}
+
+export interface TagIteratorOptions {
+  maxResults?: number;
+}
+
+export interface ReleaseOptions {
+  draft?: boolean;
+  prerelease?: boolean;
+}
+
+export interface ReleaseAsset {
+  name: string;
+  content: Buffer;
+  contentType?: string;
+}
+
+export interface CreatePullRequestOptions {
+  fork?: boolean;
+  draft?: boolean;
+}
+
+export interface CreateReleasePullRequestOptions {
+  signoffUser?: string;
+  fork?: boolean;
+  skipLabeling?: boolean;
+}
+
+export interface UpdatePullRequestOptions {
+  signoffUser?: string;
+  fork?: boolean;
+  pullRequestOverflowHandler?: PullRequestOverflowHandler;
+}
+
+export type PullRequestStatus = 'OPEN' | 'CLOSED' | 'MERGED';
+
+export interface GitHubRelease {
+  id: number;
+  name?: string;
+  tagName: string;
+  sha: string;
+  notes?: string;
+  url: string;
+  draft?: boolean;
+  uploadUrl?: string;
+}
+
+export interface GitHubTag {
+  name: string;
+  sha: string;
+}
+
+export interface FileDiff {
+  readonly mode: '100644' | '100755' | '040000' | '160000' | '120000';
+  readonly content: string | null;
+  readonly originalContent: string | null;
+}
+export type ChangeSet = Map<string, FileDiff>;
+
+/**
+ * An SCM provider is the hosting service that release-please reads
+ * history from and writes release pull requests and releases to.
+ * `GitHub` is the reference implementation. Other providers may
+ * implement this interface to be used by the `Manifest`, strategies
+ * and plugins without modification.
+ */
+export interface ScmProvider {
+  readonly repository: Repository;
+
+  /**
+   * Returns the list of commits to the target branch after the provided
+   * filter query has been satisfied.
+   *
+   * @param {string} targetBranch Target branch of commit
+   * @param {CommitFilter} filter Callback function that returns whether a
+   *   commit/pull request matches certain criteria
+   * @param {CommitIteratorOptions} options Query options
+   * @returns {Commit[]} List of commits to current branch
+   */
+  commitsSince(
+    targetBranch: string,
+    filter: CommitFilter,
+    options?: CommitIteratorOptions
+  ): Promise<Commit[]>;
+
+  /**
+   * Iterate through commit history with a max number of results scanned.
+   *
+   * @param {string} targetBranch target branch of commit
+   * @param {CommitIteratorOptions} options Query options
+   * @yields {Commit}
+   */
+  mergeCommitIterator(
+    targetBranch: string,
+    options?: CommitIteratorOptions
+  ): AsyncGenerator<Commit, void, void>;
+
+  /**
+   * Get the list of file paths modified in a given commit.
+   *
+   * @param {string} sha The commit SHA
+   * @returns {string[]} File paths
+   */
+  getCommitFiles(sha: string): Promise<string[]>;
+
+  /**
+   * Iterate through pull requests with a max number of results scanned.
+   *
+   * @param {string} targetBranch The base branch of the pull request
+   * @param {PullRequestStatus} status The status of the pull request
+   * @param {number} maxResults Limit the number of results searched
+   * @param {boolean} includeFiles Whether to fetch the list of files included
+   *   in the pull request
+   * @yields {PullRequest}
+   */
+  pullRequestIterator(
+    targetBranch: string,
+    status?: PullRequestStatus,
+    maxResults?: number,
+    includeFiles?: boolean
+  ): AsyncGenerator<PullRequest, void, void>;
+
+  /**
+   * Iterate through releases with a max number of results scanned.
+   *
+   * @param {ReleaseIteratorOptions} options Query options
+   * @yields {GitHubRelease}
+   */
+  releaseIterator(
+    options?: ReleaseIteratorOptions
+  ): AsyncGenerator<GitHubRelease, void, void>;
+
+  /**
+   * Iterate through tags with a max number of results scanned.
+   *
+   * @param {TagIteratorOptions} options Query options
+   * @yields {GitHubTag}
+   */
+  tagIterator(
+    options?: TagIteratorOptions
+  ): AsyncGenerator<GitHubTag, void, void>;
+
+  /**
+   * Fetch the contents of a file from the default branch.
+   *
+   * @param {string} path The path to the file in the repository
+   * @returns {GitHubFileContents}
+   * @throws {FileNotFoundError} if the file cannot be found
+   */
+  getFileContents(path: string): Promise<GitHubFileContents>;
+
+  /**
+   * Fetch the contents of a file
+   *
+   * @param {string} path The path to the file in the repository
+   * @param {string} branch The branch to fetch from
+   * @returns {GitHubFileContents}
+   * @throws {FileNotFoundError} if the file cannot be found
+   */
+  getFileContentsOnBranch(
+    path: string,
+    branch: string
+  ): Promise<GitHubFileContents>;
+
+  getFileJson<T>(path: string, branch: string): Promise<T>;
+
+  /**
+   * Returns a list of paths to all files with a given name. If a prefix
+   * is specified, only return paths that match the provided prefix,
+   * relative to that prefix.
+   */
+  findFilesByFilename(filename: string, prefix?: string): Promise<string[]>;
+  findFilesByFilenameAndRef(
+    filename: string,
+    ref: string,
+    prefix?: string
+  ): Promise<string[]>;
+
+  /**
+   * Returns a list of paths to all files matching a glob pattern. If a
+   * prefix is specified, only return paths that match the provided prefix,
+   * relative to that prefix.
+   */
+  findFilesByGlob(glob: string, prefix?: string): Promise<string[]>;
+  findFilesByGlobAndRef(
+    glob: string,
+    ref: string,
+    prefix?: string
+  ): Promise<string[]>;
+
+  /**
+   * Returns a list of paths to all files with a given file extension. If
+   * a prefix is specified, only return paths that match the provided prefix,
+   * relative to that prefix.
+   */
+  findFilesByExtension(extension: string, prefix?: string): Promise<string[]>;
+  findFilesByExtensionAndRef(
+    extension: string,
+    ref: string,
+    prefix?: string
+  ): Promise<string[]>;
+
+  /**
+   * Open a pull request for a release.
+   *
+   * @deprecated This logic is handled by the Manifest class now as it
+   *   can be more complicated if the release notes are too big
+   */
+  createReleasePullRequest(
+    releasePullRequest: ReleasePullRequest,
+    targetBranch: string,
+    options?: CreateReleasePullRequestOptions
+  ): Promise<PullRequest>;
+
+  /**
+   * Open a pull request
+   *
+   * @param {PullRequest} pullRequest Pull request data to update
+   * @param {string} targetBranch The base branch of the pull request
+   * @param {string} message The commit message for the commit
+   * @param {Update[]} updates The files to update
+   * @param {CreatePullRequestOptions} options The pull request options
+   */
+  createPullRequest(
+    pullRequest: PullRequest,
+    targetBranch: string,
+    message: string,
+    updates: Update[],
+    options?: CreatePullRequestOptions
+  ): Promise<PullRequest>;
+
+  /**
+   * Fetch a pull request given the pull number
+   * @param {number} number The pull request number
+   * @returns {PullRequest}
+   */
+  getPullRequest(number: number): Promise<PullRequest>;
+
+  /**
+   * Update a pull request's title, body and files.
+   * @param {number} number The pull request number
+   * @param {ReleasePullRequest} releasePullRequest Pull request data to update
+   * @param {string} targetBranch The target branch of the pull request
+   * @param {UpdatePullRequestOptions} options The pull request options
+   */
+  updatePullRequest(
+    number: number,
+    releasePullRequest: ReleasePullRequest,
+    targetBranch: string,
+    options?: UpdatePullRequestOptions
+  ): Promise<PullRequest>;
+
+  /**
+   * Given a set of proposed updates, build a changeset to suggest.
+   *
+   * @param {Update[]} updates The proposed updates
+   * @param {string} defaultBranch The target branch
+   * @return {ChangeSet} The changeset to suggest.
+   */
+  buildChangeSet(updates: Update[], defaultBranch: string): Promise<ChangeSet>;
+
+  /**
+   * Create a release
+   *
+   * @param {Release} release Release parameters
+   * @param {ReleaseOptions} options Release option parameters
+   * @throws {DuplicateReleaseError} if the release tag already exists
+   */
+  createRelease(
+    release: Release,
+    options?: ReleaseOptions
+  ): Promise<GitHubRelease>;
+
+  /**
+   * Upload files to an existing release. An existing asset with the same
+   * name is replaced, so uploading again is idempotent.
+   *
+   * @param {GitHubRelease} release The release, found by its id as draft
+   *   releases cannot be found by tag
+   * @param {ReleaseAsset[]} assets The files to upload
+   * @returns {string[]} Download URLs of the uploaded assets
+   * @throws {ConfigurationError} if the provider does not support release
+   *   assets
+   */
+  uploadReleaseAssets(
+    release: GitHubRelease,
+    assets: ReleaseAsset[]
+  ): Promise<string[]>;
+
+  /**
+   * Makes a comment on a issue/pull request.
+   *
+   * @param {string} comment The body of the comment to post.
+   * @param {number} number The issue or pull request number.
+   * @returns {string} The URL of the comment
+   */
+  commentOnIssue(comment: string, number: number): Promise<string>;
+
+  /**
+   * Removes labels from an issue/pull request.
+   *
+   * @param {string[]} labels The labels to remove.
+   * @param {number} number The issue/pull request number.
+   */
+  removeIssueLabels(labels: string[], number: number): Promise<void>;
+
+  /**
+   * Adds label to an issue/pull request.
+   *
+   * @param {string[]} labels The labels to add.
+   * @param {number} number The issue/pull request number.
+   */
+  addIssueLabels(labels: string[], number: number): Promise<void>;
+
+  /**
+   * Generate release notes from the provider at tag
+   * @param {string} tagName Name of new release tag
+   * @param {string} targetCommitish Target commitish for new tag
+   * @param {string} previousTag Optional. Name of previous tag to analyze commits since
+   */
+  generateReleaseNotes(
+    tagName: string,
+    targetCommitish: string,
+    previousTag?: string
+  ): Promise<string>;
+
+  /**
+   * Create a single file on a new branch based on an existing
+   * branch. This will force-push to that branch.
+   * @param {string} filename Filename with path in the repository
+   * @param {string} contents Contents of the file
+   * @param {string} newBranchName Name of the new branch
+   * @param {string} baseBranchName Name of the base branch (where
+   *   new branch is forked from)
+   * @returns {string} HTML URL of the new file
+   */
+  createFileOnNewBranch(
+    filename: string,
+    contents: string,
+    newBranchName: string,
+    baseBranchName: string
+  ): Promise<string>;
+}
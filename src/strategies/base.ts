@@ -13,7 +13,7 @@
 // limitations under the License.
 
 import {Strategy, BuildReleaseOptions, BumpReleaseOptions} from '../strategy';
-import {GitHub} from '../github';
+import {ScmProvider} from '../scm-provider';
 import {VersioningStrategy} from '../versioning-strategy';
 import {Repository} from '../repository';
 import {ChangelogNotes, ChangelogSection} from '../changelog-notes';
@@ -23,10 +23,18 @@ import {
   ExtraFile,
 } from '../manifest';
 import {DefaultVersioningStrategy} from '../versioning-strategies/default';
+import {CalendarVersioningStrategy} from '../versioning-strategies/calver';
+import {ChannelVersioningStrategy} from '../versioning-strategies/channel';
+import {Pep440VersioningStrategy} from '../versioning-strategies/pep440';
 import {DefaultChangelogNotes} from '../changelog-notes/default';
 import {Update} from '../update';
 import {ConventionalCommit, Commit} from '../commit';
-import {Version, VersionsMap} from '../version';
+import {
+  ParseVersionOptions,
+  Version,
+  VersionsMap,
+  parseVersion,
+} from '../version';
 import {TagName} from '../util/tag-name';
 import {Release} from '../release';
 import {ReleasePullRequest} from '../release-pull-request';
@@ -57,7 +65,7 @@ export interface BaseStrategyOptions {
   path?: string;
   bumpMinorPreMajor?: boolean;
   bumpPatchForMinorPreMajor?: boolean;
-  github: GitHub;
+  github: ScmProvider;
   component?: string;
   packageName?: string;
   versioningStrategy?: VersioningStrategy;
@@ -95,10 +103,10 @@ export interface BaseStrategyOptions {
  */
 export abstract class BaseStrategy implements Strategy {
   readonly path: string;
-  protected github: GitHub;
+  protected github: ScmProvider;
   protected logger: Logger;
   protected component?: string;
-  private packageName?: string;
+  protected packageName?: string;
   readonly versioningStrategy: VersioningStrategy;
   protected targetBranch: string;
   protected repository: Repository;
@@ -236,8 +244,8 @@ export abstract class BaseStrategy implements Strategy {
     component: string | undefined,
     newVersion: Version,
     releaseNotesBody: string,
-    _conventionalCommits: ConventionalCommit[],
-    _latestRelease?: Release,
+    conventionalCommits: ConventionalCommit[],
+    latestRelease?: Release,
     pullRequestHeader?: string,
     pullRequestFooter?: string
   ): Promise<PullRequestBody> {
@@ -247,6 +255,8 @@ export abstract class BaseStrategy implements Strategy {
           component,
           version: newVersion,
           notes: releaseNotesBody,
+          previousVersion: latestRelease?.tag.version,
+          commits: conventionalCommits,
         },
       ],
       {
@@ -263,6 +273,9 @@ export abstract class BaseStrategy implements Strategy {
    *   component if available.
    * @param {boolean} draft Optional. Whether or not to create the pull
    *   request as a draft. Defaults to `false`.
+   * @param {Commit[]} rawCommits Optional. All commits of this path,
+   *   including those that are not conventional commits, passed to the
+   *   changelog notes.
    * @returns {ReleasePullRequest | undefined} The release pull request to
    *   open for this path/component. Returns undefined if we should not
    *   open a pull request.
@@ -272,7 +285,8 @@ export abstract class BaseStrategy implements Strategy {
     latestRelease?: Release,
     draft?: boolean,
     labels: string[] = [],
-    bumpOnlyOptions?: BumpReleaseOptions
+    bumpOnlyOptions?: BumpReleaseOptions,
+    rawCommits?: Commit[]
   ): Promise<ReleasePullRequest | undefined> {
     const conventionalCommits = await this.postProcessCommits(commits);
     this.logger.info(`Considering: ${conventionalCommits.length} commits`);
@@ -280,6 +294,15 @@ export abstract class BaseStrategy implements Strategy {
       this.logger.info(`No commits for path: ${this.path}, skipping`);
       return undefined;
     }
+    if (
+      !bumpOnlyOptions &&
+      this.versioningStrategy.isReleasable?.(conventionalCommits) === false
+    ) {
+      this.logger.info(
+        `Only commits without a version bump for path: ${this.path}, skipping`
+      );
+      return undefined;
+    }
 
     const newVersion =
       bumpOnlyOptions?.newVersion ??
@@ -319,7 +342,7 @@ export abstract class BaseStrategy implements Strategy {
       newVersion,
       newVersionTag,
       latestRelease,
-      commits
+      rawCommits ?? commits
     );
     if (!bumpOnlyOptions && this.changelogEmpty(releaseNotesBody)) {
       this.logger.info(
@@ -541,7 +564,7 @@ export abstract class BaseStrategy implements Strategy {
       this.logger.warn(
         `Setting version for ${this.path} from release-as configuration`
       );
-      return Version.parse(this.releaseAs);
+      return this.parseVersion(this.releaseAs);
     }
 
     const releaseAsCommit = conventionalCommits.find(conventionalCommit =>
@@ -552,7 +575,7 @@ export abstract class BaseStrategy implements Strategy {
         note => note.title === 'RELEASE AS'
       );
       if (note) {
-        return Version.parse(note.text);
+        return this.parseVersion(note.text);
       }
     }
 
@@ -575,7 +598,32 @@ export abstract class BaseStrategy implements Strategy {
   protected async parsePullRequestBody(
     pullRequestBody: string
   ): Promise<PullRequestBody | undefined> {
-    return PullRequestBody.parse(pullRequestBody, this.logger);
+    return PullRequestBody.parse(
+      pullRequestBody,
+      this.logger,
+      this.versionParseOptions()
+    );
+  }
+
+  /**
+   * Calendar versions may have two or zero-padded segments, these are only
+   * accepted when using the calver versioning strategy. Likewise, PEP 440
+   * versions are only accepted when using the pep440 versioning strategy.
+   */
+  protected versionParseOptions(): ParseVersionOptions {
+    // release channels wrap the configured versioning strategy
+    const versioningStrategy =
+      this.versioningStrategy instanceof ChannelVersioningStrategy
+        ? this.versioningStrategy.strategy
+        : this.versioningStrategy;
+    return {
+      calendar: versioningStrategy instanceof CalendarVersioningStrategy,
+      pep440: versioningStrategy instanceof Pep440VersioningStrategy,
+    };
+  }
+
+  protected parseVersion(versionString: string): Version {
+    return parseVersion(versionString, this.versionParseOptions());
   }
 
   /**
@@ -605,13 +653,15 @@ export abstract class BaseStrategy implements Strategy {
         mergedPullRequest.title,
         this.pullRequestTitlePattern,
         this.componentNoSpace,
-        this.logger
+        this.logger,
+        this.versionParseOptions()
       ) ||
       PullRequestTitle.parse(
         mergedPullRequest.title,
         mergedTitlePattern,
         this.componentNoSpace,
-        this.logger
+        this.logger,
+        this.versionParseOptions()
       );
     if (!pullRequestTitle) {
       this.logger.error(`Bad pull request title: '${mergedPullRequest.title}'`);
@@ -735,7 +785,7 @@ export abstract class BaseStrategy implements Strategy {
    */
   protected initialReleaseVersion(): Version {
     if (this.initialVersion) {
-      return Version.parse(this.initialVersion);
+      return this.parseVersion(this.initialVersion);
     }
 
     return Version.parse('1.0.0');
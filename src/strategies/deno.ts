@@ -0,0 +1,92 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+// Generic
+import {Changelog} from '../updaters/changelog';
+
+// Deno
+import {DenoJson} from '../updaters/deno/deno-json';
+import {BaseStrategy, BuildUpdatesOptions} from './base';
+import {Update} from '../update';
+import {parseJsonc} from '../util/jsonc-edit';
+import {FileNotFoundError} from '../errors';
+
+/**
+ * Files that can declare the name and version of a Deno or JSR package,
+ * in order of precedence.
+ */
+export const DENO_CONFIG_FILES = ['deno.json', 'deno.jsonc', 'jsr.json'];
+
+/**
+ * Strategy for Deno packages published to JSR. Updates the version of
+ * `deno.json`, `deno.jsonc` and `jsr.json`, preserving comments.
+ */
+export class Deno extends BaseStrategy {
+  protected async buildUpdates(
+    options: BuildUpdatesOptions
+  ): Promise<Update[]> {
+    const updates: Update[] = [];
+    const version = options.newVersion;
+
+    !this.skipChangelog &&
+      updates.push({
+        path: this.addPath(this.changelogPath),
+        createIfMissing: true,
+        updater: new Changelog({
+          version,
+          changelogEntry: options.changelogEntry,
+        }),
+      });
+
+    DENO_CONFIG_FILES.forEach(configFile => {
+      updates.push({
+        path: this.addPath(configFile),
+        createIfMissing: false,
+        updater: new DenoJson({
+          version,
+          versionsMap: options.versionsMap,
+        }),
+      });
+    });
+
+    return updates;
+  }
+
+  async getDefaultPackageName(): Promise<string | undefined> {
+    for (const configFile of DENO_CONFIG_FILES) {
+      try {
+        const contents = await this.github.getFileContentsOnBranch(
+          this.addPath(configFile),
+          this.targetBranch
+        );
+        const config = parseJsonc(contents.parsedContent) as {name?: string};
+        if (config.name) {
+          return config.name;
+        }
+      } catch (e) {
+        if (!(e instanceof FileNotFoundError)) {
+          throw e;
+        }
+      }
+    }
+    return '';
+  }
+
+  protected normalizeComponent(component: string | undefined): string {
+    if (!component) {
+      return '';
+    }
+    return component.match(/^@[\w-]+\//) ? component.split('/')[1] : component;
+  }
+}
@@ -0,0 +1,161 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+// Generic
+import {Changelog} from '../updaters/changelog';
+
+// Docker
+import {Dockerfile} from '../updaters/docker/dockerfile';
+import {KustomizationYaml} from '../updaters/docker/kustomization-yaml';
+import {HelmValuesYaml} from '../updaters/docker/helm-values-yaml';
+import {BaseStrategy, BuildUpdatesOptions} from './base';
+import {Update} from '../update';
+import {FileNotFoundError} from '../errors';
+import {ROOT_PROJECT_PATH} from '../manifest';
+
+const TITLE_LABEL_REGEX =
+  /org\.opencontainers\.image\.title\s*=\s*(["']?)([^"'\s\\]+)\1/;
+const KUSTOMIZATION_FILES = ['kustomization.yaml', 'kustomization.yml'];
+const HELM_VALUES_FILES = ['values.yaml', 'values.yml'];
+
+/**
+ * Strategy for services released as a container image. Updates the
+ * version label and `VERSION` argument of the Dockerfile, and the tags of
+ * the image pinned in Kustomize `images` and Helm values. The image is
+ * matched by the package name. Files outside the package directory are
+ * only updated if the image name is configured, either as the package
+ * name or the image title label.
+ */
+export class Docker extends BaseStrategy {
+  protected async buildUpdates(
+    options: BuildUpdatesOptions
+  ): Promise<Update[]> {
+    const updates: Update[] = [];
+    const version = options.newVersion;
+    const configuredName = this.packageName ?? (await this.getImageTitle());
+    const imageName = configuredName ?? this.getDirectoryName() ?? '';
+    // the directory name alone would also match images of other
+    // projects, e.g. `api` matches `docker.io/someone/api`
+    const repositoryWide = configuredName !== undefined;
+
+    !this.skipChangelog &&
+      updates.push({
+        path: this.addPath(this.changelogPath),
+        createIfMissing: true,
+        updater: new Changelog({
+          version,
+          changelogEntry: options.changelogEntry,
+        }),
+      });
+
+    updates.push({
+      path: this.addPath('Dockerfile'),
+      createIfMissing: false,
+      updater: new Dockerfile({
+        version,
+      }),
+    });
+
+    if (!imageName) {
+      this.logger.warn('no image name found, skipping image tag updates');
+      return updates;
+    }
+    for (const filename of KUSTOMIZATION_FILES) {
+      const paths = await this.findImageFiles(filename, repositoryWide);
+      paths.forEach(path => {
+        updates.push({
+          path,
+          createIfMissing: false,
+          updater: new KustomizationYaml({
+            version,
+            imageName,
+          }),
+        });
+      });
+    }
+    for (const filename of HELM_VALUES_FILES) {
+      const paths = await this.findImageFiles(filename, repositoryWide);
+      paths.forEach(path => {
+        updates.push({
+          path,
+          createIfMissing: false,
+          updater: new HelmValuesYaml({
+            version,
+            imageName,
+          }),
+        });
+      });
+    }
+
+    return updates;
+  }
+
+  /**
+   * Find the files with the given name that may pin the image, limited to
+   * the package directory unless `repositoryWide` is set.
+   */
+  private async findImageFiles(
+    filename: string,
+    repositoryWide: boolean
+  ): Promise<string[]> {
+    const paths = await this.github.findFilesByFilenameAndRef(
+      filename,
+      this.targetBranch
+    );
+    if (repositoryWide || this.path === ROOT_PROJECT_PATH) {
+      return paths;
+    }
+    return paths.filter(path => {
+      if (path.startsWith(`${this.path}/`)) {
+        return true;
+      }
+      this.logger.info(
+        `skipping ${path} outside of ${this.path}, set package-name to update image tags in it`
+      );
+      return false;
+    });
+  }
+
+  /**
+   * The image name defaults to the `org.opencontainers.image.title` label
+   * of the Dockerfile, or else the name of the package directory.
+   */
+  async getDefaultPackageName(): Promise<string | undefined> {
+    return (await this.getImageTitle()) ?? this.getDirectoryName();
+  }
+
+  private async getImageTitle(): Promise<string | undefined> {
+    try {
+      const dockerfile = await this.github.getFileContentsOnBranch(
+        this.addPath('Dockerfile'),
+        this.targetBranch
+      );
+      const match = dockerfile.parsedContent.match(TITLE_LABEL_REGEX);
+      if (match) {
+        return match[2];
+      }
+    } catch (e) {
+      if (!(e instanceof FileNotFoundError)) {
+        throw e;
+      }
+    }
+    return undefined;
+  }
+
+  private getDirectoryName(): string | undefined {
+    return this.path === ROOT_PROJECT_PATH
+      ? this.repository.repo
+      : this.path.split('/').pop();
+  }
+}
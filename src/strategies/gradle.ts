@@ -0,0 +1,84 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {Java, JavaBuildUpdatesOption} from './java';
+import {Update, Updater} from '../update';
+import {VersionsMap} from '../version';
+import {JavaReleased} from '../updaters/java/java-released';
+import {Generic} from '../updaters/generic';
+import {GradleProperties} from '../updaters/gradle/gradle-properties';
+import {BuildGradle} from '../updaters/gradle/build-gradle';
+import {VersionCatalog} from '../updaters/gradle/version-catalog';
+
+/**
+ * Strategy for Gradle projects. It generates SNAPSHOT version after each
+ * release, and updates all found gradle.properties, build scripts and
+ * version catalogs automatically.
+ */
+export class Gradle extends Java {
+  protected async buildUpdates(
+    options: JavaBuildUpdatesOption
+  ): Promise<Update[]> {
+    const version = options.newVersion;
+    const versionsMap = options.versionsMap;
+
+    // Use generic Java updates
+    const updates: Update[] = await super.buildUpdates(options);
+
+    // Version catalog entries are keyed by the package name
+    const catalogVersions: VersionsMap = new Map(versionsMap);
+    const packageName = await this.getPackageName();
+    if (packageName) {
+      catalogVersions.set(packageName, version);
+    }
+
+    const updatersByFilename: Record<string, Updater> = {
+      'gradle.properties': new GradleProperties({version}),
+      'build.gradle.kts': new BuildGradle({version}),
+      'build.gradle': new BuildGradle({version}),
+      'libs.versions.toml': new VersionCatalog(catalogVersions),
+    };
+    for (const [filename, updater] of Object.entries(updatersByFilename)) {
+      const files = await this.github.findFilesByFilenameAndRef(
+        filename,
+        this.targetBranch,
+        this.path
+      );
+
+      files.forEach(path => {
+        updates.push({
+          path: this.addPath(path),
+          createIfMissing: false,
+          updater,
+        });
+
+        if (!options.isSnapshot) {
+          updates.push({
+            path: this.addPath(path),
+            createIfMissing: false,
+            updater: new JavaReleased({version, versionsMap}),
+          });
+        }
+
+        updates.push({
+          path: this.addPath(path),
+          createIfMissing: false,
+          updater: new Generic({version, versionsMap}),
+        });
+      });
+    }
+
+    return updates;
+  }
+}
@@ -17,7 +17,7 @@ import {Version} from '../version';
 import {BaseStrategy, BaseStrategyOptions, BuildUpdatesOptions} from './base';
 import {Changelog} from '../updaters/changelog';
 import {JavaSnapshot} from '../versioning-strategies/java-snapshot';
-import {ConventionalCommit} from '../commit';
+import {Commit, ConventionalCommit} from '../commit';
 import {Release} from '../release';
 import {ReleasePullRequest} from '../release-pull-request';
 import {PullRequestTitle} from '../util/pull-request-title';
@@ -78,7 +78,8 @@ export class Java extends BaseStrategy {
     latestRelease?: Release,
     draft?: boolean,
     labels: string[] = [],
-    _bumpOnlyOptions?: BumpReleaseOptions
+    _bumpOnlyOptions?: BumpReleaseOptions,
+    rawCommits?: Commit[]
   ): Promise<ReleasePullRequest | undefined> {
     if (await this.needsSnapshot(commits, latestRelease)) {
       this.logger.info('Repository needs a snapshot bump.');
@@ -93,7 +94,9 @@ export class Java extends BaseStrategy {
       commits,
       latestRelease,
       draft,
-      labels
+      labels,
+      undefined,
+      rawCommits
     );
   }
 
@@ -0,0 +1,124 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+// Generic
+import {Changelog} from '../updaters/changelog';
+
+// Swift
+import {SwiftVersion} from '../updaters/swift/swift-version';
+import {Podspec} from '../updaters/swift/podspec';
+import {
+  PackageSwift,
+  parsePackageSwiftName,
+} from '../updaters/swift/package-swift';
+import {BaseStrategy, BuildUpdatesOptions, BaseStrategyOptions} from './base';
+import {Update} from '../update';
+import {VersionsMap} from '../version';
+import {FileNotFoundError} from '../errors';
+
+/**
+ * Strategy for Swift packages and CocoaPods. Updates the version constant
+ * in a Swift source file, the version of all found `.podspec` files and
+ * the version pins to this package in sibling `Package.swift` manifests.
+ */
+export class Swift extends BaseStrategy {
+  readonly versionFile: string;
+  constructor(options: BaseStrategyOptions) {
+    super(options);
+    this.versionFile = options.versionFile ?? '';
+  }
+
+  protected async buildUpdates(
+    options: BuildUpdatesOptions
+  ): Promise<Update[]> {
+    const updates: Update[] = [];
+    const version = options.newVersion;
+    const packageName = (await this.getPackageName()) ?? '';
+
+    !this.skipChangelog &&
+      updates.push({
+        path: this.addPath(this.changelogPath),
+        createIfMissing: true,
+        updater: new Changelog({
+          version,
+          changelogEntry: options.changelogEntry,
+        }),
+      });
+
+    const versionFile: string = this.versionFile
+      ? this.versionFile
+      : packageName
+      ? `Sources/${packageName}/Version.swift`
+      : '';
+    if (versionFile) {
+      updates.push({
+        path: this.addPath(versionFile),
+        createIfMissing: false,
+        updater: new SwiftVersion({
+          version,
+        }),
+      });
+    }
+
+    const podspecs = await this.github.findFilesByExtensionAndRef(
+      'podspec',
+      this.targetBranch,
+      this.path
+    );
+    podspecs.forEach(path => {
+      updates.push({
+        path: this.addPath(path),
+        createIfMissing: false,
+        updater: new Podspec({
+          version,
+        }),
+      });
+    });
+
+    // Update the pins to this package in other packages of a monorepo
+    if (packageName) {
+      const versionsMap: VersionsMap = new Map([[packageName, version]]);
+      const manifests = await this.github.findFilesByFilenameAndRef(
+        'Package.swift',
+        this.targetBranch
+      );
+      manifests
+        .filter(path => path !== this.addPath('Package.swift'))
+        .forEach(path => {
+          updates.push({
+            path,
+            createIfMissing: false,
+            updater: new PackageSwift(versionsMap),
+          });
+        });
+    }
+
+    return updates;
+  }
+
+  async getDefaultPackageName(): Promise<string | undefined> {
+    try {
+      const manifest = await this.github.getFileContentsOnBranch(
+        this.addPath('Package.swift'),
+        this.targetBranch
+      );
+      return parsePackageSwiftName(manifest.parsedContent) ?? '';
+    } catch (e) {
+      if (e instanceof FileNotFoundError) {
+        return '';
+      }
+      throw e;
+    }
+  }
+}
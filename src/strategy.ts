@@ -47,6 +47,9 @@ export interface Strategy {
    * present, indicate a release should be created even if there are no
    * conventional commits. This is used when a release is required for
    * a dependency update with a workspace plugin.
+   * @param {Commit[]} rawCommits Optional. All commits of this path,
+   *   including those that are not conventional commits, for changelog
+   *   notes built from pull request data.
    * @returns {ReleasePullRequest | undefined} The release pull request to
    *   open for this path/component. Returns undefined if we should not
    *   open a pull request.
@@ -56,7 +59,8 @@ export interface Strategy {
     latestRelease?: Release,
     draft?: boolean,
     labels?: string[],
-    bumpOnlyOptions?: BumpReleaseOptions
+    bumpOnlyOptions?: BumpReleaseOptions,
+    rawCommits?: Commit[]
   ): Promise<ReleasePullRequest | undefined>;
 
   /**
@@ -0,0 +1,130 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {logger as defaultLogger, Logger} from '../../util/logger';
+import {JsoncPath, replaceJsoncStrings} from '../../util/jsonc-edit';
+import {Updater} from '../../update';
+import {Version, VersionsMap} from '../../version';
+import {DefaultUpdater} from '../default';
+import {newVersionWithRange} from '../node/package-json';
+
+const SPECIFIER_REGEX =
+  /^(?<protocol>jsr:|npm:)(?<slash>\/?)(?<name>(@[^/@]+\/)?[^/@]+)@(?<range>[^/]+)(?<rest>.*)$/;
+const VERSION_RANGE_REGEX = /^(\^|~|>=|<=|>|<)?\d/;
+
+/**
+ * Parses the package name and version range of a `jsr:` or `npm:`
+ * specifier, e.g. `jsr:@std/path@^1.0.0/posix`.
+ */
+export function parseSpecifier(
+  specifier: string
+): {name: string; range: string} | undefined {
+  const match = specifier.match(SPECIFIER_REGEX);
+  if (!match?.groups) {
+    return undefined;
+  }
+  return {name: match.groups.name, range: match.groups.range};
+}
+
+/**
+ * Returns the version range updated to the new version, preserving the
+ * range prefix, or undefined if the range does not pin a version.
+ */
+export function updatedRange(
+  range: string,
+  newVersion: Version
+): string | undefined {
+  if (!VERSION_RANGE_REGEX.test(range)) {
+    return undefined;
+  }
+  return newVersionWithRange(range, newVersion);
+}
+
+/**
+ * Returns the specifier with the version range of an updated package
+ * replaced, preserving the range prefix, or undefined if the specifier
+ * does not pin an updated package.
+ */
+export function updatedSpecifier(
+  specifier: string,
+  versionsMap: VersionsMap
+): string | undefined {
+  const match = specifier.match(SPECIFIER_REGEX);
+  if (!match?.groups) {
+    return undefined;
+  }
+  const {protocol, slash, name, range, rest} = match.groups;
+  const newVersion = versionsMap.get(name);
+  const newRange = newVersion ? updatedRange(range, newVersion) : undefined;
+  if (!newRange) {
+    return undefined;
+  }
+  return `${protocol}${slash}${name}@${newRange}${rest}`;
+}
+
+/**
+ * Returns true if the JSONC path points at an entry of the `imports` or
+ * `scopes` import maps.
+ */
+function isImportPath(path: JsoncPath): boolean {
+  return (
+    (path.length === 2 && path[0] === 'imports') ||
+    (path.length === 3 && path[0] === 'scopes')
+  );
+}
+
+/**
+ * Updates the version of a `deno.json`, `deno.jsonc` or `jsr.json` file
+ * and the `imports` of other workspace members, preserving comments.
+ */
+export class DenoJson extends DefaultUpdater {
+  /**
+   * Given initial file contents, return updated contents.
+   * @param {string} content The initial content
+   * @returns {string} The updated content
+   */
+  updateContent(content: string, logger: Logger = defaultLogger): string {
+    return replaceJsoncStrings(content, (path, value) => {
+      if (path.length === 1 && path[0] === 'version') {
+        logger.info(`updating from ${value} to ${this.version}`);
+        return this.version.toString();
+      }
+      if (this.versionsMap && isImportPath(path)) {
+        return updatedSpecifier(value, this.versionsMap);
+      }
+      return undefined;
+    });
+  }
+}
+
+/**
+ * Updates only the `imports` of a `deno.json` or `deno.jsonc` file, for
+ * workspace members that are not versioned themselves.
+ */
+export class DenoImports implements Updater {
+  private versionsMap: VersionsMap;
+  constructor(versionsMap: VersionsMap) {
+    this.versionsMap = versionsMap;
+  }
+  /**
+   * Given initial file contents, return updated contents.
+   * @param {string} content The initial content
+   * @returns {string} The updated content
+   */
+  updateContent(content: string): string {
+    return replaceJsoncStrings(content, (path, value) =>
+      isImportPath(path) ? updatedSpecifier(value, this.versionsMap) : undefined
+    );
+  }
+}
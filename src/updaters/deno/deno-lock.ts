@@ -0,0 +1,41 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {Updater} from '../../update';
+import {replaceJsoncStrings} from '../../util/jsonc-edit';
+import {VersionsMap} from '../../version';
+import {updatedSpecifier} from './deno-json';
+
+/**
+ * Updates the dependency specifiers of the workspace members recorded in
+ * a `deno.lock` file, so that they match the updated `imports`.
+ */
+export class DenoLock implements Updater {
+  private versionsMap: VersionsMap;
+  constructor(versionsMap: VersionsMap) {
+    this.versionsMap = versionsMap;
+  }
+  /**
+   * Given initial file contents, return updated contents.
+   * @param {string} content The initial content
+   * @returns {string} The updated content
+   */
+  updateContent(content: string): string {
+    return replaceJsoncStrings(content, (path, value) =>
+      path[0] === 'workspace'
+        ? updatedSpecifier(value, this.versionsMap)
+        : undefined
+    );
+  }
+}
@@ -0,0 +1,31 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {Version} from '../../version';
+
+/**
+ * Returns true if an image reference, e.g. `ghcr.io/acme/api`, names the
+ * image. The image can be given with or without its registry and
+ * namespace.
+ */
+export function matchesImage(reference: string, imageName: string): boolean {
+  return reference === imageName || reference.endsWith(`/${imageName}`);
+}
+
+/**
+ * Returns the new image tag, keeping a `v` prefix of the current tag.
+ */
+export function newImageTag(tag: string, version: Version): string {
+  return tag.startsWith('v') ? `v${version}` : version.toString();
+}
@@ -0,0 +1,45 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {DefaultUpdater} from '../default';
+import {logger as defaultLogger, Logger} from '../../util/logger';
+
+const LABEL_VERSION_REGEX =
+  /(org\.opencontainers\.image\.version\s*=\s*)(["']?)[^"'\s\\]*\2/g;
+const ARG_VERSION_REGEX = /^(\s*ARG\s+VERSION\s*=\s*)(["']?)[^"'\s]*\2/gm;
+
+/**
+ * Updates the `org.opencontainers.image.version` label and the default
+ * value of the `VERSION` build argument of a Dockerfile.
+ */
+export class Dockerfile extends DefaultUpdater {
+  /**
+   * Given initial file contents, return updated contents.
+   * @param {string} content The initial content
+   * @returns {string} The updated content
+   */
+  updateContent(content: string, logger: Logger = defaultLogger): string {
+    if (
+      content.search(LABEL_VERSION_REGEX) === -1 &&
+      content.search(ARG_VERSION_REGEX) === -1
+    ) {
+      logger.warn('no version label or VERSION argument found in Dockerfile');
+      return content;
+    }
+    const version = this.version.toString();
+    return content
+      .replace(LABEL_VERSION_REGEX, `$1$2${version}$2`)
+      .replace(ARG_VERSION_REGEX, `$1$2${version}$2`);
+  }
+}
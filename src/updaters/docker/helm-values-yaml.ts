@@ -0,0 +1,60 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as yaml from 'yaml';
+import {DefaultUpdater} from '../default';
+import {logger as defaultLogger, Logger} from '../../util/logger';
+import {replaceYamlScalars} from '../../util/yaml-edit';
+import {matchesImage, newImageTag} from './common';
+import {ImageUpdateOptions} from './kustomization-yaml';
+
+/**
+ * Updates the image tags of a Helm values.yaml file, e.g. `image.tag`,
+ * including those of subcharts, whose `repository` names the image. Empty
+ * tags are left alone, as charts default them to their `appVersion`.
+ */
+export class HelmValuesYaml extends DefaultUpdater {
+  readonly imageName: string;
+  constructor(options: ImageUpdateOptions) {
+    super(options);
+    this.imageName = options.imageName;
+  }
+  /**
+   * Given initial file contents, return updated contents.
+   * @param {string} content The initial content
+   * @returns {string} The updated content
+   */
+  updateContent(content: string, logger: Logger = defaultLogger): string {
+    const values = yaml.parseDocument(content);
+    const replacements: Array<[yaml.Scalar, string]> = [];
+    yaml.visit(values, {
+      Map: (_key, map) => {
+        const repository = map.get('repository');
+        const tag = map.get('tag', true);
+        if (
+          typeof repository !== 'string' ||
+          !matchesImage(repository, this.imageName) ||
+          !yaml.isScalar(tag) ||
+          !tag.value
+        ) {
+          return;
+        }
+        const newTag = newImageTag(String(tag.value), this.version);
+        logger.info(`updating image ${this.imageName} tag to ${newTag}`);
+        replacements.push([tag, newTag]);
+      },
+    });
+    return replaceYamlScalars(content, replacements);
+  }
+}
@@ -0,0 +1,67 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as yaml from 'yaml';
+import {DefaultUpdater, UpdateOptions} from '../default';
+import {logger as defaultLogger, Logger} from '../../util/logger';
+import {replaceYamlScalars} from '../../util/yaml-edit';
+import {matchesImage, newImageTag} from './common';
+
+export interface ImageUpdateOptions extends UpdateOptions {
+  imageName: string;
+}
+
+/**
+ * Updates the `newTag` of the `images` entries of a Kustomize
+ * kustomization.yaml file that name the image.
+ */
+export class KustomizationYaml extends DefaultUpdater {
+  readonly imageName: string;
+  constructor(options: ImageUpdateOptions) {
+    super(options);
+    this.imageName = options.imageName;
+  }
+  /**
+   * Given initial file contents, return updated contents.
+   * @param {string} content The initial content
+   * @returns {string} The updated content
+   */
+  updateContent(content: string, logger: Logger = defaultLogger): string {
+    const kustomization = yaml.parseDocument(content);
+    const images = kustomization.get('images');
+    if (!yaml.isSeq(images)) {
+      return content;
+    }
+    const replacements: Array<[yaml.Scalar, string]> = [];
+    for (const image of images.items) {
+      if (!yaml.isMap(image)) {
+        continue;
+      }
+      const names = [image.get('name'), image.get('newName')];
+      const tag = image.get('newTag', true);
+      if (
+        !names.some(
+          name => typeof name === 'string' && matchesImage(name, this.imageName)
+        ) ||
+        !yaml.isScalar(tag)
+      ) {
+        continue;
+      }
+      const newTag = newImageTag(String(tag.value), this.version);
+      logger.info(`updating image ${this.imageName} tag to ${newTag}`);
+      replacements.push([tag, newTag]);
+    }
+    return replaceYamlScalars(content, replacements);
+  }
+}
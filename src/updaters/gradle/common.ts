@@ -0,0 +1,109 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+export const PROPERTIES_VERSION_REGEX =
+  /^(\s*(?:version|VERSION_NAME)\s*[=:]\s*)([^\s#!]+)/m;
+export const BUILD_VERSION_REGEX =
+  /^(\s*(?:version|versionName)\s*=?\s*)(["'])([^"'\n]*)\2/m;
+const ROOT_PROJECT_NAME_REGEX = /^\s*rootProject\.name\s*=\s*["']([^"']+)["']/m;
+const INCLUDE_REGEX = /^\s*include\b\s*(?:\(([^)]*)\)|(.*))/gm;
+const PROJECT_DEPENDENCY_REGEX =
+  /\bproject\(\s*(?:path\s*[:=]\s*)?["']([^"']+)["']/g;
+const QUOTED_REGEX = /["']([^"']+)["']/g;
+const COMMENT_REGEX = /\/\*[\s\S]*?\*\/|^\s*\/\/.*$/gm;
+
+export const PROPERTIES_FILE = 'gradle.properties';
+export const BUILD_FILES = ['build.gradle.kts', 'build.gradle'];
+export const SETTINGS_FILES = ['settings.gradle.kts', 'settings.gradle'];
+
+/**
+ * Returns the `version` (or `VERSION_NAME`) property of a
+ * `gradle.properties` file.
+ * @param {string} content The contents of the properties file
+ * @returns {string | undefined} The version or undefined if not set
+ */
+export function parsePropertiesVersion(content: string): string | undefined {
+  return content.match(PROPERTIES_VERSION_REGEX)?.[2];
+}
+
+/**
+ * Returns the literal `version` (or Android `versionName`) assignment of a
+ * `build.gradle` or `build.gradle.kts` build script.
+ * @param {string} content The contents of the build script
+ * @returns {string | undefined} The version or undefined if not set
+ */
+export function parseBuildVersion(content: string): string | undefined {
+  return stripComments(content).match(BUILD_VERSION_REGEX)?.[3];
+}
+
+/**
+ * Returns the project paths (e.g. `:libs:core`) included by a
+ * `settings.gradle` or `settings.gradle.kts` file.
+ * @param {string} content The contents of the settings file
+ * @returns {string[]} The included project paths
+ */
+export function parseSettingsIncludes(content: string): string[] {
+  const projectPaths: string[] = [];
+  for (const match of stripComments(content).matchAll(INCLUDE_REGEX)) {
+    const args = match[1] ?? match[2];
+    for (const quoted of args.matchAll(QUOTED_REGEX)) {
+      projectPaths.push(normalizeProjectPath(quoted[1]));
+    }
+  }
+  return projectPaths;
+}
+
+/**
+ * Returns the `rootProject.name` assigned by a `settings.gradle` or
+ * `settings.gradle.kts` file.
+ * @param {string} content The contents of the settings file
+ * @returns {string | undefined} The root project name or undefined if not set
+ */
+export function parseRootProjectName(content: string): string | undefined {
+  return stripComments(content).match(ROOT_PROJECT_NAME_REGEX)?.[1];
+}
+
+/**
+ * Returns the project paths of the `project(":name")` dependencies
+ * declared in a build script.
+ * @param {string} content The contents of the build script
+ * @returns {string[]} The project paths this project depends on
+ */
+export function parseProjectDependencies(content: string): string[] {
+  const projectPaths = new Set<string>();
+  for (const match of stripComments(content).matchAll(
+    PROJECT_DEPENDENCY_REGEX
+  )) {
+    projectPaths.add(normalizeProjectPath(match[1]));
+  }
+  return Array.from(projectPaths);
+}
+
+/**
+ * Returns the default directory of a project path, e.g.
+ * `:libs:core` => `libs/core`.
+ * @param {string} projectPath The Gradle project path
+ * @returns {string} The directory relative to the root project
+ */
+export function projectDirectory(projectPath: string): string {
+  return normalizeProjectPath(projectPath).split(':').filter(Boolean).join('/');
+}
+
+function normalizeProjectPath(projectPath: string): string {
+  return projectPath.startsWith(':') ? projectPath : `:${projectPath}`;
+}
+
+function stripComments(content: string): string {
+  return content.replace(COMMENT_REGEX, '');
+}
@@ -0,0 +1,39 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {DefaultUpdater} from '../default';
+import {logger as defaultLogger, Logger} from '../../util/logger';
+import {PROPERTIES_VERSION_REGEX} from './common';
+
+/**
+ * Updates the `version` (or `VERSION_NAME`) property of a Gradle
+ * `gradle.properties` file.
+ */
+export class GradleProperties extends DefaultUpdater {
+  /**
+   * Given initial file contents, return updated contents.
+   * @param {string} content The initial content
+   * @returns {string} The updated content
+   */
+  updateContent(content: string, logger: Logger = defaultLogger): string {
+    if (!content.match(PROPERTIES_VERSION_REGEX)) {
+      logger.debug('no version property found in gradle.properties');
+      return content;
+    }
+    return content.replace(
+      PROPERTIES_VERSION_REGEX,
+      `$1${this.version.toString()}`
+    );
+  }
+}
@@ -0,0 +1,64 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as TOML from '@iarna/toml';
+import {logger as defaultLogger, Logger} from '../../util/logger';
+import {replaceTomlValue} from '../../util/toml-edit';
+import {Updater} from '../../update';
+import {VersionsMap} from '../../version';
+
+/**
+ * A subset of the contents of a Gradle version catalog
+ */
+interface VersionCatalogContent {
+  versions?: Record<string, unknown>;
+}
+
+/**
+ * Updates the `[versions]` table of a Gradle version catalog
+ * (`libs.versions.toml`), preserving formatting and comments. Entries
+ * are matched by key against the versions map.
+ */
+export class VersionCatalog implements Updater {
+  versionsMap: VersionsMap;
+  constructor(versionsMap: VersionsMap) {
+    this.versionsMap = versionsMap;
+  }
+  /**
+   * Given initial file contents, return updated contents.
+   * @param {string} content The initial content
+   * @returns {string} The updated content
+   */
+  updateContent(content: string, logger: Logger = defaultLogger): string {
+    const parsed = TOML.parse(content) as VersionCatalogContent;
+    if (!parsed.versions) {
+      return content;
+    }
+    let payload = content;
+    for (const [key, version] of this.versionsMap) {
+      if (typeof parsed.versions[key] !== 'string') {
+        continue;
+      }
+      logger.info(
+        `updating versions.${key} from ${parsed.versions[key]} to ${version}`
+      );
+      payload = replaceTomlValue(
+        payload,
+        ['versions', key],
+        version.toString()
+      );
+    }
+    return payload;
+  }
+}
@@ -14,12 +14,24 @@
 
 import * as yaml from 'yaml';
 import {logger as defaultLogger, Logger} from '../../util/logger';
-import {DefaultUpdater} from '../default';
+import {DefaultUpdater, UpdateOptions} from '../default';
+import {Version} from '../../version';
+import {newVersionWithRange} from '../node/package-json';
+
+interface ChartYamlOptions extends UpdateOptions {
+  appVersion?: Version;
+}
 
 /**
- * Updates a Helm chart.yaml file.
+ * Updates a Helm chart.yaml file. If a versions map is provided, the
+ * `version` ranges of matching `dependencies` are updated as well.
  */
 export class ChartYaml extends DefaultUpdater {
+  appVersion?: Version;
+  constructor(options: ChartYamlOptions) {
+    super(options);
+    this.appVersion = options.appVersion;
+  }
   /**
    * Given initial file contents, return updated contents.
    * @param {string} content The initial content
@@ -33,6 +45,49 @@ export class ChartYaml extends DefaultUpdater {
     const oldVersion = chart.get('version');
     logger.info(`updating from ${oldVersion} to ${this.version}`);
     chart.set('version', this.version.toString());
+    if (this.appVersion) {
+      logger.info(`updating appVersion to ${this.appVersion}`);
+      setScalar(chart, 'appVersion', this.appVersion.toString());
+    }
+    const dependencies = chart.get('dependencies');
+    if (this.versionsMap && yaml.isSeq(dependencies)) {
+      for (const dependency of dependencies.items) {
+        if (!yaml.isMap(dependency)) {
+          continue;
+        }
+        const name = dependency.get('name');
+        const oldVersion = dependency.get('version');
+        const newVersion =
+          typeof name === 'string' ? this.versionsMap.get(name) : undefined;
+        if (!newVersion || typeof oldVersion !== 'string') {
+          continue;
+        }
+        logger.info(
+          `updating dependency ${name} from ${oldVersion} to ${newVersion}`
+        );
+        setScalar(
+          dependency,
+          'version',
+          newVersionWithRange(oldVersion, newVersion)
+        );
+      }
+    }
     return chart.toString();
   }
 }
+
+/**
+ * Sets a scalar value, preserving the quoting style of an existing value.
+ */
+function setScalar(
+  node: yaml.Document | yaml.YAMLMap,
+  key: string,
+  value: string
+) {
+  const scalar = node.get(key, true);
+  if (yaml.isScalar(scalar)) {
+    scalar.value = value;
+  } else {
+    node.set(key, value);
+  }
+}
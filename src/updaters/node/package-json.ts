@@ -12,6 +12,7 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
+import {Updater} from '../../update';
 import {jsonStringify} from '../../util/json-stringify';
 import {logger as defaultLogger, Logger} from '../../util/logger';
 import {Version, VersionsMap} from '../../version';
@@ -56,24 +57,70 @@ export class PackageJson extends DefaultUpdater {
     // If additional dependency versions specified, then update dependency versions
     // while preserving any valid version range prefixes.
     if (this.versionsMap) {
-      if (parsed.dependencies) {
-        updateDependencies(parsed.dependencies, this.versionsMap);
-      }
-      if (parsed.devDependencies) {
-        updateDependencies(parsed.devDependencies, this.versionsMap);
-      }
-      if (parsed.peerDependencies && this.updatePeerDependencies) {
-        updateDependencies(parsed.peerDependencies, this.versionsMap);
-      }
-      if (parsed.optionalDependencies) {
-        updateDependencies(parsed.optionalDependencies, this.versionsMap);
-      }
+      updatePackageDependencies(
+        parsed,
+        this.versionsMap,
+        this.updatePeerDependencies
+      );
     }
 
     return jsonStringify(parsed, content);
   }
 }
 
+export interface PackageJsonDependenciesOptions {
+  versionsMap: VersionsMap;
+  updatePeerDependencies?: boolean;
+}
+
+/**
+ * This updates the dependency versions of a Node.js package.json file
+ * without touching its own version, e.g. for a workspace package that
+ * is not released by release-please.
+ */
+export class PackageJsonDependencies implements Updater {
+  private versionsMap: VersionsMap;
+  private updatePeerDependencies: boolean;
+
+  constructor(options: PackageJsonDependenciesOptions) {
+    this.versionsMap = options.versionsMap;
+    this.updatePeerDependencies = options.updatePeerDependencies || false;
+  }
+  /**
+   * Given initial file contents, return updated contents.
+   * @param {string} content The initial content
+   * @returns {string} The updated content
+   */
+  updateContent(content: string): string {
+    const parsed = JSON.parse(content) as PackageJsonDescriptor;
+    updatePackageDependencies(
+      parsed,
+      this.versionsMap,
+      this.updatePeerDependencies
+    );
+    return jsonStringify(parsed, content);
+  }
+}
+
+function updatePackageDependencies(
+  parsed: PackageJsonDescriptor,
+  versionsMap: VersionsMap,
+  updatePeerDependencies: boolean
+) {
+  if (parsed.dependencies) {
+    updateDependencies(parsed.dependencies, versionsMap);
+  }
+  if (parsed.devDependencies) {
+    updateDependencies(parsed.devDependencies, versionsMap);
+  }
+  if (parsed.peerDependencies && updatePeerDependencies) {
+    updateDependencies(parsed.peerDependencies, versionsMap);
+  }
+  if (parsed.optionalDependencies) {
+    updateDependencies(parsed.optionalDependencies, versionsMap);
+  }
+}
+
 enum SUPPORTED_RANGE_PREFIXES {
   CARET = '^',
   TILDE = '~',
@@ -106,6 +153,38 @@ export function newVersionWithRange(
   return newVersion.toString();
 }
 export const NPM_PROTOCOL_REGEXP = /^[a-z]+:/;
+const WORKSPACE_PROTOCOL = 'workspace:';
+const WORKSPACE_VERSION_REGEXP = /^(\^|~|>=|<=|>|<)?\d/;
+/**
+ * Helper to compute the new range of a dependency on an updated package.
+ * Protocol ranges (e.g. `file:../foo`) are left alone, as are the
+ * `workspace:*`, `workspace:^` and `workspace:~` shorthands, which the
+ * package manager replaces on publish. A `workspace:` range with an
+ * explicit version (e.g. `workspace:^1.2.3`) keeps its protocol and prefix.
+ * @param {string} oldRange The current dependency range
+ * @param {Version} newVersion The new version of the dependency
+ * @returns {string|undefined} The new range, or undefined if the range
+ *   should not be updated
+ */
+export function updatedDependencyRange(
+  oldRange: string,
+  newVersion: Version
+): string | undefined {
+  if (oldRange.startsWith(WORKSPACE_PROTOCOL)) {
+    const workspaceRange = oldRange.substring(WORKSPACE_PROTOCOL.length);
+    if (!WORKSPACE_VERSION_REGEXP.test(workspaceRange)) {
+      return undefined;
+    }
+    return `${WORKSPACE_PROTOCOL}${newVersionWithRange(
+      workspaceRange,
+      newVersion
+    )}`;
+  }
+  if (NPM_PROTOCOL_REGEXP.test(oldRange)) {
+    return undefined;
+  }
+  return newVersionWithRange(oldRange, newVersion);
+}
 /**
  * Helper function to update dependency versions for all new versions specified
  * in the updated versions map. Note that this mutates the existing input.
@@ -118,13 +197,13 @@ export function updateDependencies(
   updatedVersions: VersionsMap
 ) {
   for (const depName of Object.keys(dependencies)) {
-    const oldVersion = dependencies[depName];
-    if (NPM_PROTOCOL_REGEXP.test(oldVersion)) {
+    const newVersion = updatedVersions.get(depName);
+    if (!newVersion) {
       continue;
     }
-    const newVersion = updatedVersions.get(depName);
-    if (newVersion) {
-      dependencies[depName] = newVersionWithRange(oldVersion, newVersion);
+    const newRange = updatedDependencyRange(dependencies[depName], newVersion);
+    if (newRange) {
+      dependencies[depName] = newRange;
     }
   }
 }
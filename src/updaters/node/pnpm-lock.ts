@@ -0,0 +1,121 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as yaml from 'yaml';
+import {Updater} from '../../update';
+import {logger as defaultLogger, Logger} from '../../util/logger';
+import {replaceYamlScalars} from '../../util/yaml-edit';
+import {VersionsMap} from '../../version';
+import {updatedDependencyRange} from './package-json';
+
+const DEPENDENCY_SECTIONS = [
+  'dependencies',
+  'devDependencies',
+  'optionalDependencies',
+];
+
+/**
+ * Updates the specifiers of workspace dependencies in the importers of a
+ * pnpm-lock.yaml file, so that they match the updated package.json files.
+ */
+export class PnpmLock implements Updater {
+  private versionsMap: VersionsMap;
+  constructor(versionsMap: VersionsMap) {
+    this.versionsMap = versionsMap;
+  }
+  /**
+   * Given initial file contents, return updated contents.
+   * @param {string} content The initial content
+   * @returns {string} The updated content
+   */
+  updateContent(content: string, logger: Logger = defaultLogger): string {
+    const lock = yaml.parseDocument(content);
+    const importers = lock.get('importers');
+    if (!yaml.isMap(importers)) {
+      logger.warn('pnpm-lock.yaml has no importers, skipping');
+      return content;
+    }
+    const replacements: Array<[yaml.Scalar, string]> = [];
+    for (const importer of importers.items) {
+      if (!yaml.isMap(importer.value)) {
+        continue;
+      }
+      // lockfile v5 keeps the specifiers in a separate map
+      const specifiers = importer.value.get('specifiers');
+      for (const section of DEPENDENCY_SECTIONS) {
+        const dependencies = importer.value.get(section);
+        if (!yaml.isMap(dependencies)) {
+          continue;
+        }
+        for (const dependency of dependencies.items) {
+          if (!yaml.isScalar(dependency.key)) {
+            continue;
+          }
+          const name = String(dependency.key.value);
+          if (yaml.isMap(dependency.value)) {
+            if (isLink(dependency.value.get('version'))) {
+              this.updateSpecifier(
+                name,
+                dependency.value.get('specifier', true),
+                replacements,
+                logger
+              );
+            }
+          } else if (
+            yaml.isScalar(dependency.value) &&
+            isLink(dependency.value.value) &&
+            yaml.isMap(specifiers)
+          ) {
+            this.updateSpecifier(
+              name,
+              specifiers.get(name, true),
+              replacements,
+              logger
+            );
+          }
+        }
+      }
+    }
+    return replaceYamlScalars(content, replacements);
+  }
+
+  private updateSpecifier(
+    name: string,
+    specifier: unknown,
+    replacements: Array<[yaml.Scalar, string]>,
+    logger: Logger
+  ) {
+    if (!yaml.isScalar(specifier)) {
+      return;
+    }
+    const newVersion = this.versionsMap.get(name);
+    if (!newVersion || typeof specifier.value !== 'string') {
+      return;
+    }
+    const newRange = updatedDependencyRange(specifier.value, newVersion);
+    if (newRange && newRange !== specifier.value) {
+      logger.info(
+        `updating ${name} specifier from ${specifier.value} to ${newRange}`
+      );
+      replacements.push([specifier, newRange]);
+    }
+  }
+}
+
+/**
+ * Workspace dependencies are resolved to a link to the package directory.
+ */
+function isLink(version: unknown): boolean {
+  return typeof version === 'string' && version.startsWith('link:');
+}
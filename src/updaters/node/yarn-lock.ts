@@ -0,0 +1,154 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as yaml from 'yaml';
+import {Updater} from '../../update';
+import {logger as defaultLogger, Logger} from '../../util/logger';
+import {replaceYamlScalars} from '../../util/yaml-edit';
+import {Version, VersionsMap} from '../../version';
+import {updatedDependencyRange} from './package-json';
+
+const DEPENDENCY_SECTIONS = [
+  'dependencies',
+  'peerDependencies',
+  'optionalDependencies',
+];
+const NPM_PROTOCOL = 'npm:';
+
+/**
+ * Updates the workspace entries of a Yarn Berry yarn.lock file: the
+ * descriptors other packages use to depend on a workspace, and the
+ * dependency ranges of the workspace itself.
+ */
+export class YarnLock implements Updater {
+  private versionsMap: VersionsMap;
+  constructor(versionsMap: VersionsMap) {
+    this.versionsMap = versionsMap;
+  }
+  /**
+   * Given initial file contents, return updated contents.
+   * @param {string} content The initial content
+   * @returns {string} The updated content
+   */
+  updateContent(content: string, logger: Logger = defaultLogger): string {
+    const lock = yaml.parseDocument(content);
+    if (lock.errors.length > 0 || !yaml.isMap(lock.contents)) {
+      logger.warn('yarn.lock is not a Yarn Berry lockfile, skipping');
+      return content;
+    }
+    const workspaceEntries: Array<[yaml.Scalar, yaml.YAMLMap]> = [];
+    // only ranges resolved to a workspace are updated
+    const versionsMap: VersionsMap = new Map();
+    for (const entry of lock.contents.items) {
+      if (!yaml.isScalar(entry.key) || !yaml.isMap(entry.value)) {
+        continue;
+      }
+      const resolution: unknown = entry.value.get('resolution');
+      const [name, range] =
+        typeof resolution === 'string' ? splitDescriptor(resolution) : [];
+      if (!name || !range?.startsWith('workspace:')) {
+        continue;
+      }
+      workspaceEntries.push([entry.key, entry.value]);
+      const newVersion = this.versionsMap.get(name);
+      if (newVersion) {
+        versionsMap.set(name, newVersion);
+      }
+    }
+
+    const replacements: Array<[yaml.Scalar, string]> = [];
+    for (const [key, value] of workspaceEntries) {
+      const descriptors = String(key.value).split(/,\s*/);
+      const newDescriptors = Array.from(
+        new Set(
+          descriptors.map(descriptor =>
+            updatedDescriptor(descriptor, versionsMap)
+          )
+        )
+      ).sort();
+      const newKey = newDescriptors.join(', ');
+      if (newKey !== key.value) {
+        logger.info(`updating yarn.lock entry ${key.value} to ${newKey}`);
+        replacements.push([key, newKey]);
+      }
+
+      for (const section of DEPENDENCY_SECTIONS) {
+        const dependencies = value.get(section);
+        if (!yaml.isMap(dependencies)) {
+          continue;
+        }
+        for (const dependency of dependencies.items) {
+          if (
+            !yaml.isScalar(dependency.key) ||
+            !yaml.isScalar(dependency.value)
+          ) {
+            continue;
+          }
+          const newVersion = versionsMap.get(String(dependency.key.value));
+          const range = dependency.value.value;
+          if (!newVersion || typeof range !== 'string') {
+            continue;
+          }
+          const newRange = updatedYarnRange(range, newVersion);
+          if (newRange && newRange !== range) {
+            replacements.push([dependency.value, newRange]);
+          }
+        }
+      }
+    }
+    return replaceYamlScalars(content, replacements);
+  }
+}
+
+/**
+ * Splits a descriptor like `@scope/name@npm:^1.2.3` into its name and range.
+ */
+function splitDescriptor(descriptor: string): [string, string] | [] {
+  // the name of scoped packages starts with an @
+  const index = descriptor.indexOf('@', 1);
+  if (index === -1) {
+    return [];
+  }
+  return [descriptor.substring(0, index), descriptor.substring(index + 1)];
+}
+
+function updatedDescriptor(
+  descriptor: string,
+  versionsMap: VersionsMap
+): string {
+  const [name, range] = splitDescriptor(descriptor);
+  const newVersion = name ? versionsMap.get(name) : undefined;
+  if (!newVersion) {
+    return descriptor;
+  }
+  const newRange = updatedYarnRange(range!, newVersion);
+  return newRange ? `${name}@${newRange}` : descriptor;
+}
+
+/**
+ * Yarn Berry records semver ranges with an explicit npm: protocol.
+ */
+function updatedYarnRange(
+  range: string,
+  newVersion: Version
+): string | undefined {
+  if (range.startsWith(NPM_PROTOCOL)) {
+    const newRange = updatedDependencyRange(
+      range.substring(NPM_PROTOCOL.length),
+      newVersion
+    );
+    return newRange && `${NPM_PROTOCOL}${newRange}`;
+  }
+  return updatedDependencyRange(range, newVersion);
+}
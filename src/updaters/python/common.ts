@@ -0,0 +1,32 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {Pep440Version, Version} from '../../version';
+
+/**
+ * Pattern of the SemVer and PEP 440 versions found in Python files, e.g.
+ * `1.4.0`, `1.4.0-beta`, `1.4.0rc1`, `1.4.0.post2` or `1!2.0`.
+ */
+export const PYTHON_VERSION_PATTERN =
+  '(?:[0-9]+!)?[0-9]+(?:\\.[0-9]+)+(?:-\\w+|\\.?(?:a|b|rc|post|dev)[0-9]*)*(?:\\+[a-z0-9.]+)?';
+
+/**
+ * Returns the canonical PEP 440 string of a version, e.g. `1.4.0rc1` for
+ * `1.4.0-rc.1`. Versions without a PEP 440 equivalent are kept as is.
+ */
+export function pep440String(version: Version): string {
+  return (
+    Pep440Version.tryParse(version.toString())?.toString() ?? version.toString()
+  );
+}
@@ -16,6 +16,7 @@ import * as TOML from '@iarna/toml';
 import {logger as defaultLogger, Logger} from '../../util/logger';
 import {replaceTomlValue} from '../../util/toml-edit';
 import {DefaultUpdater} from '../default';
+import {pep440String} from './common';
 
 // TODO: remove support for `poetry.tool` when Poetry will use `project`.
 
@@ -69,7 +70,7 @@ export class PyProjectToml extends DefaultUpdater {
     return replaceTomlValue(
       content,
       (parsed.project ? ['project'] : ['tool', 'poetry']).concat('version'),
-      this.version.toString()
+      pep440String(this.version)
     );
   }
 }
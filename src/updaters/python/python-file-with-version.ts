@@ -13,6 +13,11 @@
 // limitations under the License.
 
 import {DefaultUpdater} from '../default';
+import {PYTHON_VERSION_PATTERN, pep440String} from './common';
+
+const PYTHON_FILE_VERSION_REGEX = new RegExp(
+  `(__version__ ?= ?["'])${PYTHON_VERSION_PATTERN}(["'])`
+);
 
 /**
  * Python file with a __version__ property (or attribute, or whatever).
@@ -25,8 +30,8 @@ export class PythonFileWithVersion extends DefaultUpdater {
    */
   updateContent(content: string): string {
     return content.replace(
-      /(__version__ ?= ?["'])[0-9]+\.[0-9]+\.[0-9]+(?:-\w+)?(["'])/,
-      `$1${this.version}$2`
+      PYTHON_FILE_VERSION_REGEX,
+      `$1${pep440String(this.version)}$2`
     );
   }
 }
@@ -13,6 +13,11 @@
 // limitations under the License.
 
 import {DefaultUpdater} from '../default';
+import {PYTHON_VERSION_PATTERN, pep440String} from './common';
+
+const SETUP_CFG_VERSION_REGEX = new RegExp(
+  `(version ?= ?)${PYTHON_VERSION_PATTERN}`
+);
 
 /**
  * Updates a setup.cfg file
@@ -25,8 +30,8 @@ export class SetupCfg extends DefaultUpdater {
    */
   updateContent(content: string): string {
     return content.replace(
-      /(version ?= ?)[0-9]+\.[0-9]+\.[0-9]+(?:-\w+)?/,
-      `$1${this.version}`
+      SETUP_CFG_VERSION_REGEX,
+      `$1${pep440String(this.version)}`
     );
   }
 }
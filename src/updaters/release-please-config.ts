@@ -18,6 +18,7 @@ import {
   ReleaserConfig,
   ManifestConfig,
   ReleaserPackageConfig,
+  PluginType,
 } from '../manifest';
 
 const SCHEMA_URL =
@@ -27,12 +28,27 @@ interface ManifestConfigFile extends ManifestConfig {
   $schema?: string;
 }
 
+interface ReleasePleaseConfigOptions {
+  // plugins to add unless a plugin of the same type is configured
+  plugins?: PluginType[];
+  // top-level options to set unless already configured
+  manifestConfig?: Partial<ManifestConfig>;
+}
+
 export class ReleasePleaseConfig implements Updater {
   path: string;
   config: ReleaserConfig;
-  constructor(path: string, config: ReleaserConfig) {
+  plugins: PluginType[];
+  manifestConfig: Partial<ManifestConfig>;
+  constructor(
+    path: string,
+    config: ReleaserConfig,
+    options: ReleasePleaseConfigOptions = {}
+  ) {
     this.path = path;
     this.config = config;
+    this.plugins = options.plugins ?? [];
+    this.manifestConfig = options.manifestConfig ?? {};
   }
   updateContent(content: string): string {
     let parsed: ManifestConfigFile;
@@ -43,6 +59,17 @@ export class ReleasePleaseConfig implements Updater {
     }
     parsed['$schema'] = parsed['$schema'] ?? SCHEMA_URL;
     parsed.packages[this.path] = releaserConfigToJsonConfig(this.config);
+    for (const [key, value] of Object.entries(this.manifestConfig)) {
+      if (!(key in parsed)) {
+        (parsed as unknown as Record<string, unknown>)[key] = value;
+      }
+    }
+    for (const plugin of this.plugins) {
+      const existing = (parsed.plugins ?? []).map(pluginType);
+      if (!existing.includes(pluginType(plugin))) {
+        parsed.plugins = [...(parsed.plugins ?? []), plugin];
+      }
+    }
     if (content) {
       return jsonStringify(parsed, content);
     } else {
@@ -51,6 +78,10 @@ export class ReleasePleaseConfig implements Updater {
   }
 }
 
+function pluginType(plugin: PluginType): string {
+  return typeof plugin === 'string' ? plugin : plugin.type;
+}
+
 function releaserConfigToJsonConfig(
   config: ReleaserConfig
 ): ReleaserPackageConfig {
@@ -61,7 +92,9 @@ function releaserConfigToJsonConfig(
     'release-type': config.releaseType,
     'bump-minor-pre-major': config.bumpMinorPreMajor,
     'bump-patch-for-minor-pre-major': config.bumpPatchForMinorPreMajor,
+    'bump-rules': config.bumpRules,
     'changelog-sections': config.changelogSections,
+    'changelog-label-sections': config.changelogLabelSections,
     'release-as': config.releaseAs,
     'skip-github-release': config.skipGithubRelease,
     'skip-changelog': config.skipChangelog,
@@ -82,6 +115,7 @@ function releaserConfigToJsonConfig(
     'tag-separator': config.tagSeparator,
     'extra-files': config.extraFiles,
     'version-file': config.versionFile,
+    'release-assets': config.releaseAssets,
     'snapshot-label': config.snapshotLabels?.join(','), // Java-only
     'date-format': config.dateFormat,
   };
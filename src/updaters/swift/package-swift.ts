@@ -0,0 +1,85 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {logger as defaultLogger, Logger} from '../../util/logger';
+import {Updater} from '../../update';
+import {VersionsMap} from '../../version';
+
+const PACKAGE_NAME_REGEX = /\bPackage\(\s*name:\s*"([^"]+)"/;
+const PACKAGE_DEPENDENCY_REGEX =
+  /\.package\(((?:[^()]|\((?:[^()]|\([^()]*\))*\))*)\)/g;
+const DEPENDENCY_NAME_REGEX = /\bname:\s*"([^"]+)"/;
+const DEPENDENCY_URL_REGEX = /\burl:\s*"([^"]+)"/;
+const DEPENDENCY_PIN_REGEX =
+  /((?:\bfrom|\bexact)\s*:\s*"|\.exact\(\s*")[^"]*(")/;
+
+/**
+ * Returns the package name declared by a `Package.swift` manifest.
+ * @param {string} content The contents of the manifest
+ * @returns {string | undefined} The package name or undefined if not found
+ */
+export function parsePackageSwiftName(content: string): string | undefined {
+  return content.match(PACKAGE_NAME_REGEX)?.[1];
+}
+
+/**
+ * Returns the identity of a package dependency declaration: its `name:`
+ * argument, or else the last path component of its `url:` argument.
+ */
+function dependencyIdentity(args: string): string | undefined {
+  const name = args.match(DEPENDENCY_NAME_REGEX)?.[1];
+  if (name) {
+    return name.toLowerCase();
+  }
+  const url = args.match(DEPENDENCY_URL_REGEX)?.[1];
+  return url
+    ?.replace(/\/+$/, '')
+    .split('/')
+    .pop()
+    ?.replace(/\.git$/, '')
+    .toLowerCase();
+}
+
+/**
+ * Updates the version pins (`from:`, `exact:`, `.exact()`,
+ * `.upToNextMajor(from:)`, ...) of `.package()` dependencies in a
+ * `Package.swift` manifest. Dependencies are matched by package identity
+ * against the versions map.
+ */
+export class PackageSwift implements Updater {
+  versionsMap: VersionsMap;
+  constructor(versionsMap: VersionsMap) {
+    this.versionsMap = versionsMap;
+  }
+  /**
+   * Given initial file contents, return updated contents.
+   * @param {string} content The initial content
+   * @returns {string} The updated content
+   */
+  updateContent(content: string, logger: Logger = defaultLogger): string {
+    const versionsByIdentity = new Map<string, string>();
+    for (const [name, version] of this.versionsMap) {
+      versionsByIdentity.set(name.toLowerCase(), version.toString());
+    }
+    return content.replace(PACKAGE_DEPENDENCY_REGEX, (dependency, args) => {
+      const identity = dependencyIdentity(args);
+      const version = identity ? versionsByIdentity.get(identity) : undefined;
+      if (!version || !dependency.match(DEPENDENCY_PIN_REGEX)) {
+        return dependency;
+      }
+      logger.info(`updating ${identity} dependency pin to ${version}`);
+      return dependency.replace(DEPENDENCY_PIN_REGEX, `$1${version}$2`);
+    });
+  }
+}
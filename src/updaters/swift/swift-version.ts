@@ -0,0 +1,41 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {DefaultUpdater} from '../default';
+import {logger as defaultLogger, Logger} from '../../util/logger';
+
+const VERSION_CONSTANT_REGEX =
+  /^(\s*(?:(?:public|internal|private|fileprivate|static)\s+)*(?:let|var)\s+\w*[vV]ersion\w*\s*(?::\s*String\s*)?=\s*")[^"]*(")/m;
+
+/**
+ * Updates a Swift source file which declares a version string constant,
+ * e.g. `public let version = "1.2.3"`.
+ */
+export class SwiftVersion extends DefaultUpdater {
+  /**
+   * Given initial file contents, return updated contents.
+   * @param {string} content The initial content
+   * @returns {string} The updated content
+   */
+  updateContent(content: string, logger: Logger = defaultLogger): string {
+    if (!content.match(VERSION_CONSTANT_REGEX)) {
+      logger.warn('no version constant found in Swift source');
+      return content;
+    }
+    return content.replace(
+      VERSION_CONSTANT_REGEX,
+      `$1${this.version.toString()}$2`
+    );
+  }
+}
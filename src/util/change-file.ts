@@ -0,0 +1,177 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as yaml from 'yaml';
+import {Commit, ConventionalCommit} from '../commit';
+import {ScmProvider} from '../scm-provider';
+import {ConfigurationError} from '../errors';
+
+const FRONT_MATTER_REGEX = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/;
+const BUMP_TYPES = ['major', 'minor', 'patch'];
+
+export type ChangeFileBump = 'major' | 'minor' | 'patch';
+
+/**
+ * A change file records the intent to release one or more components,
+ * e.g. `.release-please/changes/add-widgets.md`:
+ *
+ *   ---
+ *   component: api
+ *   bump: minor
+ *   ---
+ *   Add support for widgets.
+ */
+export interface ChangeFile {
+  // path of the change file in the repository
+  path: string;
+  // bump level by component (or package path) to release
+  bumps: Record<string, ChangeFileBump>;
+  // the changelog entry
+  notes: string;
+}
+
+/**
+ * Parse a change file. Besides `component` (a name or list of names) and
+ * `bump` keys, the front matter may map each component to its bump level
+ * like a changeset (`"api": minor`).
+ *
+ * @param {string} path The path of the change file
+ * @param {string} content The content of the change file
+ * @returns {ChangeFile|undefined} The change file, or undefined if the file
+ *   has no front matter (e.g. a README)
+ * @throws {Error} If the front matter is invalid
+ */
+export function parseChangeFile(
+  path: string,
+  content: string
+): ChangeFile | undefined {
+  const match = content.match(FRONT_MATTER_REGEX);
+  if (!match) {
+    return undefined;
+  }
+  const frontMatter = yaml.parse(match[1]) ?? {};
+  const notes = content.slice(match[0].length).trim();
+  if (typeof frontMatter !== 'object' || Array.isArray(frontMatter)) {
+    throw new Error(`Invalid front matter in change file ${path}`);
+  }
+
+  let entries: Array<[unknown, unknown]>;
+  if ('component' in frontMatter || 'bump' in frontMatter) {
+    entries = [frontMatter.component]
+      .flat()
+      .map(component => [component, frontMatter.bump]);
+  } else {
+    entries = Object.entries(frontMatter);
+  }
+  if (
+    entries.length === 0 ||
+    entries.some(([component]) => typeof component !== 'string' || !component)
+  ) {
+    throw new Error(`Change file ${path} must name a component`);
+  }
+  const bumps: Record<string, ChangeFileBump> = {};
+  for (const [component, bump] of entries) {
+    if (!BUMP_TYPES.includes(bump as string)) {
+      throw new Error(
+        `Change file ${path} has an invalid bump level: ${bump}, expected one of ${BUMP_TYPES.join(
+          ', '
+        )}`
+      );
+    }
+    bumps[component as string] = bump as ChangeFileBump;
+  }
+  if (!notes) {
+    throw new Error(`Change file ${path} is missing a description`);
+  }
+  return {
+    path,
+    bumps,
+    notes,
+  };
+}
+
+/**
+ * Fetch and parse all change files in a directory.
+ *
+ * @param {ScmProvider} github The SCM provider to read files from
+ * @param {string} changesPath The directory containing the change files
+ * @param {string} targetBranch The branch to read files from
+ * @returns {ChangeFile[]} The change files
+ * @throws {ConfigurationError} if a change file is invalid
+ */
+export async function fetchChangeFiles(
+  github: ScmProvider,
+  changesPath: string,
+  targetBranch: string
+): Promise<ChangeFile[]> {
+  const changeFiles: ChangeFile[] = [];
+  const paths = await github.findFilesByGlobAndRef(
+    `${changesPath.replace(/\/$/, '')}/*.md`,
+    targetBranch
+  );
+  for (const path of paths.sort()) {
+    const contents = await github.getFileContentsOnBranch(path, targetBranch);
+    let changeFile: ChangeFile | undefined;
+    try {
+      changeFile = parseChangeFile(path, contents.parsedContent);
+    } catch (e) {
+      throw new ConfigurationError(
+        (e as Error).message,
+        'core',
+        `${github.repository.owner}/${github.repository.repo}`
+      );
+    }
+    if (changeFile) {
+      changeFiles.push(changeFile);
+    }
+  }
+  return changeFiles;
+}
+
+/**
+ * Build the conventional commit releasing a component of a change file. A
+ * major bump is a breaking feature, a minor bump a feature and a patch
+ * bump a fix. The whole description is the changelog entry, with its
+ * following lines indented to continue the list item.
+ *
+ * @param {ChangeFile} changeFile The change file
+ * @param {ChangeFileBump} bump The bump level of the released component
+ * @param {Commit} commit Optional. The commit that added the change file,
+ *   used to link the changelog entry
+ * @returns {ConventionalCommit} The conventional commit
+ */
+export function buildChangeFileCommit(
+  changeFile: ChangeFile,
+  bump: ChangeFileBump,
+  commit?: Commit
+): ConventionalCommit {
+  const type = bump === 'patch' ? 'fix' : 'feat';
+  const breaking = bump === 'major';
+  const summary = changeFile.notes
+    .split(/\r?\n/)
+    .map((line, i) => (i > 0 && line.trim() ? `  ${line}` : line.trimEnd()))
+    .join('\n');
+  return {
+    sha: commit?.sha ?? '',
+    message: `${type}${breaking ? '!' : ''}: ${summary}`,
+    files: [changeFile.path],
+    pullRequest: commit?.pullRequest,
+    type,
+    scope: null,
+    bareMessage: summary,
+    notes: breaking ? [{title: 'BREAKING CHANGE', text: summary}] : [],
+    references: [],
+    breaking,
+  };
+}
@@ -0,0 +1,78 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {
+  GitHubFileContents,
+  DEFAULT_FILE_MODE,
+} from '@google-automations/git-file-utils';
+import {ChangeSet, ScmProvider} from '../scm-provider';
+import {Update} from '../update';
+import {FileNotFoundError} from '../errors';
+import {logger as defaultLogger, Logger} from './logger';
+import {DeleteFile} from '../updaters/delete-file';
+
+/**
+ * Given a set of proposed updates, fetch the current file contents
+ * from the provider and run each updater to build a changeset.
+ *
+ * @param {ScmProvider} scm The provider to read current file contents from
+ * @param {Update[]} updates The proposed updates
+ * @param {string} branch The branch to read current file contents from
+ * @param {Logger} logger Optional. Logger instance
+ * @returns {ChangeSet} The changeset to suggest.
+ */
+export async function buildChangeSet(
+  scm: Pick<ScmProvider, 'getFileContentsOnBranch'>,
+  updates: Update[],
+  branch: string,
+  logger: Logger = defaultLogger
+): Promise<ChangeSet> {
+  const changes = new Map();
+  for (const update of updates) {
+    let content: GitHubFileContents | undefined;
+    try {
+      content = await scm.getFileContentsOnBranch(update.path, branch);
+    } catch (err) {
+      if (!(err instanceof FileNotFoundError)) throw err;
+      // if the file is missing and create = false, just continue
+      // to the next update, otherwise create the file.
+      if (!update.createIfMissing) {
+        logger.warn(`file ${update.path} did not exist`);
+        continue;
+      }
+    }
+    if (update.updater instanceof DeleteFile) {
+      if (content) {
+        changes.set(update.path, {
+          content: null,
+          originalContent: content.parsedContent,
+          mode: content.mode,
+        });
+      }
+      continue;
+    }
+    const contentText = content
+      ? Buffer.from(content.content, 'base64').toString('utf8')
+      : undefined;
+    const updatedContent = update.updater.updateContent(contentText, logger);
+    if (updatedContent) {
+      changes.set(update.path, {
+        content: updatedContent,
+        originalContent: content?.parsedContent || null,
+        mode: content?.mode || DEFAULT_FILE_MODE,
+      });
+    }
+  }
+  return changes;
+}
@@ -0,0 +1,216 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {
+  Commit,
+  ConventionalCommit,
+  parseConventionalCommits,
+  splitCommitMessages,
+} from '../commit';
+import {ChangelogSection} from '../changelog-notes';
+import {DEFAULT_CHANGELOG_SECTIONS} from './filter-commits';
+import {Version} from '../version';
+import {logger as defaultLogger, Logger} from './logger';
+
+const RELEASE_AS_LINE_REGEX = /^\s*release[-_ ]?as\s*[:=]?\s*v?\d/im;
+
+export type CommitLintRule =
+  | 'conventional'
+  | 'type-enum'
+  | 'scope-enum'
+  | 'release-as';
+export type CommitLintSeverity = 'error' | 'warning' | 'off';
+export type CommitLintRules = Record<CommitLintRule, CommitLintSeverity>;
+
+export const DEFAULT_COMMIT_LINT_RULES: CommitLintRules = {
+  conventional: 'error',
+  'type-enum': 'error',
+  'scope-enum': 'warning',
+  'release-as': 'error',
+};
+
+export interface CommitLintOptions {
+  // allowed commit types besides those of the default changelog sections
+  changelogSections?: ChangelogSection[];
+  // allowed commit scopes, e.g. the components of the repository. Scopes
+  // are not checked if empty
+  scopes?: string[];
+  rules?: Partial<CommitLintRules>;
+  logger?: Logger;
+}
+
+export interface CommitLintProblem {
+  rule: CommitLintRule;
+  severity: Exclude<CommitLintSeverity, 'off'>;
+  sha: string;
+  // first line of the offending commit message
+  header: string;
+  message: string;
+}
+
+export interface CommitLintResult {
+  problems: CommitLintProblem[];
+  errorCount: number;
+  warningCount: number;
+}
+
+/**
+ * Parse a comma-separated list of `<rule>=<severity>` pairs, e.g.
+ * `scope-enum=error,type-enum=off`.
+ *
+ * @param {string} value The rules to parse
+ * @returns {Partial<CommitLintRules>} The configured rules
+ * @throws {Error} If a rule or severity is unknown
+ */
+export function parseCommitLintRules(value: string): Partial<CommitLintRules> {
+  const rules: Partial<CommitLintRules> = {};
+  for (const pair of value.split(',').filter(Boolean)) {
+    const [rule, severity] = pair.split('=').map(part => part.trim());
+    if (!(rule in DEFAULT_COMMIT_LINT_RULES)) {
+      throw new Error(`Unknown commit lint rule: ${rule}`);
+    }
+    if (!['error', 'warning', 'off'].includes(severity)) {
+      throw new Error(
+        `Unknown severity for commit lint rule ${rule}: ${severity}`
+      );
+    }
+    rules[rule as CommitLintRule] = severity as CommitLintSeverity;
+  }
+  return rules;
+}
+
+/**
+ * Run the conventional commit parser over the given commits and report
+ * the messages that would be dropped or misinterpreted when building a
+ * release.
+ *
+ * @param {Commit[]} commits The raw commits to lint
+ * @param {CommitLintOptions} options Allowed types and scopes and the
+ *   severity of each rule
+ * @returns {CommitLintResult} The problems found
+ */
+export function lintCommits(
+  commits: Commit[],
+  options: CommitLintOptions = {}
+): CommitLintResult {
+  const rules = {...DEFAULT_COMMIT_LINT_RULES, ...options.rules};
+  const logger = options.logger ?? defaultLogger;
+  const types = new Set(
+    [...DEFAULT_CHANGELOG_SECTIONS, ...(options.changelogSections ?? [])].map(
+      section => section.type
+    )
+  );
+  const scopes = new Set(options.scopes ?? []);
+  const problems: CommitLintProblem[] = [];
+  const report = (
+    rule: CommitLintRule,
+    sha: string,
+    header: string,
+    message: string
+  ) => {
+    const severity = rules[rule];
+    if (severity !== 'off') {
+      problems.push({rule, severity, sha, header, message});
+    }
+  };
+
+  for (const commit of commits) {
+    for (const message of splitCommitMessages(commit)) {
+      const header = message.trim().split(/\r?\n/)[0];
+      const parsedCommits = parseConventionalCommits(
+        [{sha: commit.sha, message, files: commit.files}],
+        logger,
+        (_commit, _message, error) =>
+          report(
+            'conventional',
+            commit.sha,
+            header,
+            `not a conventional commit: ${error.message}`
+          )
+      );
+      // footers that resemble commits are parsed before the header
+      const headerCommit = parsedCommits[parsedCommits.length - 1];
+      if (!headerCommit) {
+        continue;
+      }
+      lintHeaderCommit(headerCommit, message, types, scopes, report);
+    }
+  }
+
+  return {
+    problems,
+    errorCount: problems.filter(problem => problem.severity === 'error').length,
+    warningCount: problems.filter(problem => problem.severity === 'warning')
+      .length,
+  };
+}
+
+function lintHeaderCommit(
+  commit: ConventionalCommit,
+  message: string,
+  types: Set<string>,
+  scopes: Set<string>,
+  report: (
+    rule: CommitLintRule,
+    sha: string,
+    header: string,
+    message: string
+  ) => void
+) {
+  if (!types.has(commit.type)) {
+    report(
+      'type-enum',
+      commit.sha,
+      commit.message,
+      `unknown type "${commit.type}", expected one of: ${[...types].join(', ')}`
+    );
+  }
+
+  if (commit.scope && scopes.size > 0) {
+    for (const scope of commit.scope.split(',').map(scope => scope.trim())) {
+      if (!scopes.has(scope)) {
+        report(
+          'scope-enum',
+          commit.sha,
+          commit.message,
+          `scope "${scope}" does not match a known component`
+        );
+      }
+    }
+  }
+
+  const releaseAsNotes = commit.notes.filter(
+    note => note.title === 'RELEASE AS'
+  );
+  if (releaseAsNotes.length === 0 && RELEASE_AS_LINE_REGEX.test(message)) {
+    report(
+      'release-as',
+      commit.sha,
+      commit.message,
+      'malformed Release-As footer, expected "Release-As: <version>"'
+    );
+  }
+  for (const note of releaseAsNotes) {
+    try {
+      Version.parse(note.text.trim());
+    } catch (_err) {
+      report(
+        'release-as',
+        commit.sha,
+        commit.message,
+        `Release-As footer "${note.text}" is not a valid version`
+      );
+    }
+  }
+}
@@ -12,7 +12,8 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
-import {Commit} from '../commit';
+import {Minimatch} from 'minimatch';
+import {Commit, parseConventionalCommits} from '../commit';
 import {ROOT_PROJECT_PATH} from '../manifest';
 import {normalizePaths} from './commit-utils';
 
@@ -40,20 +41,31 @@ export interface CommitSplitOptions {
   // NOTE: GitHub API always returns paths using the `/` separator, regardless
   // of what platform the client code is running on
   packagePaths?: string[];
+  // route commits by conventional commit scope in addition to the touched
+  // files, mapping scopes or scope globs to package paths (e.g.
+  // {"api": "packages/api", "web-*": "packages/web"}). A commit with a
+  // routed scope is only assigned to the routed package paths.
+  scopeRouting?: Record<string, string>;
 }
 
 /**
  * Helper class for splitting commits by component path. If `packagePaths`
  * is configured, then only consider the provided paths. If `includeEmpty`
  * is configured, then commits without any touched files apply to all
- * configured component paths.
+ * configured component paths. If `scopeRouting` is configured, then commits
+ * with a routed scope apply only to the routed component paths.
  */
 export class CommitSplit {
   includeEmpty: boolean;
   packagePaths?: string[];
+  private scopeRoutes: [Minimatch, string][] = [];
+  private routesByCommit = new Map<Commit, string[] | undefined>();
   constructor(opts?: CommitSplitOptions) {
     opts = opts || {};
     this.includeEmpty = !!opts.includeEmpty;
+    for (const [scope, path] of Object.entries(opts.scopeRouting ?? {})) {
+      this.scopeRoutes.push([new Minimatch(scope), normalizePaths([path])[0]]);
+    }
     if (opts.packagePaths) {
       const paths: string[] = normalizePaths(opts.packagePaths);
       this.packagePaths = paths
@@ -78,6 +90,15 @@ export class CommitSplit {
   split<T extends Commit>(commits: T[]): Record<string, T[]> {
     const splitCommits: Record<string, T[]> = {};
     commits.forEach(commit => {
+      const routedPaths = this.routeByScope(commit);
+      if (routedPaths) {
+        for (const pkgName of routedPaths) {
+          if (pkgName === ROOT_PROJECT_PATH) continue;
+          if (!splitCommits[pkgName]) splitCommits[pkgName] = [];
+          splitCommits[pkgName].push(commit);
+        }
+        return;
+      }
       if (commit.files === undefined) {
         throw new Error(
           `Commit ${commit.sha} is missing files. Did you set "backfillFiles" to "true"?`
@@ -121,4 +142,31 @@ export class CommitSplit {
     });
     return splitCommits;
   }
+
+  /**
+   * Find the package paths a commit is routed to by the scopes of its
+   * conventional commit messages.
+   * @param {Commit} commit The commit to route
+   * @returns {string[]|undefined} The routed package paths, or undefined if
+   *   no scope is routed and the commit should be split by touched files
+   */
+  routeByScope(commit: Commit): string[] | undefined {
+    if (this.scopeRoutes.length === 0) {
+      return undefined;
+    }
+    if (!this.routesByCommit.has(commit)) {
+      const paths = new Set<string>();
+      for (const conventionalCommit of parseConventionalCommits([commit])) {
+        for (const scope of (conventionalCommit.scope ?? '').split(',')) {
+          for (const [matcher, path] of this.scopeRoutes) {
+            if (scope.trim() && matcher.match(scope.trim())) {
+              paths.add(path);
+            }
+          }
+        }
+      }
+      this.routesByCommit.set(commit, paths.size > 0 ? [...paths] : undefined);
+    }
+    return this.routesByCommit.get(commit);
+  }
 }
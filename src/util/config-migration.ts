@@ -0,0 +1,405 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as yaml from 'js-yaml';
+import {ChangelogSection} from '../changelog-notes';
+import {
+  ExtraFile,
+  ManifestConfig,
+  PluginType,
+  ReleaserConfig,
+} from '../manifest';
+import {BumpRule} from '../versioning-strategies/default';
+
+export type MigrationSource =
+  | 'semantic-release'
+  | 'changesets'
+  | 'standard-version';
+
+/**
+ * Files each tool reads its configuration from, in order of precedence.
+ * semantic-release may also be configured with a `release` key in
+ * `package.json`.
+ */
+export const MIGRATION_CONFIG_FILES: Record<MigrationSource, string[]> = {
+  changesets: ['.changeset/config.json'],
+  'semantic-release': [
+    '.releaserc',
+    '.releaserc.json',
+    '.releaserc.yaml',
+    '.releaserc.yml',
+    'release.config.js',
+    'release.config.cjs',
+  ],
+  'standard-version': ['.versionrc', '.versionrc.json', '.versionrc.js'],
+};
+
+export interface MigratedConfig {
+  // configuration shared by every migrated package
+  config: Partial<ReleaserConfig>;
+  // top-level manifest configuration
+  manifestConfig: Partial<ManifestConfig>;
+  plugins: PluginType[];
+  // names of packages that should not be released
+  ignoredPackages?: string[];
+  // settings that have no release-please equivalent
+  warnings: string[];
+}
+
+interface TagConfig {
+  component?: string;
+  tagSeparator?: string;
+  includeVInTag: boolean;
+  includeComponentInTag?: boolean;
+}
+
+type SemanticReleaseBranch =
+  | string
+  | {name: string; prerelease?: boolean | string; channel?: string};
+type SemanticReleasePlugin = string | [string, Record<string, unknown>?];
+interface SemanticReleaseRule {
+  type?: string;
+  scope?: string;
+  release?: string | false;
+}
+interface SemanticReleaseConfig {
+  branches?: SemanticReleaseBranch | SemanticReleaseBranch[];
+  tagFormat?: string;
+  plugins?: SemanticReleasePlugin[];
+}
+
+interface StandardVersionFile {
+  filename: string;
+  type?: string;
+  updater?: string;
+}
+interface StandardVersionConfig {
+  types?: ChangelogSection[];
+  tagPrefix?: string;
+  infile?: string;
+  bumpFiles?: (string | StandardVersionFile)[];
+  packageFiles?: (string | StandardVersionFile)[];
+  skip?: {changelog?: boolean; tag?: boolean};
+}
+
+interface ChangesetsConfig {
+  fixed?: string[][];
+  linked?: string[][];
+  ignore?: string[];
+  baseBranch?: string;
+}
+
+// files already updated by the node release type
+const NODE_PACKAGE_FILES = new Set([
+  'package.json',
+  'package-lock.json',
+  'npm-shrinkwrap.json',
+]);
+const GLOB_CHARACTERS = /[*?{}[\]!+@()]/;
+const VERSION_PLACEHOLDER = '${version}';
+
+/**
+ * Parse a migration source config file. JSON and YAML files are parsed
+ * directly. JavaScript files are never executed: they are only supported if
+ * they export a static object literal.
+ *
+ * @param {string} path The path of the config file
+ * @param {string} content The contents of the config file
+ * @returns {Record<string, unknown>} The parsed config
+ * @throws {Error} if the config cannot be read statically
+ */
+export function parseMigrationConfig(
+  path: string,
+  content: string
+): Record<string, unknown> {
+  if (/\.c?js$/.test(path)) {
+    const match = content.match(
+      /(?:module\.exports\s*=|export\s+default)\s*(?<literal>\{[\s\S]*\})\s*;?\s*$/
+    );
+    if (!match?.groups) {
+      throw new Error(
+        `Unable to read ${path} statically, convert it to a JSON config`
+      );
+    }
+    // an object literal is a YAML flow mapping once comments and trailing
+    // commas are removed
+    content = match.groups.literal
+      .replace(/^\s*\/\/.*$/gm, '')
+      .replace(/,(\s*[}\]])/g, '$1');
+  }
+  const parsed = yaml.load(content);
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`Expected ${path} to contain an object`);
+  }
+  return parsed as Record<string, unknown>;
+}
+
+/**
+ * Translate the text that precedes the version in a tag, e.g. `v` or
+ * `my-pkg@v`, into release-please tag options.
+ */
+export function parseTagPrefix(prefix: string): TagConfig {
+  const includeVInTag = prefix.endsWith('v');
+  const rest = includeVInTag ? prefix.slice(0, -1) : prefix;
+  if (!rest) {
+    return {includeVInTag, includeComponentInTag: false};
+  }
+  const separator = rest.slice(-1);
+  if (/[a-zA-Z0-9]/.test(separator) || rest.length === 1) {
+    throw new Error(`Unsupported tag prefix: ${prefix}`);
+  }
+  return {
+    includeVInTag,
+    component: rest.slice(0, -1),
+    tagSeparator: separator,
+  };
+}
+
+/**
+ * Translate a semantic-release configuration.
+ *
+ * @param {Record<string, unknown>} raw The parsed semantic-release config
+ * @returns {MigratedConfig} The equivalent release-please configuration
+ */
+export function migrateSemanticRelease(
+  raw: Record<string, unknown>
+): MigratedConfig {
+  const source = raw as SemanticReleaseConfig;
+  const warnings: string[] = [];
+  const tagFormat = source.tagFormat ?? `v${VERSION_PLACEHOLDER}`;
+  if (!tagFormat.endsWith(VERSION_PLACEHOLDER)) {
+    throw new Error(`Unsupported tagFormat: ${tagFormat}`);
+  }
+  const config: Partial<ReleaserConfig> = {
+    ...parseTagPrefix(tagFormat.slice(0, -VERSION_PLACEHOLDER.length)),
+  };
+
+  const channels: Record<string, string> = {};
+  const branches = source.branches
+    ? ([] as SemanticReleaseBranch[]).concat(source.branches)
+    : [];
+  for (const branch of branches) {
+    if (typeof branch === 'string' || !branch.prerelease) {
+      continue;
+    }
+    if (GLOB_CHARACTERS.test(branch.name)) {
+      warnings.push(
+        `Prerelease branch pattern ${branch.name} must be configured per branch`
+      );
+      continue;
+    }
+    channels[branch.name] =
+      branch.prerelease === true ? branch.name : branch.prerelease;
+  }
+
+  for (const plugin of source.plugins ?? []) {
+    const [name, options = {}] =
+      typeof plugin === 'string' ? [plugin, {}] : plugin;
+    switch (name) {
+      case '@semantic-release/commit-analyzer': {
+        const bumpRules = migrateReleaseRules(
+          (options.releaseRules ?? []) as SemanticReleaseRule[],
+          warnings
+        );
+        if (bumpRules.length > 0) {
+          config.bumpRules = bumpRules;
+        }
+        break;
+      }
+      case '@semantic-release/release-notes-generator': {
+        const presetConfig = options.presetConfig as
+          | {types?: ChangelogSection[]}
+          | undefined;
+        if (presetConfig?.types) {
+          config.changelogSections = migrateChangelogSections(
+            presetConfig.types
+          );
+        }
+        break;
+      }
+      case '@semantic-release/changelog':
+        if (options.changelogFile) {
+          config.changelogPath = options.changelogFile as string;
+        }
+        break;
+      case '@semantic-release/git': {
+        const assets = ([] as unknown[])
+          .concat(options.assets ?? [])
+          .map(asset =>
+            typeof asset === 'string' ? asset : (asset as {path: string}).path
+          )
+          .filter(
+            asset =>
+              asset !== (config.changelogPath ?? 'CHANGELOG.md') &&
+              !NODE_PACKAGE_FILES.has(asset)
+          );
+        const extraFiles = migrateExtraFiles(assets, warnings);
+        if (extraFiles.length > 0) {
+          config.extraFiles = extraFiles;
+        }
+        break;
+      }
+      case '@semantic-release/npm':
+      case '@semantic-release/github':
+        // covered by the node release type and GitHub releases
+        break;
+      default:
+        warnings.push(`Plugin ${name} has no release-please equivalent`);
+    }
+  }
+
+  return {
+    config,
+    manifestConfig: Object.keys(channels).length > 0 ? {channels} : {},
+    plugins: [],
+    warnings,
+  };
+}
+
+/**
+ * Translate a standard-version configuration.
+ *
+ * @param {Record<string, unknown>} raw The parsed standard-version config
+ * @returns {MigratedConfig} The equivalent release-please configuration
+ */
+export function migrateStandardVersion(
+  raw: Record<string, unknown>
+): MigratedConfig {
+  const source = raw as StandardVersionConfig;
+  const warnings: string[] = [];
+  const config: Partial<ReleaserConfig> = {
+    ...parseTagPrefix(source.tagPrefix ?? 'v'),
+  };
+  if (source.types) {
+    config.changelogSections = migrateChangelogSections(source.types);
+  }
+  if (source.infile) {
+    config.changelogPath = source.infile;
+  }
+  if (source.skip?.changelog) {
+    config.skipChangelog = true;
+  }
+  const files = [...(source.bumpFiles ?? []), ...(source.packageFiles ?? [])];
+  const extraFiles: ExtraFile[] = [];
+  const seen = new Set<string>();
+  for (const file of files) {
+    const {filename, type, updater}: StandardVersionFile =
+      typeof file === 'string' ? {filename: file} : file;
+    if (NODE_PACKAGE_FILES.has(filename) || seen.has(filename)) {
+      continue;
+    }
+    seen.add(filename);
+    if (updater) {
+      warnings.push(
+        `Custom updater for ${filename} must be replaced with an extra file`
+      );
+    } else if (type === 'plain-text') {
+      extraFiles.push(...migrateExtraFiles([filename], warnings));
+    } else {
+      extraFiles.push({type: 'json', path: filename, jsonpath: '$.version'});
+    }
+  }
+  if (extraFiles.length > 0) {
+    config.extraFiles = extraFiles;
+  }
+  return {config, manifestConfig: {}, plugins: [], warnings};
+}
+
+/**
+ * Translate a changesets configuration. Each package is tagged as
+ * `<name>@<version>` like changesets does, and pending changeset files are
+ * released as change files.
+ *
+ * @param {Record<string, unknown>} raw The parsed `.changeset/config.json`
+ * @returns {MigratedConfig} The equivalent release-please configuration
+ */
+export function migrateChangesets(
+  raw: Record<string, unknown>
+): MigratedConfig {
+  const source = raw as ChangesetsConfig;
+  const warnings: string[] = [];
+  const plugins: PluginType[] = (source.fixed ?? []).map((group, index) => ({
+    type: 'linked-versions',
+    groupName: `fixed-${index + 1}`,
+    components: group,
+  }));
+  if (source.linked && source.linked.length > 0) {
+    warnings.push(
+      'Linked packages must be released together with the linked-versions plugin'
+    );
+  }
+  if (source.baseBranch) {
+    warnings.push(
+      `Run release-please with --target-branch=${source.baseBranch}`
+    );
+  }
+  return {
+    config: {
+      includeVInTag: false,
+      tagSeparator: '@',
+    },
+    manifestConfig: {'changes-path': '.changeset'},
+    plugins,
+    ignoredPackages: source.ignore,
+    warnings,
+  };
+}
+
+function migrateChangelogSections(
+  types: ChangelogSection[]
+): ChangelogSection[] {
+  return types.map(({type, section, hidden}) => ({
+    type,
+    section: section ?? type,
+    ...(hidden ? {hidden} : {}),
+  }));
+}
+
+function migrateReleaseRules(
+  rules: SemanticReleaseRule[],
+  warnings: string[]
+): BumpRule[] {
+  const bumpRules: BumpRule[] = [];
+  for (const rule of rules) {
+    // like `release: false`, commits matching a `none` rule do not
+    // trigger a release
+    const bump = rule.release === false ? 'none' : rule.release;
+    if (
+      (!rule.type && !rule.scope) ||
+      !['major', 'minor', 'patch', 'none'].includes(bump as string)
+    ) {
+      warnings.push(`Release rule ${JSON.stringify(rule)} is not supported`);
+      continue;
+    }
+    bumpRules.push({
+      ...(rule.type ? {type: rule.type} : {}),
+      ...(rule.scope ? {scope: rule.scope} : {}),
+      bump: bump as BumpRule['bump'],
+    });
+  }
+  return bumpRules;
+}
+
+function migrateExtraFiles(paths: string[], warnings: string[]): ExtraFile[] {
+  if (paths.length > 0) {
+    warnings.push(
+      `Extra files must mark their version with x-release-please-version: ${paths.join(
+        ', '
+      )}`
+    );
+  }
+  return paths.map(path =>
+    GLOB_CHARACTERS.test(path) ? {type: 'generic', path, glob: true} : path
+  );
+}
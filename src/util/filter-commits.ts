@@ -17,7 +17,7 @@ import {ConventionalCommit} from '../commit';
 
 const BREAKING_CHANGE_NOTE = 'BREAKING CHANGE';
 
-const DEFAULT_CHANGELOG_SECTIONS = [
+export const DEFAULT_CHANGELOG_SECTIONS = [
   {type: 'feat', section: 'Features'},
   {type: 'fix', section: 'Bug Fixes'},
   {type: 'perf', section: 'Performance Improvements'},
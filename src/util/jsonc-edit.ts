@@ -0,0 +1,224 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+export type JsoncPath = (string | number)[];
+
+/**
+ * Callback for the string values of a JSONC document. Returns the new value
+ * of the string, or undefined to keep the current value.
+ */
+export type JsoncStringReplacer = (
+  path: JsoncPath,
+  value: string
+) => string | undefined;
+
+interface StringValue {
+  path: JsoncPath;
+  value: string;
+  start: number;
+  end: number;
+}
+
+const LITERAL_REGEX = /-?\d+(\.\d+)?([eE][+-]?\d+)?|true|false|null/y;
+
+/**
+ * A minimal parser for JSON with comments (as used by `deno.jsonc` and
+ * `tsconfig.json`), that also records the positions of all string values,
+ * allowing them to be replaced without touching comments or formatting.
+ */
+class JsoncParser {
+  private content: string;
+  private pos = 0;
+  readonly strings: StringValue[] = [];
+
+  constructor(content: string) {
+    this.content = content;
+  }
+
+  parse(): unknown {
+    const value = this.parseValue([]);
+    this.skipWhitespace();
+    if (this.pos < this.content.length) {
+      this.fail();
+    }
+    return value;
+  }
+
+  private parseValue(path: JsoncPath): unknown {
+    this.skipWhitespace();
+    switch (this.content[this.pos]) {
+      case '{':
+        return this.parseObject(path);
+      case '[':
+        return this.parseArray(path);
+      case '"': {
+        const start = this.pos;
+        const value = this.parseString();
+        this.strings.push({path, value, start, end: this.pos});
+        return value;
+      }
+      default: {
+        LITERAL_REGEX.lastIndex = this.pos;
+        const match = LITERAL_REGEX.exec(this.content);
+        if (!match) {
+          this.fail();
+        }
+        this.pos += match[0].length;
+        return JSON.parse(match[0]);
+      }
+    }
+  }
+
+  private parseObject(path: JsoncPath): Record<string, unknown> {
+    const object: Record<string, unknown> = {};
+    this.pos++;
+    for (;;) {
+      this.skipWhitespace();
+      if (this.content[this.pos] === '}') {
+        break;
+      }
+      if (this.content[this.pos] !== '"') {
+        this.fail();
+      }
+      const key = this.parseString();
+      this.skipWhitespace();
+      this.expect(':');
+      object[key] = this.parseValue([...path, key]);
+      if (!this.parseSeparator('}')) {
+        break;
+      }
+    }
+    this.pos++;
+    return object;
+  }
+
+  private parseArray(path: JsoncPath): unknown[] {
+    const array: unknown[] = [];
+    this.pos++;
+    for (;;) {
+      this.skipWhitespace();
+      if (this.content[this.pos] === ']') {
+        break;
+      }
+      array.push(this.parseValue([...path, array.length]));
+      if (!this.parseSeparator(']')) {
+        break;
+      }
+    }
+    this.pos++;
+    return array;
+  }
+
+  /**
+   * Consumes a comma, returning false if the collection ends instead.
+   */
+  private parseSeparator(close: string): boolean {
+    this.skipWhitespace();
+    if (this.content[this.pos] === ',') {
+      this.pos++;
+      return true;
+    }
+    if (this.content[this.pos] !== close) {
+      this.fail();
+    }
+    return false;
+  }
+
+  private parseString(): string {
+    const start = this.pos++;
+    while (this.content[this.pos] !== '"') {
+      if (this.pos >= this.content.length) {
+        this.fail();
+      }
+      this.pos += this.content[this.pos] === '\\' ? 2 : 1;
+    }
+    this.pos++;
+    return JSON.parse(this.content.substring(start, this.pos));
+  }
+
+  private skipWhitespace() {
+    for (;;) {
+      const char = this.content[this.pos];
+      if (char === ' ' || char === '\t' || char === '\n' || char === '\r') {
+        this.pos++;
+      } else if (this.content.startsWith('//', this.pos)) {
+        const end = this.content.indexOf('\n', this.pos);
+        this.pos = end === -1 ? this.content.length : end;
+      } else if (this.content.startsWith('/*', this.pos)) {
+        const end = this.content.indexOf('*/', this.pos + 2);
+        if (end === -1) {
+          this.fail();
+        }
+        this.pos = end + 2;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private expect(char: string) {
+    if (this.content[this.pos] !== char) {
+      this.fail();
+    }
+    this.pos++;
+  }
+
+  private fail(): never {
+    throw new SyntaxError(
+      `Unexpected ${
+        this.pos < this.content.length
+          ? `token ${this.content[this.pos]}`
+          : 'end of input'
+      } in JSONC at position ${this.pos}`
+    );
+  }
+}
+
+/**
+ * Parses a JSON with comments document. Comments and trailing commas are
+ * allowed.
+ *
+ * @param {string} content The JSONC document
+ * @throws {SyntaxError} if the document is not valid JSONC
+ */
+export function parseJsonc(content: string): unknown {
+  return new JsoncParser(content).parse();
+}
+
+/**
+ * Replaces string values of a JSONC document, preserving comments and
+ * formatting.
+ *
+ * @param {string} content The JSONC document
+ * @param {JsoncStringReplacer} replacer Returns the new value of a string
+ * @throws {SyntaxError} if the document is not valid JSONC
+ */
+export function replaceJsoncStrings(
+  content: string,
+  replacer: JsoncStringReplacer
+): string {
+  const parser = new JsoncParser(content);
+  parser.parse();
+  let updated = '';
+  let last = 0;
+  for (const {path, value, start, end} of parser.strings) {
+    const newValue = replacer(path, value);
+    if (newValue === undefined || newValue === value) {
+      continue;
+    }
+    updated += content.substring(last, start) + JSON.stringify(newValue);
+    last = end;
+  }
+  return updated + content.substring(last);
+}
@@ -38,9 +38,17 @@ export interface Logger {
 export class CheckpointLogger implements Logger {
   private includeDebug: boolean;
   private includeTrace: boolean;
-  constructor(includeDebug = false, includeTrace = false) {
+  private stderrOnly: boolean;
+  /**
+   * @param {boolean} includeDebug Whether to log debug messages
+   * @param {boolean} includeTrace Whether to log trace messages
+   * @param {boolean} stderrOnly Whether to log all messages to stderr,
+   *   leaving stdout for machine-readable output
+   */
+  constructor(includeDebug = false, includeTrace = false, stderrOnly = false) {
     this.includeDebug = includeDebug;
     this.includeTrace = includeTrace;
+    this.stderrOnly = stderrOnly;
   }
   error: LogFn = (...args: any[]) => {
     console.error(`${errorPrefix}`, ...args);
@@ -49,13 +57,18 @@ export class CheckpointLogger implements Logger {
     console.warn(`${warnPrefix}`, ...args);
   };
   info: LogFn = (...args: any[]) => {
-    console.info(`${infoPrefix}`, ...args);
+    if (this.stderrOnly) console.error(`${infoPrefix}`, ...args);
+    else console.info(`${infoPrefix}`, ...args);
   };
   debug: LogFn = (...args: any[]) => {
-    if (this.includeDebug) console.debug(`${debugPrefix}`, ...args);
+    if (!this.includeDebug) return;
+    if (this.stderrOnly) console.error(`${debugPrefix}`, ...args);
+    else console.debug(`${debugPrefix}`, ...args);
   };
   trace: LogFn = (...args: any[]) => {
-    if (this.includeTrace) console.debug(`${tracePrefix}`, ...args);
+    if (!this.includeTrace) return;
+    if (this.stderrOnly) console.error(`${tracePrefix}`, ...args);
+    else console.debug(`${tracePrefix}`, ...args);
   };
 }
 /* eslint-enable @typescript-eslint/no-explicit-any */
@@ -0,0 +1,322 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as dom from '@xmldom/xmldom';
+import * as xpath from 'xpath';
+import * as yaml from 'js-yaml';
+import {posix} from 'path';
+import {ScmProvider} from '../scm-provider';
+import {PluginType, ROOT_PROJECT_PATH} from '../manifest';
+import {Version} from '../version';
+import {TagName} from './tag-name';
+import {logger as defaultLogger, Logger} from './logger';
+import {parseCargoManifest} from '../updaters/rust/common';
+import {parsePyProject} from '../updaters/python/pyproject-toml';
+import {parseJsonc} from './jsonc-edit';
+
+export interface DiscoveredPackage {
+  path: string;
+  releaseType: string;
+  packageName?: string;
+  version?: Version;
+  // the file the package was detected from
+  packageFile: string;
+}
+
+interface PackageMetadata {
+  name?: string;
+  version?: string;
+}
+
+interface PackageDetector {
+  filename: string;
+  releaseType: string;
+  // returns undefined if the file does not describe a releasable package,
+  // e.g. a workspace root
+  parse(content: string): PackageMetadata | undefined;
+}
+
+const XPATH_PROJECT_ARTIFACT =
+  '/*[local-name()="project"]/*[local-name()="artifactId"]';
+const XPATH_PROJECT_VERSION =
+  '/*[local-name()="project"]/*[local-name()="version"]';
+
+/**
+ * Detectors in order of precedence. If a directory contains several package
+ * files, the first detector that matches decides the release type. Node is
+ * last as a package.json is often present only for tooling.
+ */
+const PACKAGE_DETECTORS: PackageDetector[] = [
+  {
+    filename: 'Cargo.toml',
+    releaseType: 'rust',
+    parse: content => {
+      const manifest = parseCargoManifest(content);
+      if (!manifest.package) {
+        return undefined;
+      }
+      return {
+        name: manifest.package.name,
+        version:
+          typeof manifest.package.version === 'string'
+            ? manifest.package.version
+            : undefined,
+      };
+    },
+  },
+  {
+    filename: 'pyproject.toml',
+    releaseType: 'python',
+    parse: content => {
+      const pyProject = parsePyProject(content);
+      const project = pyProject.project ?? pyProject.tool?.poetry;
+      if (!project) {
+        return undefined;
+      }
+      return {name: project.name, version: project.version};
+    },
+  },
+  {
+    filename: 'pom.xml',
+    releaseType: 'maven',
+    parse: content => {
+      const document = new dom.DOMParser().parseFromString(content);
+      const artifactNodes = xpath.select(
+        XPATH_PROJECT_ARTIFACT,
+        document
+      ) as Node[];
+      const versionNodes = xpath.select(
+        XPATH_PROJECT_VERSION,
+        document
+      ) as Node[];
+      return {
+        name: artifactNodes[0]?.textContent ?? undefined,
+        version: versionNodes[0]?.textContent ?? undefined,
+      };
+    },
+  },
+  {
+    filename: 'go.mod',
+    releaseType: 'go',
+    // Go modules are versioned by tag only
+    parse: () => ({}),
+  },
+  {
+    filename: 'Chart.yaml',
+    releaseType: 'helm',
+    parse: content => {
+      const chart = yaml.load(content) as PackageMetadata;
+      return {name: chart?.name, version: chart?.version};
+    },
+  },
+  {
+    filename: 'pubspec.yaml',
+    releaseType: 'dart',
+    parse: content => {
+      const pubspec = yaml.load(content) as PackageMetadata;
+      return {name: pubspec?.name, version: pubspec?.version};
+    },
+  },
+  {
+    filename: 'mix.exs',
+    releaseType: 'elixir',
+    parse: content => ({
+      version: content.match(/version: "(?<version>[^"]+)"/)?.groups?.version,
+    }),
+  },
+  {
+    filename: 'deno.json',
+    releaseType: 'deno',
+    parse: content => {
+      const config = parseJsonc(content) as PackageMetadata & {
+        workspace?: string[];
+      };
+      if (config.workspace && !config.version) {
+        return undefined;
+      }
+      return {name: config.name, version: config.version};
+    },
+  },
+  {
+    filename: 'package.json',
+    releaseType: 'node',
+    parse: content => {
+      const pkg = JSON.parse(content) as PackageMetadata & {
+        private?: boolean;
+        workspaces?: unknown;
+      };
+      // workspace roots and private packages without a version are not
+      // released themselves
+      if ((pkg.workspaces || pkg.private) && !pkg.version) {
+        return undefined;
+      }
+      return {name: pkg.name, version: pkg.version};
+    },
+  },
+];
+
+const IGNORED_DIRECTORIES = new Set([
+  'node_modules',
+  'vendor',
+  'third_party',
+  'testdata',
+]);
+
+const WORKSPACE_PLUGINS: Record<string, string> = {
+  node: 'node-workspace',
+  rust: 'cargo-workspace',
+  maven: 'maven-workspace',
+  helm: 'helm-workspace',
+  deno: 'deno-workspace',
+};
+
+/**
+ * Scan the repository for known package files and infer a release type for
+ * each directory that contains one.
+ *
+ * @param {ScmProvider} github The repository to scan
+ * @param {string} targetBranch The branch to scan
+ * @param {Logger} logger The logger
+ * @returns {DiscoveredPackage[]} Discovered packages sorted by path
+ */
+export async function discoverPackages(
+  github: ScmProvider,
+  targetBranch: string,
+  logger: Logger = defaultLogger
+): Promise<DiscoveredPackage[]> {
+  const packagesByPath = new Map<string, DiscoveredPackage>();
+  for (const detector of PACKAGE_DETECTORS) {
+    const files = await github.findFilesByFilenameAndRef(
+      detector.filename,
+      targetBranch
+    );
+    for (const file of files.sort()) {
+      const path = posix.dirname(file);
+      if (
+        packagesByPath.has(path) ||
+        path.split('/').some(segment => IGNORED_DIRECTORIES.has(segment))
+      ) {
+        continue;
+      }
+      const contents = await github.getFileContentsOnBranch(file, targetBranch);
+      let metadata: PackageMetadata | undefined;
+      try {
+        metadata = detector.parse(contents.parsedContent);
+      } catch (e) {
+        logger.warn(`Unable to parse ${file}, skipping: ${e}`);
+        continue;
+      }
+      if (!metadata) {
+        logger.debug(`${file} does not describe a releasable package`);
+        continue;
+      }
+      logger.info(`Found ${detector.releaseType} package at ${path}`);
+      packagesByPath.set(path, {
+        path,
+        releaseType: detector.releaseType,
+        packageName: metadata.name,
+        version: parseVersion(metadata.version),
+        packageFile: file,
+      });
+    }
+  }
+  const packages = Array.from(packagesByPath.values()).sort((a, b) =>
+    a.path.localeCompare(b.path)
+  );
+  const missingVersions = packages.filter(pkg => !pkg.version);
+  if (missingVersions.length > 0) {
+    await seedVersionsFromTags(github, missingVersions);
+  }
+  return packages;
+}
+
+/**
+ * Find the latest tagged version of each component in the repository.
+ * Tags without a component are keyed by the empty string.
+ *
+ * @param {ScmProvider} github The repository to scan
+ * @returns {Map<string, Version>} component => latest version
+ */
+export async function findLatestTaggedVersions(
+  github: ScmProvider
+): Promise<Map<string, Version>> {
+  const latestByComponent = new Map<string, Version>();
+  for await (const tag of github.tagIterator()) {
+    const tagName = TagName.parse(tag.name);
+    if (!tagName) {
+      continue;
+    }
+    const component = tagName.component ?? '';
+    const latest = latestByComponent.get(component);
+    if (!latest || tagName.version.compare(latest) > 0) {
+      latestByComponent.set(component, tagName.version);
+    }
+  }
+  return latestByComponent;
+}
+
+/**
+ * Fill in the version of packages whose package file does not declare one
+ * from the latest existing tag for their component.
+ */
+async function seedVersionsFromTags(
+  github: ScmProvider,
+  packages: DiscoveredPackage[]
+) {
+  const latestByComponent = await findLatestTaggedVersions(github);
+  for (const pkg of packages) {
+    const candidates =
+      pkg.path === ROOT_PROJECT_PATH
+        ? ['']
+        : [pkg.packageName, posix.basename(pkg.path)];
+    for (const candidate of candidates) {
+      const version =
+        candidate !== undefined ? latestByComponent.get(candidate) : undefined;
+      if (version) {
+        pkg.version = version;
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * Suggest workspace plugins for release types that have more than one
+ * discovered package.
+ *
+ * @param {DiscoveredPackage[]} packages Discovered packages
+ * @returns {PluginType[]} Suggested plugins
+ */
+export function suggestWorkspacePlugins(
+  packages: DiscoveredPackage[]
+): PluginType[] {
+  const counts: Record<string, number> = {};
+  for (const pkg of packages) {
+    counts[pkg.releaseType] = (counts[pkg.releaseType] ?? 0) + 1;
+  }
+  return Object.keys(WORKSPACE_PLUGINS)
+    .filter(releaseType => (counts[releaseType] ?? 0) > 1)
+    .map(releaseType => WORKSPACE_PLUGINS[releaseType]);
+}
+
+function parseVersion(version?: string): Version | undefined {
+  if (!version) {
+    return undefined;
+  }
+  try {
+    return Version.parse(version);
+  } catch {
+    return undefined;
+  }
+}
@@ -14,7 +14,9 @@
 
 import {logger as defaultLogger, Logger} from './logger';
 import {parse} from 'node-html-parser';
-import {Version} from '../version';
+import {ParseVersionOptions, Version, parseVersion} from '../version';
+import {ConventionalCommit} from '../commit';
+import * as Handlebars from 'handlebars';
 
 const DEFAULT_HEADER = ':robot: I have created a release *beep* *boop*';
 const DEFAULT_FOOTER =
@@ -26,6 +28,7 @@ interface PullRequestBodyOptions {
   footer?: string;
   extra?: string;
   useComponents?: boolean;
+  template?: string;
 }
 
 export class PullRequestBody {
@@ -34,26 +37,29 @@ export class PullRequestBody {
   extra?: string;
   releaseData: ReleaseData[];
   useComponents: boolean;
+  template?: string;
   constructor(releaseData: ReleaseData[], options?: PullRequestBodyOptions) {
     this.header = options?.header || DEFAULT_HEADER;
     this.footer = options?.footer || DEFAULT_FOOTER;
     this.extra = options?.extra;
     this.releaseData = releaseData;
     this.useComponents = options?.useComponents ?? this.releaseData.length > 1;
+    this.template = options?.template;
   }
   static parse(
     body: string,
-    logger: Logger = defaultLogger
+    logger: Logger = defaultLogger,
+    options: ParseVersionOptions = {}
   ): PullRequestBody | undefined {
     const parts = splitBody(body);
     if (!parts) {
       logger.error('Pull request body did not match');
       return undefined;
     }
-    let data = extractMultipleReleases(parts.content, logger);
+    let data = extractMultipleReleases(parts.content, logger, options);
     let useComponents = true;
     if (data.length === 0) {
-      data = extractSingleRelease(parts.content, logger);
+      data = extractSingleRelease(parts.content, logger, options);
       useComponents = false;
       if (data.length === 0) {
         logger.warn('Failed to parse releases.');
@@ -80,6 +86,9 @@ export class PullRequestBody {
     return this.releaseData.map(release => release.notes).join('\n\n');
   }
   toString(): string {
+    if (this.template) {
+      return this.renderTemplate(this.template);
+    }
     const notes = this.notes();
     return `${this.header}
 ${NOTES_DELIMITER}
@@ -90,6 +99,96 @@ ${notes}
 ${NOTES_DELIMITER}${this.extra ? `\n\n${this.extra}\n` : ''}
 ${this.footer}`;
   }
+
+  /**
+   * Renders the pull request body with a user-supplied Handlebars template.
+   * The `notes` variable holds the release notes in the same layout as the
+   * default body so the rendered output can still be parsed.
+   */
+  private renderTemplate(template: string): string {
+    const render = Handlebars.compile(template, {noEscape: true});
+    return render({
+      header: this.header,
+      footer: this.footer,
+      extra: this.extra,
+      delimiter: NOTES_DELIMITER,
+      notes: this.notes(),
+      releases: this.releaseData.map(buildTemplateRelease),
+    });
+  }
+}
+
+interface TemplateSection {
+  title: string;
+  entries: string[];
+}
+
+interface TemplateCommit {
+  sha: string;
+  type: string;
+  scope: string | null;
+  subject: string;
+  breaking: boolean;
+  pullRequest?: number;
+}
+
+interface TemplateRelease {
+  component?: string;
+  version?: string;
+  previousVersion?: string;
+  notes: string;
+  sections: TemplateSection[];
+  commits: TemplateCommit[];
+  issues: string[];
+}
+
+function buildTemplateRelease(release: ReleaseData): TemplateRelease {
+  const commits = release.commits ?? [];
+  const issues = new Set<string>();
+  for (const commit of commits) {
+    for (const reference of commit.references) {
+      // only link issues in this repository
+      if (!reference.owner && !reference.repository) {
+        issues.add(reference.issue);
+      }
+    }
+  }
+  return {
+    component: release.component,
+    version: release.version?.toString(),
+    previousVersion: release.previousVersion?.toString(),
+    notes: release.notes,
+    sections: extractSections(release.notes),
+    commits: commits.map(commit => ({
+      sha: commit.sha,
+      type: commit.type,
+      scope: commit.scope,
+      subject: commit.bareMessage,
+      breaking: commit.breaking,
+      pullRequest: commit.pullRequest?.number,
+    })),
+    issues: Array.from(issues),
+  };
+}
+
+const SECTION_PATTERN = /^#{3,} (?<title>.+)$/;
+const ENTRY_PATTERN = /^[*-] (?<entry>.+)$/;
+function extractSections(notes: string): TemplateSection[] {
+  const sections: TemplateSection[] = [];
+  let current: TemplateSection | undefined;
+  for (const line of notes.split('\n')) {
+    const sectionMatch = line.match(SECTION_PATTERN);
+    if (sectionMatch?.groups) {
+      current = {title: sectionMatch.groups.title.trim(), entries: []};
+      sections.push(current);
+      continue;
+    }
+    const entryMatch = line.match(ENTRY_PATTERN);
+    if (current && entryMatch?.groups) {
+      current.entries.push(entryMatch.groups.entry);
+    }
+  }
+  return sections;
 }
 
 function splitBody(
@@ -116,28 +215,44 @@ function splitBody(
 
 const SUMMARY_PATTERN = /^(?<component>.*[^:]):? (?<version>\d+\.\d+\.\d+.*)$/;
 const COMPONENTLESS_SUMMARY_PATTERN = /^(?<version>\d+\.\d+\.\d+.*)$/;
+// calendar versions may have two segments, e.g. `24.07`
+const CALENDAR_SUMMARY_PATTERN =
+  /^(?<component>.*[^:]):? (?<version>\d+\.\d+.*)$/;
+const CALENDAR_COMPONENTLESS_SUMMARY_PATTERN = /^(?<version>\d+\.\d+.*)$/;
 export interface ReleaseData {
   component?: string;
   version?: Version;
   notes: string;
+  previousVersion?: Version;
+  commits?: ConventionalCommit[];
 }
-function extractMultipleReleases(notes: string, logger: Logger): ReleaseData[] {
+function extractMultipleReleases(
+  notes: string,
+  logger: Logger,
+  options: ParseVersionOptions
+): ReleaseData[] {
   const data: ReleaseData[] = [];
   const root = parse(notes);
   for (const detail of root.getElementsByTagName('details')) {
     const summaryNode = detail.getElementsByTagName('summary')[0];
     const summary = summaryNode?.textContent;
-    const match = summary.match(SUMMARY_PATTERN);
+    const match = summary.match(
+      options.calendar ? CALENDAR_SUMMARY_PATTERN : SUMMARY_PATTERN
+    );
     if (match?.groups) {
       detail.removeChild(summaryNode);
       const notes = detail.textContent.trim();
       data.push({
         component: match.groups.component,
-        version: Version.parse(match.groups.version),
+        version: parseVersion(match.groups.version, options),
         notes,
       });
     } else {
-      const componentlessMatch = summary.match(COMPONENTLESS_SUMMARY_PATTERN);
+      const componentlessMatch = summary.match(
+        options.calendar
+          ? CALENDAR_COMPONENTLESS_SUMMARY_PATTERN
+          : COMPONENTLESS_SUMMARY_PATTERN
+      );
       if (!componentlessMatch?.groups) {
         logger.warn(`Summary: ${summary} did not match the expected pattern`);
         continue;
@@ -145,7 +260,7 @@ function extractMultipleReleases(notes: string, logger: Logger): ReleaseData[] {
       detail.removeChild(summaryNode);
       const notes = detail.textContent.trim();
       data.push({
-        version: Version.parse(componentlessMatch.groups.version),
+        version: parseVersion(componentlessMatch.groups.version, options),
         notes,
       });
     }
@@ -153,9 +268,16 @@ function extractMultipleReleases(notes: string, logger: Logger): ReleaseData[] {
   return data;
 }
 const COMPARE_REGEX = /^#{2,} \[?(?<version>\d+\.\d+\.\d+[^\]]*)\]?/;
-function extractSingleRelease(body: string, logger: Logger): ReleaseData[] {
+const CALENDAR_COMPARE_REGEX = /^#{2,} \[?(?<version>\d+\.\d+[^\]]*)\]?/;
+function extractSingleRelease(
+  body: string,
+  logger: Logger,
+  options: ParseVersionOptions
+): ReleaseData[] {
   body = body.trim();
-  const match = body.match(COMPARE_REGEX);
+  const match = body.match(
+    options.calendar ? CALENDAR_COMPARE_REGEX : COMPARE_REGEX
+  );
   const versionString = match?.groups?.version;
   if (!versionString) {
     logger.warn('Failed to find version in release notes');
@@ -163,7 +285,7 @@ function extractSingleRelease(body: string, logger: Logger): ReleaseData[] {
   }
   return [
     {
-      version: Version.parse(versionString),
+      version: parseVersion(versionString, options),
       notes: body,
     },
   ];
@@ -13,7 +13,7 @@
 // limitations under the License.
 
 import {logger as defaultLogger, Logger} from './logger';
-import {Version} from '../version';
+import {ParseVersionOptions, Version, parseVersion} from '../version';
 
 // cannot import from '..' - transpiled code references to RELEASE_PLEASE
 // at the script level are undefined, they are only defined inside function
@@ -94,7 +94,8 @@ export class PullRequestTitle {
     title: string,
     pullRequestTitlePattern?: string,
     componentNoSpace?: boolean,
-    logger: Logger = defaultLogger
+    logger: Logger = defaultLogger,
+    options: ParseVersionOptions = {}
   ): PullRequestTitle | undefined {
     const matchPattern = generateMatchPattern(
       pullRequestTitlePattern,
@@ -105,7 +106,7 @@ export class PullRequestTitle {
     if (match?.groups) {
       return new PullRequestTitle({
         version: match.groups['version']
-          ? Version.parse(match.groups['version'])
+          ? parseVersion(match.groups['version'], options)
           : undefined,
         component: match.groups['component'],
         targetBranch: match.groups['branch'],
@@ -0,0 +1,129 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {createHash} from 'crypto';
+import {promises as fs} from 'fs';
+import {posix, join} from 'path';
+import {ReleaseAsset} from '../scm-provider';
+import {ROOT_PROJECT_PATH} from '../manifest';
+import {filterByGlob} from './tree-search';
+
+export const CHECKSUMS_FILENAME = 'SHA256SUMS';
+
+const GLOB_CHARACTERS = /[*?[\]{}!()+@]/;
+
+/**
+ * Resolve release asset globs against the local workspace. Like extra
+ * files, globs are relative to the package path unless they start with a
+ * `/`, in which case they are relative to the workspace root.
+ *
+ * @param {string[]} globs The configured release asset globs
+ * @param {string} packagePath The path of the package being released
+ * @param {string} workspaceRoot The local checkout to read files from
+ * @returns {ReleaseAsset[]} The matched files, named by their basename
+ * @throws {Error} if a glob matches no files, two files share a name or a
+ *   file is named like the checksums file
+ */
+export async function resolveReleaseAssets(
+  globs: string[],
+  packagePath: string,
+  workspaceRoot: string = process.cwd()
+): Promise<ReleaseAsset[]> {
+  const assetsByName = new Map<string, string>();
+  for (const glob of globs) {
+    const pattern =
+      glob.startsWith('/') || packagePath === ROOT_PROJECT_PATH
+        ? glob.replace(/^\/+/, '')
+        : posix.join(packagePath, glob);
+    const files = filterByGlob(
+      await listFiles(workspaceRoot, staticPrefix(pattern)),
+      pattern
+    );
+    if (files.length === 0) {
+      throw new Error(`Release asset glob ${glob} matched no files`);
+    }
+    for (const file of files.sort()) {
+      const name = posix.basename(file);
+      if (name === CHECKSUMS_FILENAME) {
+        throw new Error(
+          `Release asset ${file} collides with the generated ${CHECKSUMS_FILENAME}`
+        );
+      }
+      const existing = assetsByName.get(name);
+      if (existing && existing !== file) {
+        throw new Error(
+          `Release assets ${existing} and ${file} have the same name`
+        );
+      }
+      assetsByName.set(name, file);
+    }
+  }
+  const assets: ReleaseAsset[] = [];
+  for (const [name, file] of assetsByName) {
+    assets.push({name, content: await fs.readFile(join(workspaceRoot, file))});
+  }
+  return assets;
+}
+
+/**
+ * Build a `SHA256SUMS` file in the format read by `sha256sum --check`.
+ *
+ * @param {ReleaseAsset[]} assets The assets to checksum
+ * @returns {ReleaseAsset} The checksums file
+ */
+export function buildChecksumsAsset(assets: ReleaseAsset[]): ReleaseAsset {
+  const lines = assets.map(
+    asset =>
+      `${createHash('sha256').update(asset.content).digest('hex')}  ${
+        asset.name
+      }\n`
+  );
+  return {
+    name: CHECKSUMS_FILENAME,
+    content: Buffer.from(lines.join('')),
+    contentType: 'text/plain',
+  };
+}
+
+// the directory before the first glob segment, to avoid walking the whole
+// workspace
+function staticPrefix(pattern: string): string {
+  const segments = pattern.split('/');
+  const index = segments.findIndex(segment => GLOB_CHARACTERS.test(segment));
+  return segments.slice(0, index === -1 ? -1 : index).join('/');
+}
+
+async function listFiles(root: string, directory: string): Promise<string[]> {
+  let entries;
+  try {
+    entries = await fs.readdir(join(root, directory), {withFileTypes: true});
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw e;
+  }
+  const files: string[] = [];
+  for (const entry of entries) {
+    const path = directory ? `${directory}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      if (entry.name !== '.git') {
+        files.push(...(await listFiles(root, path)));
+      }
+    } else if (entry.isFile()) {
+      files.push(path);
+    }
+  }
+  return files;
+}
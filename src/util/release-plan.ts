@@ -0,0 +1,175 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as chalk from 'chalk';
+import {createPatch} from 'diff';
+import {ReleasePullRequest} from '../release-pull-request';
+import {CandidateRelease} from '../manifest';
+import {ScmProvider} from '../scm-provider';
+
+/**
+ * A planned file update of a release pull request.
+ */
+export interface UpdatePlan {
+  path: string;
+  createIfMissing: boolean;
+  updater: string;
+  // the full updated file content, or null if the file is unchanged or
+  // deleted
+  content: string | null;
+  // whether the file would be deleted
+  deleted: boolean;
+  // a unified diff against the target branch, or null if unchanged
+  diff: string | null;
+}
+
+/**
+ * A JSON-serializable description of a release pull request that would
+ * be opened or updated.
+ */
+export interface PullRequestPlan {
+  title: string;
+  headRefName: string;
+  labels: string[];
+  draft: boolean;
+  version?: string;
+  group?: string;
+  body: string;
+  updates: UpdatePlan[];
+}
+
+/**
+ * A JSON-serializable description of a release that would be tagged.
+ */
+export interface ReleasePlan {
+  path: string;
+  name?: string;
+  tag: string;
+  component?: string;
+  version: string;
+  sha: string;
+  notes: string;
+  draft?: boolean;
+  prerelease?: boolean;
+  pullRequest: {
+    number: number;
+    title: string;
+    headBranchName: string;
+  };
+}
+
+/**
+ * Describe the candidate release pull requests, rendering each file
+ * update against the target branch.
+ *
+ * @param {ScmProvider} github The SCM provider to read current file contents from
+ * @param {ReleasePullRequest[]} pullRequests Candidate release pull requests
+ * @param {string} targetBranch The branch the pull requests would target
+ * @returns {PullRequestPlan[]}
+ */
+export async function buildPullRequestPlans(
+  github: ScmProvider,
+  pullRequests: ReleasePullRequest[],
+  targetBranch: string
+): Promise<PullRequestPlan[]> {
+  const plans: PullRequestPlan[] = [];
+  for (const pullRequest of pullRequests) {
+    const changes = await github.buildChangeSet(
+      pullRequest.updates,
+      targetBranch
+    );
+    plans.push({
+      title: pullRequest.title.toString(),
+      headRefName: pullRequest.headRefName,
+      labels: pullRequest.labels,
+      draft: pullRequest.draft,
+      version: pullRequest.version?.toString(),
+      group: pullRequest.group,
+      body: pullRequest.body.toString(),
+      updates: pullRequest.updates.map(update => {
+        const change = changes.get(update.path);
+        const changed = change && change.content !== change.originalContent;
+        return {
+          path: update.path,
+          createIfMissing: update.createIfMissing,
+          updater: update.updater.constructor.name,
+          content: changed ? change.content : null,
+          deleted: !!changed && change.content === null,
+          diff: changed
+            ? createPatch(
+                update.path,
+                change.originalContent || '',
+                change.content || ''
+              )
+            : null,
+        };
+      }),
+    });
+  }
+  return plans;
+}
+
+/**
+ * Describe the candidate releases.
+ *
+ * @param {CandidateRelease[]} releases Candidate releases
+ * @returns {ReleasePlan[]}
+ */
+export function buildReleasePlans(releases: CandidateRelease[]): ReleasePlan[] {
+  return releases.map(release => ({
+    path: release.path,
+    name: release.name,
+    tag: release.tag.toString(),
+    component: release.tag.component,
+    version: release.tag.version.toString(),
+    sha: release.sha,
+    notes: release.notes,
+    draft: release.draft,
+    prerelease: release.prerelease,
+    pullRequest: {
+      number: release.pullRequest.number,
+      title: release.pullRequest.title,
+      headBranchName: release.pullRequest.headBranchName,
+    },
+  }));
+}
+
+/**
+ * Colorize a unified diff for terminal output.
+ *
+ * @param {string} patch The unified diff
+ * @returns {string}
+ */
+export function colorizeDiff(patch: string): string {
+  return patch
+    .split('\n')
+    .map(line => {
+      if (
+        line.startsWith('+++') ||
+        line.startsWith('---') ||
+        line.startsWith('Index:') ||
+        line.startsWith('===')
+      ) {
+        return chalk.bold(line);
+      } else if (line.startsWith('+')) {
+        return chalk.green(line);
+      } else if (line.startsWith('-')) {
+        return chalk.red(line);
+      } else if (line.startsWith('@@')) {
+        return chalk.cyan(line);
+      }
+      return line;
+    })
+    .join('\n');
+}
@@ -0,0 +1,140 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {promises as fs} from 'fs';
+import {join} from 'path';
+import {Repository} from '../repository';
+import {logger as defaultLogger, Logger} from './logger';
+
+/**
+ * Kinds of responses stored in the cache. Git objects are keyed by their
+ * SHA and pull requests by `<number>-<updated at in ms>`, so an entry never
+ * goes stale once written.
+ */
+export type ResponseCacheNamespace = 'commit-files' | 'blobs' | 'pull-requests';
+
+// bump when the format of cached entries changes
+const CACHE_VERSION = 'v1';
+
+const SHA_KEY = /^[0-9a-f]{7,64}$/i;
+const CACHE_KEYS: Record<ResponseCacheNamespace, RegExp> = {
+  'commit-files': SHA_KEY,
+  blobs: SHA_KEY,
+  'pull-requests': /^[0-9]+-[0-9]+$/,
+};
+
+/**
+ * A persistent, on-disk cache of API responses that do not change once
+ * fetched. Entries are stored as JSON files under
+ * `<directory>/<version>/<owner>/<repo>/<namespace>/<key>.json` so the
+ * directory can be saved and restored between CI runs.
+ *
+ * Failures to read or write the cache are logged and otherwise ignored;
+ * the caller falls back to the API.
+ */
+export class ResponseCache {
+  private directory: string;
+  private logger: Logger;
+
+  /**
+   * Instantiate a new cache for a repository.
+   *
+   * @param {string} directory The root directory of the cache. Shared
+   *   between repositories.
+   * @param {Repository} repository The repository responses are cached for
+   * @param {Logger} logger The logger
+   */
+  constructor(
+    directory: string,
+    repository: Repository,
+    logger: Logger = defaultLogger
+  ) {
+    this.directory = join(
+      directory,
+      CACHE_VERSION,
+      repository.owner,
+      repository.repo
+    );
+    this.logger = logger;
+  }
+
+  /**
+   * Read a cached response.
+   *
+   * @param {ResponseCacheNamespace} namespace The kind of response
+   * @param {string} key The key of the response within its namespace
+   * @returns {T|undefined} The cached response, if any
+   */
+  async get<T>(
+    namespace: ResponseCacheNamespace,
+    key: string
+  ): Promise<T | undefined> {
+    const path = this.path(namespace, key);
+    if (!path) {
+      return undefined;
+    }
+    let content: string;
+    try {
+      content = await fs.readFile(path, 'utf8');
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.warn(`Unable to read cache entry ${path}: ${e}`);
+      }
+      return undefined;
+    }
+    try {
+      return JSON.parse(content) as T;
+    } catch (e) {
+      this.logger.warn(`Ignoring corrupt cache entry ${path}: ${e}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Store a response.
+   *
+   * @param {ResponseCacheNamespace} namespace The kind of response
+   * @param {string} key The key of the response within its namespace
+   * @param {T} value The response. Must be JSON serializable.
+   */
+  async set<T>(
+    namespace: ResponseCacheNamespace,
+    key: string,
+    value: T
+  ): Promise<void> {
+    const path = this.path(namespace, key);
+    if (!path) {
+      return;
+    }
+    // write to a temporary file first so concurrent runs sharing the
+    // directory never read a partial entry
+    const tmpPath = `${path}.${process.pid}.tmp`;
+    try {
+      await fs.mkdir(join(this.directory, namespace), {recursive: true});
+      await fs.writeFile(tmpPath, JSON.stringify(value));
+      await fs.rename(tmpPath, path);
+    } catch (e) {
+      this.logger.warn(`Unable to write cache entry ${path}: ${e}`);
+      await fs.rm(tmpPath, {force: true}).catch(() => undefined);
+    }
+  }
+
+  private path(namespace: ResponseCacheNamespace, key: string) {
+    if (!CACHE_KEYS[namespace].test(key)) {
+      this.logger.debug(`Not caching ${namespace} for invalid key ${key}`);
+      return undefined;
+    }
+    return join(this.directory, namespace, `${key.toLowerCase()}.json`);
+  }
+}
@@ -12,10 +12,14 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
-import {Version} from '../version';
+import {ParseVersionOptions, Version, parseVersion} from '../version';
 
 const TAG_PATTERN =
   /^((?<component>.*)(?<separator>[^a-zA-Z0-9]))?(?<v>v)?(?<version>\d+\.\d+\.\d+.*)$/;
+// two segment calendar versions, e.g. `v24.07`. Only accepted when
+// parsing calendar versions.
+const SHORT_TAG_PATTERN =
+  /^((?<component>.*)(?<separator>[^a-zA-Z0-9]))?(?<v>v)?(?<version>\d+\.\d+(-[^+]+)?(\+.*)?)$/;
 const DEFAULT_SEPARATOR = '-';
 
 export class TagName {
@@ -36,11 +40,16 @@ export class TagName {
     this.includeV = includeV;
   }
 
-  static parse(tagName: string): TagName | undefined {
-    const match = tagName.match(TAG_PATTERN);
+  static parse(
+    tagName: string,
+    options: ParseVersionOptions = {}
+  ): TagName | undefined {
+    const match = options.calendar
+      ? tagName.match(TAG_PATTERN) ?? tagName.match(SHORT_TAG_PATTERN)
+      : tagName.match(TAG_PATTERN);
     if (match?.groups) {
       return new TagName(
-        Version.parse(match.groups.version),
+        parseVersion(match.groups.version, options),
         match.groups.component,
         match.groups.separator,
         !!match.groups.v
@@ -0,0 +1,105 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {basename, extname} from 'path';
+import {Minimatch} from 'minimatch';
+import {ROOT_PROJECT_PATH} from '../manifest';
+
+// These helpers mirror the file search semantics of `RepositoryFileCache`
+// so that providers which list a full repository tree behave the same as
+// the GitHub provider.
+
+/**
+ * Find all paths with a given filename.
+ *
+ * @param {string[]} paths All file paths in the repository tree
+ * @param {string} filename The filename to search for
+ * @param {string} prefix If set, limit results to paths that begin with
+ *   this prefix and return them relative to the prefix.
+ * @returns {string[]} Matching paths
+ */
+export function filterByFilename(
+  paths: string[],
+  filename: string,
+  prefix?: string
+): string[] {
+  return stripPrefix(
+    paths.filter(path => basename(path) === filename),
+    prefix
+  );
+}
+
+/**
+ * Find all paths with a given file extension.
+ *
+ * @param {string[]} paths All file paths in the repository tree
+ * @param {string} extension The file extension, excluding the `.`
+ * @param {string} prefix If set, limit results to paths that begin with
+ *   this prefix and return them relative to the prefix.
+ * @returns {string[]} Matching paths
+ */
+export function filterByExtension(
+  paths: string[],
+  extension: string,
+  prefix?: string
+): string[] {
+  return stripPrefix(
+    paths.filter(path => extname(path) === `.${extension}`),
+    prefix
+  );
+}
+
+/**
+ * Find all paths matching a glob.
+ *
+ * @param {string[]} paths All file paths in the repository tree
+ * @param {string} glob The glob to match
+ * @param {string} prefix If set, limit results to paths that begin with
+ *   this prefix and return them relative to the prefix.
+ * @returns {string[]} Matching paths
+ */
+export function filterByGlob(
+  paths: string[],
+  glob: string,
+  prefix?: string
+): string[] {
+  const mm = new Minimatch(glob);
+  return stripPrefix(
+    paths.filter(path => mm.match(path)),
+    prefix
+  );
+}
+
+/**
+ * Normalize a provided prefix by removing leading and trailing
+ * slashes.
+ *
+ * @param prefix String to normalize
+ */
+export function normalizePrefix(prefix: string) {
+  const normalized = prefix.replace(/^[/\\]/, '').replace(/[/\\]$/, '');
+  if (normalized === ROOT_PROJECT_PATH) {
+    return '';
+  }
+  return normalized;
+}
+
+function stripPrefix(paths: string[], prefix?: string): string[] {
+  if (!prefix) {
+    return paths;
+  }
+  return paths
+    .filter(path => path.startsWith(`${prefix}/`))
+    .map(path => path.slice(prefix.length + 1));
+}
@@ -0,0 +1,52 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as yaml from 'yaml';
+
+/**
+ * Replaces the values of scalars parsed from a YAML document, keeping the
+ * rest of the document (formatting, comments and flow collections) as is.
+ * The original quoting style of each scalar is preserved.
+ *
+ * @param {string} content The YAML source the scalars were parsed from
+ * @param {Array<[yaml.Scalar, string]>} replacements Scalars and their new values
+ * @returns {string} The updated YAML source
+ */
+export function replaceYamlScalars(
+  content: string,
+  replacements: Array<[yaml.Scalar, string]>
+): string {
+  const sorted = replacements
+    .filter(([scalar]) => scalar.range)
+    .sort(([a], [b]) => b.range![0] - a.range![0]);
+  for (const [scalar, value] of sorted) {
+    const [start, end] = scalar.range!;
+    content =
+      content.substring(0, start) +
+      quoteScalar(scalar, value) +
+      content.substring(end);
+  }
+  return content;
+}
+
+function quoteScalar(scalar: yaml.Scalar, value: string): string {
+  switch (scalar.type) {
+    case yaml.Scalar.QUOTE_SINGLE:
+      return `'${value.replace(/'/g, "''")}'`;
+    case yaml.Scalar.QUOTE_DOUBLE:
+      return JSON.stringify(value);
+    default:
+      return value;
+  }
+}
@@ -16,6 +16,48 @@ import * as semver from 'semver';
 
 const VERSION_REGEX =
   /(?<major>\d+)\.(?<minor>\d+)\.(?<patch>\d+)(-(?<preRelease>[^+]+))?(\+(?<build>.*))?/;
+// two segment calendar versions, e.g. `24.07`
+const SHORT_VERSION_REGEX =
+  /^(?<major>\d+)\.(?<minor>\d+)(?!\.?\d)(-(?<preRelease>[^+\s]+))?(\+(?<build>\S*))?(?=\s|$)/;
+// PEP 440 versions that are not SemVer, e.g. `1!2.0` or `1.4.0rc1`
+const PEP440_SPECIFIC_REGEX = /^(\d+!|\d+(\.\d+)*(a|b|rc|\.post|\.dev)\d+)/;
+// https://peps.python.org/pep-0440/#appendix-b-parsing-version-strings-with-regular-expressions
+const PEP440_REGEX =
+  /^v?(?:(?<epoch>\d+)!)?(?<release>\d+(?:\.\d+)*)(?<pre>[-_.]?(?<preType>alpha|a|beta|b|preview|pre|c|rc)[-_.]?(?<preNumber>\d+)?)?(?<post>-(?<postNumber1>\d+)|[-_.]?(?:post|rev|r)[-_.]?(?<postNumber2>\d+)?)?(?<dev>[-_.]?dev[-_.]?(?<devNumber>\d+)?)?(?:\+(?<local>[a-z0-9]+(?:[-_.][a-z0-9]+)*))?$/i;
+
+export interface ParseVersionOptions {
+  // Accept calendar versions, see `CalendarVersion.parse`. Only enabled
+  // for components using the `calver` versioning strategy.
+  calendar?: boolean;
+  // Accept PEP 440 versions that are not SemVer, e.g. `1.4.0rc1`. Only
+  // enabled for components using the `pep440` versioning strategy.
+  pep440?: boolean;
+}
+
+/**
+ * Parse a version string, accepting the calendar or PEP 440 versions
+ * enabled by the options.
+ *
+ * @param {string} versionString the input version string
+ * @param {ParseVersionOptions} options the kinds of versions to accept
+ * @returns {Version} the parsed version
+ * @throws {Error} if the version string cannot be parsed
+ */
+export function parseVersion(
+  versionString: string,
+  options: ParseVersionOptions = {}
+): Version {
+  if (options.calendar) {
+    return CalendarVersion.parse(versionString);
+  }
+  if (options.pep440 && PEP440_SPECIFIC_REGEX.test(versionString)) {
+    const pep440Version = Pep440Version.tryParse(versionString);
+    if (pep440Version) {
+      return pep440Version;
+    }
+  }
+  return Version.parse(versionString);
+}
 
 /**
  * This data class is used to represent a SemVer version.
@@ -69,7 +111,10 @@ export class Version {
    *   are the same, or 1 otherwise.
    */
   compare(other: Version): -1 | 0 | 1 {
-    return semver.compare(this.toString(), other.toString());
+    if (other instanceof Pep440Version) {
+      return (-other.compare(this) || 0) as -1 | 0 | 1;
+    }
+    return semver.compare(semverString(this), semverString(other));
   }
 
   /**
@@ -88,4 +133,282 @@ export class Version {
   }
 }
 
+/**
+ * A Version rendered with calendar versioning conventions: two or three
+ * numeric segments, each optionally zero-padded (e.g. `24.07` or
+ * `2024.05.3`). Missing segments are treated as 0 when comparing.
+ */
+export class CalendarVersion extends Version {
+  // minimum number of digits of each rendered segment
+  readonly segmentWidths: number[];
+
+  constructor(
+    segments: number[],
+    segmentWidths: number[],
+    preRelease?: string,
+    build?: string
+  ) {
+    super(segments[0], segments[1], segments[2] ?? 0, preRelease, build);
+    this.segmentWidths = segmentWidths;
+  }
+
+  /**
+   * Parse a version string that may be a calendar version. Unlike
+   * `Version.parse`, this accepts two segment versions (e.g. `24.07`) and
+   * keeps the zero-padding of segments (e.g. `2024.05.3`). Other versions
+   * are parsed with `Version.parse`.
+   *
+   * @param {string} versionString the input version string
+   * @returns {Version} the parsed version
+   * @throws {Error} if the version string cannot be parsed
+   */
+  static parse(versionString: string): Version {
+    const match =
+      versionString.match(SHORT_VERSION_REGEX) ??
+      versionString.match(VERSION_REGEX);
+    if (!match?.groups) {
+      throw Error(`unable to parse version string: ${versionString}`);
+    }
+    const segments = [
+      match.groups.major,
+      match.groups.minor,
+      match.groups.patch,
+    ].filter(segment => segment !== undefined);
+    if (
+      segments.length === 3 &&
+      !segments.some(segment => segment.length > 1 && segment.startsWith('0'))
+    ) {
+      return Version.parse(versionString);
+    }
+    return new CalendarVersion(
+      segments.map(Number),
+      segments.map(segment => (segment.startsWith('0') ? segment.length : 1)),
+      match.groups.preRelease,
+      match.groups.build
+    );
+  }
+
+  toString(): string {
+    const preReleasePart = this.preRelease ? `-${this.preRelease}` : '';
+    const buildPart = this.build ? `+${this.build}` : '';
+    const segments = [this.major, this.minor, this.patch]
+      .slice(0, this.segmentWidths.length)
+      .map((segment, i) =>
+        segment.toString().padStart(this.segmentWidths[i], '0')
+      );
+    return `${segments.join('.')}${preReleasePart}${buildPart}`;
+  }
+}
+
+export type Pep440PreReleaseType = 'a' | 'b' | 'rc';
+
+const PEP440_PRE_RELEASE_TYPES: Record<string, Pep440PreReleaseType> = {
+  a: 'a',
+  alpha: 'a',
+  b: 'b',
+  beta: 'b',
+  c: 'rc',
+  pre: 'rc',
+  preview: 'rc',
+  rc: 'rc',
+};
+const PEP440_PRE_RELEASE_ORDER: Pep440PreReleaseType[] = ['a', 'b', 'rc'];
+
+/**
+ * Returns the canonical PEP 440 pre-release type, e.g. `b` for `beta`.
+ *
+ * @param {string} type The pre-release type
+ * @throws {Error} if the type is not a PEP 440 pre-release type
+ */
+export function normalizePep440PreReleaseType(
+  type: string
+): Pep440PreReleaseType {
+  const normalized = PEP440_PRE_RELEASE_TYPES[type.toLowerCase()];
+  if (!normalized) {
+    throw Error(`unknown PEP 440 pre-release type: ${type}`);
+  }
+  return normalized;
+}
+
+export interface Pep440VersionOptions {
+  epoch?: number;
+  preReleaseType?: Pep440PreReleaseType;
+  preReleaseNumber?: number;
+  post?: number;
+  dev?: number;
+  local?: string;
+}
+
+/**
+ * A Version following Python's PEP 440, e.g. `1.4.0rc1`, `1.4.0.post2`,
+ * `1.4.0.dev3` or `1!2.0`. It renders as the canonical PEP 440 string and
+ * is ordered by PEP 440 rules. The `preRelease` of the version holds the
+ * pre-release and development release segments, e.g. `rc1.dev3`.
+ */
+export class Pep440Version extends Version {
+  readonly epoch: number;
+  // all release segments, e.g. [1, 4, 0]
+  readonly release: number[];
+  readonly preReleaseType?: Pep440PreReleaseType;
+  readonly preReleaseNumber?: number;
+  readonly post?: number;
+  readonly dev?: number;
+
+  constructor(release: number[], options: Pep440VersionOptions = {}) {
+    const preReleaseParts = [
+      options.preReleaseType
+        ? `${options.preReleaseType}${options.preReleaseNumber ?? 0}`
+        : undefined,
+      options.dev !== undefined ? `dev${options.dev}` : undefined,
+    ].filter(part => part !== undefined);
+    super(
+      release[0],
+      release[1] ?? 0,
+      release[2] ?? 0,
+      preReleaseParts.length > 0 ? preReleaseParts.join('.') : undefined,
+      options.local
+    );
+    this.epoch = options.epoch ?? 0;
+    this.release = release;
+    this.preReleaseType = options.preReleaseType;
+    this.preReleaseNumber = options.preReleaseType
+      ? options.preReleaseNumber ?? 0
+      : undefined;
+    this.post = options.post;
+    this.dev = options.dev;
+  }
+
+  /**
+   * Parse a PEP 440 version string, normalizing it.
+   *
+   * @param {string} versionString the input version string
+   * @returns {Pep440Version} the parsed version
+   * @throws {Error} if the version string is not a valid PEP 440 version
+   */
+  static parse(versionString: string): Pep440Version {
+    const version = Pep440Version.tryParse(versionString);
+    if (!version) {
+      throw Error(`unable to parse PEP 440 version string: ${versionString}`);
+    }
+    return version;
+  }
+
+  /**
+   * Parse a PEP 440 version string, normalizing it.
+   *
+   * @param {string} versionString the input version string
+   * @returns {Pep440Version|undefined} the parsed version, or undefined if
+   *   the version string is not a valid PEP 440 version
+   */
+  static tryParse(versionString: string): Pep440Version | undefined {
+    const match = versionString.trim().match(PEP440_REGEX);
+    if (!match?.groups) {
+      return undefined;
+    }
+    const groups = match.groups;
+    return new Pep440Version(groups.release.split('.').map(Number), {
+      epoch: groups.epoch !== undefined ? Number(groups.epoch) : undefined,
+      preReleaseType: groups.pre
+        ? normalizePep440PreReleaseType(groups.preType)
+        : undefined,
+      preReleaseNumber: groups.pre ? Number(groups.preNumber ?? 0) : undefined,
+      post: groups.post
+        ? Number(groups.postNumber1 ?? groups.postNumber2 ?? 0)
+        : undefined,
+      dev: groups.dev ? Number(groups.devNumber ?? 0) : undefined,
+      local: groups.local?.toLowerCase().replace(/[-_]/g, '.'),
+    });
+  }
+
+  /**
+   * Converts a version to a PEP 440 version, e.g. `1.4.0-rc.1` to
+   * `1.4.0rc1`.
+   *
+   * @param {Version} version the version to convert
+   * @returns {Pep440Version} the converted version
+   * @throws {Error} if the version has no PEP 440 equivalent
+   */
+  static fromVersion(version: Version): Pep440Version {
+    if (version instanceof Pep440Version) {
+      return version;
+    }
+    return Pep440Version.parse(version.toString());
+  }
+
+  /**
+   * Whether this is a pre-release or development release.
+   */
+  get isPreRelease(): boolean {
+    return this.preReleaseType !== undefined || this.dev !== undefined;
+  }
+
+  compare(other: Version): -1 | 0 | 1 {
+    const otherVersion =
+      other instanceof Pep440Version
+        ? other
+        : Pep440Version.tryParse(other.toString());
+    if (!otherVersion) {
+      return super.compare(other);
+    }
+    const keys = pep440SortKey(this);
+    const otherKeys = pep440SortKey(otherVersion);
+    for (let i = 0; i < keys.length; i++) {
+      if (keys[i] !== otherKeys[i]) {
+        return keys[i] < otherKeys[i] ? -1 : 1;
+      }
+    }
+    return 0;
+  }
+
+  toString(): string {
+    const epochPart = this.epoch ? `${this.epoch}!` : '';
+    const preReleasePart = this.preReleaseType
+      ? `${this.preReleaseType}${this.preReleaseNumber}`
+      : '';
+    const postPart = this.post !== undefined ? `.post${this.post}` : '';
+    const devPart = this.dev !== undefined ? `.dev${this.dev}` : '';
+    const localPart = this.build ? `+${this.build}` : '';
+    return `${epochPart}${this.release.join(
+      '.'
+    )}${preReleasePart}${postPart}${devPart}${localPart}`;
+  }
+}
+
+/**
+ * Builds the PEP 440 ordering key of a version: epoch, release segments
+ * (padded with zeros), pre-release, post-release and development release.
+ * Local version labels are ignored.
+ */
+function pep440SortKey(version: Pep440Version): number[] {
+  const release = [...version.release];
+  while (release.length < 8) {
+    release.push(0);
+  }
+  let preRelease: number[];
+  if (version.preReleaseType) {
+    preRelease = [
+      PEP440_PRE_RELEASE_ORDER.indexOf(version.preReleaseType),
+      version.preReleaseNumber!,
+    ];
+  } else if (version.dev !== undefined && version.post === undefined) {
+    // a development release sorts before the pre-releases of its release
+    preRelease = [-Infinity, 0];
+  } else {
+    preRelease = [Infinity, 0];
+  }
+  return [
+    version.epoch,
+    ...release,
+    ...preRelease,
+    version.post ?? -Infinity,
+    version.dev ?? Infinity,
+  ];
+}
+
+function semverString(version: Version): string {
+  const preReleasePart = version.preRelease ? `-${version.preRelease}` : '';
+  const buildPart = version.build ? `+${version.build}` : '';
+  return `${version.major}.${version.minor}.${version.patch}${preReleasePart}${buildPart}`;
+}
+
 export type VersionsMap = Map<string, Version>;
@@ -0,0 +1,235 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {CalendarVersion, Version} from '../version';
+import {ConventionalCommit} from '../commit';
+import {
+  DefaultVersioningStrategy,
+  DefaultVersioningStrategyOptions,
+} from './default';
+import {VersionUpdater} from '../versioning-strategy';
+import {logger as defaultLogger, Logger} from '../util/logger';
+
+export const DEFAULT_CALVER_FORMAT = 'YYYY.MM.MICRO';
+
+// See https://calver.org/#scheme
+type CalendarToken =
+  | 'YYYY'
+  | 'YY'
+  | '0Y'
+  | 'MM'
+  | '0M'
+  | 'WW'
+  | '0W'
+  | 'DD'
+  | '0D'
+  | 'MICRO';
+const CALENDAR_TOKENS: readonly string[] = [
+  'YYYY',
+  'YY',
+  '0Y',
+  'MM',
+  '0M',
+  'WW',
+  '0W',
+  'DD',
+  '0D',
+  'MICRO',
+];
+
+/**
+ * Parse and validate a calendar version format string such as
+ * `YYYY.MM.MICRO` or `YY.0W`.
+ *
+ * @param {string} format The format string
+ * @returns {CalendarToken[]} The token of each version segment
+ * @throws {Error} if the format is invalid
+ */
+export function parseCalendarFormat(format: string): CalendarToken[] {
+  const tokens = format.split('.');
+  for (const token of tokens) {
+    if (!CALENDAR_TOKENS.includes(token)) {
+      throw new Error(
+        `invalid calver format ${format}: unknown segment ${token}`
+      );
+    }
+  }
+  if (tokens.length < 2 || tokens.length > 3) {
+    throw new Error(
+      `invalid calver format ${format}: expected 2 or 3 segments`
+    );
+  }
+  const microIndex = tokens.indexOf('MICRO');
+  if (microIndex === 0 || (microIndex > 0 && microIndex < tokens.length - 1)) {
+    throw new Error(
+      `invalid calver format ${format}: MICRO must be the last segment`
+    );
+  }
+  return tokens as CalendarToken[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * ISO 8601 week of the given (UTC) date. Weeks start on Monday and the
+ * first week of a year contains its first Thursday, so the first days
+ * of January may belong to the last week of the previous year and the
+ * last days of December to the first week of the next year.
+ *
+ * @param {Date} date The date
+ * @returns {{year: number, week: number}} The week-numbering year and week
+ */
+export function isoWeek(date: Date): {year: number; week: number} {
+  const thursday = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+  thursday.setUTCDate(thursday.getUTCDate() + 4 - (thursday.getUTCDay() || 7));
+  const year = thursday.getUTCFullYear();
+  const dayOfYear = (thursday.getTime() - Date.UTC(year, 0, 1)) / DAY_MS;
+  return {year, week: Math.floor(dayOfYear / 7) + 1};
+}
+
+function dateSegment(
+  token: CalendarToken,
+  date: Date,
+  weekBased: boolean
+): number {
+  // formats with a week segment use the ISO week-numbering year
+  const year = weekBased ? isoWeek(date).year : date.getUTCFullYear();
+  switch (token) {
+    case 'YYYY':
+      return year;
+    case 'YY':
+    case '0Y':
+      return year - 2000;
+    case 'MM':
+    case '0M':
+      return date.getUTCMonth() + 1;
+    case 'WW':
+    case '0W':
+      return isoWeek(date).week;
+    case 'DD':
+    case '0D':
+      return date.getUTCDate();
+    default:
+      return 0;
+  }
+}
+
+/**
+ * This VersionUpdater sets the date segments of the version to the
+ * current (UTC) date. The MICRO segment is incremented if the date
+ * segments are unchanged and reset to 0 otherwise. Formats without a
+ * MICRO segment get an implicit one when releasing again in the same
+ * period (e.g. `24.07` then `24.07.1`), so a version is never reused.
+ */
+export class CalendarVersionUpdate implements VersionUpdater {
+  private tokens: CalendarToken[];
+  private logger: Logger;
+  constructor(tokens: CalendarToken[], logger: Logger = defaultLogger) {
+    this.tokens = tokens;
+    this.logger = logger;
+  }
+
+  /**
+   * Returns the new bumped version
+   *
+   * @param {Version} version The current version
+   * @returns {Version} The bumped version
+   */
+  bump(version: Version): Version {
+    const now = new Date();
+    const previous = [version.major, version.minor, version.patch];
+    const weekBased = this.tokens.some(token => token.endsWith('W'));
+    const segments = this.tokens.map(token =>
+      dateSegment(token, now, weekBased)
+    );
+    const widths = this.tokens.map(token => (token.startsWith('0') ? 2 : 1));
+    const samePeriod = this.tokens.every(
+      (token, i) => token === 'MICRO' || segments[i] === previous[i]
+    );
+    const microIndex = this.tokens.indexOf('MICRO');
+    if (samePeriod) {
+      if (microIndex >= 0) {
+        segments[microIndex] = previous[microIndex] + 1;
+      } else {
+        segments.push(previous[this.tokens.length] + 1);
+        widths.push(1);
+        this.logger.warn(
+          `version ${version} was already released in this period, releasing ${new CalendarVersion(
+            segments,
+            widths
+          )} instead. Add a MICRO segment to the calver format to release more often`
+        );
+      }
+    }
+    return new CalendarVersion(segments, widths);
+  }
+}
+
+/**
+ * This VersionUpdater returns the version forced by a `Release-As`
+ * footer, which may be a short or zero-padded calendar version.
+ */
+class CalendarReleaseAsUpdate implements VersionUpdater {
+  private version: Version;
+  constructor(version: Version) {
+    this.version = version;
+  }
+
+  bump(_version: Version): Version {
+    return this.version;
+  }
+}
+
+interface CalendarVersioningStrategyOptions
+  extends DefaultVersioningStrategyOptions {
+  format?: string;
+}
+
+/**
+ * This VersioningStrategy uses calendar versioning (see https://calver.org).
+ * The version is derived from the release date according to a format such
+ * as `YYYY.MM.MICRO` or `YY.0W`. Commit types do not affect the version,
+ * but a `Release-As` footer still forces a specific version.
+ */
+export class CalendarVersioningStrategy extends DefaultVersioningStrategy {
+  readonly format: string;
+  private tokens: CalendarToken[];
+
+  constructor(options: CalendarVersioningStrategyOptions = {}) {
+    super(options);
+    this.format = options.format ?? DEFAULT_CALVER_FORMAT;
+    this.tokens = parseCalendarFormat(this.format);
+  }
+
+  determineReleaseType(
+    _version: Version,
+    commits: ConventionalCommit[]
+  ): VersionUpdater {
+    for (const commit of commits) {
+      const releaseAs = commit.notes.find(note => note.title === 'RELEASE AS');
+      if (releaseAs) {
+        // commits are handled newest to oldest, so take the first one (newest) found
+        this.logger.debug(
+          `found Release-As: ${releaseAs.text}, forcing version`
+        );
+        return new CalendarReleaseAsUpdate(
+          CalendarVersion.parse(releaseAs.text)
+        );
+      }
+    }
+    return new CalendarVersionUpdate(this.tokens, this.logger);
+  }
+}
@@ -0,0 +1,171 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {CalendarVersion, Version} from '../version';
+import {ConventionalCommit} from '../commit';
+import {
+  VersioningStrategy,
+  VersionUpdater,
+  CustomVersionUpdate,
+} from '../versioning-strategy';
+
+export interface ChannelVersioningStrategyOptions {
+  // prerelease identifier of the target branch's channel, if any
+  prereleaseId?: string;
+  // prerelease identifiers of all configured channels
+  channelIds: string[];
+}
+
+/**
+ * Returns a version with the given segments, keeping the zero-padding of
+ * calendar versions.
+ */
+function withSegments(
+  version: Version,
+  segments: number[],
+  preRelease?: string
+): Version {
+  if (version instanceof CalendarVersion) {
+    return new CalendarVersion(segments, version.segmentWidths, preRelease);
+  }
+  return new Version(segments[0], segments[1], segments[2], preRelease);
+}
+
+/**
+ * Returns the core version without prerelease or build metadata.
+ */
+function coreVersion(version: Version): Version {
+  return withSegments(version, [version.major, version.minor, version.patch]);
+}
+
+/**
+ * Returns whether the unreleased core version of a prerelease already
+ * includes the bump, e.g. 1.3.0-rc.1 includes a minor bump from 1.2.x.
+ */
+function includesBump(core: Version, bumped: Version): boolean {
+  if (bumped.major > core.major) {
+    return core.minor === 0 && core.patch === 0;
+  } else if (bumped.minor > core.minor) {
+    return core.patch === 0;
+  }
+  return true;
+}
+
+/**
+ * This VersionUpdater releases the bump of another updater as a numbered
+ * prerelease of a channel, e.g. 1.2.3 -> 1.3.0-rc.1 -> 1.3.0-rc.2.
+ */
+class ChannelVersionUpdate implements VersionUpdater {
+  private updater: VersionUpdater;
+  private prereleaseId: string;
+  constructor(updater: VersionUpdater, prereleaseId: string) {
+    this.updater = updater;
+    this.prereleaseId = prereleaseId;
+  }
+
+  /**
+   * Returns the new bumped version
+   *
+   * @param {Version} version The current version
+   * @returns {Version} The bumped version
+   */
+  bump(version: Version): Version {
+    const core = coreVersion(version);
+    const bumped = this.updater.bump(core);
+    if (version.preRelease && includesBump(core, bumped)) {
+      const [id, number] = version.preRelease.split('.');
+      const next = id === this.prereleaseId ? (Number(number) || 0) + 1 : 1;
+      return withSegments(
+        core,
+        [core.major, core.minor, core.patch],
+        `${this.prereleaseId}.${next}`
+      );
+    }
+    return withSegments(
+      bumped,
+      [bumped.major, bumped.minor, bumped.patch],
+      `${this.prereleaseId}.1`
+    );
+  }
+}
+
+/**
+ * This VersionUpdater graduates a channel prerelease into a stable
+ * version, e.g. 1.3.0-rc.2 -> 1.3.0.
+ */
+class GraduateVersionUpdate implements VersionUpdater {
+  private updater: VersionUpdater;
+  constructor(updater: VersionUpdater) {
+    this.updater = updater;
+  }
+
+  /**
+   * Returns the new bumped version
+   *
+   * @param {Version} version The current version
+   * @returns {Version} The bumped version
+   */
+  bump(version: Version): Version {
+    const core = coreVersion(version);
+    const bumped = this.updater.bump(core);
+    return includesBump(core, bumped) ? core : coreVersion(bumped);
+  }
+}
+
+/**
+ * This VersioningStrategy wraps another strategy to support release
+ * channels. On a channel branch, versions are released as numbered
+ * prereleases of the channel's identifier. On other branches, a channel
+ * prerelease is graduated into its stable version.
+ */
+export class ChannelVersioningStrategy implements VersioningStrategy {
+  readonly strategy: VersioningStrategy;
+  readonly prereleaseId?: string;
+  private channelIds: string[];
+
+  constructor(
+    strategy: VersioningStrategy,
+    options: ChannelVersioningStrategyOptions
+  ) {
+    this.strategy = strategy;
+    this.prereleaseId = options.prereleaseId;
+    this.channelIds = options.channelIds;
+  }
+
+  determineReleaseType(
+    version: Version,
+    commits: ConventionalCommit[]
+  ): VersionUpdater {
+    const updater = this.strategy.determineReleaseType(version, commits);
+    if (updater instanceof CustomVersionUpdate) {
+      return updater;
+    }
+    if (this.prereleaseId) {
+      return new ChannelVersionUpdate(updater, this.prereleaseId);
+    }
+    const channelId = version.preRelease?.split('.')[0];
+    if (channelId && this.channelIds.includes(channelId)) {
+      return new GraduateVersionUpdate(updater);
+    }
+    return updater;
+  }
+
+  isReleasable(commits: ConventionalCommit[]): boolean {
+    return this.strategy.isReleasable?.(commits) ?? true;
+  }
+
+  bump(version: Version, commits: ConventionalCommit[]): Version {
+    return this.determineReleaseType(version, commits).bump(version);
+  }
+}
@@ -24,12 +24,41 @@ import {ConventionalCommit} from '../commit';
 import {Version} from '../version';
 import {logger as defaultLogger, Logger} from '../util/logger';
 
+/**
+ * Overrides the version bump of matching commits. All configured fields
+ * must match: the commit `type`, its `scope`, and the title of one of
+ * its `footer` notes (case-insensitive, e.g. `BREAKING CHANGE`). Rules
+ * also apply to breaking changes, so a rule may downgrade them. Commits
+ * matching a `none` rule do not count toward a release.
+ */
+export interface BumpRule {
+  type?: string;
+  scope?: string;
+  footer?: string;
+  bump: 'major' | 'minor' | 'patch' | 'none';
+}
+
 export interface DefaultVersioningStrategyOptions {
   bumpMinorPreMajor?: boolean;
   bumpPatchForMinorPreMajor?: boolean;
+  bumpRules?: BumpRule[];
   logger?: Logger;
 }
 
+function matchesBumpRule(rule: BumpRule, commit: ConventionalCommit): boolean {
+  if (rule.type !== undefined && rule.type !== commit.type) {
+    return false;
+  }
+  if (rule.scope !== undefined && rule.scope !== commit.scope) {
+    return false;
+  }
+  if (rule.footer !== undefined) {
+    const footer = rule.footer.toUpperCase();
+    return commit.notes.some(note => note.title.toUpperCase() === footer);
+  }
+  return true;
+}
+
 /**
  * This is the default VersioningStrategy for release-please. Breaking
  * changes should bump the major, features should bump the minor, and other
@@ -38,6 +67,7 @@ export interface DefaultVersioningStrategyOptions {
 export class DefaultVersioningStrategy implements VersioningStrategy {
   readonly bumpMinorPreMajor: boolean;
   readonly bumpPatchForMinorPreMajor: boolean;
+  readonly bumpRules: BumpRule[];
   protected logger: Logger;
   /**
    * Create a new DefaultVersioningStrategy
@@ -46,10 +76,13 @@ export class DefaultVersioningStrategy implements VersioningStrategy {
    *   then bump the minor version for breaking changes
    * @param {boolean} options.bumpPatchForMinorPreMajor If the current version is less than
    *   1.0.0, then bump the patch version for features
+   * @param {BumpRule[]} options.bumpRules Rules overriding the bump of matching
+   *   commits. The first matching rule wins.
    */
   constructor(options: DefaultVersioningStrategyOptions = {}) {
     this.bumpMinorPreMajor = options.bumpMinorPreMajor === true;
     this.bumpPatchForMinorPreMajor = options.bumpPatchForMinorPreMajor === true;
+    this.bumpRules = options.bumpRules ?? [];
     this.logger = options.logger ?? defaultLogger;
   }
 
@@ -81,7 +114,15 @@ export class DefaultVersioningStrategy implements VersioningStrategy {
           Version.parse(releaseAs.text).toString()
         );
       }
-      if (commit.breaking) {
+      const rule = this.findBumpRule(commit);
+      if (rule) {
+        this.logger.trace(`bump rule ${rule.bump} matched ${commit.sha}`);
+        if (rule.bump === 'major') {
+          breaking++;
+        } else if (rule.bump === 'minor') {
+          features++;
+        }
+      } else if (commit.breaking) {
         breaking++;
       } else if (commit.type === 'feat' || commit.type === 'feature') {
         features++;
@@ -104,6 +145,26 @@ export class DefaultVersioningStrategy implements VersioningStrategy {
     return new PatchVersionUpdate();
   }
 
+  private findBumpRule(commit: ConventionalCommit): BumpRule | undefined {
+    return this.bumpRules.find(rule => matchesBumpRule(rule, commit));
+  }
+
+  /**
+   * Whether any of the commits should trigger a release. Commits matching
+   * a bump rule with `bump: 'none'` are still included in the release
+   * notes, but do not cause a release on their own.
+   *
+   * @param {ConventionalCommit[]} commits The list of commits to consider
+   * @returns {boolean} Whether the commits should trigger a release
+   */
+  isReleasable(commits: ConventionalCommit[]): boolean {
+    return commits.some(
+      commit =>
+        commit.notes.some(note => note.title === 'RELEASE AS') ||
+        this.findBumpRule(commit)?.bump !== 'none'
+    );
+  }
+
   /**
    * Given the current version of an artifact and a list of commits,
    * return the next version.
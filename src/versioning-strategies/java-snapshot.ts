@@ -77,6 +77,10 @@ export class JavaSnapshot implements VersioningStrategy {
     return parentBump;
   }
 
+  isReleasable(commits: ConventionalCommit[]): boolean {
+    return this.strategy.isReleasable?.(commits) ?? true;
+  }
+
   bump(version: Version, commits: ConventionalCommit[]): Version {
     return this.determineReleaseType(version, commits).bump(version);
   }
@@ -0,0 +1,171 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {
+  DefaultVersioningStrategyOptions,
+  DefaultVersioningStrategy,
+} from './default';
+import {
+  Pep440PreReleaseType,
+  Pep440Version,
+  Version,
+  normalizePep440PreReleaseType,
+  parseVersion,
+} from '../version';
+import {ConventionalCommit} from '../commit';
+import {
+  VersionUpdater,
+  CustomVersionUpdate,
+  MinorVersionUpdate,
+  MajorVersionUpdate,
+} from '../versioning-strategy';
+
+interface Pep440VersioningStrategyOptions
+  extends DefaultVersioningStrategyOptions {
+  prereleaseType?: string;
+}
+
+/**
+ * Applies a SemVer version bump to the release segments of a PEP 440
+ * version, e.g. `1.4.0rc1` to `1.4.0rc2` or `1.4.0.post2` to `1.4.1`.
+ */
+class Pep440VersionUpdate implements VersionUpdater {
+  private readonly updater: VersionUpdater;
+  private readonly prereleaseType?: Pep440PreReleaseType;
+
+  constructor(updater: VersionUpdater, prereleaseType?: Pep440PreReleaseType) {
+    this.updater = updater;
+    this.prereleaseType = prereleaseType;
+  }
+
+  /**
+   * Returns the new bumped version
+   *
+   * @param {Version} version The current version
+   * @returns {Version} The bumped version
+   */
+  bump(version: Version): Version {
+    if (this.updater instanceof CustomVersionUpdate) {
+      return Pep440Version.fromVersion(this.updater.bump(version));
+    }
+    const current =
+      Pep440Version.tryParse(version.toString()) ??
+      new Pep440Version([version.major, version.minor, version.patch]);
+    if (current.isPreRelease && this.withinPreRelease(current)) {
+      return this.bumpPreRelease(current);
+    }
+    const bumped = this.updater.bump(
+      new Version(current.major, current.minor, current.patch)
+    );
+    return new Pep440Version([bumped.major, bumped.minor, bumped.patch], {
+      epoch: current.epoch,
+      preReleaseType: this.prereleaseType,
+      preReleaseNumber: this.prereleaseType ? 1 : undefined,
+    });
+  }
+
+  /**
+   * Whether the bump still targets the release of the current pre-release,
+   * e.g. a minor bump of `1.4.0rc1` but not of `1.4.1rc1`.
+   */
+  private withinPreRelease(version: Pep440Version): boolean {
+    if (this.updater instanceof MajorVersionUpdate) {
+      return version.minor === 0 && version.patch === 0;
+    }
+    if (this.updater instanceof MinorVersionUpdate) {
+      return version.patch === 0;
+    }
+    return true;
+  }
+
+  private bumpPreRelease(version: Pep440Version): Pep440Version {
+    const release = version.release;
+    const options = {
+      epoch: version.epoch,
+      preReleaseType: version.preReleaseType,
+      preReleaseNumber: version.preReleaseNumber,
+      post: version.post,
+    };
+    if (version.dev !== undefined) {
+      return new Pep440Version(release, {...options, dev: version.dev + 1});
+    }
+    if (this.prereleaseType && this.prereleaseType !== version.preReleaseType) {
+      return new Pep440Version(release, {
+        ...options,
+        preReleaseType: this.prereleaseType,
+        preReleaseNumber: 1,
+      });
+    }
+    return new Pep440Version(release, {
+      ...options,
+      preReleaseNumber: version.preReleaseNumber! + 1,
+    });
+  }
+}
+
+/**
+ * This VersionUpdater returns the version forced by a `Release-As`
+ * footer, which may be a PEP 440 version.
+ */
+class Pep440ReleaseAsUpdate implements VersionUpdater {
+  private version: Version;
+  constructor(version: Version) {
+    this.version = version;
+  }
+
+  bump(_version: Version): Version {
+    return this.version;
+  }
+}
+
+/**
+ * This versioning strategy bumps versions like the default strategy, but
+ * renders them following Python's PEP 440. Pre-releases are numbered with
+ * the `a`, `b` or `rc` pre-release type, e.g. `1.4.0rc1` to `1.4.0rc2`,
+ * and development releases increment their `.devN` segment.
+ */
+export class Pep440VersioningStrategy extends DefaultVersioningStrategy {
+  readonly prereleaseType?: Pep440PreReleaseType;
+
+  constructor(options: Pep440VersioningStrategyOptions = {}) {
+    super(options);
+    this.prereleaseType = options.prereleaseType
+      ? normalizePep440PreReleaseType(options.prereleaseType)
+      : undefined;
+  }
+
+  determineReleaseType(
+    version: Version,
+    commits: ConventionalCommit[]
+  ): VersionUpdater {
+    for (const commit of commits) {
+      const releaseAs = commit.notes.find(note => note.title === 'RELEASE AS');
+      if (releaseAs) {
+        // commits are handled newest to oldest, so take the first one (newest) found
+        this.logger.debug(
+          `found Release-As: ${releaseAs.text}, forcing version`
+        );
+        return new Pep440ReleaseAsUpdate(
+          Pep440Version.fromVersion(
+            parseVersion(releaseAs.text, {pep440: true})
+          )
+        );
+      }
+    }
+    return new Pep440VersionUpdate(
+      super.determineReleaseType(version, commits),
+      this.prereleaseType
+    );
+  }
+}
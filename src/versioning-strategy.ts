@@ -139,4 +139,13 @@ export interface VersioningStrategy {
     version: Version,
     commits: ConventionalCommit[]
   ): VersionUpdater;
+
+  /**
+   * Optional. Whether any of the commits should trigger a release. If not
+   * implemented, any commit triggers a release.
+   *
+   * @param {ConventionalCommit[]} commits The list of commits to consider
+   * @returns {boolean} Whether the commits should trigger a release
+   */
+  isReleasable?(commits: ConventionalCommit[]): boolean;
 }
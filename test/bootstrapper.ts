@@ -17,10 +17,11 @@ import * as sinon from 'sinon';
 import {expect} from 'chai';
 import {Bootstrapper} from '../src/bootstrapper';
 import {GitHub} from '../src/github';
-import {assertHasUpdate} from './helpers';
+import {assertHasUpdate, buildGitHubFileRaw, mockTags} from './helpers';
 import {ReleasePleaseManifest} from '../src/updaters/release-please-manifest';
 import {ReleasePleaseConfig} from '../src/updaters/release-please-config';
 import * as snapshot from 'snap-shot-it';
+import * as assert from 'assert';
 
 const sandbox = sinon.createSandbox();
 
@@ -83,4 +84,62 @@ describe('Bootstrapper', () => {
     const newContent = update.updater.updateContent(undefined);
     snapshot(newContent);
   });
+
+  describe('buildDiscoveryPullRequest', () => {
+    it('configures all discovered packages', async () => {
+      sandbox
+        .stub(github, 'findFilesByFilenameAndRef')
+        .resolves([])
+        .withArgs('package.json', 'main')
+        .resolves(['packages/a/package.json', 'packages/b/package.json']);
+      sandbox
+        .stub(github, 'getFileContentsOnBranch')
+        .withArgs('packages/a/package.json', 'main')
+        .resolves(
+          buildGitHubFileRaw(JSON.stringify({name: 'a', version: '1.2.3'}))
+        )
+        .withArgs('packages/b/package.json', 'main')
+        .resolves(buildGitHubFileRaw(JSON.stringify({name: 'b'})));
+      mockTags(sandbox, github, []);
+
+      const bootstrapper = new Bootstrapper(
+        github,
+        'main',
+        undefined,
+        undefined,
+        '0.1.0'
+      );
+      const pullRequest = await bootstrapper.buildDiscoveryPullRequest({
+        bumpMinorPreMajor: true,
+      });
+      expect(pullRequest.title).to.eql(
+        'chore: bootstrap releases for 2 packages'
+      );
+      expect(pullRequest.headBranchName).to.eql(
+        'release-please/bootstrap/discovered'
+      );
+      expect(pullRequest.updates).lengthOf(2);
+      const manifestUpdate = assertHasUpdate(
+        pullRequest.updates,
+        '.release-please-manifest.json'
+      );
+      expect(
+        JSON.parse(manifestUpdate.updater.updateContent(undefined))
+      ).to.eql({'packages/a': '1.2.3', 'packages/b': '0.1.0'});
+      const configUpdate = assertHasUpdate(
+        pullRequest.updates,
+        'release-please-config.json'
+      );
+      snapshot(configUpdate.updater.updateContent(undefined));
+      snapshot(pullRequest.body);
+    });
+
+    it('rejects a repository without packages', async () => {
+      sandbox.stub(github, 'findFilesByFilenameAndRef').resolves([]);
+      const bootstrapper = new Bootstrapper(github, 'main');
+      await assert.rejects(async () => {
+        await bootstrapper.buildDiscoveryPullRequest();
+      }, /No packages found/);
+    });
+  });
 });
@@ -0,0 +1,176 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {describe, it} from 'mocha';
+import {expect} from 'chai';
+import {safeSnapshot} from '../helpers';
+import {PullRequestBody} from '../../src/util/pull-request-body';
+import {Version} from '../../src/version';
+import {PullRequestChangelogNotes} from '../../src/changelog-notes/pull-request';
+import {ConventionalCommit} from '../../src/commit';
+import {PullRequest} from '../../src/pull-request';
+
+function buildCommit(
+  sha: string,
+  message: string,
+  pullRequest?: Partial<PullRequest>
+): ConventionalCommit {
+  const match = message.match(/^(\w+)(!)?: (.*)$/)!;
+  return {
+    sha,
+    message,
+    type: match[1],
+    scope: null,
+    bareMessage: match[3],
+    notes: match[2] ? [{title: 'BREAKING CHANGE', text: match[3]}] : [],
+    references: [],
+    breaking: !!match[2],
+    pullRequest: pullRequest
+      ? {
+          headBranchName: 'feature',
+          baseBranchName: 'main',
+          number: 1,
+          title: message,
+          body: '',
+          labels: [],
+          files: [],
+          ...pullRequest,
+        }
+      : undefined,
+  };
+}
+
+describe('PullRequestChangelogNotes', () => {
+  const commits = [
+    buildCommit('sha1', 'feat: some feature', {
+      number: 11,
+      title: 'Add a shiny feature',
+      labels: ['enhancement'],
+      author: 'octocat',
+      authorAssociation: 'MEMBER',
+    }),
+    buildCommit('sha2', 'fix!: some bugfix', {
+      number: 12,
+      title: 'Fix the thing',
+      labels: ['cla: yes', 'bug'],
+      author: 'newcomer',
+      authorAssociation: 'FIRST_TIME_CONTRIBUTOR',
+    }),
+    buildCommit('sha3', 'docs: some documentation', {
+      number: 13,
+      title: 'Improve the docs',
+      labels: [],
+      author: 'octocat',
+      authorAssociation: 'MEMBER',
+    }),
+    buildCommit('abcdef1234567', 'chore: direct push'),
+  ];
+  const notesOptions = {
+    owner: 'googleapis',
+    repository: 'java-asset',
+    version: '1.2.3',
+    previousTag: 'v1.2.2',
+    currentTag: 'v1.2.3',
+    targetBranch: 'main',
+  };
+
+  describe('buildNotes', () => {
+    it('should group pull requests by label', async () => {
+      const changelogNotes = new PullRequestChangelogNotes();
+      const notes = await changelogNotes.buildNotes(commits, notesOptions);
+      expect(notes).to.include('### Features');
+      expect(notes).to.include('### Bug Fixes');
+      expect(notes).to.include('### Other Changes');
+      safeSnapshot(notes);
+    });
+
+    it('should use custom label sections', async () => {
+      const changelogNotes = new PullRequestChangelogNotes({
+        labelSections: {
+          bug: 'Fixed',
+          'cla: yes': 'Signed',
+          enhancement: 'Added',
+        },
+      });
+      const notes = await changelogNotes.buildNotes(commits, notesOptions);
+      expect(notes).to.not.include('### Features');
+      safeSnapshot(notes);
+    });
+
+    it('should list each pull request once', async () => {
+      const changelogNotes = new PullRequestChangelogNotes();
+      const notes = await changelogNotes.buildNotes(
+        [
+          buildCommit('sha1', 'feat: first part', {number: 20, title: 'Big'}),
+          buildCommit('sha2', 'feat!: second part', {number: 20, title: 'Big'}),
+        ],
+        notesOptions
+      );
+      expect(notes.match(/\[#20\]/g)).lengthOf(2);
+      expect(notes).to.include('### ⚠ BREAKING CHANGES');
+      expect(notes).to.not.include('### Contributors');
+    });
+
+    it('should list pull requests that are not conventional commits', async () => {
+      const changelogNotes = new PullRequestChangelogNotes();
+      const notes = await changelogNotes.buildNotes(commits, {
+        ...notesOptions,
+        commits: [
+          ...commits,
+          {
+            sha: 'sha4',
+            message: 'Make widgets shinier (#14)',
+            pullRequest: {
+              headBranchName: 'widgets',
+              baseBranchName: 'main',
+              number: 14,
+              title: 'Make widgets shinier',
+              body: '',
+              labels: ['enhancement'],
+              files: [],
+              author: 'squasher',
+              authorAssociation: 'CONTRIBUTOR',
+            },
+          },
+          {sha: 'sha5', message: 'Update README'},
+        ],
+      });
+      expect(notes).to.include(
+        '* Make widgets shinier by @squasher in [#14](https://github.com/googleapis/java-asset/pull/14)'
+      );
+      expect(notes).to.include('* @squasher');
+      expect(notes).to.not.include('Update README');
+      expect(notes.match(/\[#11\]/g)).lengthOf(1);
+    });
+
+    it('should build parseable notes', async () => {
+      const changelogNotes = new PullRequestChangelogNotes();
+      const notes = await changelogNotes.buildNotes(commits, notesOptions);
+      const pullRequestBody = new PullRequestBody([
+        {
+          version: Version.parse('1.2.3'),
+          notes,
+        },
+      ]);
+      const parsedPullRequestBody = PullRequestBody.parse(
+        pullRequestBody.toString()
+      );
+      expect(parsedPullRequestBody).to.not.be.undefined;
+      expect(parsedPullRequestBody!.releaseData).lengthOf(1);
+      expect(parsedPullRequestBody!.releaseData[0].version?.toString()).to.eql(
+        '1.2.3'
+      );
+    });
+  });
+});
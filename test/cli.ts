@@ -24,7 +24,20 @@ import {
 } from '../src/manifest';
 import snapshot = require('snap-shot-it');
 import {GitHub} from '../src/github';
+import {Bootstrapper} from '../src/bootstrapper';
+import {Migrator} from '../src/migrator';
+import {GitLab} from '../src/gitlab';
+import {Gitea} from '../src/gitea';
+import {LocalGit} from '../src/local-git';
 import {ParseCallback} from 'yargs';
+import {logger, setLogger} from '../src/util/logger';
+import {PullRequestTitle} from '../src/util/pull-request-title';
+import {PullRequestBody} from '../src/util/pull-request-body';
+import {TagName} from '../src/util/tag-name';
+import {RawContent} from '../src/updaters/raw-content';
+import {Version} from '../src/version';
+import {ConfigurationError} from '../src/errors';
+import assert = require('assert');
 
 const sandbox = sinon.createSandbox();
 
@@ -53,6 +66,7 @@ describe('CLI', () => {
   let fakeGitHub: GitHub;
   let fakeManifest: Manifest;
   let gitHubCreateStub: sinon.SinonStub;
+  const originalLogger = logger;
   beforeEach(async () => {
     fakeGitHub = await GitHub.create({
       owner: 'googleapis',
@@ -64,7 +78,15 @@ describe('CLI', () => {
   });
   afterEach(() => {
     sandbox.restore();
+    // the json output format replaces the logger
+    setLogger(originalLogger);
   });
+  function captureOutput(): string[] {
+    const output: string[] = [];
+    sandbox.stub(console, 'log').callsFake(message => output.push(message));
+    sandbox.stub(console, 'error');
+    return output;
+  }
   describe('handleError', () => {
     it('handles an error', async () => {
       const stack = 'bad\nmore\nbad';
@@ -135,6 +157,99 @@ describe('CLI', () => {
       sinon.assert.calledOnce(createPullRequestsStub);
     });
 
+    it('passes --cache-dir to the GitHub provider', async () => {
+      await parser.parseAsync(
+        'manifest-pr --repo-url=googleapis/release-please-cli --cache-dir=.release-please-cache'
+      );
+
+      sinon.assert.calledOnceWithExactly(gitHubCreateStub, {
+        owner: 'googleapis',
+        repo: 'release-please-cli',
+        token: undefined,
+        apiUrl: 'https://api.github.com',
+        graphqlUrl: 'https://api.github.com',
+        cacheDir: '.release-please-cache',
+      });
+      sinon.assert.calledOnce(createPullRequestsStub);
+    });
+
+    it('rejects --cache-dir for other providers', async () => {
+      const localGitCreateStub = sandbox.stub(LocalGit, 'create');
+      await assert.rejects(
+        parser.parseAsync(
+          'manifest-pr --provider=local --repo-url=. --cache-dir=.release-please-cache',
+          () => {}
+        ),
+        /--cache-dir is not supported by the local provider/
+      );
+      sinon.assert.notCalled(localGitCreateStub);
+    });
+
+    it('instantiates a GitLab provider', async () => {
+      const gitLabCreateStub = sandbox
+        .stub(GitLab, 'create')
+        .resolves(fakeGitHub as unknown as GitLab);
+      await parser.parseAsync(
+        'manifest-pr --provider=gitlab --repo-url=https://gitlab.example.com/group/subgroup/project.git --api-url=https://gitlab.example.com/api/v4'
+      );
+
+      sinon.assert.notCalled(gitHubCreateStub);
+      sinon.assert.calledOnceWithExactly(gitLabCreateStub, {
+        owner: 'group/subgroup',
+        repo: 'project',
+        token: undefined,
+        apiUrl: 'https://gitlab.example.com/api/v4',
+      });
+      sinon.assert.calledOnce(createPullRequestsStub);
+    });
+
+    it('instantiates a Gitea provider', async () => {
+      const giteaCreateStub = sandbox
+        .stub(Gitea, 'create')
+        .resolves(fakeGitHub as unknown as Gitea);
+      await parser.parseAsync(
+        'manifest-pr --provider=gitea --repo-url=some-owner/some-repo --api-url=https://gitea.example.com/api/v1 --token=some-token'
+      );
+
+      sinon.assert.notCalled(gitHubCreateStub);
+      sinon.assert.calledOnceWithExactly(giteaCreateStub, {
+        owner: 'some-owner',
+        repo: 'some-repo',
+        token: 'some-token',
+        apiUrl: 'https://gitea.example.com/api/v1',
+      });
+      sinon.assert.calledOnce(createPullRequestsStub);
+    });
+
+    it('instantiates a local provider on the target branch', async () => {
+      const localGitCreateStub = sandbox
+        .stub(LocalGit, 'create')
+        .resolves(fakeGitHub as unknown as LocalGit);
+      await parser.parseAsync(
+        'manifest-pr --provider=local --repo-url=. --target-branch=main'
+      );
+
+      sinon.assert.notCalled(gitHubCreateStub);
+      sinon.assert.calledOnceWithExactly(localGitCreateStub, {
+        path: '.',
+        defaultBranch: 'main',
+      });
+      sinon.assert.calledOnce(createPullRequestsStub);
+    });
+
+    it('rejects a repo url without an owner', async () => {
+      const gitLabCreateStub = sandbox.stub(GitLab, 'create');
+      // passing a callback keeps yargs from exiting the process
+      await assert.rejects(
+        parser.parseAsync(
+          'manifest-pr --provider=gitlab --repo-url=myrepo',
+          () => {}
+        ),
+        ConfigurationError
+      );
+      sinon.assert.notCalled(gitLabCreateStub);
+    });
+
     it('instantiates Manifest with custom config/manifest', async () => {
       await parser.parseAsync(
         'manifest-pr --repo-url=googleapis/release-please-cli --config-file=foo.json --manifest-file=.bar.json'
@@ -209,6 +324,55 @@ describe('CLI', () => {
       sinon.assert.calledOnce(buildPullRequestsStub);
     });
 
+    it('handles --output-format=json', async () => {
+      sandbox.stub(fakeManifest, 'buildPullRequests').resolves([
+        {
+          title: PullRequestTitle.ofTargetBranch('main'),
+          body: new PullRequestBody([]),
+          labels: ['autorelease: pending'],
+          headRefName: 'release-please--branches--main',
+          version: Version.parse('1.2.3'),
+          draft: false,
+          updates: [
+            {
+              path: 'version.txt',
+              createIfMissing: false,
+              updater: new RawContent('1.2.3'),
+            },
+          ],
+        },
+      ]);
+      sandbox.stub(fakeGitHub, 'buildChangeSet').resolves(
+        new Map([
+          [
+            'version.txt',
+            {
+              content: '1.2.3',
+              originalContent: '1.2.2',
+              mode: '100644',
+            },
+          ],
+        ])
+      );
+      const output = captureOutput();
+
+      await parser.parseAsync(
+        'manifest-pr --repo-url=googleapis/release-please-cli --dry-run --output-format=json'
+      );
+
+      expect(output).to.have.lengthOf(1);
+      const {pullRequests} = JSON.parse(output[0]);
+      expect(pullRequests).to.have.lengthOf(1);
+      expect(pullRequests[0].title).to.eql('chore(main): release');
+      expect(pullRequests[0].version).to.eql('1.2.3');
+      expect(pullRequests[0].labels).to.eql(['autorelease: pending']);
+      expect(pullRequests[0].updates[0].path).to.eql('version.txt');
+      expect(pullRequests[0].updates[0].updater).to.eql('RawContent');
+      expect(pullRequests[0].updates[0].content).to.eql('1.2.3');
+      expect(pullRequests[0].updates[0].diff).to.include('-1.2.2');
+      expect(pullRequests[0].updates[0].diff).to.include('+1.2.3');
+    });
+
     it('handles --fork', async () => {
       await parser.parseAsync(
         'manifest-pr --repo-url=googleapis/release-please-cli --fork'
@@ -1157,6 +1321,64 @@ describe('CLI', () => {
       });
     });
   });
+  describe('diff', () => {
+    it('prints a diff of each updated file', async () => {
+      const fromManifestStub = sandbox
+        .stub(Manifest, 'fromManifest')
+        .resolves(fakeManifest);
+      sandbox.stub(fakeManifest, 'buildPullRequests').resolves([
+        {
+          title: PullRequestTitle.ofTargetBranch('main'),
+          body: new PullRequestBody([]),
+          labels: [],
+          headRefName: 'release-please--branches--main',
+          draft: false,
+          updates: [
+            {
+              path: 'version.txt',
+              createIfMissing: false,
+              updater: new RawContent('1.2.3'),
+            },
+            {
+              path: 'README.md',
+              createIfMissing: false,
+              updater: new RawContent('unchanged'),
+            },
+          ],
+        },
+      ]);
+      sandbox
+        .stub(fakeGitHub, 'buildChangeSet')
+        .resolves(
+          new Map([
+            [
+              'version.txt',
+              {content: '1.2.3', originalContent: '1.2.2', mode: '100644'},
+            ],
+          ])
+        );
+      const output = captureOutput();
+
+      await parser.parseAsync('diff --repo-url=googleapis/release-please-cli');
+
+      sinon.assert.calledOnceWithExactly(
+        fromManifestStub,
+        fakeGitHub,
+        'main',
+        DEFAULT_RELEASE_PLEASE_CONFIG,
+        DEFAULT_RELEASE_PLEASE_MANIFEST,
+        sinon.match.any,
+        undefined,
+        undefined
+      );
+      expect(output[0]).to.include('release-please--branches--main');
+      expect(output[1]).to.include('--- version.txt');
+      expect(output[1]).to.include('-1.2.2');
+      expect(output[1]).to.include('+1.2.3');
+      expect(output[2]).to.include('README.md: no changes');
+    });
+  });
+
   describe('github-release', () => {
     describe('with manifest options', () => {
       let fromManifestStub: sinon.SinonStub;
@@ -1281,6 +1503,50 @@ describe('CLI', () => {
         sinon.assert.calledOnce(buildReleasesStub);
       });
 
+      it('handles --output-format=json', async () => {
+        sandbox.stub(fakeManifest, 'buildReleases').resolves([
+          {
+            path: '.',
+            tag: new TagName(Version.parse('1.2.3'), 'foo'),
+            sha: 'abc123',
+            notes: 'some release notes',
+            pullRequest: {
+              number: 123,
+              title: 'chore(main): release foo 1.2.3',
+              body: '',
+              headBranchName: 'release-please--branches--main',
+              baseBranchName: 'main',
+              labels: [],
+              files: [],
+            },
+          },
+        ]);
+        const output = captureOutput();
+
+        await parser.parseAsync(
+          'github-release --repo-url=googleapis/release-please-cli --dry-run --output-format=json'
+        );
+
+        expect(output).to.have.lengthOf(1);
+        expect(JSON.parse(output[0])).to.eql({
+          releases: [
+            {
+              path: '.',
+              tag: 'foo-v1.2.3',
+              component: 'foo',
+              version: '1.2.3',
+              sha: 'abc123',
+              notes: 'some release notes',
+              pullRequest: {
+                number: 123,
+                title: 'chore(main): release foo 1.2.3',
+                headBranchName: 'release-please--branches--main',
+              },
+            },
+          ],
+        });
+      });
+
       it('handles --label and --release-label', async () => {
         await parser.parseAsync(
           'github-release --repo-url=googleapis/release-please-cli --label=foo,bar --release-label=asdf,qwer'
@@ -1601,6 +1867,174 @@ describe('CLI', () => {
         {}
       );
     });
+
+    it('discovers packages', async () => {
+      const discoverStub = sandbox
+        .stub(Bootstrapper.prototype, 'bootstrapDiscovered')
+        .resolves({
+          headBranchName: 'release-please/bootstrap/discovered',
+          baseBranchName: 'main',
+          number: 1234,
+          title: 'chore: bootstrap releases for 2 packages',
+          body: 'pr-body',
+          labels: [],
+          files: [],
+        });
+      await parser.parseAsync(
+        'bootstrap --repo-url=googleapis/release-please-cli --discover --bump-minor-pre-major'
+      );
+
+      sinon.assert.calledOnceWithExactly(
+        discoverStub,
+        sinon.match({bumpMinorPreMajor: true, component: undefined})
+      );
+    });
+  });
+
+  describe('migrate', () => {
+    it('migrates from the given tool', async () => {
+      const migrateStub = sandbox.stub(Migrator.prototype, 'migrate').resolves({
+        headBranchName: 'release-please/migrate/changesets',
+        baseBranchName: 'main',
+        number: 1234,
+        title: 'chore: migrate release configuration from changesets',
+        body: 'pr-body',
+        labels: [],
+        files: [],
+      });
+      await parser.parseAsync(
+        'migrate --repo-url=googleapis/release-please-cli --from=changesets'
+      );
+
+      sinon.assert.calledOnceWithExactly(migrateStub, 'changesets');
+    });
+  });
+
+  describe('lint-commits', () => {
+    beforeEach(() => {
+      process.exitCode = undefined;
+      fakeManifest = new Manifest(
+        fakeGitHub,
+        'main',
+        {
+          'packages/api': {
+            releaseType: 'node',
+            component: 'api',
+            changelogSections: [
+              {type: 'feat', section: 'Features'},
+              {type: 'fix', section: 'Bug Fixes'},
+            ],
+          },
+        },
+        {}
+      );
+      sandbox.stub(Manifest, 'fromManifest').resolves(fakeManifest);
+      sandbox
+        .stub(fakeManifest, 'getPathsByComponent')
+        .resolves({api: 'packages/api'});
+    });
+    afterEach(() => {
+      process.exitCode = undefined;
+    });
+
+    it('lints a commit message', async () => {
+      const output = captureOutput();
+
+      await parser.parseAsync(
+        'lint-commits --repo-url=googleapis/release-please-cli --output-format=json --message="feat(web): add a thing"'
+      );
+
+      const result = JSON.parse(output[0]);
+      expect(result.errorCount).to.eql(0);
+      expect(result.warningCount).to.eql(1);
+      expect(result.problems[0].rule).to.eql('scope-enum');
+      expect(process.exitCode).to.be.undefined;
+    });
+
+    it('allows additional scopes', async () => {
+      const output = captureOutput();
+
+      await parser.parseAsync(
+        'lint-commits --repo-url=googleapis/release-please-cli --output-format=json --message="feat(web): add a thing" --scopes=web,deps --rules=scope-enum=error'
+      );
+
+      const result = JSON.parse(output[0]);
+      expect(result.problems).to.be.empty;
+    });
+
+    it('fails for commits that are not conventional', async () => {
+      const commitsSinceStub = sandbox
+        .stub(fakeGitHub, 'commitsSince')
+        .callsFake(async (_branch, filter) => {
+          const commits = [
+            {sha: 'abc123', message: 'fix(api): a bug'},
+            {sha: 'def456', message: 'Update README'},
+            {sha: 'ghi789', message: 'wip: update README'},
+            {sha: 'abc000', message: 'chore: release'},
+          ];
+          return commits.slice(0, commits.findIndex(filter));
+        });
+      const output = captureOutput();
+
+      await parser.parseAsync(
+        'lint-commits --repo-url=googleapis/release-please-cli --output-format=json --from=abc000'
+      );
+
+      sinon.assert.calledOnceWithMatch(
+        commitsSinceStub,
+        'main',
+        sinon.match.func,
+        {
+          maxResults: fakeManifest.commitSearchDepth,
+        }
+      );
+      const result = JSON.parse(output[0]);
+      expect(result.errorCount).to.eql(2);
+      expect(
+        result.problems.map((problem: {rule: string}) => problem.rule)
+      ).to.eql(['conventional', 'type-enum']);
+      expect(process.exitCode).to.eql(1);
+    });
+
+    it('rejects a --from commit not found on the branch', async () => {
+      sandbox
+        .stub(fakeGitHub, 'commitsSince')
+        .resolves([{sha: 'abc123', message: 'fix(api): a bug'}]);
+
+      await assert.rejects(
+        parser.parseAsync(
+          'lint-commits --repo-url=googleapis/release-please-cli --from=abc000',
+          () => {}
+        ),
+        /Commit abc000 not found/
+      );
+    });
+
+    it('lints a pull request', async () => {
+      const getPullRequestStub = sandbox
+        .stub(fakeGitHub, 'getPullRequest')
+        .resolves({
+          headBranchName: 'head-branch',
+          baseBranchName: 'main',
+          number: 123,
+          title: 'fix: a bug',
+          body: 'Release-As: next',
+          labels: [],
+          files: [],
+          sha: 'abc123',
+        });
+      const output = captureOutput();
+
+      await parser.parseAsync(
+        'lint-commits --repo-url=googleapis/release-please-cli --output-format=json --pull-request=123'
+      );
+
+      sinon.assert.calledOnceWithExactly(getPullRequestStub, 123);
+      const result = JSON.parse(output[0]);
+      expect(result.errorCount).to.eql(1);
+      expect(result.problems[0].rule).to.eql('release-as');
+      expect(process.exitCode).to.eql(1);
+    });
   });
 
   describe('--help', () => {
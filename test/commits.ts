@@ -263,6 +263,21 @@ describe('parseConventionalCommits', () => {
     expect(commit.type).to.eql('chore');
   });
 
+  it('reports commits that cannot be parsed', async () => {
+    const unparsed: string[] = [];
+    const commits = [
+      {sha: 'sha1', message: 'feat: some feature'},
+      {sha: 'sha2', message: 'Update README'},
+    ];
+    const conventionalCommits = parseConventionalCommits(
+      commits,
+      undefined,
+      (commit, message) => unparsed.push(`${commit.sha} ${message}`)
+    );
+    expect(conventionalCommits).lengthOf(1);
+    expect(unparsed).to.eql(['sha2 Update README']);
+  });
+
   // it('ignores reverted commits', async () => {
   //   const commits = [
   //     {sha: 'sha1', message: 'feat: some feature', files: ['path1/file1.txt']},
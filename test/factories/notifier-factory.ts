@@ -0,0 +1,76 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {afterEach, beforeEach, describe, it} from 'mocha';
+import {expect} from 'chai';
+import {GitHub, getNotifierTypes, registerNotifier} from '../../src';
+import {
+  buildNotifier,
+  unregisterNotifier,
+} from '../../src/factories/notifier-factory';
+import {WebhookNotifier} from '../../src/notifiers/webhook';
+import {SlackNotifier} from '../../src/notifiers/slack';
+import {TeamsNotifier} from '../../src/notifiers/teams';
+
+describe('NotifierFactory', () => {
+  let github: GitHub;
+  beforeEach(async () => {
+    github = await GitHub.create({
+      owner: 'fake-owner',
+      repo: 'fake-repo',
+      defaultBranch: 'main',
+      token: 'fake-token',
+    });
+  });
+  describe('buildNotifier', () => {
+    it('should build a webhook notifier', () => {
+      const notifier = buildNotifier({github, type: 'webhook'});
+      expect(notifier).to.be.instanceof(WebhookNotifier);
+    });
+    it('should build a slack notifier', () => {
+      const notifier = buildNotifier({github, type: 'slack'});
+      expect(notifier).to.be.instanceof(SlackNotifier);
+    });
+    it('should build a teams notifier', () => {
+      const notifier = buildNotifier({github, type: 'teams'});
+      expect(notifier).to.be.instanceof(TeamsNotifier);
+    });
+    it('should throw for unknown type', () => {
+      expect(() => buildNotifier({github, type: 'non-existent'})).to.throw(
+        /Unknown notification type/
+      );
+    });
+  });
+  describe('getNotifierTypes', () => {
+    it('should return default types', () => {
+      expect(getNotifierTypes()).to.eql(['slack', 'teams', 'webhook']);
+    });
+  });
+  describe('registerNotifier', () => {
+    const notifierType = 'custom-test';
+
+    class CustomTest extends WebhookNotifier {}
+
+    afterEach(() => {
+      unregisterNotifier(notifierType);
+    });
+
+    it('should register new notifier', () => {
+      registerNotifier(notifierType, options => new CustomTest(options));
+      const notifier = buildNotifier({github, type: notifierType});
+      expect(notifier).to.be.instanceof(CustomTest);
+      expect(getNotifierTypes()).to.contain(notifierType);
+    });
+  });
+});
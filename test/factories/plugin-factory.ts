@@ -40,6 +40,9 @@ describe('PluginFactory', () => {
   describe('buildPlugin', () => {
     const simplePluginTypes: PluginType[] = [
       'cargo-workspace',
+      'deno-workspace',
+      'gradle-workspace',
+      'helm-workspace',
       'maven-workspace',
       'node-workspace',
     ];
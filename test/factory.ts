@@ -33,6 +33,8 @@ import {GitHubChangelogNotes} from '../src/changelog-notes/github';
 import {DefaultChangelogNotes} from '../src/changelog-notes/default';
 import {Java} from '../src/strategies/java';
 import {PrereleaseVersioningStrategy} from '../src/versioning-strategies/prerelease';
+import {CalendarVersioningStrategy} from '../src/versioning-strategies/calver';
+import {Pep440VersioningStrategy} from '../src/versioning-strategies/pep440';
 
 describe('factory', () => {
   let github: GitHub;
@@ -94,6 +96,32 @@ describe('factory', () => {
       expect(versioningStrategy.bumpPatchForMinorPreMajor).to.be.true;
       expect(versioningStrategy.prereleaseType).to.eql('alpha');
     });
+    it('should build with calver format', async () => {
+      const strategy = await buildStrategy({
+        github,
+        releaseType: 'simple',
+        versioning: 'calver',
+        calverFormat: 'YY.0W',
+      });
+      expect(strategy.versioningStrategy).instanceof(
+        CalendarVersioningStrategy
+      );
+      const versioningStrategy =
+        strategy.versioningStrategy as CalendarVersioningStrategy;
+      expect(versioningStrategy.format).to.eql('YY.0W');
+    });
+    it('should build with pep440 versioning', async () => {
+      const strategy = await buildStrategy({
+        github,
+        releaseType: 'python',
+        versioning: 'pep440',
+        prereleaseType: 'beta',
+      });
+      expect(strategy.versioningStrategy).instanceof(Pep440VersioningStrategy);
+      const versioningStrategy =
+        strategy.versioningStrategy as Pep440VersioningStrategy;
+      expect(versioningStrategy.prereleaseType).to.eql('b');
+    });
     it('should throw for unknown type', async () => {
       try {
         await buildStrategy({
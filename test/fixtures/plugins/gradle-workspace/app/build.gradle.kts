@@ -0,0 +1,10 @@
+plugins {
+    application
+}
+
+version = "2.0.0"
+
+dependencies {
+    implementation(project(":core"))
+    testImplementation(project(path = ":libs:util"))
+}
@@ -0,0 +1,8 @@
+rootProject.name = "gradle-test-repo"
+
+include(
+    ":core",
+    ":app",
+)
+// include(":legacy")
+include(":libs:util")
@@ -0,0 +1,392 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as nock from 'nock';
+import {expect} from 'chai';
+import {beforeEach, describe, it} from 'mocha';
+nock.disableNetConnect();
+
+import {readFileSync} from 'fs';
+import {resolve} from 'path';
+
+import {Gitea} from '../src/gitea';
+import {TagName} from '../src/util/tag-name';
+import {Version} from '../src/version';
+import {PullRequestBody} from '../src/util/pull-request-body';
+import {PullRequestTitle} from '../src/util/pull-request-title';
+import {RawContent} from '../src/updaters/raw-content';
+import {DuplicateReleaseError, FileNotFoundError} from '../src/errors';
+import assert = require('assert');
+const fetch = require('node-fetch');
+
+const fixturesPath = './test/fixtures/gitea';
+const API_URL = 'https://gitea.example.com/api/v1';
+
+function fixture(name: string) {
+  return JSON.parse(readFileSync(resolve(fixturesPath, name), 'utf8'));
+}
+
+describe('Gitea', () => {
+  let gitea: Gitea;
+  let req: nock.Scope;
+
+  beforeEach(async () => {
+    gitea = await Gitea.create({
+      owner: 'fake',
+      repo: 'fake',
+      defaultBranch: 'main',
+      apiUrl: API_URL,
+      token: 'some-token',
+      fetch,
+    });
+    req = nock(API_URL);
+  });
+
+  describe('create', () => {
+    it('fetches the default branch', async () => {
+      req.get('/repos/fake/fake').reply(200, {default_branch: 'develop'});
+      const gitea = await Gitea.create({
+        owner: 'fake',
+        repo: 'fake',
+        apiUrl: API_URL,
+        fetch,
+      });
+      expect(gitea.repository.defaultBranch).to.eql('develop');
+      req.done();
+    });
+
+    it('sends the access token', async () => {
+      nock(API_URL, {reqheaders: {authorization: 'token some-token'}})
+        .get('/repos/fake/fake/tags')
+        .query(true)
+        .reply(200, []);
+      const tags = [];
+      for await (const tag of gitea.tagIterator()) {
+        tags.push(tag);
+      }
+      expect(tags).to.be.empty;
+    });
+  });
+
+  describe('commitsSince', () => {
+    it('links commits to pull requests', async () => {
+      req
+        .get('/repos/fake/fake/commits')
+        .query({
+          sha: 'main',
+          stat: false,
+          verification: false,
+          files: true,
+          limit: 50,
+          page: 1,
+        })
+        .reply(200, fixture('commits.json'), {
+          link: `<${API_URL}/repos/fake/fake/commits?sha=main&page=2>; rel="next"`,
+        })
+        .get('/repos/fake/fake/commits')
+        .query(query => query.page === '2')
+        .reply(200, [])
+        .get(
+          '/repos/fake/fake/commits/e6daec403626c9987b82b3a9ad6d2e9e19a6ac67/pull'
+        )
+        .reply(200, fixture('pull-request.json'))
+        .get(
+          '/repos/fake/fake/commits/2a4f6c0e5bb2d4bd79e45f0d5a0d4f7e3fcbd1b1/pull'
+        )
+        .reply(404, {message: 'pull request does not exist'});
+      const commits = await gitea.commitsSince('main', () => false);
+      expect(commits).to.have.lengthOf(2);
+      expect(commits[0].pullRequest?.number).to.eql(12);
+      expect(commits[0].pullRequest?.labels).to.eql(['enhancement']);
+      expect(commits[0].files).to.eql(['src/widgets.ts']);
+      expect(commits[1].pullRequest).to.be.undefined;
+      expect(commits[1].files).to.be.undefined;
+      req.done();
+    });
+  });
+
+  describe('pullRequestIterator', () => {
+    it('filters merged pull requests by base branch', async () => {
+      req
+        .get('/repos/fake/fake/pulls')
+        .query(true)
+        .reply(200, [
+          fixture('pull-request.json'),
+          {...fixture('pull-request.json'), number: 13, merged: false},
+          {
+            ...fixture('pull-request.json'),
+            number: 14,
+            base: {ref: 'other'},
+          },
+        ])
+        .get('/repos/fake/fake/pulls/12/files')
+        .query(true)
+        .reply(200, [{filename: 'src/widgets.ts'}]);
+      const pullRequests = [];
+      for await (const pullRequest of gitea.pullRequestIterator('main')) {
+        pullRequests.push(pullRequest);
+      }
+      expect(pullRequests).to.have.lengthOf(1);
+      expect(pullRequests[0].number).to.eql(12);
+      expect(pullRequests[0].files).to.eql(['src/widgets.ts']);
+      req.done();
+    });
+  });
+
+  describe('releaseIterator', () => {
+    it('resolves the release commit from the tag', async () => {
+      req
+        .get('/repos/fake/fake/releases')
+        .query(true)
+        .reply(200, fixture('releases.json'))
+        .get('/repos/fake/fake/tags/v1.2.0')
+        .reply(200, {name: 'v1.2.0', commit: {sha: 'abc123'}});
+      const releases = [];
+      for await (const release of gitea.releaseIterator()) {
+        releases.push(release);
+      }
+      expect(releases).to.have.lengthOf(1);
+      expect(releases[0].id).to.eql(7);
+      expect(releases[0].tagName).to.eql('v1.2.0');
+      expect(releases[0].sha).to.eql('abc123');
+      req.done();
+    });
+  });
+
+  describe('getFileContentsOnBranch', () => {
+    it('decodes file contents', async () => {
+      req
+        .get('/repos/fake/fake/contents/packages%2Fa%2Fpackage.json')
+        .query({ref: 'main'})
+        .reply(200, {
+          type: 'file',
+          sha: 'abc123',
+          content: Buffer.from('{"version": "1.0.0"}').toString('base64'),
+        });
+      const contents = await gitea.getFileContentsOnBranch(
+        'packages/a/package.json',
+        'main'
+      );
+      expect(contents.sha).to.eql('abc123');
+      expect(contents.parsedContent).to.eql('{"version": "1.0.0"}');
+      req.done();
+    });
+
+    it('throws FileNotFoundError for a missing file', async () => {
+      req
+        .get('/repos/fake/fake/contents/missing.txt')
+        .query(true)
+        .reply(404, {message: 'object does not exist'});
+      await assert.rejects(
+        gitea.getFileContentsOnBranch('missing.txt', 'main'),
+        FileNotFoundError
+      );
+      req.done();
+    });
+  });
+
+  describe('findFilesByFilename', () => {
+    it('pages through the tree', async () => {
+      req
+        .get('/repos/fake/fake/git/trees/main')
+        .query({recursive: true, page: 1})
+        .reply(200, {
+          tree: [
+            {path: 'packages', type: 'tree'},
+            {path: 'packages/a/package.json', type: 'blob'},
+          ],
+          total_count: 3,
+        })
+        .get('/repos/fake/fake/git/trees/main')
+        .query({recursive: true, page: 2})
+        .reply(200, {
+          tree: [{path: 'package.json', type: 'blob'}],
+          total_count: 3,
+        });
+      const files = await gitea.findFilesByFilename('package.json');
+      expect(files).to.eql(['packages/a/package.json', 'package.json']);
+      req.done();
+    });
+  });
+
+  describe('createPullRequest', () => {
+    it('recreates the branch and opens a labeled pull request', async () => {
+      req
+        .get('/repos/fake/fake/contents/README.md')
+        .query({ref: 'main'})
+        .reply(200, {
+          type: 'file',
+          sha: 'def456',
+          content: Buffer.from('old').toString('base64'),
+        })
+        .delete('/repos/fake/fake/branches/release-please--branches--main')
+        .reply(404)
+        .post('/repos/fake/fake/contents', body => {
+          expect(body).to.eql({
+            branch: 'main',
+            new_branch: 'release-please--branches--main',
+            message: 'chore: release main',
+            files: [
+              {
+                operation: 'update',
+                path: 'README.md',
+                content: Buffer.from('new').toString('base64'),
+                sha: 'def456',
+              },
+            ],
+          });
+          return true;
+        })
+        .reply(201, {})
+        .post('/repos/fake/fake/pulls', body => {
+          expect(body.title).to.eql('WIP: chore: release main');
+          return true;
+        })
+        .reply(201, {
+          ...fixture('pull-request.json'),
+          number: 13,
+          labels: [],
+          merged: false,
+          merge_commit_sha: null,
+        })
+        .get('/repos/fake/fake/labels')
+        .query(true)
+        .reply(200, [{id: 3, name: 'other'}])
+        .post('/repos/fake/fake/labels', {
+          name: 'autorelease: pending',
+          color: '#ededed',
+        })
+        .reply(201, {id: 4, name: 'autorelease: pending'})
+        .post('/repos/fake/fake/issues/13/labels', {labels: [4]})
+        .reply(200, []);
+      const pullRequest = await gitea.createPullRequest(
+        {
+          headBranchName: 'release-please--branches--main',
+          baseBranchName: 'main',
+          number: -1,
+          title: 'chore: release main',
+          body: 'release notes',
+          labels: ['autorelease: pending'],
+          files: [],
+        },
+        'main',
+        'chore: release main',
+        [
+          {
+            path: 'README.md',
+            createIfMissing: false,
+            updater: new RawContent('new'),
+          },
+        ],
+        {draft: true}
+      );
+      expect(pullRequest.number).to.eql(13);
+      expect(pullRequest.labels).to.eql(['autorelease: pending']);
+      req.done();
+    });
+  });
+
+  describe('updatePullRequest', () => {
+    it('updates and reopens the pull request', async () => {
+      req
+        .patch('/repos/fake/fake/pulls/13', body => {
+          expect(body.state).to.eql('open');
+          expect(body.title).to.eql('chore(main): release');
+          return true;
+        })
+        .reply(200, {...fixture('pull-request.json'), number: 13});
+      const pullRequest = await gitea.updatePullRequest(
+        13,
+        {
+          title: PullRequestTitle.ofTargetBranch('main'),
+          body: new PullRequestBody([]),
+          labels: [],
+          headRefName: 'release-please--branches--main',
+          draft: false,
+          updates: [],
+        },
+        'main'
+      );
+      expect(pullRequest.number).to.eql(13);
+      req.done();
+    });
+  });
+
+  describe('createRelease', () => {
+    it('creates a release', async () => {
+      req
+        .post('/repos/fake/fake/releases', body => {
+          expect(body).to.eql({
+            tag_name: 'v1.2.3',
+            target_commitish: 'abc123',
+            body: 'Some release notes',
+            draft: false,
+            prerelease: true,
+          });
+          return true;
+        })
+        .reply(201, {
+          id: 8,
+          name: '',
+          tag_name: 'v1.2.3',
+          target_commitish: 'abc123',
+          body: 'Some release notes',
+          html_url: 'https://gitea.example.com/fake/fake/releases/tag/v1.2.3',
+          draft: false,
+        });
+      const release = await gitea.createRelease(
+        {
+          tag: new TagName(Version.parse('1.2.3')),
+          sha: 'abc123',
+          notes: 'Some release notes',
+        },
+        {prerelease: true}
+      );
+      expect(release.id).to.eql(8);
+      expect(release.sha).to.eql('abc123');
+      expect(release.url).to.eql(
+        'https://gitea.example.com/fake/fake/releases/tag/v1.2.3'
+      );
+      req.done();
+    });
+
+    it('raises a DuplicateReleaseError if the release exists', async () => {
+      req
+        .post('/repos/fake/fake/releases')
+        .reply(409, {message: 'Release is has no Tag'});
+      await assert.rejects(
+        gitea.createRelease({
+          tag: new TagName(Version.parse('1.2.3')),
+          sha: 'abc123',
+          notes: 'Some release notes',
+        }),
+        DuplicateReleaseError
+      );
+      req.done();
+    });
+  });
+
+  describe('removeIssueLabels', () => {
+    it('removes known labels by id', async () => {
+      req
+        .get('/repos/fake/fake/labels')
+        .query(true)
+        .reply(200, [{id: 4, name: 'autorelease: pending'}])
+        .delete('/repos/fake/fake/issues/12/labels/4')
+        .reply(204);
+      await gitea.removeIssueLabels(['autorelease: pending', 'unknown'], 12);
+      req.done();
+    });
+  });
+});
@@ -17,8 +17,9 @@ import {expect} from 'chai';
 import {afterEach, beforeEach, describe, it} from 'mocha';
 nock.disableNetConnect();
 
-import {readFileSync} from 'fs';
-import {resolve} from 'path';
+import {mkdtempSync, readFileSync, rmSync} from 'fs';
+import {tmpdir} from 'os';
+import {join, resolve} from 'path';
 import * as snapshot from 'snap-shot-it';
 import * as sinon from 'sinon';
 
@@ -605,6 +606,30 @@ describe('GitHub', () => {
       snapshot(commits!);
       req.done();
     });
+
+    it('includes pull request authors', async () => {
+      const graphql = JSON.parse(
+        readFileSync(
+          resolve(fixturesPath, 'commits-since-authors.json'),
+          'utf8'
+        )
+      );
+      req.post('/graphql').reply(200, {
+        data: graphql,
+      });
+      const generator = github.mergeCommitIterator('main');
+      const commits: Commit[] = [];
+      for await (const commit of generator) {
+        commits.push(commit);
+      }
+      expect(commits).lengthOf(2);
+      expect(commits[0].pullRequest?.author).to.eql('chingor13');
+      expect(commits[0].pullRequest?.authorAssociation).to.eql(
+        'FIRST_TIME_CONTRIBUTOR'
+      );
+      expect(commits[1].pullRequest?.author).to.be.undefined;
+      req.done();
+    });
   });
 
   describe('getCommitFiles', () => {
@@ -635,6 +660,179 @@ describe('GitHub', () => {
     });
   });
 
+  describe('with a cache directory', () => {
+    let cacheDir: string;
+    async function createCachedGitHub(): Promise<GitHub> {
+      return await GitHub.create({
+        owner: 'fake',
+        repo: 'fake',
+        defaultBranch: 'main',
+        fetch,
+        cacheDir,
+      });
+    }
+    beforeEach(() => {
+      cacheDir = mkdtempSync(join(tmpdir(), 'release-please-cache-'));
+    });
+    afterEach(() => {
+      rmSync(cacheDir, {recursive: true, force: true});
+    });
+
+    it('reuses commit file lists across runs', async () => {
+      req
+        .get('/repos/fake/fake/commits/abc1234')
+        .reply(200, {files: [{filename: 'abc'}]});
+      const files = await (
+        await createCachedGitHub()
+      ).getCommitFiles('abc1234');
+      expect(files).to.eql(['abc']);
+      req.done();
+
+      // no further requests are mocked
+      const cachedFiles = await (
+        await createCachedGitHub()
+      ).getCommitFiles('abc1234');
+      expect(cachedFiles).to.eql(['abc']);
+    });
+
+    it('does not cache truncated commit file lists', async () => {
+      const truncated = Array.from({length: 3000}, (_, i) => ({
+        filename: `file-${i}`,
+      }));
+      req
+        .get('/repos/fake/fake/commits/abc1234')
+        .twice()
+        .reply(200, {files: truncated});
+      for (let run = 0; run < 2; run++) {
+        const files = await (
+          await createCachedGitHub()
+        ).getCommitFiles('abc1234');
+        expect(files).lengthOf(3000);
+      }
+      req.done();
+    });
+
+    it('reuses pull request details across runs', async () => {
+      const history = (updatedAt: string) => ({
+        data: {
+          repository: {
+            ref: {
+              target: {
+                history: {
+                  nodes: [
+                    {
+                      associatedPullRequests: {
+                        nodes: [{id: 'PR_1', number: 123, updatedAt}],
+                      },
+                      sha: 'abc1234',
+                      message: 'fix: some bugfix (#123)',
+                    },
+                  ],
+                  pageInfo: {hasNextPage: false},
+                },
+              },
+            },
+          },
+        },
+      });
+      const details = (title: string) => ({
+        data: {
+          nodes: [
+            {
+              id: 'PR_1',
+              number: 123,
+              title,
+              baseRefName: 'main',
+              headRefName: 'fix-bug',
+              labels: {nodes: [{name: 'bug'}]},
+              body: 'some body',
+              mergeCommit: {oid: 'abc1234'},
+              files: {
+                nodes: [{path: 'src/index.ts'}],
+                pageInfo: {hasNextPage: false},
+              },
+            },
+          ],
+        },
+      });
+      const isHistory = (body: {query: string}) =>
+        body.query.includes('pullRequestsSince') &&
+        !body.query.includes('maxFilesChanged');
+      const isDetails = (body: {query: string; variables: {ids: string[]}}) =>
+        body.query.includes('pullRequestDetails') &&
+        body.variables.ids.join() === 'PR_1';
+      req
+        .post('/graphql', isHistory)
+        .twice()
+        .reply(200, history('2024-05-01T12:00:00Z'))
+        .post('/graphql', isDetails)
+        .reply(200, details('fix: some bugfix'))
+        // an edited pull request is fetched again
+        .post('/graphql', isHistory)
+        .reply(200, history('2024-05-02T12:00:00Z'))
+        .post('/graphql', isDetails)
+        .reply(200, details('fix: some edited bugfix'));
+
+      const titles: string[] = [];
+      for (let run = 0; run < 3; run++) {
+        const commits = await (
+          await createCachedGitHub()
+        ).commitsSince('main', () => false);
+        expect(commits).lengthOf(1);
+        expect(commits[0].files).to.eql(['src/index.ts']);
+        expect(commits[0].pullRequest?.labels).to.eql(['bug']);
+        titles.push(commits[0].pullRequest!.title);
+      }
+      expect(titles).to.eql([
+        'fix: some bugfix',
+        'fix: some bugfix',
+        'fix: some edited bugfix',
+      ]);
+      req.done();
+    });
+
+    it('reuses file contents across runs', async () => {
+      const dataAPITreesResponse = JSON.parse(
+        readFileSync(
+          resolve(
+            fixturesPath,
+            'github-data-api',
+            'data-api-trees-successful-response.json'
+          ),
+          'utf8'
+        )
+      );
+      const dataAPIBlobResponse = JSON.parse(
+        readFileSync(
+          resolve(
+            fixturesPath,
+            'github-data-api',
+            'data-api-blobs-successful-response.json'
+          ),
+          'utf8'
+        )
+      );
+      req
+        .get('/repos/fake/fake/git/trees/main?recursive=true')
+        .twice()
+        .reply(200, dataAPITreesResponse)
+        .get(
+          '/repos/fake/fake/git/blobs/2f3d2c47bf49f81aca0df9ffc49524a213a2dc33'
+        )
+        .reply(200, dataAPIBlobResponse);
+
+      const fileContents = await (
+        await createCachedGitHub()
+      ).getFileContents('package-lock.json');
+      // the tree is fetched again as branches move, the blob is not
+      const cachedContents = await (
+        await createCachedGitHub()
+      ).getFileContents('package-lock.json');
+      expect(cachedContents).to.eql(fileContents);
+      req.done();
+    });
+  });
+
   describe('releaseIterator', () => {
     it('iterates through releases', async () => {
       const graphql = JSON.parse(
@@ -649,6 +847,7 @@ describe('GitHub', () => {
         releases.push(release);
       }
       expect(releases).lengthOf(5);
+      expect(releases[0].id).to.eql(98765);
     });
 
     it('iterates through up to 3 releases', async () => {
@@ -861,6 +1060,136 @@ describe('GitHub', () => {
     });
   });
 
+  describe('uploadReleaseAssets', () => {
+    const release: GitHubRelease = {
+      id: 123456,
+      tagName: 'v1.2.3',
+      sha: 'abc123',
+      url: 'https://github.com/fake/fake/releases/tag/v1.2.3',
+      draft: true,
+    };
+
+    it('uploads assets to a release by id', async () => {
+      const uploads = nock('https://uploads.github.com/')
+        .post('/repos/fake/fake/releases/123456/assets')
+        .query({name: 'fake-cli.tar.gz'})
+        .matchHeader('content-type', 'application/octet-stream')
+        .reply(201, {
+          browser_download_url:
+            'https://github.com/fake/fake/releases/download/v1.2.3/fake-cli.tar.gz',
+        })
+        .post('/repos/fake/fake/releases/123456/assets', 'abc  fake-cli.tar.gz')
+        .query({name: 'SHA256SUMS'})
+        .matchHeader('content-type', 'text/plain')
+        .reply(201, {
+          browser_download_url:
+            'https://github.com/fake/fake/releases/download/v1.2.3/SHA256SUMS',
+        });
+      req
+        .get('/repos/fake/fake/releases/123456')
+        .reply(200, {
+          id: 123456,
+          tag_name: 'v1.2.3',
+          upload_url:
+            'https://uploads.github.com/repos/fake/fake/releases/123456/assets{?name,label}',
+        })
+        .get('/repos/fake/fake/releases/123456/assets?per_page=100')
+        .reply(200, []);
+
+      const urls = await github.uploadReleaseAssets(release, [
+        {name: 'fake-cli.tar.gz', content: Buffer.from('binary')},
+        {
+          name: 'SHA256SUMS',
+          content: Buffer.from('abc  fake-cli.tar.gz'),
+          contentType: 'text/plain',
+        },
+      ]);
+      req.done();
+      uploads.done();
+      expect(urls).to.eql([
+        'https://github.com/fake/fake/releases/download/v1.2.3/fake-cli.tar.gz',
+        'https://github.com/fake/fake/releases/download/v1.2.3/SHA256SUMS',
+      ]);
+    });
+
+    it('replaces existing assets of a release', async () => {
+      const uploads = nock('https://uploads.github.com/')
+        .post('/repos/fake/fake/releases/123456/assets', 'new binary')
+        .query({name: 'fake-cli.tar.gz.uploading'})
+        .reply(201, {
+          id: 3,
+          browser_download_url:
+            'https://github.com/fake/fake/releases/download/v1.2.3/fake-cli.tar.gz.uploading',
+        });
+      req
+        .get('/repos/fake/fake/releases/123456')
+        .reply(200, {
+          id: 123456,
+          tag_name: 'v1.2.3',
+          upload_url:
+            'https://uploads.github.com/repos/fake/fake/releases/123456/assets{?name,label}',
+        })
+        .get('/repos/fake/fake/releases/123456/assets?per_page=100')
+        .reply(200, [
+          {id: 1, name: 'fake-cli.tar.gz'},
+          {id: 2, name: 'other.zip'},
+        ])
+        .delete('/repos/fake/fake/releases/assets/1')
+        .reply(204)
+        .patch('/repos/fake/fake/releases/assets/3', {name: 'fake-cli.tar.gz'})
+        .reply(200, {
+          id: 3,
+          browser_download_url:
+            'https://github.com/fake/fake/releases/download/v1.2.3/fake-cli.tar.gz',
+        });
+
+      const urls = await github.uploadReleaseAssets(release, [
+        {name: 'fake-cli.tar.gz', content: Buffer.from('new binary')},
+      ]);
+      req.done();
+      uploads.done();
+      expect(urls).to.eql([
+        'https://github.com/fake/fake/releases/download/v1.2.3/fake-cli.tar.gz',
+      ]);
+    });
+
+    it('removes a replacement left behind by a failed upload', async () => {
+      const uploads = nock('https://uploads.github.com/')
+        .post('/repos/fake/fake/releases/123456/assets', 'new binary')
+        .query({name: 'fake-cli.tar.gz.uploading'})
+        .reply(201, {id: 4});
+      req
+        .get('/repos/fake/fake/releases/123456')
+        .reply(200, {
+          id: 123456,
+          tag_name: 'v1.2.3',
+          upload_url:
+            'https://uploads.github.com/repos/fake/fake/releases/123456/assets{?name,label}',
+        })
+        .get('/repos/fake/fake/releases/123456/assets?per_page=100')
+        .reply(200, [
+          {id: 1, name: 'fake-cli.tar.gz'},
+          {id: 3, name: 'fake-cli.tar.gz.uploading'},
+        ])
+        .delete('/repos/fake/fake/releases/assets/3')
+        .reply(204)
+        .delete('/repos/fake/fake/releases/assets/1')
+        .reply(204)
+        .patch('/repos/fake/fake/releases/assets/4', {name: 'fake-cli.tar.gz'})
+        .reply(200, {
+          id: 4,
+          browser_download_url:
+            'https://github.com/fake/fake/releases/download/v1.2.3/fake-cli.tar.gz',
+        });
+
+      await github.uploadReleaseAssets(release, [
+        {name: 'fake-cli.tar.gz', content: Buffer.from('new binary')},
+      ]);
+      req.done();
+      uploads.done();
+    });
+  });
+
   describe('commentOnIssue', () => {
     it('can create a comment', async () => {
       const createCommentResponse = JSON.parse(
@@ -0,0 +1,569 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as nock from 'nock';
+import {expect} from 'chai';
+import {beforeEach, describe, it} from 'mocha';
+nock.disableNetConnect();
+
+import {readFileSync} from 'fs';
+import {resolve} from 'path';
+
+import {GitLab} from '../src/gitlab';
+import {TagName} from '../src/util/tag-name';
+import {Version} from '../src/version';
+import {PullRequestBody} from '../src/util/pull-request-body';
+import {PullRequestTitle} from '../src/util/pull-request-title';
+import {RawContent} from '../src/updaters/raw-content';
+import {
+  ConfigurationError,
+  DuplicateReleaseError,
+  FileNotFoundError,
+} from '../src/errors';
+import assert = require('assert');
+const fetch = require('node-fetch');
+
+const fixturesPath = './test/fixtures/gitlab';
+
+function fixture(name: string) {
+  return JSON.parse(readFileSync(resolve(fixturesPath, name), 'utf8'));
+}
+
+describe('GitLab', () => {
+  let gitlab: GitLab;
+  let req: nock.Scope;
+
+  beforeEach(async () => {
+    gitlab = await GitLab.create({
+      owner: 'fake',
+      repo: 'fake',
+      defaultBranch: 'main',
+      token: 'some-token',
+      fetch,
+    });
+    req = nock('https://gitlab.com/api/v4');
+  });
+
+  describe('create', () => {
+    it('fetches the default branch', async () => {
+      req
+        .get('/projects/some-group%2Fsome-project')
+        .reply(200, {default_branch: 'develop'});
+      const gitlab = await GitLab.create({
+        owner: 'some-group',
+        repo: 'some-project',
+        fetch,
+      });
+      expect(gitlab.repository.defaultBranch).to.eql('develop');
+      req.done();
+    });
+
+    it('sends the access token', async () => {
+      nock('https://gitlab.com/api/v4', {
+        reqheaders: {'private-token': 'some-token'},
+      })
+        .get('/projects/fake%2Ffake/repository/tags')
+        .query(true)
+        .reply(200, []);
+      const tags = [];
+      for await (const tag of gitlab.tagIterator()) {
+        tags.push(tag);
+      }
+      expect(tags).to.be.empty;
+    });
+
+    it('supports self-hosted instances', async () => {
+      const scope = nock('https://gitlab.example.com/api/v4')
+        .get('/projects/fake%2Ffake/merge_requests/3')
+        .reply(200, fixture('merge-request.json'));
+      const gitlab = await GitLab.create({
+        owner: 'fake',
+        repo: 'fake',
+        defaultBranch: 'main',
+        apiUrl: 'https://gitlab.example.com/api/v4',
+        fetch,
+      });
+      const pullRequest = await gitlab.getPullRequest(3);
+      expect(pullRequest.number).to.eql(12);
+      scope.done();
+    });
+  });
+
+  describe('commitsSince', () => {
+    it('links commits to merge requests', async () => {
+      const mergeRequest = fixture('merge-request.json');
+      req
+        .get('/projects/fake%2Ffake/repository/commits')
+        .query({ref_name: 'main', per_page: 100, page: 1})
+        .reply(200, fixture('commits.json'))
+        .get('/projects/fake%2Ffake/merge_requests')
+        .query({
+          state: 'merged',
+          target_branch: 'main',
+          order_by: 'updated_at',
+          sort: 'desc',
+          per_page: 100,
+          page: 1,
+        })
+        .reply(200, [mergeRequest], {'x-next-page': '2'})
+        .get('/projects/fake%2Ffake/merge_requests')
+        .query(query => query.page === '2')
+        .reply(200, [], {'x-next-page': ''})
+        .get(
+          '/projects/fake%2Ffake/repository/commits/e6daec403626c9987b82b3a9ad6d2e9e19a6ac67/diff'
+        )
+        .query(true)
+        .reply(200, [{new_path: 'src/widgets.ts', old_path: 'src/widgets.ts'}]);
+      const commits = await gitlab.commitsSince(
+        'main',
+        commit => commit.sha === '2a4f6c0e5bb2d4bd79e45f0d5a0d4f7e3fcbd1b1'
+      );
+      expect(commits).to.have.lengthOf(2);
+      expect(commits[0].pullRequest?.number).to.eql(12);
+      expect(commits[0].pullRequest?.labels).to.eql(['enhancement']);
+      expect(commits[0].files).to.eql(['src/widgets.ts']);
+      expect(commits[1].pullRequest?.number).to.eql(12);
+      expect(commits[1].pullRequest?.mergeCommitOid).to.be.undefined;
+      expect(commits[1].files).to.be.undefined;
+      req.done();
+    });
+
+    it('stops reading merge requests older than the commit', async () => {
+      const commits = fixture('commits.json');
+      const olderMergeRequest = {
+        ...fixture('merge-request.json'),
+        iid: 11,
+        sha: 'c0ffee0000000000000000000000000000000000',
+        merge_commit_sha: 'c0ffee1111111111111111111111111111111111',
+        updated_at: '2024-04-01T00:00:00Z',
+      };
+      req
+        .get('/projects/fake%2Ffake/repository/commits')
+        .query(true)
+        .reply(200, [commits[2]])
+        .get('/projects/fake%2Ffake/merge_requests')
+        .query(true)
+        .reply(200, [olderMergeRequest], {'x-next-page': '2'});
+      const found = await gitlab.commitsSince('main', () => false);
+      expect(found).to.have.lengthOf(1);
+      expect(found[0].pullRequest).to.be.undefined;
+      req.done();
+    });
+
+    it('follows pagination', async () => {
+      const [first, second] = fixture('commits.json');
+      req
+        .get('/projects/fake%2Ffake/repository/commits')
+        .query({ref_name: 'main', per_page: 100, page: 1})
+        .reply(200, [first], {'x-next-page': '2'})
+        .get('/projects/fake%2Ffake/repository/commits')
+        .query({ref_name: 'main', per_page: 100, page: 2})
+        .reply(200, [second], {'x-next-page': ''})
+        .get('/projects/fake%2Ffake/merge_requests')
+        .query(true)
+        .reply(200, []);
+      const commits = await gitlab.commitsSince('main', () => false);
+      expect(commits.map(commit => commit.sha)).to.eql([first.id, second.id]);
+      req.done();
+    });
+
+    it('handles a missing branch', async () => {
+      req
+        .get('/projects/fake%2Ffake/repository/commits')
+        .query(true)
+        .reply(404, {message: '404 Not Found'});
+      const commits = await gitlab.commitsSince('missing', () => false);
+      expect(commits).to.be.empty;
+      req.done();
+    });
+  });
+
+  describe('releaseIterator', () => {
+    it('iterates releases', async () => {
+      req
+        .get('/projects/fake%2Ffake/releases')
+        .query(true)
+        .reply(200, fixture('releases.json'));
+      const releases = [];
+      for await (const release of gitlab.releaseIterator({maxResults: 1})) {
+        releases.push(release);
+      }
+      expect(releases).to.have.lengthOf(1);
+      expect(releases[0].tagName).to.eql('v1.2.0');
+      expect(releases[0].sha).to.eql(
+        'e6daec403626c9987b82b3a9ad6d2e9e19a6ac67'
+      );
+      expect(releases[0].url).to.eql(
+        'https://gitlab.com/fake/fake/-/releases/v1.2.0'
+      );
+      req.done();
+    });
+  });
+
+  describe('getFileContentsOnBranch', () => {
+    it('decodes and caches file contents', async () => {
+      req
+        .get(
+          '/projects/fake%2Ffake/repository/files/packages%2Fa%2Fpackage.json'
+        )
+        .query({ref: 'main'})
+        .once()
+        .reply(200, {
+          blob_id: 'abc123',
+          content: Buffer.from('{"version": "1.0.0"}').toString('base64'),
+        });
+      const contents = await gitlab.getFileContentsOnBranch(
+        'packages/a/package.json',
+        'main'
+      );
+      expect(contents.sha).to.eql('abc123');
+      expect(contents.mode).to.eql('100644');
+      expect(contents.parsedContent).to.eql('{"version": "1.0.0"}');
+      const json = await gitlab.getFileJson<{version: string}>(
+        'packages/a/package.json',
+        'main'
+      );
+      expect(json.version).to.eql('1.0.0');
+      req.done();
+    });
+
+    it('throws FileNotFoundError for a missing file', async () => {
+      req
+        .get('/projects/fake%2Ffake/repository/files/missing.txt')
+        .query(true)
+        .reply(404, {message: '404 File Not Found'});
+      await assert.rejects(
+        gitlab.getFileContentsOnBranch('missing.txt', 'main'),
+        FileNotFoundError
+      );
+      req.done();
+    });
+  });
+
+  describe('findFilesByFilename', () => {
+    beforeEach(() => {
+      req
+        .get('/projects/fake%2Ffake/repository/tree')
+        .query({ref: 'main', recursive: true, per_page: 100, page: 1})
+        .reply(200, fixture('tree.json'));
+    });
+
+    it('finds files in the tree', async () => {
+      const files = await gitlab.findFilesByFilename('package.json');
+      expect(files).to.eql([
+        'packages/a/package.json',
+        'packages/b/package.json',
+        'package.json',
+      ]);
+      req.done();
+    });
+
+    it('returns files relative to a prefix', async () => {
+      const files = await gitlab.findFilesByFilename(
+        'package.json',
+        'packages/'
+      );
+      expect(files).to.eql(['a/package.json', 'b/package.json']);
+      req.done();
+    });
+
+    it('finds files by glob', async () => {
+      const files = await gitlab.findFilesByGlob('packages/*/src/*.ts');
+      expect(files).to.eql(['packages/a/src/index.ts']);
+      req.done();
+    });
+  });
+
+  describe('createPullRequest', () => {
+    it('commits updates and opens a merge request', async () => {
+      req
+        .get('/projects/fake%2Ffake/repository/files/README.md')
+        .query({ref: 'main'})
+        .reply(404)
+        .post('/projects/fake%2Ffake/repository/commits', body => {
+          expect(body).to.eql({
+            branch: 'release-please--branches--main',
+            start_branch: 'main',
+            force: true,
+            commit_message: 'chore: release main',
+            actions: [
+              {action: 'create', file_path: 'README.md', content: 'new'},
+            ],
+          });
+          return true;
+        })
+        .reply(201, {})
+        .post('/projects/fake%2Ffake/merge_requests', body => {
+          expect(body.title).to.eql('Draft: chore: release main');
+          expect(body.labels).to.eql('autorelease: pending');
+          return true;
+        })
+        .reply(201, {
+          ...fixture('merge-request.json'),
+          iid: 13,
+          state: 'opened',
+          merge_commit_sha: null,
+        });
+      const pullRequest = await gitlab.createPullRequest(
+        {
+          headBranchName: 'release-please--branches--main',
+          baseBranchName: 'main',
+          number: -1,
+          title: 'chore: release main',
+          body: 'release notes',
+          labels: ['autorelease: pending'],
+          files: [],
+        },
+        'main',
+        'chore: release main',
+        [
+          {
+            path: 'README.md',
+            createIfMissing: true,
+            updater: new RawContent('new'),
+          },
+        ],
+        {draft: true}
+      );
+      expect(pullRequest.number).to.eql(13);
+      expect(pullRequest.sha).to.be.undefined;
+      req.done();
+    });
+
+    it('keeps executable files executable', async () => {
+      req
+        .get('/projects/fake%2Ffake/repository/files/bin%2Frelease.sh')
+        .query({ref: 'main'})
+        .reply(200, {
+          blob_id: 'abc123',
+          content: Buffer.from('old').toString('base64'),
+          execute_filemode: true,
+        })
+        .post('/projects/fake%2Ffake/repository/commits', body => {
+          expect(body.actions).to.eql([
+            {action: 'update', file_path: 'bin/release.sh', content: 'new'},
+            {
+              action: 'chmod',
+              file_path: 'bin/release.sh',
+              execute_filemode: true,
+            },
+          ]);
+          return true;
+        })
+        .reply(201, {})
+        .post('/projects/fake%2Ffake/merge_requests')
+        .reply(201, {
+          ...fixture('merge-request.json'),
+          iid: 13,
+          state: 'opened',
+          merge_commit_sha: null,
+        });
+      await gitlab.createPullRequest(
+        {
+          headBranchName: 'release-please--branches--main',
+          baseBranchName: 'main',
+          number: -1,
+          title: 'chore: release main',
+          body: 'release notes',
+          labels: [],
+          files: [],
+        },
+        'main',
+        'chore: release main',
+        [
+          {
+            path: 'bin/release.sh',
+            createIfMissing: false,
+            updater: new RawContent('new'),
+          },
+        ]
+      );
+      req.done();
+    });
+
+    it('does not serve stale contents of the committed branch', async () => {
+      const branch = 'release-please--branches--main';
+      req
+        .get('/projects/fake%2Ffake/repository/files/README.md')
+        .query({ref: branch})
+        .reply(200, {
+          blob_id: 'abc123',
+          content: Buffer.from('old').toString('base64'),
+        })
+        .get('/projects/fake%2Ffake/repository/files/README.md')
+        .query({ref: 'main'})
+        .reply(200, {
+          blob_id: 'abc123',
+          content: Buffer.from('old').toString('base64'),
+        })
+        .post('/projects/fake%2Ffake/repository/commits')
+        .reply(201, {})
+        .post('/projects/fake%2Ffake/merge_requests')
+        .reply(201, {
+          ...fixture('merge-request.json'),
+          iid: 13,
+          state: 'opened',
+          merge_commit_sha: null,
+        })
+        .get('/projects/fake%2Ffake/repository/files/README.md')
+        .query({ref: branch})
+        .reply(200, {
+          blob_id: 'def456',
+          content: Buffer.from('new').toString('base64'),
+        });
+      const before = await gitlab.getFileContentsOnBranch('README.md', branch);
+      expect(before.parsedContent).to.eql('old');
+      await gitlab.createPullRequest(
+        {
+          headBranchName: branch,
+          baseBranchName: 'main',
+          number: -1,
+          title: 'chore: release main',
+          body: 'release notes',
+          labels: [],
+          files: [],
+        },
+        'main',
+        'chore: release main',
+        [
+          {
+            path: 'README.md',
+            createIfMissing: false,
+            updater: new RawContent('new'),
+          },
+        ]
+      );
+      const after = await gitlab.getFileContentsOnBranch('README.md', branch);
+      expect(after.parsedContent).to.eql('new');
+      req.done();
+    });
+  });
+
+  describe('updatePullRequest', () => {
+    it('updates and reopens the merge request', async () => {
+      req
+        .post('/projects/fake%2Ffake/repository/commits')
+        .reply(201, {})
+        .put('/projects/fake%2Ffake/merge_requests/13', body => {
+          expect(body.state_event).to.eql('reopen');
+          expect(body.title).to.eql('chore(main): release');
+          return true;
+        })
+        .reply(200, {...fixture('merge-request.json'), iid: 13});
+      const pullRequest = await gitlab.updatePullRequest(
+        13,
+        {
+          title: PullRequestTitle.ofTargetBranch('main'),
+          body: new PullRequestBody([]),
+          labels: [],
+          headRefName: 'release-please--branches--main',
+          draft: false,
+          updates: [],
+        },
+        'main'
+      );
+      expect(pullRequest.number).to.eql(13);
+      req.done();
+    });
+  });
+
+  describe('createRelease', () => {
+    it('creates a release', async () => {
+      req
+        .post('/projects/fake%2Ffake/releases', body => {
+          expect(body).to.eql({
+            tag_name: 'v1.2.3',
+            ref: 'abc123',
+            description: 'Some release notes',
+          });
+          return true;
+        })
+        .reply(201, {
+          name: null,
+          tag_name: 'v1.2.3',
+          description: 'Some release notes',
+          commit: {id: 'abc123'},
+          _links: {self: 'https://gitlab.com/fake/fake/-/releases/v1.2.3'},
+        });
+      const release = await gitlab.createRelease({
+        tag: new TagName(Version.parse('1.2.3')),
+        sha: 'abc123',
+        notes: 'Some release notes',
+      });
+      expect(release.tagName).to.eql('v1.2.3');
+      expect(release.sha).to.eql('abc123');
+      expect(release.url).to.eql(
+        'https://gitlab.com/fake/fake/-/releases/v1.2.3'
+      );
+      req.done();
+    });
+
+    it('raises a DuplicateReleaseError if the release exists', async () => {
+      req
+        .post('/projects/fake%2Ffake/releases')
+        .reply(409, {message: 'Release already exists'});
+      await assert.rejects(
+        gitlab.createRelease({
+          tag: new TagName(Version.parse('1.2.3')),
+          sha: 'abc123',
+          notes: 'Some release notes',
+        }),
+        DuplicateReleaseError
+      );
+      req.done();
+    });
+  });
+
+  describe('commentOnIssue', () => {
+    it('returns the note url', async () => {
+      req
+        .post('/projects/fake%2Ffake/merge_requests/12/notes', {
+          body: 'released!',
+        })
+        .reply(201, {id: 99});
+      const url = await gitlab.commentOnIssue('released!', 12);
+      expect(url).to.eql(
+        'https://gitlab.com/fake/fake/-/merge_requests/12#note_99'
+      );
+      req.done();
+    });
+  });
+
+  describe('labels', () => {
+    it('adds and removes labels', async () => {
+      req
+        .put('/projects/fake%2Ffake/merge_requests/12', {
+          add_labels: 'autorelease: tagged',
+        })
+        .reply(200, {})
+        .put('/projects/fake%2Ffake/merge_requests/12', {
+          remove_labels: 'autorelease: pending',
+        })
+        .reply(200, {});
+      await gitlab.addIssueLabels(['autorelease: tagged'], 12);
+      await gitlab.removeIssueLabels(['autorelease: pending'], 12);
+      await gitlab.addIssueLabels([], 12);
+      req.done();
+    });
+  });
+
+  describe('generateReleaseNotes', () => {
+    it('is not supported', async () => {
+      await assert.rejects(
+        gitlab.generateReleaseNotes('v1.2.3', 'main'),
+        ConfigurationError
+      );
+    });
+  });
+});
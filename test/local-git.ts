@@ -0,0 +1,305 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {expect} from 'chai';
+import {afterEach, beforeEach, describe, it} from 'mocha';
+import {execFileSync} from 'child_process';
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'fs';
+import {tmpdir} from 'os';
+import {dirname, join} from 'path';
+import {LocalGit} from '../src/local-git';
+import {Manifest} from '../src/manifest';
+import {TagName} from '../src/util/tag-name';
+import {Version} from '../src/version';
+import {RawContent} from '../src/updaters/raw-content';
+import {
+  ConfigurationError,
+  DuplicateReleaseError,
+  FileNotFoundError,
+} from '../src/errors';
+import assert = require('assert');
+
+describe('LocalGit', () => {
+  let path: string;
+
+  function git(...args: string[]): string {
+    return execFileSync('git', args, {cwd: path, encoding: 'utf8'});
+  }
+
+  function commit(message: string, files: Record<string, string> = {}) {
+    for (const [file, content] of Object.entries(files)) {
+      mkdirSync(dirname(join(path, file)), {recursive: true});
+      writeFileSync(join(path, file), content);
+    }
+    git('add', '--all');
+    git('commit', '--allow-empty', '--quiet', '--message', message);
+    return git('rev-parse', 'HEAD').trim();
+  }
+
+  beforeEach(() => {
+    path = mkdtempSync(join(tmpdir(), 'release-please-local-git-'));
+    git('init', '--quiet', '--initial-branch', 'main');
+    git('config', 'user.name', 'Test User');
+    git('config', 'user.email', 'test@example.com');
+    git('config', 'commit.gpgsign', 'false');
+    git('config', 'tag.gpgsign', 'false');
+    git('remote', 'add', 'origin', 'git@example.com:some-owner/some-repo.git');
+  });
+
+  afterEach(() => {
+    rmSync(path, {recursive: true, force: true});
+  });
+
+  describe('create', () => {
+    it('detects the repository and default branch', async () => {
+      commit('chore: initial commit');
+      const local = await LocalGit.create({path});
+      expect(local.repository).to.eql({
+        owner: 'some-owner',
+        repo: 'some-repo',
+        defaultBranch: 'main',
+      });
+    });
+
+    it('uses the default branch of origin on a detached HEAD', async () => {
+      commit('chore: initial commit');
+      git('update-ref', 'refs/remotes/origin/main', 'HEAD');
+      git(
+        'symbolic-ref',
+        'refs/remotes/origin/HEAD',
+        'refs/remotes/origin/main'
+      );
+      git('checkout', '--quiet', '--detach');
+      const local = await LocalGit.create({path});
+      expect(local.repository.defaultBranch).to.eql('main');
+    });
+
+    it('uses the given default branch on a detached HEAD', async () => {
+      commit('chore: initial commit');
+      git('checkout', '--quiet', '--detach');
+      const local = await LocalGit.create({path, defaultBranch: 'main'});
+      expect(local.repository.defaultBranch).to.eql('main');
+    });
+
+    it('requires a default branch on a detached HEAD', async () => {
+      commit('chore: initial commit');
+      git('checkout', '--quiet', '--detach');
+      await assert.rejects(LocalGit.create({path}), ConfigurationError);
+    });
+  });
+
+  describe('commitsSince', () => {
+    it('reads commits and changed files', async () => {
+      const first = commit('chore: initial commit', {'README.md': 'hello'});
+      const second = commit('feat: add widgets\n\nwith details', {
+        'src/widgets.ts': 'widgets',
+        'src/index.ts': 'index',
+      });
+      const local = await LocalGit.create({path});
+      const commits = await local.commitsSince(
+        'main',
+        commit => commit.sha === first
+      );
+      expect(commits).to.have.lengthOf(1);
+      expect(commits[0].sha).to.eql(second);
+      expect(commits[0].message).to.eql('feat: add widgets\n\nwith details');
+      expect(commits[0].files).to.have.members([
+        'src/widgets.ts',
+        'src/index.ts',
+      ]);
+    });
+
+    it('handles a missing branch', async () => {
+      commit('chore: initial commit');
+      const local = await LocalGit.create({path});
+      expect(await local.commitsSince('missing', () => false)).to.be.empty;
+    });
+  });
+
+  describe('releaseIterator', () => {
+    it('reads annotated and lightweight tags', async () => {
+      const first = commit('chore: initial commit');
+      git('tag', 'v1.0.0');
+      const second = commit('fix: a bug');
+      git(
+        'tag',
+        '--cleanup=verbatim',
+        '-a',
+        'v1.0.1',
+        '-m',
+        '### Bug Fixes\n\n* a bug'
+      );
+      const local = await LocalGit.create({path});
+      const releases = [];
+      for await (const release of local.releaseIterator()) {
+        releases.push(release);
+      }
+      const byTag = Object.fromEntries(
+        releases.map(release => [release.tagName, release])
+      );
+      expect(byTag['v1.0.0'].sha).to.eql(first);
+      expect(byTag['v1.0.0'].notes).to.be.undefined;
+      expect(byTag['v1.0.1'].sha).to.eql(second);
+      expect(byTag['v1.0.1'].notes).to.eql('### Bug Fixes\n\n* a bug');
+    });
+  });
+
+  describe('getFileContentsOnBranch', () => {
+    it('reads files from a branch', async () => {
+      commit('chore: initial commit', {'packages/a/package.json': '{}'});
+      const local = await LocalGit.create({path});
+      const contents = await local.getFileContentsOnBranch(
+        'packages/a/package.json',
+        'main'
+      );
+      expect(contents.parsedContent).to.eql('{}');
+      expect(contents.mode).to.eql('100644');
+      expect(
+        await local.findFilesByFilename('package.json', 'packages')
+      ).to.eql(['a/package.json']);
+    });
+
+    it('throws FileNotFoundError for a missing file', async () => {
+      commit('chore: initial commit');
+      const local = await LocalGit.create({path});
+      await assert.rejects(
+        local.getFileContentsOnBranch('missing.txt', 'main'),
+        FileNotFoundError
+      );
+    });
+
+    it('throws FileNotFoundError for a missing branch', async () => {
+      commit('chore: initial commit', {'README.md': 'hello'});
+      const local = await LocalGit.create({path});
+      await assert.rejects(
+        local.getFileContentsOnBranch('README.md', 'missing'),
+        FileNotFoundError
+      );
+    });
+  });
+
+  describe('createPullRequest', () => {
+    it('writes the branch and records the pull request', async () => {
+      commit('chore: initial commit', {'README.md': 'hello'});
+      writeFileSync(join(path, 'untracked.txt'), 'untouched');
+      const local = await LocalGit.create({path});
+      const pullRequest = await local.createPullRequest(
+        {
+          headBranchName: 'release-please--branches--main',
+          baseBranchName: 'main',
+          number: -1,
+          title: 'chore: release main',
+          body: 'release notes',
+          labels: ['autorelease: pending'],
+          files: [],
+        },
+        'main',
+        'chore: release main',
+        [
+          {
+            path: 'README.md',
+            createIfMissing: false,
+            updater: new RawContent('updated'),
+          },
+        ]
+      );
+      expect(pullRequest.number).to.eql(1);
+      expect(git('show', 'release-please--branches--main:README.md')).to.eql(
+        'updated'
+      );
+      // the working tree is untouched
+      expect(readFileSync(join(path, 'README.md'), 'utf8')).to.eql('hello');
+      expect(git('status', '--porcelain')).to.eql('?? untracked.txt\n');
+      expect(
+        readFileSync(join(path, '.git/release-please/pulls/1.md'), 'utf8')
+      ).to.eql('release notes');
+
+      const open = [];
+      for await (const pullRequest of local.pullRequestIterator(
+        'main',
+        'OPEN'
+      )) {
+        open.push(pullRequest);
+      }
+      expect(open).to.have.lengthOf(1);
+      expect(open[0].files).to.eql(['README.md']);
+    });
+  });
+
+  describe('createRelease', () => {
+    it('creates an annotated tag', async () => {
+      const sha = commit('chore: initial commit');
+      const local = await LocalGit.create({path});
+      const release = await local.createRelease({
+        tag: new TagName(Version.parse('1.2.3')),
+        sha,
+        notes: '### Features\n\n* widgets',
+      });
+      expect(release.tagName).to.eql('v1.2.3');
+      expect(git('rev-parse', 'v1.2.3^{commit}').trim()).to.eql(sha);
+      expect(git('tag', '-l', '--format=%(contents)', 'v1.2.3')).to.eql(
+        '### Features\n\n* widgets\n'
+      );
+      await assert.rejects(
+        local.createRelease({
+          tag: new TagName(Version.parse('1.2.3')),
+          sha,
+          notes: '',
+        }),
+        DuplicateReleaseError
+      );
+    });
+  });
+
+  describe('with Manifest', () => {
+    it('opens and releases a release pull request offline', async () => {
+      commit('chore: initial commit', {'version.txt': '1.0.0'});
+      git('tag', '-a', 'v1.0.0', '-m', 'initial release');
+      commit('feat: add widgets', {'src/widgets.txt': 'widgets'});
+      const local = await LocalGit.create({path});
+
+      const manifest = await Manifest.fromConfig(local, 'main', {
+        releaseType: 'simple',
+      });
+      const [pullRequest] = await manifest.createPullRequests();
+      expect(pullRequest?.number).to.eql(1);
+      expect(
+        git('show', 'release-please--branches--main:version.txt').trim()
+      ).to.eql('1.1.0');
+      const body = readFileSync(
+        join(path, '.git/release-please/pulls/1.md'),
+        'utf8'
+      );
+      expect(body).to.include('add widgets');
+
+      // merge the release branch and tag the release
+      git('merge', '--quiet', '--ff-only', 'release-please--branches--main');
+      const releases = await manifest.createReleases();
+      expect(releases).to.have.lengthOf(1);
+      expect(releases[0]!.tagName).to.eql('v1.1.0');
+      expect(existsSync(join(path, '.git/refs/tags/v1.1.0'))).to.be.true;
+      const record = JSON.parse(
+        readFileSync(join(path, '.git/release-please/pulls/1.json'), 'utf8')
+      );
+      expect(record.labels).to.eql(['autorelease: tagged']);
+    });
+  });
+});
@@ -34,8 +34,9 @@ import {expect} from 'chai';
 import * as assert from 'assert';
 import {Version} from '../src/version';
 import {PullRequest} from '../src/pull-request';
-import {readFileSync} from 'fs';
-import {resolve} from 'path';
+import {mkdtempSync, readFileSync, rmSync, writeFileSync} from 'fs';
+import {tmpdir} from 'os';
+import {join, resolve} from 'path';
 import * as pluginFactory from '../src/factories/plugin-factory';
 import {SentenceCase} from '../src/plugins/sentence-case';
 import {NodeWorkspace} from '../src/plugins/node-workspace';
@@ -43,6 +44,7 @@ import {CargoWorkspace} from '../src/plugins/cargo-workspace';
 import {PullRequestTitle} from '../src/util/pull-request-title';
 import {PullRequestBody} from '../src/util/pull-request-body';
 import {RawContent} from '../src/updaters/raw-content';
+import {DeleteFile} from '../src/updaters/delete-file';
 import {TagName} from '../src/util/tag-name';
 import snapshot = require('snap-shot-it');
 import {
@@ -55,6 +57,7 @@ import {RequestError} from '@octokit/request-error';
 import * as nock from 'nock';
 import {LinkedVersions} from '../src/plugins/linked-versions';
 import {MavenWorkspace} from '../src/plugins/maven-workspace';
+import {Notifier} from '../src/notifier';
 const fetch = require('node-fetch');
 
 nock.disableNetConnect();
@@ -537,6 +540,38 @@ describe('Manifest', () => {
         'path-ignore',
       ]);
     });
+    it('should read release assets from manifest', async () => {
+      const getFileContentsStub = sandbox.stub(
+        github,
+        'getFileContentsOnBranch'
+      );
+      getFileContentsStub
+        .withArgs('release-please-config.json', 'main')
+        .resolves(
+          buildGitHubFileContent(
+            fixturesPath,
+            'manifest/config/release-assets.json'
+          )
+        )
+        .withArgs('.release-please-manifest.json', 'main')
+        .resolves(
+          buildGitHubFileContent(
+            fixturesPath,
+            'manifest/versions/versions.json'
+          )
+        );
+      const manifest = await Manifest.fromManifest(
+        github,
+        github.repository.defaultBranch
+      );
+      expect(manifest.repositoryConfig['.'].releaseAssets).to.deep.equal([
+        'dist/*',
+      ]);
+      expect(manifest.repositoryConfig['cli'].releaseAssets).to.deep.equal([
+        'bin/*',
+        '/sbom/cli.spdx.json',
+      ]);
+    });
     it('should build simple plugins from manifest', async () => {
       const getFileContentsStub = sandbox.stub(
         github,
@@ -775,6 +810,38 @@ describe('Manifest', () => {
       ).to.eql('default');
     });
 
+    it('should read bump rules from manifest', async () => {
+      const getFileContentsStub = sandbox.stub(
+        github,
+        'getFileContentsOnBranch'
+      );
+      getFileContentsStub
+        .withArgs('release-please-config.json', 'main')
+        .resolves(
+          buildGitHubFileContent(
+            fixturesPath,
+            'manifest/config/bump-rules.json'
+          )
+        )
+        .withArgs('.release-please-manifest.json', 'main')
+        .resolves(
+          buildGitHubFileContent(
+            fixturesPath,
+            'manifest/versions/versions.json'
+          )
+        );
+      const manifest = await Manifest.fromManifest(
+        github,
+        github.repository.defaultBranch
+      );
+      expect(manifest.repositoryConfig['.'].bumpRules).to.eql([
+        {type: 'perf', bump: 'minor'},
+      ]);
+      expect(
+        manifest.repositoryConfig['packages/bot-config-utils'].bumpRules
+      ).to.eql([{type: 'deps', scope: 'dev', bump: 'none'}]);
+    });
+
     it('should read plugins from manifest', async () => {
       const getFileContentsStub = sandbox.stub(
         github,
@@ -1528,6 +1595,91 @@ describe('Manifest', () => {
   });
 
   describe('buildPullRequests', () => {
+    describe('with release channels', () => {
+      function mockChannelRelease(version: string, branch: string) {
+        mockReleases(sandbox, github, [
+          {
+            id: 123456,
+            sha: 'abc123',
+            tagName: `v${version}`,
+            url: `https://github.com/fake-owner/fake-repo/releases/tag/v${version}`,
+          },
+        ]);
+        mockCommits(sandbox, github, [
+          {
+            sha: 'def456',
+            message: 'fix: some bugfix',
+            files: [],
+          },
+          {
+            sha: 'abc123',
+            message: `chore: release ${version}`,
+            files: [],
+            pullRequest: {
+              headBranchName: `release-please--branches--${branch}`,
+              baseBranchName: branch,
+              number: 123,
+              title: `chore: release ${version}`,
+              body: '',
+              labels: [],
+              files: [],
+              sha: 'abc123',
+            },
+          },
+        ]);
+      }
+
+      it('releases prereleases from a channel branch', async () => {
+        mockChannelRelease('1.1.0-rc.1', 'next');
+        const manifest = new Manifest(
+          github,
+          'next',
+          {
+            '.': {
+              releaseType: 'simple',
+            },
+          },
+          {
+            '.': Version.parse('1.1.0-rc.1'),
+          },
+          {
+            channels: {next: 'rc'},
+          }
+        );
+        const pullRequests = await manifest.buildPullRequests();
+        expect(pullRequests).lengthOf(1);
+        expect(pullRequests[0].version?.toString()).to.eql('1.1.0-rc.2');
+        expect(pullRequests[0].headRefName).to.eql(
+          'release-please--branches--next'
+        );
+      });
+
+      it('graduates a channel prerelease', async () => {
+        mockChannelRelease('1.1.0-rc.2', 'next');
+        const manifest = new Manifest(
+          github,
+          'main',
+          {
+            '.': {
+              releaseType: 'simple',
+            },
+          },
+          {
+            '.': Version.parse('1.1.0-rc.2'),
+          },
+          {
+            channels: {next: 'rc'},
+          }
+        );
+        const pullRequests = await manifest.buildPullRequests();
+        expect(pullRequests).lengthOf(1);
+        expect(pullRequests[0].version?.toString()).to.eql('1.1.0');
+        expect(pullRequests[0].headRefName).to.eql(
+          'release-please--branches--main'
+        );
+      });
+    });
+
     describe('with basic config', () => {
       beforeEach(() => {
         mockReleases(sandbox, github, [
@@ -1797,21 +1949,473 @@ describe('Manifest', () => {
           '.': {
             releaseType: 'node',
           },
-        },
-        {
-          '.': Version.parse('1.0.0'),
-        }
-      );
-      const pullRequests = await manifest.buildPullRequests();
-      expect(pullRequests).lengthOf(1);
-      const pullRequest = pullRequests[0];
-      expect(pullRequest.version?.toString()).to.eql('1.0.1');
-      expect(pullRequest.headRefName).to.eql(
-        'release-please--branches--main--components--pkg1'
-      );
+        },
+        {
+          '.': Version.parse('1.0.0'),
+        }
+      );
+      const pullRequests = await manifest.buildPullRequests();
+      expect(pullRequests).lengthOf(1);
+      const pullRequest = pullRequests[0];
+      expect(pullRequest.version?.toString()).to.eql('1.0.1');
+      expect(pullRequest.headRefName).to.eql(
+        'release-please--branches--main--components--pkg1'
+      );
+    });
+
+    describe('with multiple packages', () => {
+      beforeEach(() => {
+        mockReleases(sandbox, github, [
+          {
+            id: 123456,
+            sha: 'abc123',
+            tagName: 'pkg1-v1.0.0',
+            url: 'https://github.com/fake-owner/fake-repo/releases/tag/pkg1-v1.0.0',
+          },
+          {
+            id: 654321,
+            sha: 'def234',
+            tagName: 'pkg2-v0.2.3',
+            url: 'https://github.com/fake-owner/fake-repo/releases/tag/pkg2-v0.2.3',
+          },
+        ]);
+        mockCommits(sandbox, github, [
+          {
+            sha: 'aaaaaa',
+            message: 'fix: some bugfix',
+            files: ['path/a/foo'],
+          },
+          {
+            sha: 'abc123',
+            message: 'chore: release main',
+            files: [],
+            pullRequest: {
+              headBranchName: 'release-please/branches/main',
+              baseBranchName: 'main',
+              number: 123,
+              title: 'chore: release main',
+              body: '',
+              labels: [],
+              files: [],
+              sha: 'abc123',
+            },
+          },
+          {
+            sha: 'bbbbbb',
+            message: 'fix: some bugfix',
+            files: ['path/b/foo'],
+          },
+          {
+            sha: 'cccccc',
+            message: 'fix: some bugfix',
+            files: ['path/a/foo'],
+          },
+          {
+            sha: 'def234',
+            message: 'chore: release main',
+            files: [],
+            pullRequest: {
+              headBranchName: 'release-please/branches/main',
+              baseBranchName: 'main',
+              number: 123,
+              title: 'chore: release main',
+              body: '',
+              labels: [],
+              files: [],
+              sha: 'def234',
+            },
+          },
+        ]);
+      });
+      it('should handle multiple package repository', async () => {
+        const manifest = new Manifest(
+          github,
+          'main',
+          {
+            'path/a': {
+              releaseType: 'simple',
+              component: 'pkg1',
+            },
+            'path/b': {
+              releaseType: 'simple',
+              component: 'pkg2',
+            },
+          },
+          {
+            'path/a': Version.parse('1.0.0'),
+            'path/b': Version.parse('0.2.3'),
+          }
+        );
+        const pullRequests = await manifest.buildPullRequests();
+        expect(pullRequests).lengthOf(1);
+        expect(pullRequests[0].labels).to.eql(['autorelease: pending']);
+        snapshot(dateSafe(pullRequests[0].body.toString()));
+      });
+
+      it('should handle pull request header/footer with multiple packages', async () => {
+        const manifest = new Manifest(
+          github,
+          'main',
+          {
+            'path/a': {
+              releaseType: 'simple',
+              component: 'pkg1',
+              pullRequestHeader: 'Header from pkg1',
+            },
+            'path/b': {
+              releaseType: 'simple',
+              component: 'pkg2',
+              pullRequestHeader: 'Header from pkg2',
+              pullRequestFooter: 'Footer from pkg2',
+            },
+          },
+          {
+            'path/a': Version.parse('1.0.0'),
+            'path/b': Version.parse('0.2.3'),
+          }
+        );
+        const pullRequests = await manifest.buildPullRequests();
+        expect(pullRequests).lengthOf(1);
+        const pullRequest = pullRequests[0];
+        expect(pullRequest.body.header.toString()).to.eql('Header from pkg1');
+        expect(pullRequest.body.footer.toString()).to.eql('Footer from pkg2');
+      });
+    });
+
+    describe('with scope routing', () => {
+      beforeEach(() => {
+        mockReleases(sandbox, github, [
+          {
+            id: 123456,
+            sha: 'abc123',
+            tagName: 'pkg1-v1.0.0',
+            url: 'https://github.com/fake-owner/fake-repo/releases/tag/pkg1-v1.0.0',
+          },
+          {
+            id: 654321,
+            sha: 'abc123',
+            tagName: 'pkg2-v0.2.3',
+            url: 'https://github.com/fake-owner/fake-repo/releases/tag/pkg2-v0.2.3',
+          },
+        ]);
+        mockCommits(sandbox, github, [
+          {
+            sha: 'aaaaaa',
+            message: 'feat(pkg2): some feature',
+            files: ['path/a/shared', 'tools/lint'],
+          },
+          {
+            sha: 'bbbbbb',
+            message: 'fix: some bugfix',
+            files: ['path/a/foo'],
+          },
+          {
+            sha: 'abc123',
+            message: 'chore: release main',
+            files: [],
+            pullRequest: {
+              headBranchName: 'release-please/branches/main',
+              baseBranchName: 'main',
+              number: 123,
+              title: 'chore: release main',
+              body: '',
+              labels: [],
+              files: [],
+              sha: 'abc123',
+            },
+          },
+        ]);
+      });
+
+      it('routes commits by scope', async () => {
+        const manifest = new Manifest(
+          github,
+          'main',
+          {
+            'path/a': {
+              releaseType: 'simple',
+              component: 'pkg1',
+            },
+            'path/b': {
+              releaseType: 'simple',
+              component: 'pkg2',
+            },
+          },
+          {
+            'path/a': Version.parse('1.0.0'),
+            'path/b': Version.parse('0.2.3'),
+          },
+          {
+            separatePullRequests: true,
+            scopeRouting: {'pkg*': 'path/b'},
+          }
+        );
+        const pullRequests = await manifest.buildPullRequests();
+        expect(pullRequests).lengthOf(2);
+        expect(pullRequests[0].version?.toString()).to.eql('1.0.1');
+        expect(pullRequests[0].body.toString()).to.not.include('some feature');
+        expect(pullRequests[1].version?.toString()).to.eql('0.3.0');
+        expect(pullRequests[1].body.toString()).to.include('some feature');
+      });
+
+      it('rejects routes to unknown packages', async () => {
+        const manifest = new Manifest(
+          github,
+          'main',
+          {
+            'path/a': {
+              releaseType: 'simple',
+              component: 'pkg1',
+            },
+          },
+          {
+            'path/a': Version.parse('1.0.0'),
+          },
+          {
+            scopeRouting: {pkg2: 'path/b'},
+          }
+        );
+        await assert.rejects(async () => {
+          await manifest.buildPullRequests();
+        }, ConfigurationError);
+      });
+    });
+
+    describe('with pull request changelog notes', () => {
+      it('lists merged pull requests that are not conventional commits', async () => {
+        mockReleases(sandbox, github, [
+          {
+            id: 123456,
+            sha: 'abc123',
+            tagName: 'v1.0.0',
+            url: 'https://github.com/fake-owner/fake-repo/releases/tag/v1.0.0',
+          },
+        ]);
+        mockCommits(sandbox, github, [
+          {
+            sha: 'aaaaaa',
+            message: 'Make widgets shinier (#12)',
+            files: [],
+            pullRequest: {
+              headBranchName: 'widgets',
+              baseBranchName: 'main',
+              number: 12,
+              title: 'Make widgets shinier',
+              body: '',
+              labels: ['enhancement'],
+              files: [],
+              sha: 'aaaaaa',
+            },
+          },
+          {
+            sha: 'def456',
+            message: 'fix: some bugfix',
+            files: [],
+          },
+          {
+            sha: 'abc123',
+            message: 'chore: release 1.0.0',
+            files: [],
+          },
+        ]);
+        const manifest = new Manifest(
+          github,
+          'main',
+          {
+            '.': {
+              releaseType: 'simple',
+              changelogType: 'pull-request',
+            },
+          },
+          {
+            '.': Version.parse('1.0.0'),
+          }
+        );
+        const pullRequests = await manifest.buildPullRequests();
+        expect(pullRequests).lengthOf(1);
+        expect(pullRequests[0].version?.toString()).to.eql('1.0.1');
+        const notes = pullRequests[0].body.releaseData[0].notes;
+        expect(notes).to.include('### Features');
+        expect(notes).to.include('* Make widgets shinier in');
+        expect(notes).to.include('* some bugfix in');
+      });
+    });
+
+    describe('with change files', () => {
+      beforeEach(() => {
+        mockReleases(sandbox, github, [
+          {
+            id: 123456,
+            sha: 'abc123',
+            tagName: 'pkg1-v1.0.0',
+            url: 'https://github.com/fake-owner/fake-repo/releases/tag/pkg1-v1.0.0',
+          },
+          {
+            id: 654321,
+            sha: 'abc123',
+            tagName: 'pkg2-v0.2.3',
+            url: 'https://github.com/fake-owner/fake-repo/releases/tag/pkg2-v0.2.3',
+          },
+        ]);
+        mockCommits(sandbox, github, [
+          {
+            sha: 'aaaaaa',
+            message: 'Widgets (#12)',
+            files: ['path/a/foo', '.release-please/changes/widgets.md'],
+          },
+          {
+            sha: 'abc123',
+            message: 'chore: release main',
+            files: [],
+            pullRequest: {
+              headBranchName: 'release-please/branches/main',
+              baseBranchName: 'main',
+              number: 123,
+              title: 'chore: release main',
+              body: '',
+              labels: [],
+              files: [],
+              sha: 'abc123',
+            },
+          },
+        ]);
+        sandbox
+          .stub(github, 'findFilesByGlobAndRef')
+          .withArgs('.release-please/changes/*.md', 'main')
+          .resolves([
+            '.release-please/changes/gadgets.md',
+            '.release-please/changes/widgets.md',
+          ]);
+        sandbox
+          .stub(github, 'getFileContentsOnBranch')
+          .withArgs('.release-please/changes/widgets.md', 'main')
+          .resolves(
+            buildGitHubFileRaw(
+              '---\ncomponent: pkg1\nbump: minor\n---\nAdd widgets.\n\nWidgets are small.\n'
+            )
+          )
+          .withArgs('.release-please/changes/gadgets.md', 'main')
+          .resolves(
+            buildGitHubFileRaw(
+              '---\npkg1: patch\npath/b: major\n---\nFix gadgets.\n'
+            )
+          );
+      });
+
+      it('releases the components of change files', async () => {
+        const manifest = new Manifest(
+          github,
+          'main',
+          {
+            'path/a': {
+              releaseType: 'simple',
+              component: 'pkg1',
+            },
+            'path/b': {
+              releaseType: 'simple',
+              component: 'pkg2',
+            },
+          },
+          {
+            'path/a': Version.parse('1.0.0'),
+            'path/b': Version.parse('0.2.3'),
+          },
+          {
+            separatePullRequests: true,
+            changesPath: '.release-please/changes',
+          }
+        );
+        const pullRequests = await manifest.buildPullRequests();
+        expect(pullRequests).lengthOf(2);
+        expect(pullRequests[0].version?.toString()).to.eql('1.1.0');
+        const notes = pullRequests[0].body.releaseData[0].notes;
+        expect(notes).to.include('Add widgets.');
+        expect(notes).to.include('Widgets are small.');
+        expect(notes).to.include('aaaaaa');
+        expect(notes).to.include('Fix gadgets.');
+        assertHasUpdate(
+          pullRequests[0].updates,
+          '.release-please/changes/widgets.md',
+          DeleteFile
+        );
+        assertHasUpdate(
+          pullRequests[0].updates,
+          '.release-please/changes/gadgets.md',
+          DeleteFile
+        );
+        // each component is released with its own bump level
+        expect(pullRequests[1].version?.toString()).to.eql('1.0.0');
+        expect(pullRequests[1].body.releaseData[0].notes).to.include(
+          'Fix gadgets.'
+        );
+        // either pull request may be merged first
+        assertHasUpdate(
+          pullRequests[1].updates,
+          '.release-please/changes/gadgets.md',
+          DeleteFile
+        );
+        assertNoHasUpdate(
+          pullRequests[1].updates,
+          '.release-please/changes/widgets.md'
+        );
+      });
+
+      it('deletes change files once from a merged pull request', async () => {
+        const manifest = new Manifest(
+          github,
+          'main',
+          {
+            'path/a': {
+              releaseType: 'simple',
+              component: 'pkg1',
+            },
+            'path/b': {
+              releaseType: 'simple',
+              component: 'pkg2',
+            },
+          },
+          {
+            'path/a': Version.parse('1.0.0'),
+            'path/b': Version.parse('0.2.3'),
+          },
+          {
+            changesPath: '.release-please/changes',
+          }
+        );
+        const pullRequests = await manifest.buildPullRequests();
+        expect(pullRequests).lengthOf(1);
+        const deletes = pullRequests[0].updates.filter(
+          update => update.path === '.release-please/changes/gadgets.md'
+        );
+        expect(deletes).lengthOf(1);
+        expect(deletes[0].updater).instanceOf(DeleteFile);
+      });
+
+      it('rejects change files for unknown components', async () => {
+        const manifest = new Manifest(
+          github,
+          'main',
+          {
+            'path/a': {
+              releaseType: 'simple',
+              component: 'pkg1',
+            },
+          },
+          {
+            'path/a': Version.parse('1.0.0'),
+          },
+          {
+            changesPath: '.release-please/changes',
+          }
+        );
+        await assert.rejects(async () => {
+          await manifest.buildPullRequests();
+        }, /unknown component: path\/b/);
+      });
     });
 
-    describe('with multiple packages', () => {
+    describe('with pull request template', () => {
+      let getFileContentsStub: sinon.SinonStub;
       beforeEach(() => {
         mockReleases(sandbox, github, [
           {
@@ -1822,7 +2426,7 @@ describe('Manifest', () => {
           },
           {
             id: 654321,
-            sha: 'def234',
+            sha: 'abc123',
             tagName: 'pkg2-v0.2.3',
             url: 'https://github.com/fake-owner/fake-repo/releases/tag/pkg2-v0.2.3',
           },
@@ -1830,36 +2434,16 @@ describe('Manifest', () => {
         mockCommits(sandbox, github, [
           {
             sha: 'aaaaaa',
-            message: 'fix: some bugfix',
+            message: 'fix: some bugfix\n\nFixes #42',
             files: ['path/a/foo'],
           },
-          {
-            sha: 'abc123',
-            message: 'chore: release main',
-            files: [],
-            pullRequest: {
-              headBranchName: 'release-please/branches/main',
-              baseBranchName: 'main',
-              number: 123,
-              title: 'chore: release main',
-              body: '',
-              labels: [],
-              files: [],
-              sha: 'abc123',
-            },
-          },
           {
             sha: 'bbbbbb',
-            message: 'fix: some bugfix',
+            message: 'feat: some feature',
             files: ['path/b/foo'],
           },
           {
-            sha: 'cccccc',
-            message: 'fix: some bugfix',
-            files: ['path/a/foo'],
-          },
-          {
-            sha: 'def234',
+            sha: 'abc123',
             message: 'chore: release main',
             files: [],
             pullRequest: {
@@ -1870,63 +2454,88 @@ describe('Manifest', () => {
               body: '',
               labels: [],
               files: [],
-              sha: 'def234',
+              sha: 'abc123',
             },
           },
         ]);
+        getFileContentsStub = sandbox.stub(github, 'getFileContentsOnBranch');
       });
-      it('should handle multiple package repository', async () => {
+
+      const repositoryConfig = {
+        'path/a': {
+          releaseType: 'simple',
+          component: 'pkg1',
+        },
+        'path/b': {
+          releaseType: 'simple',
+          component: 'pkg2',
+        },
+      };
+      const releasedVersions = {
+        'path/a': Version.parse('1.0.0'),
+        'path/b': Version.parse('0.2.3'),
+      };
+
+      it('renders the pull request body from the template', async () => {
+        getFileContentsStub
+          .withArgs('.github/release-please.hbs', 'main')
+          .resolves(
+            buildGitHubFileRaw(
+              '{{header}}\n{{delimiter}}\n\n{{{notes}}}\n\n{{delimiter}}\n{{#each releases}}\n{{component}}: {{previousVersion}} -> {{version}}{{#each issues}} closes #{{this}}{{/each}}\n{{/each}}\n'
+            )
+          );
         const manifest = new Manifest(
           github,
           'main',
+          repositoryConfig,
+          releasedVersions,
           {
-            'path/a': {
-              releaseType: 'simple',
-              component: 'pkg1',
-            },
-            'path/b': {
-              releaseType: 'simple',
-              component: 'pkg2',
-            },
-          },
-          {
-            'path/a': Version.parse('1.0.0'),
-            'path/b': Version.parse('0.2.3'),
+            pullRequestTemplate: '.github/release-please.hbs',
           }
         );
         const pullRequests = await manifest.buildPullRequests();
         expect(pullRequests).lengthOf(1);
-        expect(pullRequests[0].labels).to.eql(['autorelease: pending']);
-        snapshot(dateSafe(pullRequests[0].body.toString()));
+        const body = pullRequests[0].body.toString();
+        expect(body).to.include('pkg1: 1.0.0 -> 1.0.1 closes #42');
+        expect(body).to.include('pkg2: 0.2.3 -> 0.3.0');
+        const parsed = PullRequestBody.parse(body);
+        expect(parsed!.releaseData).lengthOf(2);
       });
 
-      it('should handle pull request header/footer with multiple packages', async () => {
+      it('rejects a template that cannot be parsed', async () => {
+        getFileContentsStub
+          .withArgs('.github/release-please.hbs', 'main')
+          .resolves(buildGitHubFileRaw('{{header}}\n\nReleasing now!\n'));
         const manifest = new Manifest(
           github,
           'main',
+          repositoryConfig,
+          releasedVersions,
           {
-            'path/a': {
-              releaseType: 'simple',
-              component: 'pkg1',
-              pullRequestHeader: 'Header from pkg1',
-            },
-            'path/b': {
-              releaseType: 'simple',
-              component: 'pkg2',
-              pullRequestHeader: 'Header from pkg2',
-              pullRequestFooter: 'Footer from pkg2',
-            },
-          },
+            pullRequestTemplate: '.github/release-please.hbs',
+          }
+        );
+        await assert.rejects(async () => {
+          await manifest.buildPullRequests();
+        }, ConfigurationError);
+      });
+
+      it('rejects a missing template', async () => {
+        getFileContentsStub
+          .withArgs('.github/release-please.hbs', 'main')
+          .rejects(new FileNotFoundError('.github/release-please.hbs'));
+        const manifest = new Manifest(
+          github,
+          'main',
+          repositoryConfig,
+          releasedVersions,
           {
-            'path/a': Version.parse('1.0.0'),
-            'path/b': Version.parse('0.2.3'),
+            pullRequestTemplate: '.github/release-please.hbs',
           }
         );
-        const pullRequests = await manifest.buildPullRequests();
-        expect(pullRequests).lengthOf(1);
-        const pullRequest = pullRequests[0];
-        expect(pullRequest.body.header.toString()).to.eql('Header from pkg1');
-        expect(pullRequest.body.footer.toString()).to.eql('Footer from pkg2');
+        await assert.rejects(async () => {
+          await manifest.buildPullRequests();
+        }, /Missing pull request template/);
       });
     });
 
@@ -3831,6 +4440,67 @@ describe('Manifest', () => {
       expect(pullRequests).lengthOf(1);
     });
 
+    it('sends pull request notifications', async () => {
+      mockPullRequests(github, []);
+      sandbox.stub(github, 'createPullRequest').resolves({
+        number: 22,
+        title: 'chore: release main',
+        body: 'pr body',
+        headBranchName: 'release-please--branches--main',
+        baseBranchName: 'main',
+        labels: [],
+        files: [],
+      });
+      const notifyStub = sandbox
+        .stub(Notifier.prototype, 'notify')
+        .resolves(true);
+      const manifest = new Manifest(
+        github,
+        'main',
+        {
+          'path/a': {
+            releaseType: 'node',
+            component: 'pkg1',
+          },
+        },
+        {
+          'path/a': Version.parse('1.0.0'),
+        },
+        {
+          notifications: [{type: 'webhook', url: 'https://example.com/hook'}],
+        }
+      );
+      sandbox.stub(manifest, 'buildPullRequests').resolves([
+        {
+          title: PullRequestTitle.ofTargetBranch('main'),
+          body: new PullRequestBody([
+            {
+              component: 'pkg1',
+              version: Version.parse('1.1.0'),
+              notes: 'Some release notes',
+            },
+          ]),
+          updates: [],
+          labels: [],
+          headRefName: 'release-please--branches--main',
+          draft: false,
+        },
+      ]);
+      const pullRequests = await manifest.createPullRequests();
+      expect(pullRequests).lengthOf(1);
+      sinon.assert.calledOnceWithExactly(notifyStub, {
+        event: 'pull-request',
+        repository: github.repository,
+        number: 22,
+        title: 'chore: release main',
+        headBranchName: 'release-please--branches--main',
+        updated: false,
+        releases: [
+          {component: 'pkg1', version: '1.1.0', notes: 'Some release notes'},
+        ],
+      });
+    });
+
     it('handles a multiple pull requests', async () => {
       sandbox
         .stub(github, 'getFileContentsOnBranch')
@@ -5920,6 +6590,217 @@ describe('Manifest', () => {
       );
     });
 
+    it('should send release notifications', async () => {
+      mockPullRequests(
+        github,
+        [],
+        [
+          {
+            headBranchName: 'release-please/branches/main',
+            baseBranchName: 'main',
+            number: 1234,
+            title: 'chore: release main',
+            body: pullRequestBody('release-notes/single-manifest.txt'),
+            labels: ['autorelease: pending'],
+            files: [],
+            sha: 'abc123',
+          },
+        ]
+      );
+      sandbox
+        .stub(github, 'getFileContentsOnBranch')
+        .withArgs('package.json', 'main')
+        .resolves(
+          buildGitHubFileRaw(
+            JSON.stringify({name: '@google-cloud/release-brancher'})
+          )
+        );
+      mockCreateRelease(github, [
+        {id: 123456, sha: 'abc123', tagName: 'release-brancher-v1.3.1'},
+      ]);
+      sandbox.stub(github, 'commentOnIssue').resolves();
+      sandbox.stub(github, 'addIssueLabels').resolves();
+      sandbox.stub(github, 'removeIssueLabels').resolves();
+      const notifyStub = sandbox.stub(Notifier.prototype, 'notify');
+      notifyStub.onFirstCall().rejects(new Error('webhook unavailable'));
+      notifyStub.resolves(true);
+      const manifest = new Manifest(
+        github,
+        'main',
+        {
+          '.': {
+            releaseType: 'node',
+          },
+        },
+        {
+          '.': Version.parse('1.3.1'),
+        },
+        {
+          notifications: [
+            {type: 'slack', url: 'https://hooks.example.com/slack'},
+            {type: 'teams', url: 'https://hooks.example.com/teams'},
+          ],
+        }
+      );
+      const releases = await manifest.createReleases();
+      expect(releases).lengthOf(1);
+      // a failed notification does not stop the others
+      sinon.assert.calledTwice(notifyStub);
+      sinon.assert.alwaysCalledWithMatch(notifyStub, {
+        event: 'release',
+        component: 'release-brancher',
+        path: '.',
+        version: '1.3.1',
+        tagName: 'release-brancher-v1.3.1',
+        pullRequestNumber: 1234,
+      });
+    });
+
+    describe('with release assets', () => {
+      let workspace: string;
+      beforeEach(() => {
+        workspace = mkdtempSync(join(tmpdir(), 'release-please-assets-'));
+        writeFileSync(join(workspace, 'app.tgz'), 'binary');
+        mockPullRequests(
+          github,
+          [],
+          [
+            {
+              headBranchName: 'release-please/branches/main',
+              baseBranchName: 'main',
+              number: 1234,
+              title: 'chore: release main',
+              body: pullRequestBody('release-notes/single-manifest.txt'),
+              labels: ['autorelease: pending'],
+              files: [],
+              sha: 'abc123',
+            },
+          ]
+        );
+        sandbox
+          .stub(github, 'getFileContentsOnBranch')
+          .withArgs('package.json', 'main')
+          .resolves(
+            buildGitHubFileRaw(
+              JSON.stringify({name: '@google-cloud/release-brancher'})
+            )
+          );
+        sandbox.stub(github, 'commentOnIssue').resolves();
+        sandbox.stub(github, 'addIssueLabels').resolves();
+        sandbox.stub(github, 'removeIssueLabels').resolves();
+        // release assets are resolved from the working directory
+        sandbox.stub(process, 'cwd').returns(workspace);
+      });
+      afterEach(() => {
+        rmSync(workspace, {recursive: true, force: true});
+      });
+
+      function buildManifest(releaseAssets: string[]): Manifest {
+        return new Manifest(
+          github,
+          'main',
+          {
+            '.': {
+              releaseType: 'node',
+              releaseAssets,
+            },
+          },
+          {
+            '.': Version.parse('1.3.1'),
+          }
+        );
+      }
+
+      it('uploads assets with checksums', async () => {
+        mockCreateRelease(github, [
+          {id: 123456, sha: 'abc123', tagName: 'release-brancher-v1.3.1'},
+        ]);
+        const uploadStub = sandbox
+          .stub(github, 'uploadReleaseAssets')
+          .resolves([]);
+        const releases = await buildManifest(['*.tgz']).createReleases();
+        expect(releases).lengthOf(1);
+        sinon.assert.calledOnceWithExactly(
+          uploadStub,
+          sinon.match({id: 123456, tagName: 'release-brancher-v1.3.1'}),
+          [
+            {name: 'app.tgz', content: Buffer.from('binary')},
+            {
+              name: 'SHA256SUMS',
+              content: Buffer.from(
+                '9a3a45d01531a20e89ac6ae10b0b0beb0492acd7216a368aa062d1a5fecaf9cd  app.tgz\n'
+              ),
+              contentType: 'text/plain',
+            },
+          ]
+        );
+      });
+
+      it('uploads assets again to an existing draft release', async () => {
+        mockCreateRelease(github, [
+          {
+            id: 123456,
+            sha: 'abc123',
+            tagName: 'release-brancher-v1.3.1',
+            duplicate: true,
+          },
+        ]);
+        const existing = {
+          id: 654321,
+          sha: 'abc123',
+          tagName: 'release-brancher-v1.3.1',
+          url: 'https://path/to/release',
+          draft: true,
+        };
+        mockReleases(sandbox, github, [
+          {
+            id: 654320,
+            sha: 'def234',
+            tagName: 'release-brancher-v1.3.0',
+            url: 'https://path/to/other/release',
+          },
+          existing,
+        ]);
+        const uploadStub = sandbox
+          .stub(github, 'uploadReleaseAssets')
+          .resolves([]);
+        await assert.rejects(
+          buildManifest(['*.tgz']).createReleases(),
+          DuplicateReleaseError
+        );
+        sinon.assert.calledOnceWithExactly(
+          uploadStub,
+          existing,
+          sinon.match.array
+        );
+      });
+
+      it('rejects an asset named like the checksums file', async () => {
+        writeFileSync(join(workspace, 'SHA256SUMS'), 'sums');
+        const releaseStub = mockCreateRelease(github, [
+          {id: 123456, sha: 'abc123', tagName: 'release-brancher-v1.3.1'},
+        ]);
+        await assert.rejects(
+          buildManifest(['*.tgz', 'SHA256SUMS']).createReleases(),
+          ConfigurationError
+        );
+        sinon.assert.notCalled(releaseStub);
+      });
+
+      it('rejects missing assets before creating a release', async () => {
+        const releaseStub = mockCreateRelease(github, [
+          {id: 123456, sha: 'abc123', tagName: 'release-brancher-v1.3.1'},
+        ]);
+        const uploadStub = sandbox.stub(github, 'uploadReleaseAssets');
+        await assert.rejects(
+          buildManifest(['dist/*.zip']).createReleases(),
+          ConfigurationError
+        );
+        sinon.assert.notCalled(releaseStub);
+        sinon.assert.notCalled(uploadStub);
+      });
+    });
+
     it('should handle a multiple manifest release', async () => {
       mockPullRequests(
         github,
@@ -0,0 +1,210 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {describe, it, beforeEach, afterEach} from 'mocha';
+import * as sinon from 'sinon';
+import {expect} from 'chai';
+import {Migrator} from '../src/migrator';
+import {GitHub} from '../src/github';
+import {FileNotFoundError} from '../src/errors';
+import {assertHasUpdate, buildGitHubFileRaw, mockTags} from './helpers';
+import * as snapshot from 'snap-shot-it';
+import * as assert from 'assert';
+
+const sandbox = sinon.createSandbox();
+
+function stubFiles(github: GitHub, files: Record<string, string>) {
+  const contentsStub = sandbox.stub(github, 'getFileContentsOnBranch');
+  contentsStub.callsFake(async path => {
+    throw new FileNotFoundError(path);
+  });
+  for (const [path, content] of Object.entries(files)) {
+    contentsStub.withArgs(path, 'main').resolves(buildGitHubFileRaw(content));
+  }
+}
+
+describe('Migrator', () => {
+  let github: GitHub;
+  beforeEach(async () => {
+    github = await GitHub.create({
+      owner: 'fake-owner',
+      repo: 'fake-repo',
+      defaultBranch: 'main',
+      token: 'fake-token',
+    });
+  });
+  afterEach(() => {
+    sandbox.restore();
+  });
+
+  it('migrates a semantic-release config', async () => {
+    stubFiles(github, {
+      '.releaserc.json': JSON.stringify({
+        branches: ['main', {name: 'beta', prerelease: true}],
+        plugins: [
+          '@semantic-release/commit-analyzer',
+          '@semantic-release/release-notes-generator',
+          ['@semantic-release/changelog', {changelogFile: 'HISTORY.md'}],
+          '@semantic-release/npm',
+        ],
+      }),
+      'package.json': JSON.stringify({name: 'fake-pkg', version: '0.0.0'}),
+    });
+    mockTags(sandbox, github, [
+      {name: 'v1.2.3', sha: 'abc123'},
+      {name: 'v1.1.0', sha: 'def234'},
+    ]);
+
+    const migrator = new Migrator(github, 'main');
+    const pullRequest = await migrator.buildPullRequest();
+    expect(pullRequest.title).to.eql(
+      'chore: migrate release configuration from semantic-release'
+    );
+    expect(pullRequest.headBranchName).to.eql(
+      'release-please/migrate/semantic-release'
+    );
+    expect(pullRequest.updates).lengthOf(2);
+    const manifestUpdate = assertHasUpdate(
+      pullRequest.updates,
+      '.release-please-manifest.json'
+    );
+    expect(JSON.parse(manifestUpdate.updater.updateContent(undefined))).to.eql({
+      '.': '1.2.3',
+    });
+    const configUpdate = assertHasUpdate(
+      pullRequest.updates,
+      'release-please-config.json'
+    );
+    snapshot(configUpdate.updater.updateContent(undefined));
+    snapshot(pullRequest.body);
+  });
+
+  it('reads the release key of package.json', async () => {
+    stubFiles(github, {
+      'package.json': JSON.stringify({
+        name: 'fake-pkg',
+        version: '2.0.0',
+        release: {tagFormat: '${version}'},
+      }),
+    });
+    mockTags(sandbox, github, []);
+
+    const migrator = new Migrator(github, 'main');
+    const pullRequest = await migrator.buildPullRequest('semantic-release');
+    const manifestUpdate = assertHasUpdate(
+      pullRequest.updates,
+      '.release-please-manifest.json'
+    );
+    expect(JSON.parse(manifestUpdate.updater.updateContent(undefined))).to.eql({
+      '.': '2.0.0',
+    });
+    expect(pullRequest.body).to.include(
+      'Remove the `release` key from `package.json`'
+    );
+  });
+
+  it('migrates a changesets workspace', async () => {
+    stubFiles(github, {
+      '.changeset/config.json': JSON.stringify({
+        fixed: [['@fake/a', '@fake/b']],
+        ignore: ['@fake/internal'],
+      }),
+      'packages/a/package.json': JSON.stringify({
+        name: '@fake/a',
+        version: '1.0.0',
+      }),
+      'packages/b/package.json': JSON.stringify({
+        name: '@fake/b',
+        version: '1.0.0',
+      }),
+      'packages/internal/package.json': JSON.stringify({
+        name: '@fake/internal',
+        version: '0.1.0',
+      }),
+    });
+    sandbox
+      .stub(github, 'findFilesByFilenameAndRef')
+      .resolves([])
+      .withArgs('package.json', 'main')
+      .resolves([
+        'packages/a/package.json',
+        'packages/b/package.json',
+        'packages/internal/package.json',
+      ]);
+
+    const migrator = new Migrator(github, 'main');
+    const pullRequest = await migrator.buildPullRequest();
+    expect(pullRequest.headBranchName).to.eql(
+      'release-please/migrate/changesets'
+    );
+    const manifestUpdate = assertHasUpdate(
+      pullRequest.updates,
+      '.release-please-manifest.json'
+    );
+    expect(JSON.parse(manifestUpdate.updater.updateContent(undefined))).to.eql({
+      'packages/a': '1.0.0',
+      'packages/b': '1.0.0',
+    });
+    const configUpdate = assertHasUpdate(
+      pullRequest.updates,
+      'release-please-config.json'
+    );
+    snapshot(configUpdate.updater.updateContent(undefined));
+    snapshot(pullRequest.body);
+  });
+
+  it('migrates a standard-version config', async () => {
+    stubFiles(github, {
+      '.versionrc': JSON.stringify({
+        tagPrefix: '',
+        bumpFiles: [{filename: 'build.gradle', updater: 'gradle.js'}],
+      }),
+    });
+    mockTags(sandbox, github, []);
+
+    const migrator = new Migrator(github, 'main');
+    const pullRequest = await migrator.buildPullRequest('standard-version');
+    const configUpdate = assertHasUpdate(
+      pullRequest.updates,
+      'release-please-config.json'
+    );
+    const config = JSON.parse(configUpdate.updater.updateContent(undefined));
+    expect(config.packages['.']).to.eql({
+      'release-type': 'simple',
+      'include-v-in-tag': false,
+      'include-component-in-tag': false,
+    });
+    expect(pullRequest.body).to.include(
+      '* Custom updater for build.gradle must be replaced with an extra file'
+    );
+  });
+
+  it('rejects a repository without a known config', async () => {
+    stubFiles(github, {});
+    const migrator = new Migrator(github, 'main');
+    await assert.rejects(async () => {
+      await migrator.buildPullRequest();
+    }, /No changesets, semantic-release, standard-version configuration found/);
+  });
+
+  it('rejects an unsupported config', async () => {
+    stubFiles(github, {
+      '.releaserc': 'tagFormat: release-${version}-final',
+    });
+    const migrator = new Migrator(github, 'main');
+    await assert.rejects(async () => {
+      await migrator.buildPullRequest();
+    }, /Unable to migrate .releaserc: Unsupported tagFormat/);
+  });
+});
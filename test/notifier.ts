@@ -0,0 +1,213 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {describe, it, before, after, beforeEach, afterEach} from 'mocha';
+import {expect} from 'chai';
+import * as http from 'http';
+import {AddressInfo} from 'net';
+import * as nock from 'nock';
+import * as assert from 'assert';
+import {PullRequestNotification, ReleaseNotification} from '../src/notifier';
+import {WebhookNotifier} from '../src/notifiers/webhook';
+import {SlackNotifier} from '../src/notifiers/slack';
+import {TeamsNotifier} from '../src/notifiers/teams';
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const fetch = require('node-fetch');
+
+const repository = {
+  owner: 'fake-owner',
+  repo: 'fake-repo',
+  defaultBranch: 'main',
+};
+const releaseNotification: ReleaseNotification = {
+  event: 'release',
+  repository,
+  component: 'api',
+  path: 'packages/api',
+  version: '1.2.3',
+  tagName: 'api-v1.2.3',
+  url: 'https://github.com/fake-owner/fake-repo/releases/tag/api-v1.2.3',
+  notes: '### Features\n\n* add widgets',
+  pullRequestNumber: 42,
+};
+const pullRequestNotification: PullRequestNotification = {
+  event: 'pull-request',
+  repository,
+  number: 43,
+  title: 'chore: release main',
+  headBranchName: 'release-please--branches--main',
+  updated: false,
+  releases: [
+    {component: 'api', version: '1.3.0', notes: '* add gadgets'},
+    {component: 'web', version: '2.0.0', notes: '* redesign'},
+  ],
+};
+
+interface ReceivedRequest {
+  method?: string;
+  contentType?: string;
+  body: Record<string, unknown>;
+}
+
+describe('Notifier', () => {
+  let server: http.Server;
+  let url: string;
+  let received: ReceivedRequest[];
+  let responseStatus: number;
+  before(async () => {
+    nock.enableNetConnect('127.0.0.1');
+    // a local stand-in for the webhook receiver
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        received.push({
+          method: req.method,
+          contentType: req.headers['content-type'],
+          body: JSON.parse(body),
+        });
+        res.writeHead(responseStatus, {'content-type': 'text/plain'});
+        res.end(responseStatus < 400 ? 'ok' : 'invalid_payload');
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+  after(async () => {
+    await new Promise(resolve => server.close(resolve));
+    nock.disableNetConnect();
+  });
+  beforeEach(() => {
+    received = [];
+    responseStatus = 200;
+  });
+  afterEach(() => {
+    delete process.env.RELEASE_PLEASE_TEST_WEBHOOK;
+  });
+
+  it('posts the notification to a generic webhook', async () => {
+    const notifier = new WebhookNotifier({url, fetch});
+    expect(await notifier.notify(releaseNotification)).to.be.true;
+    expect(received).lengthOf(1);
+    expect(received[0].method).to.eql('POST');
+    expect(received[0].contentType).to.include('application/json');
+    expect(received[0].body).to.eql({
+      ...releaseNotification,
+      text: 'api 1.2.3 released in fake-owner/fake-repo: https://github.com/fake-owner/fake-repo/releases/tag/api-v1.2.3',
+    });
+  });
+
+  it('posts a Slack message', async () => {
+    const notifier = new SlackNotifier({url, fetch});
+    await notifier.notify(pullRequestNotification);
+    expect(received[0].body).to.eql({
+      text: 'Release pull request #43 opened in fake-owner/fake-repo: chore: release main',
+    });
+  });
+
+  it('posts a Teams Adaptive Card', async () => {
+    const notifier = new TeamsNotifier({url, fetch});
+    await notifier.notify(releaseNotification);
+    expect(received[0].body).to.eql({
+      type: 'message',
+      attachments: [
+        {
+          contentType: 'application/vnd.microsoft.card.adaptive',
+          content: {
+            $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+            type: 'AdaptiveCard',
+            version: '1.4',
+            body: [
+              {
+                type: 'TextBlock',
+                text: 'api 1.2.3 released in fake-owner/fake-repo: https://github.com/fake-owner/fake-repo/releases/tag/api-v1.2.3',
+                wrap: true,
+              },
+            ],
+            actions: [
+              {
+                type: 'Action.OpenUrl',
+                title: 'View release',
+                url: releaseNotification.url,
+              },
+            ],
+          },
+        },
+      ],
+    });
+  });
+
+  it('renders templates per component', async () => {
+    const notifier = new SlackNotifier({
+      url,
+      fetch,
+      template: '{{tagName}} is out',
+      componentTemplates: {web: 'web update: {{tagName}}{{title}}'},
+    });
+    await notifier.notify(releaseNotification);
+    await notifier.notify({
+      ...releaseNotification,
+      component: 'web',
+      tagName: 'web-v2.0.0',
+    });
+    // pull requests with several components use the shared template
+    await notifier.notify({
+      ...pullRequestNotification,
+      releases: [...pullRequestNotification.releases].reverse(),
+    });
+    await notifier.notify({
+      ...pullRequestNotification,
+      releases: [pullRequestNotification.releases[1]],
+    });
+    expect(received.map(request => request.body.text)).to.eql([
+      'api-v1.2.3 is out',
+      'web update: web-v2.0.0',
+      ' is out',
+      'web update: chore: release main',
+    ]);
+  });
+
+  it('filters by event and component', async () => {
+    const notifier = new SlackNotifier({
+      url,
+      fetch,
+      events: ['release'],
+      components: ['web'],
+    });
+    expect(await notifier.notify(releaseNotification)).to.be.false;
+    expect(await notifier.notify(pullRequestNotification)).to.be.false;
+    expect(await notifier.notify({...releaseNotification, component: 'web'})).to
+      .be.true;
+    expect(received).lengthOf(1);
+  });
+
+  it('reads the url from the environment', async () => {
+    const notifier = new SlackNotifier({
+      urlEnv: 'RELEASE_PLEASE_TEST_WEBHOOK',
+      fetch,
+    });
+    expect(await notifier.notify(releaseNotification)).to.be.false;
+    process.env.RELEASE_PLEASE_TEST_WEBHOOK = url;
+    expect(await notifier.notify(releaseNotification)).to.be.true;
+    expect(received).lengthOf(1);
+  });
+
+  it('rejects on an error response', async () => {
+    responseStatus = 400;
+    const notifier = new SlackNotifier({url, fetch});
+    await assert.rejects(async () => {
+      await notifier.notify(releaseNotification);
+    }, /invalid_payload/);
+  });
+});
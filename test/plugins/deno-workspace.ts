@@ -0,0 +1,184 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {describe, it, afterEach, beforeEach} from 'mocha';
+import * as sinon from 'sinon';
+import {expect} from 'chai';
+import {readFileSync} from 'fs';
+import {resolve} from 'path';
+import {GitHub} from '../../src/github';
+import {CandidateReleasePullRequest} from '../../src/manifest';
+import {
+  buildMockCandidatePullRequest,
+  buildGitHubFileContent,
+  assertHasUpdate,
+  assertNoHasUpdate,
+} from '../helpers';
+import {ManifestPlugin} from '../../src/plugin';
+import {DenoWorkspace} from '../../src/plugins/deno-workspace';
+import {DenoImports, DenoJson} from '../../src/updaters/deno/deno-json';
+import {DenoLock} from '../../src/updaters/deno/deno-lock';
+import {Updater} from '../../src/update';
+import {Version} from '../../src/version';
+import {ConfigurationError, FileNotFoundError} from '../../src/errors';
+
+import assert = require('assert');
+
+const sandbox = sinon.createSandbox();
+const fixturesPath = './test/fixtures/plugins/deno-workspace';
+const DENO_FILES = [
+  'deno.jsonc',
+  'packages/core/deno.json',
+  'packages/utils/deno.jsonc',
+  'packages/http/deno.json',
+  'packages/http/jsr.json',
+  'apps/web/deno.json',
+];
+
+function stubDenoFiles(github: GitHub, files: string[]) {
+  const stub = sandbox.stub(github, 'getFileContentsOnBranch');
+  for (const file of files) {
+    stub
+      .withArgs(file, 'main')
+      .resolves(buildGitHubFileContent(fixturesPath, file));
+  }
+  stub.callsFake(async path => {
+    throw new FileNotFoundError(path);
+  });
+  const globStub = sandbox.stub(github, 'findFilesByGlobAndRef');
+  globStub
+    .withArgs('packages/*/deno.json', 'main')
+    .resolves(['packages/core/deno.json', 'packages/http/deno.json']);
+  globStub
+    .withArgs('packages/*/deno.jsonc', 'main')
+    .resolves(['packages/utils/deno.jsonc']);
+  globStub
+    .withArgs('packages/*/jsr.json', 'main')
+    .resolves(['packages/http/jsr.json']);
+}
+
+function updateFixture(path: string, updater: Updater): string {
+  return updater.updateContent(
+    readFileSync(resolve(fixturesPath, path), 'utf8')
+  );
+}
+
+describe('DenoWorkspace plugin', () => {
+  let github: GitHub;
+  let plugin: ManifestPlugin;
+  beforeEach(async () => {
+    github = await GitHub.create({
+      owner: 'googleapis',
+      repo: 'deno-test-repo',
+      defaultBranch: 'main',
+    });
+    plugin = new DenoWorkspace(github, 'main', {
+      'packages/core': {
+        releaseType: 'deno',
+      },
+      'packages/utils': {
+        releaseType: 'deno',
+      },
+      'packages/http': {
+        releaseType: 'deno',
+      },
+    });
+  });
+  afterEach(() => {
+    sandbox.restore();
+  });
+  describe('run', () => {
+    it('does nothing for non-deno strategies', async () => {
+      const candidates: CandidateReleasePullRequest[] = [
+        buildMockCandidatePullRequest('python', 'python', '1.0.0'),
+      ];
+      const newCandidates = await plugin.run(candidates);
+      expect(newCandidates).to.eql(candidates);
+    });
+    it('rejects without a workspace', async () => {
+      stubDenoFiles(github, []);
+      const candidates: CandidateReleasePullRequest[] = [
+        buildMockCandidatePullRequest('packages/core', 'deno', '1.3.0'),
+      ];
+      await assert.rejects(async () => {
+        await plugin.run(candidates);
+      }, ConfigurationError);
+    });
+    it('bumps dependent workspace members', async () => {
+      stubDenoFiles(github, DENO_FILES);
+      const candidates: CandidateReleasePullRequest[] = [
+        buildMockCandidatePullRequest('packages/core', 'deno', '1.3.0', {
+          component: 'core',
+          updates: [
+            {
+              path: 'packages/core/deno.json',
+              createIfMissing: false,
+              updater: new DenoJson({
+                version: Version.parse('1.3.0'),
+              }),
+            },
+          ],
+        }),
+      ];
+      const newCandidates = await plugin.run(candidates);
+      expect(newCandidates).lengthOf(1);
+      const updates = newCandidates[0].pullRequest.updates;
+
+      const utils = updateFixture(
+        'packages/utils/deno.jsonc',
+        assertHasUpdate(updates, 'packages/utils/deno.jsonc', DenoJson).updater
+      );
+      expect(utils).to.include('"version": "0.4.1"');
+      expect(utils).to.include('// sibling workspace member');
+      expect(utils).to.include('"jsr:@acme/core@^1.3.0"');
+      expect(utils).to.include('"jsr:@std/path@^1.0.0"');
+
+      const http = updateFixture(
+        'packages/http/jsr.json',
+        assertHasUpdate(updates, 'packages/http/jsr.json', DenoJson).updater
+      );
+      expect(http).to.include('"version": "2.0.1"');
+      const httpImports = updateFixture(
+        'packages/http/deno.json',
+        assertHasUpdate(updates, 'packages/http/deno.json', DenoJson).updater
+      );
+      expect(httpImports).to.include('"jsr:@acme/utils@~0.4.1"');
+
+      const web = updateFixture(
+        'apps/web/deno.json',
+        assertHasUpdate(updates, 'apps/web/deno.json', DenoImports).updater
+      );
+      expect(web).to.include('"jsr:@acme/core@^1.3.0"');
+      assertHasUpdate(updates, 'deno.lock', DenoLock);
+
+      const body = newCandidates[0].pullRequest.body.toString();
+      expect(body).to.include('@acme/core bumped from ^1.2.0 to ^1.3.0');
+      expect(body).to.include('@acme/utils bumped from ~0.4.0 to ~0.4.1');
+    });
+    it('leaves unrelated workspace members alone', async () => {
+      stubDenoFiles(github, DENO_FILES);
+      const candidates: CandidateReleasePullRequest[] = [
+        buildMockCandidatePullRequest('packages/http', 'deno', '2.1.0', {
+          component: 'http',
+        }),
+      ];
+      const newCandidates = await plugin.run(candidates);
+      expect(newCandidates).lengthOf(1);
+      const updates = newCandidates[0].pullRequest.updates;
+      assertNoHasUpdate(updates, 'packages/core/deno.json');
+      assertNoHasUpdate(updates, 'packages/utils/deno.jsonc');
+      assertNoHasUpdate(updates, 'apps/web/deno.json');
+    });
+  });
+});
@@ -0,0 +1,188 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {describe, it, afterEach, beforeEach} from 'mocha';
+import * as sinon from 'sinon';
+import {expect} from 'chai';
+import {GitHub} from '../../src/github';
+import {CandidateReleasePullRequest} from '../../src/manifest';
+import {
+  buildGitHubFileContent,
+  buildMockCandidatePullRequest,
+  assertHasUpdate,
+} from '../helpers';
+import {ManifestPlugin} from '../../src/plugin';
+import {GradleWorkspace} from '../../src/plugins/gradle-workspace';
+import {ConfigurationError, FileNotFoundError} from '../../src/errors';
+import {GradleProperties} from '../../src/updaters/gradle/gradle-properties';
+import {BuildGradle} from '../../src/updaters/gradle/build-gradle';
+import {VersionCatalog} from '../../src/updaters/gradle/version-catalog';
+
+import assert = require('assert');
+
+const sandbox = sinon.createSandbox();
+const fixturesPath = './test/fixtures/plugins/gradle-workspace';
+
+function stubGradleFiles(github: GitHub, files: string[]) {
+  const stub = sandbox.stub(github, 'getFileContentsOnBranch');
+  for (const file of files) {
+    stub
+      .withArgs(file, 'main')
+      .resolves(buildGitHubFileContent(fixturesPath, file));
+  }
+  stub.callsFake(async path => {
+    throw new FileNotFoundError(path);
+  });
+}
+
+describe('GradleWorkspace plugin', () => {
+  let github: GitHub;
+  let plugin: ManifestPlugin;
+  beforeEach(async () => {
+    github = await GitHub.create({
+      owner: 'googleapis',
+      repo: 'gradle-test-repo',
+      defaultBranch: 'main',
+    });
+    plugin = new GradleWorkspace(github, 'main', {
+      core: {
+        releaseType: 'gradle',
+      },
+      app: {
+        releaseType: 'gradle',
+      },
+      'libs/util': {
+        releaseType: 'gradle',
+      },
+    });
+  });
+  afterEach(() => {
+    sandbox.restore();
+  });
+  describe('run', () => {
+    it('does nothing for non-gradle strategies', async () => {
+      const candidates: CandidateReleasePullRequest[] = [
+        buildMockCandidatePullRequest('python', 'python', '1.0.0'),
+      ];
+      const newCandidates = await plugin.run(candidates);
+      expect(newCandidates).to.eql(candidates);
+    });
+    it('rejects without a settings file', async () => {
+      stubGradleFiles(github, []);
+      const candidates: CandidateReleasePullRequest[] = [
+        buildMockCandidatePullRequest('core', 'gradle', '1.2.0'),
+      ];
+      await assert.rejects(async () => {
+        await plugin.run(candidates);
+      }, ConfigurationError);
+    });
+    it('bumps dependent projects', async () => {
+      stubGradleFiles(github, [
+        'settings.gradle.kts',
+        'core/gradle.properties',
+        'core/build.gradle.kts',
+        'app/build.gradle.kts',
+        'libs/util/gradle.properties',
+        'libs/util/build.gradle.kts',
+      ]);
+      const candidates: CandidateReleasePullRequest[] = [
+        buildMockCandidatePullRequest('libs/util', 'gradle', '3.1.0', {
+          component: 'util',
+        }),
+      ];
+      const newCandidates = await plugin.run(candidates);
+      expect(newCandidates).lengthOf(1);
+      const gradleCandidate = newCandidates[0];
+      const updates = gradleCandidate.pullRequest.updates;
+
+      const coreUpdate = assertHasUpdate(
+        updates,
+        'core/gradle.properties',
+        GradleProperties
+      ).updater as GradleProperties;
+      expect(coreUpdate.version.toString()).to.equal('1.1.2');
+      const appUpdate = assertHasUpdate(
+        updates,
+        'app/build.gradle.kts',
+        BuildGradle
+      ).updater as BuildGradle;
+      expect(appUpdate.version.toString()).to.equal('2.0.1');
+      assertHasUpdate(updates, 'core/CHANGELOG.md');
+      assertHasUpdate(updates, 'app/CHANGELOG.md');
+
+      const catalogUpdate = assertHasUpdate(
+        updates,
+        'gradle/libs.versions.toml',
+        VersionCatalog
+      ).updater as VersionCatalog;
+      expect(catalogUpdate.versionsMap.get('util')?.toString()).to.equal(
+        '3.1.0'
+      );
+      expect(catalogUpdate.versionsMap.get('core')?.toString()).to.equal(
+        '1.1.2'
+      );
+
+      const body = gradleCandidate.pullRequest.body.toString();
+      expect(body).to.include(':libs:util bumped to 3.1.0');
+      expect(body).to.include(':core bumped to 1.1.2');
+    });
+    it('can skip merging pull requests', async () => {
+      plugin = new GradleWorkspace(
+        github,
+        'main',
+        {
+          core: {
+            releaseType: 'gradle',
+          },
+          app: {
+            releaseType: 'gradle',
+          },
+          'libs/util': {
+            releaseType: 'gradle',
+          },
+        },
+        {
+          merge: false,
+        }
+      );
+      stubGradleFiles(github, [
+        'settings.gradle.kts',
+        'core/gradle.properties',
+        'core/build.gradle.kts',
+        'app/build.gradle.kts',
+        'libs/util/gradle.properties',
+        'libs/util/build.gradle.kts',
+      ]);
+      const candidates: CandidateReleasePullRequest[] = [
+        buildMockCandidatePullRequest('core', 'gradle', '1.2.0', {
+          component: 'core',
+        }),
+      ];
+      const newCandidates = await plugin.run(candidates);
+      expect(newCandidates).lengthOf(2);
+      const appCandidate = newCandidates.find(
+        candidate => candidate.path === 'app'
+      );
+      expect(appCandidate).to.not.be.undefined;
+      expect(appCandidate!.pullRequest.version?.toString()).to.equal('2.0.1');
+      expect(appCandidate!.pullRequest.body.toString()).to.include(
+        ':core bumped to 1.2.0'
+      );
+      const utilCandidate = newCandidates.find(
+        candidate => candidate.path === 'libs/util'
+      );
+      expect(utilCandidate).to.be.undefined;
+    });
+  });
+});
@@ -0,0 +1,188 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {describe, it, afterEach, beforeEach} from 'mocha';
+import * as sinon from 'sinon';
+import {expect} from 'chai';
+import {readFileSync} from 'fs';
+import {resolve} from 'path';
+import {GitHub} from '../../src/github';
+import {CandidateReleasePullRequest} from '../../src/manifest';
+import {
+  buildMockCandidatePullRequest,
+  assertHasUpdate,
+  stubFilesFromFixtures,
+} from '../helpers';
+import {ManifestPlugin} from '../../src/plugin';
+import {HelmWorkspace} from '../../src/plugins/helm-workspace';
+import {ChartYaml} from '../../src/updaters/helm/chart-yaml';
+import {Updater} from '../../src/update';
+import {Version} from '../../src/version';
+
+const sandbox = sinon.createSandbox();
+const fixturesPath = './test/fixtures/plugins/helm-workspace';
+const CHART_FILES = [
+  'charts/umbrella/Chart.yaml',
+  'charts/api/Chart.yaml',
+  'charts/worker/Chart.yaml',
+];
+
+function updateFixture(path: string, updater: Updater): string {
+  return updater.updateContent(
+    readFileSync(resolve(fixturesPath, path), 'utf8')
+  );
+}
+
+describe('HelmWorkspace plugin', () => {
+  let github: GitHub;
+  let plugin: ManifestPlugin;
+  beforeEach(async () => {
+    github = await GitHub.create({
+      owner: 'googleapis',
+      repo: 'helm-test-repo',
+      defaultBranch: 'main',
+    });
+    plugin = new HelmWorkspace(github, 'main', {
+      'charts/umbrella': {
+        releaseType: 'helm',
+      },
+      'charts/api': {
+        releaseType: 'helm',
+      },
+      'charts/worker': {
+        releaseType: 'helm',
+      },
+    });
+  });
+  afterEach(() => {
+    sandbox.restore();
+  });
+  describe('run', () => {
+    it('does nothing for non-helm strategies', async () => {
+      const candidates: CandidateReleasePullRequest[] = [
+        buildMockCandidatePullRequest('python', 'python', '1.0.0'),
+      ];
+      const newCandidates = await plugin.run(candidates);
+      expect(newCandidates).to.eql(candidates);
+    });
+    it('bumps dependent charts', async () => {
+      stubFilesFromFixtures({
+        sandbox,
+        github,
+        fixturePath: fixturesPath,
+        files: CHART_FILES,
+        flatten: false,
+        targetBranch: 'main',
+      });
+      const candidates: CandidateReleasePullRequest[] = [
+        buildMockCandidatePullRequest('charts/api', 'helm', '1.3.0', {
+          component: 'api',
+          updates: [
+            {
+              path: 'charts/api/Chart.yaml',
+              createIfMissing: false,
+              updater: new ChartYaml({
+                version: Version.parse('1.3.0'),
+              }),
+            },
+          ],
+        }),
+      ];
+      const newCandidates = await plugin.run(candidates);
+      expect(newCandidates).lengthOf(1);
+      const updates = newCandidates[0].pullRequest.updates;
+
+      const umbrella = updateFixture(
+        'charts/umbrella/Chart.yaml',
+        assertHasUpdate(updates, 'charts/umbrella/Chart.yaml', ChartYaml)
+          .updater
+      );
+      expect(umbrella).to.include('version: 2.0.1');
+      expect(umbrella).to.include('version: "~1.3.0"');
+      expect(umbrella).to.include('version: 0.5.1');
+      expect(umbrella).to.include('version: 18.x.x');
+
+      const worker = updateFixture(
+        'charts/worker/Chart.yaml',
+        assertHasUpdate(updates, 'charts/worker/Chart.yaml', ChartYaml).updater
+      );
+      expect(worker).to.include('version: 0.5.1');
+      expect(worker).to.include('version: ">=1.3.0"');
+
+      const body = newCandidates[0].pullRequest.body.toString();
+      expect(body).to.include('api bumped from ~1.2.0 to ~1.3.0');
+      expect(body).to.include('worker bumped from 0.5.0 to 0.5.1');
+    });
+    it('syncs appVersion from an application component', async () => {
+      plugin = new HelmWorkspace(
+        github,
+        'main',
+        {
+          'services/api': {
+            releaseType: 'node',
+          },
+          'charts/umbrella': {
+            releaseType: 'helm',
+          },
+          'charts/api': {
+            releaseType: 'helm',
+          },
+          'charts/worker': {
+            releaseType: 'helm',
+          },
+        },
+        {
+          appVersionFrom: {
+            'charts/api': 'services/api',
+          },
+          merge: false,
+        }
+      );
+      stubFilesFromFixtures({
+        sandbox,
+        github,
+        fixturePath: fixturesPath,
+        files: CHART_FILES,
+        flatten: false,
+        targetBranch: 'main',
+      });
+      const candidates: CandidateReleasePullRequest[] = [
+        buildMockCandidatePullRequest('services/api', 'node', '4.0.0', {
+          component: 'api-service',
+        }),
+      ];
+      const newCandidates = await plugin.run(candidates);
+      expect(newCandidates).lengthOf(4);
+      const chartCandidate = newCandidates.find(
+        candidate => candidate.path === 'charts/api'
+      );
+      expect(chartCandidate).to.not.be.undefined;
+      expect(chartCandidate!.pullRequest.version?.toString()).to.equal('1.2.4');
+      const api = updateFixture(
+        'charts/api/Chart.yaml',
+        assertHasUpdate(
+          chartCandidate!.pullRequest.updates,
+          'charts/api/Chart.yaml'
+        ).updater
+      );
+      expect(api).to.include('version: 1.2.4');
+      expect(api).to.include('appVersion: "4.0.0"');
+      expect(
+        newCandidates
+          .find(candidate => candidate.path === 'charts/umbrella')
+          ?.pullRequest.version?.toString()
+      ).to.equal('2.0.1');
+    });
+  });
+});
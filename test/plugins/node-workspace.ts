@@ -20,7 +20,10 @@ import {CandidateReleasePullRequest} from '../../src/manifest';
 import {expect} from 'chai';
 import {Version} from '../../src/version';
 import {Update} from '../../src/update';
-import {PackageJson} from '../../src/updaters/node/package-json';
+import {
+  PackageJson,
+  PackageJsonDependencies,
+} from '../../src/updaters/node/package-json';
 import {
   buildGitHubFileContent,
   assertHasUpdate,
@@ -39,6 +42,9 @@ import {Node} from '../../src/strategies/node';
 import {TagName} from '../../src/util/tag-name';
 import {Generic} from '../../src/updaters/generic';
 import {PrereleaseVersioningStrategy} from '../../src/versioning-strategies/prerelease';
+import {PnpmLock} from '../../src/updaters/node/pnpm-lock';
+import {YarnLock} from '../../src/updaters/node/yarn-lock';
+import {FileNotFoundError} from '../../src/errors';
 
 const sandbox = sinon.createSandbox();
 const fixturesPath = './test/fixtures/plugins/node-workspace';
@@ -172,6 +178,13 @@ describe('NodeWorkspace plugin', () => {
           releaseType: 'node',
         },
       });
+      // no lock files on the target branch
+      stubFilesFromFixtures({
+        sandbox,
+        github,
+        fixturePath: fixturesPath,
+        files: [],
+      });
       const newCandidates = await plugin.run(candidates);
       expect(newCandidates).lengthOf(2);
       const nodeCandidate = newCandidates.find(
@@ -204,6 +217,13 @@ describe('NodeWorkspace plugin', () => {
         plugin1: {releaseType: 'node'},
         node1: {releaseType: 'node'},
       });
+      // no lock files on the target branch
+      stubFilesFromFixtures({
+        sandbox,
+        github,
+        fixturePath: fixturesPath,
+        files: [],
+      });
       const newCandidates = await plugin.run(candidates);
       expect(newCandidates).lengthOf(1);
       const nodeCandidate = newCandidates.find(
@@ -763,6 +783,13 @@ describe('NodeWorkspace plugin', () => {
         },
         options
       );
+      // no lock files on the target branch
+      stubFilesFromFixtures({
+        sandbox,
+        github,
+        fixturePath: fixturesPath,
+        files: [],
+      });
       const newCandidates = await plugin.run(candidates);
       expect(newCandidates).lengthOf(1);
       const nodeCandidate = newCandidates.find(
@@ -774,4 +801,149 @@ describe('NodeWorkspace plugin', () => {
       snapshotUpdate(updates, 'plugin1/package.json');
     });
   });
+  describe('with discoverWorkspaces: true', () => {
+    const discoveryFixturesPath =
+      './test/fixtures/plugins/node-workspace-discovery';
+    const candidates = () => [
+      buildMockCandidatePullRequest('packages/pkg-a', 'node', '1.1.0', {
+        component: '@here/pkg-a',
+        updates: [
+          {
+            path: 'packages/pkg-a/package.json',
+            createIfMissing: false,
+            cachedFileContents: buildGitHubFileContent(
+              discoveryFixturesPath,
+              'packages/pkg-a/package.json'
+            ),
+            updater: new PackageJson({version: Version.parse('1.1.0')}),
+          },
+        ],
+      }),
+    ];
+    beforeEach(() => {
+      plugin = new NodeWorkspace(
+        github,
+        'main',
+        {
+          'packages/pkg-a': {releaseType: 'node'},
+          'packages/pkg-b': {releaseType: 'node'},
+        },
+        {discoverWorkspaces: true}
+      );
+      const findFilesStub = sandbox.stub(github, 'findFilesByGlobAndRef');
+      findFilesStub
+        .withArgs('packages/*/package.json', 'main')
+        .resolves([
+          'packages/pkg-a/package.json',
+          'packages/pkg-b/package.json',
+        ]);
+      findFilesStub
+        .withArgs('apps/*/package.json', 'main')
+        .resolves(['apps/legacy/package.json', 'apps/web/package.json']);
+    });
+    it('updates dependencies of packages in pnpm-workspace.yaml', async () => {
+      stubFilesFromFixtures({
+        sandbox,
+        github,
+        fixturePath: discoveryFixturesPath,
+        files: [
+          'pnpm-workspace.yaml',
+          'packages/pkg-a/package.json',
+          'packages/pkg-b/package.json',
+          'apps/web/package.json',
+        ],
+        inlineFiles: [['pnpm-lock.yaml', "lockfileVersion: '9.0'\n"]],
+        flatten: false,
+        targetBranch: 'main',
+      });
+      const newCandidates = await plugin.run(candidates());
+      expect(newCandidates).lengthOf(1);
+      const updates = newCandidates[0].pullRequest.updates;
+      const update = assertHasUpdate(
+        updates,
+        'packages/pkg-b/package.json',
+        PackageJson
+      );
+      const pkgB = JSON.parse(
+        update.updater.updateContent(
+          readFixture(discoveryFixturesPath, 'packages/pkg-b/package.json')
+        )
+      );
+      expect(pkgB.version).to.eql('2.0.1');
+      expect(pkgB.dependencies['@here/pkg-a']).to.eql('workspace:^1.1.0');
+      const appUpdate = assertHasUpdate(
+        updates,
+        'apps/web/package.json',
+        PackageJsonDependencies
+      );
+      const app = JSON.parse(
+        appUpdate.updater.updateContent(
+          readFixture(discoveryFixturesPath, 'apps/web/package.json')
+        )
+      );
+      expect(app.version).to.be.undefined;
+      expect(app.dependencies).to.eql({
+        '@here/pkg-a': 'workspace:~1.1.0',
+        '@here/pkg-b': 'workspace:*',
+      });
+      assertNoHasUpdate(updates, 'apps/legacy/package.json');
+      assertHasUpdate(updates, 'pnpm-lock.yaml', PnpmLock);
+      assertNoHasUpdate(updates, 'yarn.lock');
+      snapshot(dateSafe(newCandidates[0].pullRequest.body.toString()));
+    });
+    it('discovers packages from package.json workspaces', async () => {
+      stubFilesFromFixtures({
+        sandbox,
+        github,
+        fixturePath: discoveryFixturesPath,
+        files: [
+          'packages/pkg-a/package.json',
+          'packages/pkg-b/package.json',
+          'apps/web/package.json',
+        ],
+        inlineFiles: [
+          ['package.json', '{"workspaces": ["packages/*", "apps/web"]}'],
+        ],
+        flatten: false,
+        targetBranch: 'main',
+      });
+      (github.getFileContentsOnBranch as sinon.SinonStub)
+        .withArgs('pnpm-workspace.yaml', 'main')
+        .rejects(new FileNotFoundError('pnpm-workspace.yaml'));
+      (github.findFilesByGlobAndRef as sinon.SinonStub)
+        .withArgs('apps/web/package.json', 'main')
+        .resolves(['apps/web/package.json']);
+      const newCandidates = await plugin.run(candidates());
+      expect(newCandidates).lengthOf(1);
+      const updates = newCandidates[0].pullRequest.updates;
+      assertHasUpdate(updates, 'packages/pkg-b/package.json', PackageJson);
+      assertHasUpdate(
+        updates,
+        'apps/web/package.json',
+        PackageJsonDependencies
+      );
+      assertNoHasUpdate(updates, 'apps/legacy/package.json');
+      // npm workspaces have neither a pnpm nor a Yarn lock file
+      assertNoHasUpdate(updates, 'pnpm-lock.yaml');
+      assertNoHasUpdate(updates, 'yarn.lock');
+    });
+    it('updates yarn.lock of a Yarn workspace', async () => {
+      stubFilesFromFixtures({
+        sandbox,
+        github,
+        fixturePath: discoveryFixturesPath,
+        files: ['packages/pkg-a/package.json', 'packages/pkg-b/package.json'],
+        inlineFiles: [
+          ['package.json', '{"workspaces": ["packages/*"]}'],
+          ['yarn.lock', '__metadata:\n  version: 8\n'],
+        ],
+        flatten: false,
+        targetBranch: 'main',
+      });
+      const newCandidates = await plugin.run(candidates());
+      const updates = newCandidates[0].pullRequest.updates;
+      assertHasUpdate(updates, 'yarn.lock', YarnLock);
+      assertNoHasUpdate(updates, 'pnpm-lock.yaml');
+    });
+  });
 });
@@ -32,6 +32,9 @@ import {GenericXml} from '../../src/updaters/generic-xml';
 import {PomXml} from '../../src/updaters/java/pom-xml';
 import {GenericYaml} from '../../src/updaters/generic-yaml';
 import {GenericToml} from '../../src/updaters/generic-toml';
+import {DefaultVersioningStrategy} from '../../src/versioning-strategies/default';
+import {ChannelVersioningStrategy} from '../../src/versioning-strategies/channel';
+import {CalendarVersioningStrategy} from '../../src/versioning-strategies/calver';
 
 const sandbox = sinon.createSandbox();
 
@@ -63,6 +66,38 @@ describe('Strategy', () => {
       const pullRequest = await strategy.buildReleasePullRequest([]);
       expect(pullRequest).to.be.undefined;
     });
+    it('ignores commits matching a bump rule without a bump', async () => {
+      const strategy = new TestStrategy({
+        targetBranch: 'main',
+        github,
+        component: 'google-cloud-automl',
+        versioningStrategy: new DefaultVersioningStrategy({
+          bumpRules: [{type: 'deps', scope: 'dev', bump: 'none'}],
+        }),
+      });
+      const commits = buildMockConventionalCommit('deps(dev): update mocha');
+      expect(await strategy.buildReleasePullRequest(commits)).to.be.undefined;
+      const pullRequest = await strategy.buildReleasePullRequest([
+        ...buildMockConventionalCommit('fix: some bugfix'),
+        ...commits,
+      ]);
+      expect(pullRequest).to.not.be.undefined;
+    });
+    it('ignores commits without a bump with release channels', async () => {
+      const strategy = new TestStrategy({
+        targetBranch: 'main',
+        github,
+        component: 'google-cloud-automl',
+        versioningStrategy: new ChannelVersioningStrategy(
+          new DefaultVersioningStrategy({
+            bumpRules: [{type: 'fix', scope: 'dev', bump: 'none'}],
+          }),
+          {channelIds: ['rc']}
+        ),
+      });
+      const commits = buildMockConventionalCommit('fix(dev): update mocha');
+      expect(await strategy.buildReleasePullRequest(commits)).to.be.undefined;
+    });
     it('allows overriding initial version', async () => {
       const strategy = new TestStrategy({
         targetBranch: 'main',
@@ -452,5 +487,29 @@ describe('Strategy', () => {
       expect(release, 'Release').to.not.be.undefined;
       expect(release!.tag.toString()).to.eql('1.2.3');
     });
+    it('parses calendar versions with release channels', async () => {
+      const strategy = new TestStrategy({
+        targetBranch: 'main',
+        github,
+        component: 'google-cloud-automl',
+        includeComponentInTag: false,
+        versioningStrategy: new ChannelVersioningStrategy(
+          new CalendarVersioningStrategy({format: 'YY.0M'}),
+          {channelIds: ['rc']}
+        ),
+      });
+      const release = await strategy.buildRelease({
+        title: 'chore(main): release v24.07',
+        headBranchName: 'release-please/branches/main',
+        baseBranchName: 'main',
+        number: 1234,
+        body: new PullRequestBody([]).toString(),
+        labels: [],
+        files: [],
+        sha: 'abc123',
+      });
+      expect(release, 'Release').to.not.be.undefined;
+      expect(release!.tag.toString()).to.eql('v24.07');
+    });
   });
 });
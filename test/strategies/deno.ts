@@ -0,0 +1,154 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {describe, it, afterEach, beforeEach} from 'mocha';
+import {expect} from 'chai';
+import {GitHub} from '../../src/github';
+import {Deno} from '../../src/strategies/deno';
+import * as sinon from 'sinon';
+import {
+  assertHasUpdate,
+  assertNoHasUpdate,
+  buildGitHubFileRaw,
+  buildMockConventionalCommit,
+} from '../helpers';
+import {TagName} from '../../src/util/tag-name';
+import {Version} from '../../src/version';
+import {Changelog} from '../../src/updaters/changelog';
+import {DenoJson} from '../../src/updaters/deno/deno-json';
+import {FileNotFoundError} from '../../src/errors';
+
+const sandbox = sinon.createSandbox();
+
+const COMMITS = [
+  ...buildMockConventionalCommit('fix: handle empty responses'),
+  ...buildMockConventionalCommit('chore: update common templates'),
+];
+
+describe('Deno', () => {
+  let github: GitHub;
+  beforeEach(async () => {
+    github = await GitHub.create({
+      owner: 'googleapis',
+      repo: 'deno-test-repo',
+      defaultBranch: 'main',
+    });
+  });
+  afterEach(() => {
+    sandbox.restore();
+  });
+  describe('buildReleasePullRequest', () => {
+    it('returns release PR changes with defaultInitialVersion', async () => {
+      const expectedVersion = '1.0.0';
+      const strategy = new Deno({
+        targetBranch: 'main',
+        github,
+        component: 'utils',
+        packageName: '@acme/utils',
+      });
+      const latestRelease = undefined;
+      const release = await strategy.buildReleasePullRequest(
+        COMMITS,
+        latestRelease
+      );
+      expect(release!.version?.toString()).to.eql(expectedVersion);
+    });
+    it('returns release PR changes with semver patch bump', async () => {
+      const expectedVersion = '0.4.1';
+      const strategy = new Deno({
+        targetBranch: 'main',
+        github,
+        component: 'utils',
+        packageName: '@acme/utils',
+      });
+      const latestRelease = {
+        tag: new TagName(Version.parse('0.4.0'), 'utils'),
+        sha: 'abc123',
+        notes: 'some notes',
+      };
+      const release = await strategy.buildReleasePullRequest(
+        COMMITS,
+        latestRelease
+      );
+      expect(release!.version?.toString()).to.eql(expectedVersion);
+    });
+  });
+  describe('buildUpdates', () => {
+    it('builds common files', async () => {
+      const strategy = new Deno({
+        targetBranch: 'main',
+        github,
+        path: 'packages/utils',
+        packageName: '@acme/utils',
+      });
+      const release = await strategy.buildReleasePullRequest(
+        COMMITS,
+        undefined
+      );
+      const updates = release!.updates;
+      expect(updates).lengthOf(4);
+      assertHasUpdate(updates, 'packages/utils/CHANGELOG.md', Changelog);
+      assertHasUpdate(updates, 'packages/utils/deno.json', DenoJson);
+      assertHasUpdate(updates, 'packages/utils/deno.jsonc', DenoJson);
+      assertHasUpdate(updates, 'packages/utils/jsr.json', DenoJson);
+    });
+    it('skips the changelog', async () => {
+      const strategy = new Deno({
+        targetBranch: 'main',
+        github,
+        packageName: '@acme/utils',
+        skipChangelog: true,
+      });
+      const release = await strategy.buildReleasePullRequest(
+        COMMITS,
+        undefined
+      );
+      assertNoHasUpdate(release!.updates, 'CHANGELOG.md');
+    });
+  });
+  describe('getDefaultPackageName', () => {
+    it('reads the name from deno.jsonc', async () => {
+      const strategy = new Deno({
+        targetBranch: 'main',
+        github,
+      });
+      const getFileContentsStub = sandbox.stub(
+        github,
+        'getFileContentsOnBranch'
+      );
+      getFileContentsStub
+        .withArgs('deno.jsonc', 'main')
+        .resolves(
+          buildGitHubFileRaw(
+            '{\n  // JSR package\n  "name": "@acme/utils",\n  "version": "0.4.0",\n}\n'
+          )
+        );
+      getFileContentsStub.callsFake(async path => {
+        throw new FileNotFoundError(path);
+      });
+      expect(await strategy.getDefaultPackageName()).to.equal('@acme/utils');
+      expect(await strategy.getDefaultComponent()).to.equal('utils');
+    });
+    it('falls back to an empty name', async () => {
+      const strategy = new Deno({
+        targetBranch: 'main',
+        github,
+      });
+      sandbox.stub(github, 'getFileContentsOnBranch').callsFake(async path => {
+        throw new FileNotFoundError(path);
+      });
+      expect(await strategy.getDefaultPackageName()).to.equal('');
+    });
+  });
+});
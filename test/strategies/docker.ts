@@ -0,0 +1,177 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {describe, it, afterEach, beforeEach} from 'mocha';
+import {expect} from 'chai';
+import {GitHub} from '../../src/github';
+import {Docker} from '../../src/strategies/docker';
+import * as sinon from 'sinon';
+import {
+  assertHasUpdate,
+  assertNoHasUpdate,
+  buildGitHubFileRaw,
+  buildMockConventionalCommit,
+} from '../helpers';
+import {TagName} from '../../src/util/tag-name';
+import {Version} from '../../src/version';
+import {Changelog} from '../../src/updaters/changelog';
+import {Dockerfile} from '../../src/updaters/docker/dockerfile';
+import {KustomizationYaml} from '../../src/updaters/docker/kustomization-yaml';
+import {HelmValuesYaml} from '../../src/updaters/docker/helm-values-yaml';
+import {FileNotFoundError} from '../../src/errors';
+
+const sandbox = sinon.createSandbox();
+
+const COMMITS = [
+  ...buildMockConventionalCommit('fix: handle empty responses'),
+  ...buildMockConventionalCommit('chore: update common templates'),
+];
+
+describe('Docker', () => {
+  let github: GitHub;
+  beforeEach(async () => {
+    github = await GitHub.create({
+      owner: 'googleapis',
+      repo: 'docker-test-repo',
+      defaultBranch: 'main',
+    });
+  });
+  afterEach(() => {
+    sandbox.restore();
+  });
+  describe('buildReleasePullRequest', () => {
+    it('returns release PR changes with semver patch bump', async () => {
+      const expectedVersion = '1.2.4';
+      const strategy = new Docker({
+        targetBranch: 'main',
+        github,
+        component: 'api',
+        packageName: 'api',
+      });
+      sandbox.stub(github, 'findFilesByFilenameAndRef').resolves([]);
+      const latestRelease = {
+        tag: new TagName(Version.parse('1.2.3'), 'api'),
+        sha: 'abc123',
+        notes: 'some notes',
+      };
+      const release = await strategy.buildReleasePullRequest(
+        COMMITS,
+        latestRelease
+      );
+      expect(release!.version?.toString()).to.eql(expectedVersion);
+    });
+  });
+  describe('buildUpdates', () => {
+    it('builds common files', async () => {
+      const strategy = new Docker({
+        targetBranch: 'main',
+        github,
+        path: 'services/api',
+      });
+      sandbox
+        .stub(github, 'getFileContentsOnBranch')
+        .withArgs('services/api/Dockerfile', 'main')
+        .resolves(
+          buildGitHubFileRaw(
+            'FROM scratch\nLABEL org.opencontainers.image.title="api-server"\n'
+          )
+        );
+      const findFilesStub = sandbox.stub(github, 'findFilesByFilenameAndRef');
+      findFilesStub
+        .withArgs('kustomization.yaml', 'main')
+        .resolves(['deploy/overlays/prod/kustomization.yaml']);
+      findFilesStub
+        .withArgs('values.yaml', 'main')
+        .resolves(['charts/api/values.yaml']);
+      findFilesStub.resolves([]);
+      const release = await strategy.buildReleasePullRequest(
+        COMMITS,
+        undefined
+      );
+      const updates = release!.updates;
+      expect(updates).lengthOf(4);
+      assertHasUpdate(updates, 'services/api/CHANGELOG.md', Changelog);
+      assertHasUpdate(updates, 'services/api/Dockerfile', Dockerfile);
+      const kustomization = assertHasUpdate(
+        updates,
+        'deploy/overlays/prod/kustomization.yaml',
+        KustomizationYaml
+      ).updater as KustomizationYaml;
+      expect(kustomization.imageName).to.equal('api-server');
+      assertHasUpdate(updates, 'charts/api/values.yaml', HelmValuesYaml);
+    });
+
+    it('defaults the image name to the package directory', async () => {
+      const strategy = new Docker({
+        targetBranch: 'main',
+        github,
+        path: 'services/worker',
+        skipChangelog: true,
+      });
+      sandbox
+        .stub(github, 'getFileContentsOnBranch')
+        .rejects(new FileNotFoundError('services/worker/Dockerfile'));
+      const findFilesStub = sandbox.stub(github, 'findFilesByFilenameAndRef');
+      findFilesStub
+        .withArgs('values.yaml', 'main')
+        .resolves([
+          'services/worker/chart/values.yaml',
+          'charts/worker/values.yaml',
+        ]);
+      findFilesStub.resolves([]);
+      const release = await strategy.buildReleasePullRequest(
+        COMMITS,
+        undefined
+      );
+      const updates = release!.updates;
+      assertNoHasUpdate(updates, 'services/worker/CHANGELOG.md');
+      const values = assertHasUpdate(
+        updates,
+        'services/worker/chart/values.yaml',
+        HelmValuesYaml
+      ).updater as HelmValuesYaml;
+      expect(values.imageName).to.equal('worker');
+      // the directory name is too ambiguous to update other packages
+      assertNoHasUpdate(updates, 'charts/worker/values.yaml');
+    });
+
+    it('updates images everywhere with a configured package name', async () => {
+      const strategy = new Docker({
+        targetBranch: 'main',
+        github,
+        path: 'services/worker',
+        packageName: 'ghcr.io/acme/worker',
+        skipChangelog: true,
+      });
+      sandbox
+        .stub(github, 'getFileContentsOnBranch')
+        .rejects(new FileNotFoundError('services/worker/Dockerfile'));
+      const findFilesStub = sandbox.stub(github, 'findFilesByFilenameAndRef');
+      findFilesStub
+        .withArgs('values.yaml', 'main')
+        .resolves(['charts/worker/values.yaml']);
+      findFilesStub.resolves([]);
+      const release = await strategy.buildReleasePullRequest(
+        COMMITS,
+        undefined
+      );
+      const values = assertHasUpdate(
+        release!.updates,
+        'charts/worker/values.yaml',
+        HelmValuesYaml
+      ).updater as HelmValuesYaml;
+      expect(values.imageName).to.equal('ghcr.io/acme/worker');
+    });
+  });
+});
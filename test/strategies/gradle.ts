@@ -0,0 +1,167 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {afterEach, beforeEach, describe, it} from 'mocha';
+import {GitHub} from '../../src';
+import * as sinon from 'sinon';
+import {
+  assertHasUpdate,
+  assertHasUpdates,
+  assertNoHasUpdate,
+  buildMockConventionalCommit,
+} from '../helpers';
+import {Changelog} from '../../src/updaters/changelog';
+import {CompositeUpdater} from '../../src/updaters/composite';
+import {Generic} from '../../src/updaters/generic';
+import {JavaReleased} from '../../src/updaters/java/java-released';
+import {Gradle} from '../../src/strategies/gradle';
+import {GradleProperties} from '../../src/updaters/gradle/gradle-properties';
+import {BuildGradle} from '../../src/updaters/gradle/build-gradle';
+import {VersionCatalog} from '../../src/updaters/gradle/version-catalog';
+import {TagName} from '../../src/util/tag-name';
+import {Version} from '../../src/version';
+import {expect} from 'chai';
+
+const sandbox = sinon.createSandbox();
+
+const COMMITS = [
+  ...buildMockConventionalCommit('fix(deps): update dependency'),
+  ...buildMockConventionalCommit('chore: update common templates'),
+];
+
+describe('Gradle', () => {
+  let github: GitHub;
+  beforeEach(async () => {
+    github = await GitHub.create({
+      owner: 'googleapis',
+      repo: 'gradle-test-repo',
+      defaultBranch: 'main',
+    });
+    const findFilesStub = sandbox.stub(github, 'findFilesByFilenameAndRef');
+    findFilesStub.resolves([]);
+    findFilesStub
+      .withArgs('gradle.properties', 'main')
+      .resolves(['gradle.properties', 'core/gradle.properties']);
+    findFilesStub
+      .withArgs('build.gradle.kts', 'main')
+      .resolves(['build.gradle.kts', 'core/build.gradle.kts']);
+    findFilesStub
+      .withArgs('libs.versions.toml', 'main')
+      .resolves(['gradle/libs.versions.toml']);
+  });
+  afterEach(() => {
+    sandbox.restore();
+  });
+  describe('buildReleasePullRequest', () => {
+    it('updates gradle files', async () => {
+      const strategy = new Gradle({
+        targetBranch: 'main',
+        github,
+        extraFiles: ['foo/bar.java'],
+      });
+
+      const release = await strategy.buildReleasePullRequest(
+        COMMITS,
+        undefined
+      );
+
+      expect(release?.version?.toString()).to.eql('1.0.0');
+
+      const updates = release!.updates;
+      assertHasUpdate(updates, 'CHANGELOG.md', Changelog);
+      assertHasUpdates(
+        updates,
+        'gradle.properties',
+        GradleProperties,
+        JavaReleased,
+        Generic
+      );
+      assertHasUpdates(
+        updates,
+        'core/gradle.properties',
+        GradleProperties,
+        JavaReleased,
+        Generic
+      );
+      assertHasUpdates(
+        updates,
+        'core/build.gradle.kts',
+        BuildGradle,
+        JavaReleased,
+        Generic
+      );
+      assertHasUpdates(
+        updates,
+        'gradle/libs.versions.toml',
+        VersionCatalog,
+        JavaReleased,
+        Generic
+      );
+      assertNoHasUpdate(updates, 'build.gradle');
+      assertHasUpdates(updates, 'foo/bar.java', JavaReleased, Generic);
+    });
+
+    it('updates version catalog entries for the package name', async () => {
+      const strategy = new Gradle({
+        targetBranch: 'main',
+        github,
+        packageName: 'core',
+      });
+
+      const release = await strategy.buildReleasePullRequest(
+        COMMITS,
+        undefined
+      );
+
+      const updates = release!.updates;
+      const composite = assertHasUpdates(
+        updates,
+        'gradle/libs.versions.toml',
+        VersionCatalog,
+        JavaReleased,
+        Generic
+      ) as CompositeUpdater;
+      const catalog = composite.updaters[0] as VersionCatalog;
+      expect(catalog.versionsMap.get('core')?.toString()).to.equal('1.0.0');
+    });
+
+    it('does not update released version for snapshot bump', async () => {
+      const strategy = new Gradle({
+        targetBranch: 'main',
+        github,
+        extraFiles: ['foo/bar.java'],
+      });
+
+      const latestRelease = {
+        tag: new TagName(Version.parse('2.3.3')),
+        sha: 'abc123',
+        notes: 'some notes',
+      };
+
+      const release = await strategy.buildReleasePullRequest(
+        COMMITS,
+        latestRelease
+      );
+
+      expect(release?.version?.toString()).to.eql('2.3.4-SNAPSHOT');
+      expect(release?.group).to.eql('snapshot');
+
+      const updates = release!.updates;
+      assertNoHasUpdate(updates, 'CHANGELOG.md');
+      assertHasUpdates(updates, 'gradle.properties', GradleProperties, Generic);
+      assertHasUpdates(updates, 'build.gradle.kts', BuildGradle, Generic);
+      assertHasUpdates(updates, 'foo/bar.java', Generic);
+    });
+  });
+});
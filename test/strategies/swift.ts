@@ -0,0 +1,149 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {describe, it, afterEach, beforeEach} from 'mocha';
+import {expect} from 'chai';
+import {GitHub} from '../../src/github';
+import {Swift} from '../../src/strategies/swift';
+import * as sinon from 'sinon';
+import {
+  assertHasUpdate,
+  assertNoHasUpdate,
+  buildGitHubFileRaw,
+  buildMockConventionalCommit,
+} from '../helpers';
+import {TagName} from '../../src/util/tag-name';
+import {Version} from '../../src/version';
+import {Changelog} from '../../src/updaters/changelog';
+import {SwiftVersion} from '../../src/updaters/swift/swift-version';
+import {Podspec} from '../../src/updaters/swift/podspec';
+import {PackageSwift} from '../../src/updaters/swift/package-swift';
+import {FileNotFoundError} from '../../src/errors';
+
+const sandbox = sinon.createSandbox();
+
+const COMMITS = [
+  ...buildMockConventionalCommit('fix: handle empty responses'),
+  ...buildMockConventionalCommit('chore: update common templates'),
+];
+
+describe('Swift', () => {
+  let github: GitHub;
+  beforeEach(async () => {
+    github = await GitHub.create({
+      owner: 'googleapis',
+      repo: 'swift-test-repo',
+      defaultBranch: 'main',
+    });
+  });
+  afterEach(() => {
+    sandbox.restore();
+  });
+  describe('buildReleasePullRequest', () => {
+    it('returns release PR changes with semver patch bump', async () => {
+      const expectedVersion = '0.123.5';
+      const strategy = new Swift({
+        targetBranch: 'main',
+        github,
+        component: 'Core',
+        packageName: 'Core',
+      });
+      sandbox.stub(github, 'findFilesByExtensionAndRef').resolves([]);
+      sandbox.stub(github, 'findFilesByFilenameAndRef').resolves([]);
+      const latestRelease = {
+        tag: new TagName(Version.parse('0.123.4'), 'Core'),
+        sha: 'abc123',
+        notes: 'some notes',
+      };
+      const release = await strategy.buildReleasePullRequest(
+        COMMITS,
+        latestRelease
+      );
+      expect(release!.version?.toString()).to.eql(expectedVersion);
+    });
+  });
+  describe('buildUpdates', () => {
+    it('builds common files', async () => {
+      const strategy = new Swift({
+        targetBranch: 'main',
+        github,
+        path: 'packages/core',
+      });
+      sandbox
+        .stub(github, 'getFileContentsOnBranch')
+        .withArgs('packages/core/Package.swift', 'main')
+        .resolves(
+          buildGitHubFileRaw(
+            'let package = Package(\n    name: "Core",\n    products: []\n)\n'
+          )
+        );
+      sandbox
+        .stub(github, 'findFilesByExtensionAndRef')
+        .withArgs('podspec', 'main', 'packages/core')
+        .resolves(['Core.podspec']);
+      sandbox
+        .stub(github, 'findFilesByFilenameAndRef')
+        .withArgs('Package.swift', 'main')
+        .resolves([
+          'packages/core/Package.swift',
+          'packages/app/Package.swift',
+        ]);
+      const release = await strategy.buildReleasePullRequest(
+        COMMITS,
+        undefined
+      );
+      const updates = release!.updates;
+      expect(updates).lengthOf(4);
+      assertHasUpdate(updates, 'packages/core/CHANGELOG.md', Changelog);
+      assertHasUpdate(
+        updates,
+        'packages/core/Sources/Core/Version.swift',
+        SwiftVersion
+      );
+      assertHasUpdate(updates, 'packages/core/Core.podspec', Podspec);
+      const pins = assertHasUpdate(
+        updates,
+        'packages/app/Package.swift',
+        PackageSwift
+      ).updater as PackageSwift;
+      expect(pins.versionsMap.get('Core')?.toString()).to.equal('1.0.0');
+      assertNoHasUpdate(updates, 'packages/core/Package.swift');
+    });
+
+    it('uses a configured version file', async () => {
+      const strategy = new Swift({
+        targetBranch: 'main',
+        github,
+        versionFile: 'Sources/Meta/SDK.swift',
+        skipChangelog: true,
+      });
+      sandbox
+        .stub(github, 'getFileContentsOnBranch')
+        .rejects(new FileNotFoundError('Package.swift'));
+      sandbox.stub(github, 'findFilesByExtensionAndRef').resolves([]);
+      const findFilesStub = sandbox
+        .stub(github, 'findFilesByFilenameAndRef')
+        .resolves([]);
+      const release = await strategy.buildReleasePullRequest(
+        COMMITS,
+        undefined
+      );
+      const updates = release!.updates;
+      expect(updates).lengthOf(1);
+      assertNoHasUpdate(updates, 'CHANGELOG.md');
+      assertHasUpdate(updates, 'Sources/Meta/SDK.swift', SwiftVersion);
+      sinon.assert.notCalled(findFilesStub);
+    });
+  });
+});
@@ -0,0 +1,59 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {readFileSync} from 'fs';
+import {resolve} from 'path';
+import * as snapshot from 'snap-shot-it';
+import {describe, it} from 'mocha';
+import {expect} from 'chai';
+import {BuildGradle} from '../../src/updaters/gradle/build-gradle';
+import {Version} from '../../src/version';
+
+const fixturesPath = './test/updaters/fixtures/gradle';
+
+describe('BuildGradle', () => {
+  describe('updateContent', () => {
+    it('updates the version of a Kotlin build script', async () => {
+      const oldContent = readFileSync(
+        resolve(fixturesPath, './build.gradle.kts'),
+        'utf8'
+      ).replace(/\r\n/g, '\n');
+      const updater = new BuildGradle({
+        version: Version.parse('1.3.0'),
+      });
+      const newContent = updater.updateContent(oldContent);
+      snapshot(newContent);
+    });
+
+    it('updates the versionName of a Groovy build script', async () => {
+      const oldContent = readFileSync(
+        resolve(fixturesPath, './build.gradle'),
+        'utf8'
+      ).replace(/\r\n/g, '\n');
+      const updater = new BuildGradle({
+        version: Version.parse('1.3.0'),
+      });
+      const newContent = updater.updateContent(oldContent);
+      snapshot(newContent);
+    });
+
+    it('ignores build scripts without a version', async () => {
+      const oldContent = 'plugins {\n    id("java-library")\n}\n';
+      const updater = new BuildGradle({
+        version: Version.parse('1.3.0'),
+      });
+      expect(updater.updateContent(oldContent)).to.equal(oldContent);
+    });
+  });
+});
@@ -34,5 +34,21 @@ describe('ChartYaml', () => {
       const newContent = version.updateContent(oldContent);
       snapshot(newContent);
     });
+
+    it('updates dependency versions and appVersion', async () => {
+      const oldContent = readFileSync(
+        resolve(fixturesPath, './helm/Chart.yaml'),
+        'utf8'
+      ).replace(/\r\n/g, '\n');
+      const versionsMap = new Map();
+      versionsMap.set('another-repo', Version.parse('0.16.0'));
+      const version = new ChartYaml({
+        version: Version.parse('1.1.0'),
+        versionsMap,
+        appVersion: Version.parse('2.1.0'),
+      });
+      const newContent = version.updateContent(oldContent);
+      snapshot(newContent);
+    });
   });
 });
@@ -0,0 +1,75 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {readFileSync} from 'fs';
+import {resolve} from 'path';
+import * as snapshot from 'snap-shot-it';
+import {describe, it} from 'mocha';
+import {expect} from 'chai';
+import {DenoImports, DenoJson} from '../../src/updaters/deno/deno-json';
+import {Version} from '../../src/version';
+
+const fixturesPath = './test/updaters/fixtures/deno';
+
+describe('DenoJson', () => {
+  describe('updateContent', () => {
+    it('updates version in deno.jsonc, preserving comments', async () => {
+      const oldContent = readFileSync(
+        resolve(fixturesPath, './deno.jsonc'),
+        'utf8'
+      ).replace(/\r\n/g, '\n');
+      const updater = new DenoJson({
+        version: Version.parse('0.5.0'),
+      });
+      const newContent = updater.updateContent(oldContent);
+      expect(newContent).to.include('// The package is published to JSR');
+      snapshot(newContent);
+    });
+
+    it('updates imports of workspace members', async () => {
+      const oldContent = readFileSync(
+        resolve(fixturesPath, './deno.jsonc'),
+        'utf8'
+      ).replace(/\r\n/g, '\n');
+      const versionsMap = new Map();
+      versionsMap.set('@acme/core', Version.parse('1.3.0'));
+      versionsMap.set('@acme/http', Version.parse('2.1.0'));
+      versionsMap.set('chalk', Version.parse('6.0.0'));
+      const updater = new DenoJson({
+        version: Version.parse('0.5.0'),
+        versionsMap,
+      });
+      const newContent = updater.updateContent(oldContent);
+      snapshot(newContent);
+    });
+  });
+});
+
+describe('DenoImports', () => {
+  describe('updateContent', () => {
+    it('updates only the imports', async () => {
+      const oldContent = readFileSync(
+        resolve(fixturesPath, './deno.jsonc'),
+        'utf8'
+      ).replace(/\r\n/g, '\n');
+      const versionsMap = new Map();
+      versionsMap.set('@acme/core', Version.parse('1.3.0'));
+      const updater = new DenoImports(versionsMap);
+      const newContent = updater.updateContent(oldContent);
+      expect(newContent).to.include('"version": "0.4.0"');
+      expect(newContent).to.include('"jsr:@acme/core@^1.3.0"');
+      expect(newContent).to.include('"jsr:@acme/core@~1.3.0"');
+    });
+  });
+});
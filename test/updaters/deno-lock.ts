@@ -0,0 +1,40 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {readFileSync} from 'fs';
+import {resolve} from 'path';
+import * as snapshot from 'snap-shot-it';
+import {describe, it} from 'mocha';
+import {DenoLock} from '../../src/updaters/deno/deno-lock';
+import {Version} from '../../src/version';
+
+const fixturesPath = './test/updaters/fixtures/deno';
+
+describe('DenoLock', () => {
+  describe('updateContent', () => {
+    it('updates workspace member dependencies', async () => {
+      const oldContent = readFileSync(
+        resolve(fixturesPath, './deno.lock'),
+        'utf8'
+      ).replace(/\r\n/g, '\n');
+      const versionsMap = new Map();
+      versionsMap.set('@acme/core', Version.parse('1.3.0'));
+      versionsMap.set('@acme/utils', Version.parse('0.4.1'));
+      versionsMap.set('@std/path', Version.parse('2.0.0'));
+      const updater = new DenoLock(versionsMap);
+      const newContent = updater.updateContent(oldContent);
+      snapshot(newContent);
+    });
+  });
+});
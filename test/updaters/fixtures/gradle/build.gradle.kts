@@ -0,0 +1,12 @@
+plugins {
+    kotlin("jvm") version "1.9.22"
+    `maven-publish`
+}
+
+group = "com.example"
+version = "1.2.3"
+
+dependencies {
+    implementation(project(":core"))
+    implementation(libs.kotlinx.coroutines)
+}
@@ -0,0 +1,19 @@
+// swift-tools-version:5.9
+import PackageDescription
+
+let package = Package(
+    name: "Feature",
+    platforms: [.iOS(.v13)],
+    products: [
+        .library(name: "Feature", targets: ["Feature"]),
+    ],
+    dependencies: [
+        .package(url: "https://github.com/example/Core.git", from: "1.2.0"),
+        .package(name: "Networking", url: "https://github.com/example/networking-swift", .upToNextMajor(from: "2.0.0")),
+        .package(url: "https://github.com/apple/swift-log.git", exact: "1.5.3"),
+        .package(path: "../Local"),
+    ],
+    targets: [
+        .target(name: "Feature", dependencies: ["Core", "Networking"]),
+    ]
+)
@@ -0,0 +1,6 @@
+import Foundation
+
+/// The version of the SDK, reported in the user agent.
+public let sdkVersion = "1.2.3"
+
+public let buildVersion = "42"
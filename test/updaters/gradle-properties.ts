@@ -0,0 +1,57 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {readFileSync} from 'fs';
+import {resolve} from 'path';
+import * as snapshot from 'snap-shot-it';
+import {describe, it} from 'mocha';
+import {expect} from 'chai';
+import {GradleProperties} from '../../src/updaters/gradle/gradle-properties';
+import {Version} from '../../src/version';
+
+const fixturesPath = './test/updaters/fixtures/gradle';
+
+describe('GradleProperties', () => {
+  describe('updateContent', () => {
+    it('updates the version property', async () => {
+      const oldContent = readFileSync(
+        resolve(fixturesPath, './gradle.properties'),
+        'utf8'
+      ).replace(/\r\n/g, '\n');
+      const updater = new GradleProperties({
+        version: Version.parse('1.2.3'),
+      });
+      const newContent = updater.updateContent(oldContent);
+      snapshot(newContent);
+    });
+
+    it('updates the VERSION_NAME property', async () => {
+      const updater = new GradleProperties({
+        version: Version.parse('2.0.0'),
+      });
+      const newContent = updater.updateContent(
+        'GROUP=com.example\nVERSION_NAME = 1.9.0\n'
+      );
+      expect(newContent).to.equal('GROUP=com.example\nVERSION_NAME = 2.0.0\n');
+    });
+
+    it('ignores files without a version property', async () => {
+      const oldContent = 'org.gradle.jvmargs=-Xmx2048m\n';
+      const updater = new GradleProperties({
+        version: Version.parse('2.0.0'),
+      });
+      expect(updater.updateContent(oldContent)).to.equal(oldContent);
+    });
+  });
+});
@@ -0,0 +1,39 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {readFileSync} from 'fs';
+import {resolve} from 'path';
+import * as snapshot from 'snap-shot-it';
+import {describe, it} from 'mocha';
+import {HelmValuesYaml} from '../../src/updaters/docker/helm-values-yaml';
+import {Version} from '../../src/version';
+
+const fixturesPath = './test/updaters/fixtures/docker';
+
+describe('HelmValuesYaml', () => {
+  describe('updateContent', () => {
+    it('updates the tags of the image', async () => {
+      const oldContent = readFileSync(
+        resolve(fixturesPath, './values.yaml'),
+        'utf8'
+      ).replace(/\r\n/g, '\n');
+      const updater = new HelmValuesYaml({
+        version: Version.parse('1.3.0'),
+        imageName: 'ghcr.io/acme/api',
+      });
+      const newContent = updater.updateContent(oldContent);
+      snapshot(newContent);
+    });
+  });
+});
@@ -16,7 +16,10 @@ import {readFileSync} from 'fs';
 import {resolve} from 'path';
 import * as snapshot from 'snap-shot-it';
 import {describe, it} from 'mocha';
-import {PackageJson} from '../../src/updaters/node/package-json';
+import {
+  PackageJson,
+  PackageJsonDependencies,
+} from '../../src/updaters/node/package-json';
 import {Version, VersionsMap} from '../../src/version';
 
 const fixturesPath = './test/updaters/fixtures';
@@ -74,6 +77,23 @@ describe('PackageJson', () => {
       snapshot(newContent.replace(/\r\n/g, '\n'));
     });
 
+    it('updates workspace dependencies with explicit versions', async () => {
+      const oldContent = readFileSync(
+        resolve(fixturesPath, './package-with-workspace-dependencies.json'),
+        'utf8'
+      );
+      const versionsMap: VersionsMap = new Map();
+      for (const name of ['a', 'b', 'c', 'd', 'e', 'f']) {
+        versionsMap.set(`@here/pkg-${name}`, Version.parse('2.1.0'));
+      }
+      const packageJson = new PackageJson({
+        version: Version.parse('1.0.1'),
+        versionsMap,
+      });
+      const newContent = packageJson.updateContent(oldContent);
+      snapshot(newContent.replace(/\r\n/g, '\n'));
+    });
+
     it('does not update peer dependencies by default', async () => {
       const oldContent = readFileSync(
         resolve(fixturesPath, './package-with-dependencies.json'),
@@ -93,3 +113,20 @@ describe('PackageJson', () => {
     });
   });
 });
+
+describe('PackageJsonDependencies', () => {
+  describe('updateContent', () => {
+    it('updates dependency versions without the package version', async () => {
+      const oldContent = readFileSync(
+        resolve(fixturesPath, './package-with-workspace-dependencies.json'),
+        'utf8'
+      );
+      const versionsMap: VersionsMap = new Map();
+      versionsMap.set('@here/pkg-c', Version.parse('2.1.0'));
+      versionsMap.set('@here/pkg-f', Version.parse('0.4.0'));
+      const packageJson = new PackageJsonDependencies({versionsMap});
+      const newContent = packageJson.updateContent(oldContent);
+      snapshot(newContent.replace(/\r\n/g, '\n'));
+    });
+  });
+});
@@ -0,0 +1,58 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {readFileSync} from 'fs';
+import {resolve} from 'path';
+import * as snapshot from 'snap-shot-it';
+import {describe, it} from 'mocha';
+import {expect} from 'chai';
+import {
+  PackageSwift,
+  parsePackageSwiftName,
+} from '../../src/updaters/swift/package-swift';
+import {Version} from '../../src/version';
+
+const fixturesPath = './test/updaters/fixtures/swift';
+
+describe('PackageSwift', () => {
+  const oldContent = readFileSync(
+    resolve(fixturesPath, './Package.swift'),
+    'utf8'
+  ).replace(/\r\n/g, '\n');
+
+  describe('updateContent', () => {
+    it('updates pins of matching dependencies', async () => {
+      const versionsMap = new Map();
+      versionsMap.set('Core', Version.parse('1.3.0'));
+      versionsMap.set('Networking', Version.parse('2.1.0'));
+      versionsMap.set('Local', Version.parse('9.9.9'));
+      const updater = new PackageSwift(versionsMap);
+      const newContent = updater.updateContent(oldContent);
+      snapshot(newContent);
+    });
+
+    it('ignores unknown dependencies', async () => {
+      const versionsMap = new Map();
+      versionsMap.set('Feature', Version.parse('1.3.0'));
+      const updater = new PackageSwift(versionsMap);
+      expect(updater.updateContent(oldContent)).to.equal(oldContent);
+    });
+  });
+
+  describe('parsePackageSwiftName', () => {
+    it('parses the package name', () => {
+      expect(parsePackageSwiftName(oldContent)).to.equal('Feature');
+    });
+  });
+});
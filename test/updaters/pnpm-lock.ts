@@ -0,0 +1,60 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {readFileSync} from 'fs';
+import {resolve} from 'path';
+import * as snapshot from 'snap-shot-it';
+import {describe, it} from 'mocha';
+import {expect} from 'chai';
+import {PnpmLock} from '../../src/updaters/node/pnpm-lock';
+import {Version, VersionsMap} from '../../src/version';
+
+const fixturesPath = './test/updaters/fixtures/node';
+
+describe('PnpmLock', () => {
+  const versionsMap: VersionsMap = new Map();
+  versionsMap.set('@here/pkg-a', Version.parse('2.1.0'));
+  versionsMap.set('@here/pkg-b', Version.parse('1.3.0'));
+  versionsMap.set('@here/pkg-c', Version.parse('0.4.0'));
+  versionsMap.set('typescript', Version.parse('6.0.0'));
+
+  describe('updateContent', () => {
+    it('updates workspace dependency specifiers', async () => {
+      const oldContent = readFileSync(
+        resolve(fixturesPath, './pnpm-lock.yaml'),
+        'utf8'
+      );
+      const updater = new PnpmLock(versionsMap);
+      const newContent = updater.updateContent(oldContent);
+      snapshot(newContent.replace(/\r\n/g, '\n'));
+    });
+
+    it('updates workspace dependency specifiers of a v5 lockfile', async () => {
+      const oldContent = readFileSync(
+        resolve(fixturesPath, './pnpm-lock-v5.yaml'),
+        'utf8'
+      );
+      const updater = new PnpmLock(versionsMap);
+      const newContent = updater.updateContent(oldContent);
+      snapshot(newContent.replace(/\r\n/g, '\n'));
+    });
+
+    it('ignores a lockfile without importers', async () => {
+      const oldContent = "lockfileVersion: '9.0'\n";
+      const updater = new PnpmLock(versionsMap);
+      const newContent = updater.updateContent(oldContent);
+      expect(newContent).to.eql(oldContent);
+    });
+  });
+});
@@ -42,6 +42,16 @@ describe('PyProjectToml', () => {
       pyProject.updateContent(oldContent);
     }).to.throw();
   });
+
+  it('writes canonical PEP 440 versions', async () => {
+    const oldContent = "[project]\nname = 'project'\nversion = '1.0.0'\n";
+    const pyProject = new PyProjectToml({
+      version: Version.parse('1.1.0-beta.2'),
+    });
+    expect(pyProject.updateContent(oldContent)).to.equal(
+      '[project]\nname = \'project\'\nversion = "1.1.0b2"\n'
+    );
+  });
 });
 
 describe('pyproject-project.toml', () => {
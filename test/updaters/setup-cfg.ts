@@ -16,6 +16,7 @@ import {readFileSync} from 'fs';
 import {resolve} from 'path';
 import * as snapshot from 'snap-shot-it';
 import {describe, it} from 'mocha';
+import {expect} from 'chai';
 import {SetupCfg} from '../../src/updaters/python/setup-cfg';
 import {Version} from '../../src/version';
 
@@ -45,5 +46,15 @@ describe('setup.cfg', () => {
       const newContent = version.updateContent(oldContent);
       snapshot(newContent);
     });
+    it('writes canonical PEP 440 versions', async () => {
+      const oldContent = '[metadata]\nname = foo\nversion = 1.4.0rc1\n';
+      const version = new SetupCfg({
+        version: Version.parse('1.4.0-rc.2'),
+      });
+      const newContent = version.updateContent(oldContent);
+      expect(newContent).to.equal(
+        '[metadata]\nname = foo\nversion = 1.4.0rc2\n'
+      );
+    });
   });
 });
@@ -0,0 +1,59 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {readFileSync} from 'fs';
+import {resolve} from 'path';
+import * as snapshot from 'snap-shot-it';
+import {describe, it} from 'mocha';
+import {expect} from 'chai';
+import {SwiftVersion} from '../../src/updaters/swift/swift-version';
+import {Version} from '../../src/version';
+
+const fixturesPath = './test/updaters/fixtures/swift';
+
+describe('SwiftVersion', () => {
+  describe('updateContent', () => {
+    it('updates the version constant', async () => {
+      const oldContent = readFileSync(
+        resolve(fixturesPath, './Version.swift'),
+        'utf8'
+      ).replace(/\r\n/g, '\n');
+      const updater = new SwiftVersion({
+        version: Version.parse('1.3.0'),
+      });
+      const newContent = updater.updateContent(oldContent);
+      snapshot(newContent);
+    });
+
+    it('updates a typed static constant', async () => {
+      const updater = new SwiftVersion({
+        version: Version.parse('2.0.0'),
+      });
+      const newContent = updater.updateContent(
+        'enum Meta {\n    public static let version: String = "1.9.0"\n}\n'
+      );
+      expect(newContent).to.equal(
+        'enum Meta {\n    public static let version: String = "2.0.0"\n}\n'
+      );
+    });
+
+    it('ignores files without a version constant', async () => {
+      const oldContent = 'import Foundation\n';
+      const updater = new SwiftVersion({
+        version: Version.parse('2.0.0'),
+      });
+      expect(updater.updateContent(oldContent)).to.equal(oldContent);
+    });
+  });
+});
@@ -0,0 +1,49 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {readFileSync} from 'fs';
+import {resolve} from 'path';
+import * as snapshot from 'snap-shot-it';
+import {describe, it} from 'mocha';
+import {expect} from 'chai';
+import {VersionCatalog} from '../../src/updaters/gradle/version-catalog';
+import {Version} from '../../src/version';
+
+const fixturesPath = './test/updaters/fixtures/gradle';
+
+describe('VersionCatalog', () => {
+  describe('updateContent', () => {
+    it('updates matching versions while preserving formatting', async () => {
+      const oldContent = readFileSync(
+        resolve(fixturesPath, './libs.versions.toml'),
+        'utf8'
+      ).replace(/\r\n/g, '\n');
+      const versionsMap = new Map();
+      versionsMap.set('core', Version.parse('1.3.0'));
+      versionsMap.set('widget', Version.parse('0.4.1'));
+      versionsMap.set('missing', Version.parse('9.9.9'));
+      const updater = new VersionCatalog(versionsMap);
+      const newContent = updater.updateContent(oldContent);
+      snapshot(newContent);
+    });
+
+    it('ignores catalogs without versions', async () => {
+      const oldContent = '[libraries]\nfoo = "com.example:foo:1.0.0"\n';
+      const versionsMap = new Map();
+      versionsMap.set('foo', Version.parse('2.0.0'));
+      const updater = new VersionCatalog(versionsMap);
+      expect(updater.updateContent(oldContent)).to.equal(oldContent);
+    });
+  });
+});
@@ -0,0 +1,177 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {expect} from 'chai';
+import {afterEach, describe, it} from 'mocha';
+import * as sinon from 'sinon';
+import * as assert from 'assert';
+import {GitHub} from '../../src/github';
+import {
+  buildChangeFileCommit,
+  fetchChangeFiles,
+  parseChangeFile,
+} from '../../src/util/change-file';
+import {buildGitHubFileRaw} from '../helpers';
+import {ConfigurationError} from '../../src/errors';
+
+const sandbox = sinon.createSandbox();
+
+describe('parseChangeFile', () => {
+  it('parses component and bump keys', () => {
+    const changeFile = parseChangeFile(
+      '.release-please/changes/widgets.md',
+      '---\ncomponent: api\nbump: minor\n---\nAdd support for widgets.\n'
+    );
+    expect(changeFile).to.eql({
+      path: '.release-please/changes/widgets.md',
+      bumps: {api: 'minor'},
+      notes: 'Add support for widgets.',
+    });
+  });
+
+  it('parses a list of components', () => {
+    const changeFile = parseChangeFile(
+      'widgets.md',
+      '---\ncomponent: [api, web]\nbump: patch\n---\n\nFix widgets.\n'
+    );
+    expect(changeFile?.bumps).to.eql({api: 'patch', web: 'patch'});
+  });
+
+  it('parses changeset style front matter', () => {
+    const changeFile = parseChangeFile(
+      'widgets.md',
+      '---\n"@acme/api": minor\nweb: major\n---\nRework widgets.\n'
+    );
+    expect(changeFile?.bumps).to.eql({'@acme/api': 'minor', web: 'major'});
+  });
+
+  it('ignores files without front matter', () => {
+    expect(parseChangeFile('README.md', '# Change files\n')).to.be.undefined;
+  });
+
+  it('rejects invalid bump levels', () => {
+    expect(() =>
+      parseChangeFile(
+        'widgets.md',
+        '---\ncomponent: api\nbump: huge\n---\nAdd widgets.\n'
+      )
+    ).to.throw('invalid bump level: huge');
+  });
+
+  it('rejects missing components', () => {
+    expect(() =>
+      parseChangeFile('widgets.md', '---\nbump: minor\n---\nAdd widgets.\n')
+    ).to.throw('must name a component');
+  });
+
+  it('rejects missing descriptions', () => {
+    expect(() =>
+      parseChangeFile('widgets.md', '---\ncomponent: api\nbump: minor\n---\n')
+    ).to.throw('missing a description');
+  });
+});
+
+describe('fetchChangeFiles', () => {
+  afterEach(() => {
+    sandbox.restore();
+  });
+
+  it('fetches and parses change files', async () => {
+    const github = await GitHub.create({
+      owner: 'fake-owner',
+      repo: 'fake-repo',
+      defaultBranch: 'main',
+    });
+    const findFilesStub = sandbox
+      .stub(github, 'findFilesByGlobAndRef')
+      .resolves([
+        '.release-please/changes/widgets.md',
+        '.release-please/changes/README.md',
+      ]);
+    sandbox
+      .stub(github, 'getFileContentsOnBranch')
+      .withArgs('.release-please/changes/widgets.md', 'main')
+      .resolves(
+        buildGitHubFileRaw(
+          '---\ncomponent: api\nbump: minor\n---\nAdd widgets.\n'
+        )
+      )
+      .withArgs('.release-please/changes/README.md', 'main')
+      .resolves(buildGitHubFileRaw('# Change files\n'));
+
+    const changeFiles = await fetchChangeFiles(
+      github,
+      '.release-please/changes/',
+      'main'
+    );
+    sinon.assert.calledOnceWithExactly(
+      findFilesStub,
+      '.release-please/changes/*.md',
+      'main'
+    );
+    expect(changeFiles).lengthOf(1);
+    expect(changeFiles[0].path).to.eql('.release-please/changes/widgets.md');
+  });
+
+  it('rejects invalid change files', async () => {
+    const github = await GitHub.create({
+      owner: 'fake-owner',
+      repo: 'fake-repo',
+      defaultBranch: 'main',
+    });
+    sandbox
+      .stub(github, 'findFilesByGlobAndRef')
+      .resolves(['changes/widgets.md']);
+    sandbox
+      .stub(github, 'getFileContentsOnBranch')
+      .resolves(buildGitHubFileRaw('---\nbump: minor\n---\nAdd widgets.\n'));
+
+    await assert.rejects(
+      fetchChangeFiles(github, 'changes', 'main'),
+      ConfigurationError
+    );
+  });
+});
+
+describe('buildChangeFileCommit', () => {
+  const changeFile = {
+    path: '.release-please/changes/widgets.md',
+    bumps: {api: 'major' as const, web: 'patch' as const},
+    notes: 'Add support for\nwidgets.\n\nWidgets are small.',
+  };
+
+  it('builds a fix for a patch bump', () => {
+    const commit = buildChangeFileCommit(changeFile, 'patch');
+    expect(commit.type).to.eql('fix');
+    expect(commit.bareMessage).to.eql(
+      'Add support for\n  widgets.\n\n  Widgets are small.'
+    );
+    expect(commit.breaking).to.be.false;
+    expect(commit.sha).to.eql('');
+  });
+
+  it('builds a breaking feature for a major bump', () => {
+    const commit = buildChangeFileCommit(changeFile, 'major', {
+      sha: 'abc123',
+      message: 'Some squashed change',
+    });
+    expect(commit.type).to.eql('feat');
+    expect(commit.message).to.match(/^feat!: Add support for\n/);
+    expect(commit.breaking).to.be.true;
+    expect(commit.notes).to.eql([
+      {title: 'BREAKING CHANGE', text: commit.bareMessage},
+    ]);
+    expect(commit.sha).to.eql('abc123');
+  });
+});
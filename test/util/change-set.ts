@@ -0,0 +1,80 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {expect} from 'chai';
+import {describe, it} from 'mocha';
+import {buildChangeSet} from '../../src/util/change-set';
+import {RawContent} from '../../src/updaters/raw-content';
+import {DeleteFile} from '../../src/updaters/delete-file';
+import {FileNotFoundError} from '../../src/errors';
+import {buildGitHubFileRaw} from '../helpers';
+
+describe('buildChangeSet', () => {
+  const scm = {
+    getFileContentsOnBranch: async (path: string) => {
+      if (path === 'missing.txt') {
+        throw new FileNotFoundError(path);
+      }
+      return buildGitHubFileRaw(`content of ${path}`);
+    },
+  };
+
+  it('runs updaters', async () => {
+    const changes = await buildChangeSet(
+      scm,
+      [
+        {
+          path: 'version.txt',
+          createIfMissing: false,
+          updater: new RawContent('1.2.3'),
+        },
+        {
+          path: 'missing.txt',
+          createIfMissing: false,
+          updater: new RawContent('1.2.3'),
+        },
+      ],
+      'main'
+    );
+    expect([...changes.keys()]).to.eql(['version.txt']);
+    expect(changes.get('version.txt')).to.include({
+      content: '1.2.3',
+      originalContent: 'content of version.txt',
+    });
+  });
+
+  it('deletes files', async () => {
+    const changes = await buildChangeSet(
+      scm,
+      [
+        {
+          path: 'changes/widgets.md',
+          createIfMissing: false,
+          updater: new DeleteFile(),
+        },
+        {
+          path: 'missing.txt',
+          createIfMissing: false,
+          updater: new DeleteFile(),
+        },
+      ],
+      'main'
+    );
+    expect([...changes.keys()]).to.eql(['changes/widgets.md']);
+    expect(changes.get('changes/widgets.md')).to.include({
+      content: null,
+      originalContent: 'content of changes/widgets.md',
+    });
+  });
+});
@@ -0,0 +1,175 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {describe, it} from 'mocha';
+import {expect} from 'chai';
+import {lintCommits, parseCommitLintRules} from '../../src/util/commit-lint';
+
+describe('lintCommits', () => {
+  it('accepts conventional commits', () => {
+    const result = lintCommits([
+      {sha: 'sha1', message: 'feat: add a feature'},
+      {
+        sha: 'sha2',
+        message: 'fix(deps): update dependency\n\nRelease-As: 2.0.0',
+      },
+    ]);
+    expect(result).to.eql({problems: [], errorCount: 0, warningCount: 0});
+  });
+
+  it('reports commits that cannot be parsed', () => {
+    const result = lintCommits([
+      {sha: 'sha1', message: 'Update README\n\nsome details'},
+    ]);
+    expect(result.errorCount).to.eql(1);
+    expect(result.problems[0]).to.include({
+      rule: 'conventional',
+      severity: 'error',
+      sha: 'sha1',
+      header: 'Update README',
+    });
+  });
+
+  it('reports unknown types', () => {
+    const result = lintCommits(
+      [
+        {sha: 'sha1', message: 'feat: add a feature'},
+        {sha: 'sha2', message: 'chore: update dependencies'},
+        {sha: 'sha3', message: 'deps: update dependencies'},
+        {sha: 'sha4', message: 'wip: update dependencies'},
+      ],
+      {changelogSections: [{type: 'deps', section: 'Dependencies'}]}
+    );
+    expect(result.errorCount).to.eql(1);
+    expect(result.problems[0]).to.include({
+      rule: 'type-enum',
+      sha: 'sha4',
+      header: 'wip: update dependencies',
+    });
+  });
+
+  it('ignores footers that resemble commits', () => {
+    const result = lintCommits([
+      {
+        sha: 'sha1',
+        message:
+          'fix: a bug\n\nRefs: #123\nSigned-off-by: Jane <jane@example.com>',
+      },
+    ]);
+    expect(result.problems).to.be.empty;
+  });
+
+  it('reports scopes not matching known components', () => {
+    const result = lintCommits(
+      [
+        {sha: 'sha1', message: 'feat(api): add a feature'},
+        {sha: 'sha2', message: 'fix(api,web): fix a bug'},
+        {sha: 'sha3', message: 'fix: fix another bug'},
+      ],
+      {scopes: ['api']}
+    );
+    expect(result.errorCount).to.eql(0);
+    expect(result.warningCount).to.eql(1);
+    expect(result.problems[0]).to.include({
+      rule: 'scope-enum',
+      severity: 'warning',
+      sha: 'sha2',
+    });
+  });
+
+  it('reports malformed Release-As footers', () => {
+    const result = lintCommits([
+      {sha: 'sha1', message: 'fix: a bug\n\nRelease-As: next'},
+      {sha: 'sha2', message: 'fix: a bug\n\nRelease as 1.2.3'},
+    ]);
+    expect(result.errorCount).to.eql(2);
+    expect(result.problems.map(problem => problem.rule)).to.eql([
+      'release-as',
+      'release-as',
+    ]);
+  });
+
+  it('lints each nested commit', () => {
+    const result = lintCommits([
+      {
+        sha: 'sha1',
+        message:
+          'feat: a feature\n\nBEGIN_NESTED_COMMIT\nnot conventional\nEND_NESTED_COMMIT',
+      },
+    ]);
+    expect(result.errorCount).to.eql(1);
+    expect(result.problems[0]).to.include({
+      rule: 'conventional',
+      header: 'not conventional',
+    });
+  });
+
+  it('honors the commit override of the pull request', () => {
+    const result = lintCommits([
+      {
+        sha: 'sha1',
+        message: 'Merge pull request #1',
+        pullRequest: {
+          headBranchName: 'feature',
+          baseBranchName: 'main',
+          number: 1,
+          title: 'Some feature',
+          body: 'BEGIN_COMMIT_OVERRIDE\nfeat: some feature\nEND_COMMIT_OVERRIDE',
+          labels: [],
+          files: [],
+        },
+      },
+    ]);
+    expect(result.problems).to.be.empty;
+  });
+
+  it('can configure the severity of rules', () => {
+    const result = lintCommits(
+      [
+        {sha: 'sha1', message: 'Update README'},
+        {sha: 'sha2', message: 'feat(web): add a feature'},
+      ],
+      {
+        scopes: ['api'],
+        rules: {conventional: 'off', 'scope-enum': 'error'},
+      }
+    );
+    expect(result.errorCount).to.eql(1);
+    expect(result.problems[0]).to.include({
+      rule: 'scope-enum',
+      severity: 'error',
+    });
+  });
+});
+
+describe('parseCommitLintRules', () => {
+  it('parses rules', () => {
+    expect(parseCommitLintRules('scope-enum=error,type-enum=off')).to.eql({
+      'scope-enum': 'error',
+      'type-enum': 'off',
+    });
+  });
+
+  it('rejects unknown rules', () => {
+    expect(() => parseCommitLintRules('subject-case=error')).to.throw(
+      'Unknown commit lint rule'
+    );
+  });
+
+  it('rejects unknown severities', () => {
+    expect(() => parseCommitLintRules('scope-enum=fatal')).to.throw(
+      'Unknown severity'
+    );
+  });
+});
@@ -123,4 +123,54 @@ describe('CommitSplit', () => {
       expect(splitCommits['pkg4']).to.be.undefined;
     });
   });
+
+  describe('with scope routing', () => {
+    const commits: Commit[] = [
+      {
+        sha: 'abc123',
+        message: 'fix(api): fix a bug',
+        files: ['api/foo.txt', 'tools/lint.sh'],
+      },
+      {
+        sha: 'def234',
+        message: 'feat(web-admin,api): add a feature',
+        files: ['tools/build.sh'],
+      },
+      {
+        sha: 'efg',
+        message: 'fix(tools): fix the build',
+        files: ['api/foo.txt', 'web/bar.txt'],
+      },
+      {
+        sha: 'hij',
+        message: 'chore(web-admin): bump the version',
+        files: [],
+      },
+    ];
+    it('routes commits with a matching scope', () => {
+      const commitSplit = new CommitSplit({
+        packagePaths: ['api', 'web', 'tools'],
+        scopeRouting: {api: 'api', 'web-*': 'web/'},
+      });
+      const splitCommits = commitSplit.split(commits);
+      expect(splitCommits['api'].map(commit => commit.sha)).to.eql([
+        'abc123',
+        'def234',
+        'efg',
+      ]);
+      expect(splitCommits['web'].map(commit => commit.sha)).to.eql([
+        'def234',
+        'efg',
+        'hij',
+      ]);
+      expect(splitCommits['tools']).to.be.undefined;
+    });
+    it('returns the routed paths of a commit', () => {
+      const commitSplit = new CommitSplit({
+        scopeRouting: {api: 'api', 'web-*': 'web'},
+      });
+      expect(commitSplit.routeByScope(commits[1])).to.eql(['web', 'api']);
+      expect(commitSplit.routeByScope(commits[2])).to.be.undefined;
+    });
+  });
 });
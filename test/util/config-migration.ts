@@ -0,0 +1,258 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {describe, it} from 'mocha';
+import {expect} from 'chai';
+import {
+  migrateChangesets,
+  migrateSemanticRelease,
+  migrateStandardVersion,
+  parseMigrationConfig,
+  parseTagPrefix,
+} from '../../src/util/config-migration';
+import {DefaultVersioningStrategy} from '../../src/versioning-strategies/default';
+import {buildMockConventionalCommit} from '../helpers';
+
+describe('config migration', () => {
+  describe('parseMigrationConfig', () => {
+    it('parses JSON', () => {
+      expect(
+        parseMigrationConfig('.releaserc.json', '{"tagFormat": "v${version}"}')
+      ).to.eql({tagFormat: 'v${version}'});
+    });
+
+    it('parses YAML', () => {
+      expect(
+        parseMigrationConfig('.releaserc', 'branches:\n  - main\n')
+      ).to.eql({branches: ['main']});
+    });
+
+    it('parses an exported object literal', () => {
+      const content = [
+        "'use strict';",
+        'module.exports = {',
+        '  // release from main only',
+        "  branches: ['main'],",
+        '  plugins: [',
+        "    '@semantic-release/commit-analyzer',",
+        "    ['@semantic-release/changelog', {changelogFile: 'HISTORY.md'}],",
+        '  ],',
+        '};',
+      ].join('\n');
+      expect(parseMigrationConfig('release.config.js', content)).to.eql({
+        branches: ['main'],
+        plugins: [
+          '@semantic-release/commit-analyzer',
+          ['@semantic-release/changelog', {changelogFile: 'HISTORY.md'}],
+        ],
+      });
+    });
+
+    it('rejects dynamic JavaScript configs', () => {
+      expect(() =>
+        parseMigrationConfig(
+          'release.config.js',
+          "module.exports = require('./shared');"
+        )
+      ).to.throw(/Unable to read release.config.js statically/);
+    });
+  });
+
+  describe('parseTagPrefix', () => {
+    it('handles a bare version', () => {
+      expect(parseTagPrefix('')).to.eql({
+        includeVInTag: false,
+        includeComponentInTag: false,
+      });
+    });
+
+    it('handles a v prefix', () => {
+      expect(parseTagPrefix('v')).to.eql({
+        includeVInTag: true,
+        includeComponentInTag: false,
+      });
+    });
+
+    it('handles a component prefix', () => {
+      expect(parseTagPrefix('my-pkg@v')).to.eql({
+        includeVInTag: true,
+        component: 'my-pkg',
+        tagSeparator: '@',
+      });
+    });
+
+    it('rejects an unsupported prefix', () => {
+      expect(() => parseTagPrefix('release')).to.throw(
+        /Unsupported tag prefix/
+      );
+    });
+  });
+
+  describe('migrateSemanticRelease', () => {
+    it('translates plugins and prerelease branches', () => {
+      const migrated = migrateSemanticRelease({
+        branches: [
+          'main',
+          {name: 'beta', prerelease: true},
+          {name: 'next', prerelease: 'rc'},
+          {name: '+([0-9])?(.{+([0-9]),x}).x', prerelease: true},
+        ],
+        tagFormat: 'v${version}',
+        plugins: [
+          [
+            '@semantic-release/commit-analyzer',
+            {
+              releaseRules: [
+                {type: 'docs', scope: 'README', release: 'patch'},
+                {type: 'refactor', release: false},
+                {breaking: true, release: 'major'},
+              ],
+            },
+          ],
+          [
+            '@semantic-release/release-notes-generator',
+            {
+              presetConfig: {
+                types: [
+                  {type: 'feat', section: 'Features'},
+                  {type: 'chore', hidden: true},
+                ],
+              },
+            },
+          ],
+          ['@semantic-release/changelog', {changelogFile: 'HISTORY.md'}],
+          '@semantic-release/npm',
+          [
+            '@semantic-release/git',
+            {assets: ['HISTORY.md', 'package.json', 'docs/*.md']},
+          ],
+          '@semantic-release/github',
+          'semantic-release-slack-bot',
+        ],
+      });
+      expect(migrated.config).to.eql({
+        includeVInTag: true,
+        includeComponentInTag: false,
+        bumpRules: [
+          {type: 'docs', scope: 'README', bump: 'patch'},
+          {type: 'refactor', bump: 'none'},
+        ],
+        changelogSections: [
+          {type: 'feat', section: 'Features'},
+          {type: 'chore', section: 'chore', hidden: true},
+        ],
+        changelogPath: 'HISTORY.md',
+        extraFiles: [{type: 'generic', path: 'docs/*.md', glob: true}],
+      });
+      expect(migrated.manifestConfig).to.eql({
+        channels: {beta: 'beta', next: 'rc'},
+      });
+      expect(migrated.warnings).to.eql([
+        'Prerelease branch pattern +([0-9])?(.{+([0-9]),x}).x must be configured per branch',
+        'Release rule {"breaking":true,"release":"major"} is not supported',
+        'Extra files must mark their version with x-release-please-version: docs/*.md',
+        'Plugin semantic-release-slack-bot has no release-please equivalent',
+      ]);
+    });
+
+    it('does not release for release rules without a release', () => {
+      const migrated = migrateSemanticRelease({
+        plugins: [
+          [
+            '@semantic-release/commit-analyzer',
+            {releaseRules: [{type: 'refactor', release: false}]},
+          ],
+        ],
+      });
+      expect(migrated.config.bumpRules).to.eql([
+        {type: 'refactor', bump: 'none'},
+      ]);
+      const strategy = new DefaultVersioningStrategy({
+        bumpRules: migrated.config.bumpRules,
+      });
+      const [refactor] = buildMockConventionalCommit('refactor: tidy up');
+      const [fix] = buildMockConventionalCommit('fix: a bug');
+      expect(strategy.isReleasable([refactor])).to.be.false;
+      expect(strategy.isReleasable([refactor, fix])).to.be.true;
+    });
+
+    it('rejects a tag format with a suffix', () => {
+      expect(() =>
+        migrateSemanticRelease({tagFormat: 'v${version}-release'})
+      ).to.throw(/Unsupported tagFormat/);
+    });
+  });
+
+  describe('migrateStandardVersion', () => {
+    it('translates bump files and changelog options', () => {
+      const migrated = migrateStandardVersion({
+        tagPrefix: '',
+        infile: 'HISTORY.md',
+        types: [{type: 'fix', section: 'Fixes'}],
+        bumpFiles: [
+          'package.json',
+          {filename: 'manifest.json', type: 'json'},
+          {filename: 'VERSION', type: 'plain-text'},
+          {filename: 'build.gradle', updater: 'gradle-updater.js'},
+        ],
+        packageFiles: [{filename: 'manifest.json', type: 'json'}],
+      });
+      expect(migrated.config).to.eql({
+        includeVInTag: false,
+        includeComponentInTag: false,
+        changelogSections: [{type: 'fix', section: 'Fixes'}],
+        changelogPath: 'HISTORY.md',
+        extraFiles: [
+          {type: 'json', path: 'manifest.json', jsonpath: '$.version'},
+          'VERSION',
+        ],
+      });
+      expect(migrated.warnings).to.eql([
+        'Extra files must mark their version with x-release-please-version: VERSION',
+        'Custom updater for build.gradle must be replaced with an extra file',
+      ]);
+    });
+
+    it('skips the changelog', () => {
+      const migrated = migrateStandardVersion({skip: {changelog: true}});
+      expect(migrated.config).to.eql({
+        includeVInTag: true,
+        includeComponentInTag: false,
+        skipChangelog: true,
+      });
+    });
+  });
+
+  describe('migrateChangesets', () => {
+    it('translates fixed groups to linked versions', () => {
+      const migrated = migrateChangesets({
+        fixed: [['@fake/a', '@fake/b']],
+        linked: [['@fake/c', '@fake/d']],
+        ignore: ['@fake/internal'],
+        baseBranch: 'develop',
+      });
+      expect(migrated.config).to.eql({includeVInTag: false, tagSeparator: '@'});
+      expect(migrated.manifestConfig).to.eql({'changes-path': '.changeset'});
+      expect(migrated.plugins).to.eql([
+        {
+          type: 'linked-versions',
+          groupName: 'fixed-1',
+          components: ['@fake/a', '@fake/b'],
+        },
+      ]);
+      expect(migrated.ignoredPackages).to.eql(['@fake/internal']);
+      expect(migrated.warnings).lengthOf(2);
+    });
+  });
+});
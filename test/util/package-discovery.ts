@@ -0,0 +1,136 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {describe, it, beforeEach, afterEach} from 'mocha';
+import * as sinon from 'sinon';
+import {expect} from 'chai';
+import {GitHub} from '../../src/github';
+import {
+  discoverPackages,
+  suggestWorkspacePlugins,
+} from '../../src/util/package-discovery';
+import {buildGitHubFileRaw, mockTags} from '../helpers';
+
+const sandbox = sinon.createSandbox();
+
+function stubPackageFiles(github: GitHub, files: Record<string, string>) {
+  const findStub = sandbox.stub(github, 'findFilesByFilenameAndRef');
+  findStub.resolves([]);
+  const contentsStub = sandbox.stub(github, 'getFileContentsOnBranch');
+  const filesByName: Record<string, string[]> = {};
+  for (const [path, content] of Object.entries(files)) {
+    const filename = path.split('/').pop()!;
+    filesByName[filename] = [...(filesByName[filename] ?? []), path];
+    contentsStub.withArgs(path, 'main').resolves(buildGitHubFileRaw(content));
+  }
+  for (const [filename, paths] of Object.entries(filesByName)) {
+    findStub.withArgs(filename, 'main').resolves(paths);
+  }
+}
+
+describe('package discovery', () => {
+  let github: GitHub;
+  beforeEach(async () => {
+    github = await GitHub.create({
+      owner: 'fake-owner',
+      repo: 'fake-repo',
+      defaultBranch: 'main',
+      token: 'fake-token',
+    });
+  });
+  afterEach(() => {
+    sandbox.restore();
+  });
+
+  describe('discoverPackages', () => {
+    it('infers a release type per path', async () => {
+      stubPackageFiles(github, {
+        'package.json': JSON.stringify({
+          name: 'root',
+          private: true,
+          workspaces: ['packages/*'],
+        }),
+        'packages/a/package.json': JSON.stringify({
+          name: '@fake/a',
+          version: '1.2.3',
+        }),
+        'packages/b/package.json': JSON.stringify({
+          name: '@fake/b',
+          version: '0.1.0',
+        }),
+        'packages/b/node_modules/dep/package.json': JSON.stringify({
+          name: 'dep',
+          version: '9.9.9',
+        }),
+        'crates/c/Cargo.toml': '[package]\nname = "c"\nversion = "2.0.0"\n',
+        'crates/c/package.json': JSON.stringify({name: 'tooling'}),
+        'Cargo.toml': '[workspace]\nmembers = ["crates/c"]\n',
+        'python/pyproject.toml': '[project]\nname = "pkg"\nversion = "3.1.4"\n',
+        'java/pom.xml':
+          '<project xmlns="http://maven.apache.org/POM/4.0.0"><artifactId>lib</artifactId><version>4.0.0-SNAPSHOT</version></project>',
+        'charts/app/Chart.yaml': 'name: app\nversion: 0.3.0\n',
+      });
+      mockTags(sandbox, github, []);
+      const packages = await discoverPackages(github, 'main');
+      expect(
+        packages.map(pkg => [
+          pkg.path,
+          pkg.releaseType,
+          pkg.packageName,
+          pkg.version?.toString(),
+        ])
+      ).to.eql([
+        ['charts/app', 'helm', 'app', '0.3.0'],
+        ['crates/c', 'rust', 'c', '2.0.0'],
+        ['java', 'maven', 'lib', '4.0.0-SNAPSHOT'],
+        ['packages/a', 'node', '@fake/a', '1.2.3'],
+        ['packages/b', 'node', '@fake/b', '0.1.0'],
+        ['python', 'python', 'pkg', '3.1.4'],
+      ]);
+    });
+
+    it('seeds versions from existing tags', async () => {
+      stubPackageFiles(github, {
+        'go.mod': 'module github.com/fake/root\n',
+        'modules/storage/go.mod': 'module github.com/fake/root/storage\n',
+        'modules/pubsub/go.mod': 'module github.com/fake/root/pubsub\n',
+      });
+      mockTags(sandbox, github, [
+        {name: 'storage-v1.5.0', sha: 'abc123'},
+        {name: 'storage-v1.4.0', sha: 'def234'},
+        {name: 'v2.3.0', sha: 'bcd345'},
+        {name: 'not-a-version', sha: 'cde456'},
+      ]);
+      const packages = await discoverPackages(github, 'main');
+      expect(packages.map(pkg => [pkg.path, pkg.version?.toString()])).to.eql([
+        ['.', '2.3.0'],
+        ['modules/pubsub', undefined],
+        ['modules/storage', '1.5.0'],
+      ]);
+    });
+  });
+
+  describe('suggestWorkspacePlugins', () => {
+    it('suggests plugins for repeated release types', () => {
+      const plugins = suggestWorkspacePlugins([
+        {path: 'a', releaseType: 'node', packageFile: 'a/package.json'},
+        {path: 'b', releaseType: 'node', packageFile: 'b/package.json'},
+        {path: 'c', releaseType: 'rust', packageFile: 'c/Cargo.toml'},
+        {path: 'd', releaseType: 'go', packageFile: 'd/go.mod'},
+        {path: 'e', releaseType: 'go', packageFile: 'e/go.mod'},
+      ]);
+      expect(plugins).to.eql(['node-workspace']);
+    });
+  });
+});
@@ -18,7 +18,7 @@ import {readFileSync} from 'fs';
 import {resolve} from 'path';
 import {PullRequestBody} from '../../src/util/pull-request-body';
 import snapshot = require('snap-shot-it');
-import {Version} from '../../src/version';
+import {CalendarVersion, Version} from '../../src/version';
 
 const fixturesPath = './test/fixtures/release-notes';
 
@@ -135,6 +135,31 @@ describe('PullRequestBody', () => {
       expect(releaseData[0].version?.toString()).to.eql('0.1.0');
       expect(releaseData[0].notes).matches(/initial generation/);
     });
+
+    it('parses short versions only for calendar versioning', () => {
+      const body = new PullRequestBody([
+        {
+          component: 'pkg1',
+          version: CalendarVersion.parse('24.07'),
+          notes: 'some notes',
+        },
+        {
+          component: 'pkg2',
+          version: CalendarVersion.parse('2024.05.3'),
+          notes: 'more notes',
+        },
+      ]).toString();
+      const semverData = PullRequestBody.parse(body)!.releaseData;
+      expect(semverData).lengthOf(1);
+      expect(semverData[0].version?.toString()).to.eql('2024.5.3');
+      const releaseData = PullRequestBody.parse(body, undefined, {
+        calendar: true,
+      })!.releaseData;
+      expect(releaseData).lengthOf(2);
+      expect(releaseData[0].component).to.eql('pkg1');
+      expect(releaseData[0].version?.toString()).to.eql('24.07');
+      expect(releaseData[1].version?.toString()).to.eql('2024.05.3');
+    });
   });
   describe('toString', () => {
     it('can handle multiple entries', () => {
@@ -239,4 +264,84 @@ describe('PullRequestBody', () => {
       snapshot(pullRequestBody.toString());
     });
   });
+
+  describe('template', () => {
+    const template = `{{header}}
+{{delimiter}}
+
+{{{notes}}}
+
+{{delimiter}}
+{{#each releases}}
+{{component}}: {{previousVersion}} -> {{version}}
+{{#each sections}}
+{{title}}: {{entries.length}}
+{{/each}}
+{{#each commits}}
+- {{type}}{{#if scope}}({{scope}}){{/if}}: {{subject}} ({{sha}})
+{{/each}}
+{{#if issues}}
+Closes: {{#each issues}}#{{this}} {{/each}}
+{{/if}}
+{{/each}}
+
+{{footer}}`;
+    const data = [
+      {
+        component: 'pkg1',
+        version: Version.parse('1.3.0'),
+        previousVersion: Version.parse('1.2.3'),
+        notes:
+          '## [1.3.0](https://github.com/fake/fake/compare/pkg1-v1.2.3...pkg1-v1.3.0) (1983-10-10)\n\n\n### Features\n\n* a feature ([abc123](https://github.com/fake/fake/commit/abc123))\n* another <feature> ([def456](https://github.com/fake/fake/commit/def456))\n\n### Bug Fixes\n\n* a fix ([aaa111](https://github.com/fake/fake/commit/aaa111))',
+        commits: [
+          {
+            sha: 'abc123',
+            message: 'feat(api): a feature\n\nFixes #12',
+            type: 'feat',
+            scope: 'api',
+            bareMessage: 'a feature',
+            notes: [],
+            references: [
+              {
+                action: 'Fixes',
+                issue: '12',
+                raw: '#12',
+                prefix: '#',
+              },
+              {
+                action: 'Refs',
+                owner: 'other',
+                repository: 'repo',
+                issue: '34',
+                raw: 'other/repo#34',
+                prefix: '#',
+              },
+            ],
+            breaking: false,
+          },
+        ],
+      },
+      {
+        component: 'pkg2',
+        version: Version.parse('2.0.0'),
+        notes: '### Features\n\n* some feature',
+      },
+    ];
+
+    it('renders the body with the template', () => {
+      const pullRequestBody = new PullRequestBody(data, {template});
+      snapshot(pullRequestBody.toString());
+    });
+
+    it('renders a parseable body', () => {
+      const pullRequestBody = new PullRequestBody(data, {template});
+      const parsed = PullRequestBody.parse(pullRequestBody.toString());
+      expect(parsed).to.not.be.undefined;
+      expect(parsed!.releaseData).lengthOf(2);
+      expect(parsed!.releaseData[0].component).to.eql('pkg1');
+      expect(parsed!.releaseData[0].version?.toString()).to.eql('1.3.0');
+      expect(parsed!.releaseData[1].component).to.eql('pkg2');
+      expect(parsed!.releaseData[1].version?.toString()).to.eql('2.0.0');
+    });
+  });
 });
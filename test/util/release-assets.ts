@@ -0,0 +1,111 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {afterEach, beforeEach, describe, it} from 'mocha';
+import {expect} from 'chai';
+import {mkdirSync, mkdtempSync, rmSync, writeFileSync} from 'fs';
+import {tmpdir} from 'os';
+import {dirname, join} from 'path';
+import * as assert from 'assert';
+import {
+  buildChecksumsAsset,
+  resolveReleaseAssets,
+} from '../../src/util/release-assets';
+
+describe('release assets', () => {
+  let root: string;
+
+  function writeFiles(files: Record<string, string>) {
+    for (const [file, content] of Object.entries(files)) {
+      mkdirSync(dirname(join(root, file)), {recursive: true});
+      writeFileSync(join(root, file), content);
+    }
+  }
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'release-please-assets-'));
+  });
+
+  afterEach(() => {
+    rmSync(root, {recursive: true, force: true});
+  });
+
+  describe('resolveReleaseAssets', () => {
+    it('resolves globs relative to the package path', async () => {
+      writeFiles({
+        'packages/cli/dist/cli-linux.tar.gz': 'linux',
+        'packages/cli/dist/cli-darwin.tar.gz': 'darwin',
+        'packages/cli/dist/notes.txt': 'notes',
+        'packages/other/dist/other.tar.gz': 'other',
+        'sbom/cli.spdx.json': '{}',
+      });
+      const assets = await resolveReleaseAssets(
+        ['dist/*.tar.gz', '/sbom/*.json'],
+        'packages/cli',
+        root
+      );
+      expect(
+        assets.map(({name, content}) => [name, content.toString()])
+      ).to.eql([
+        ['cli-darwin.tar.gz', 'darwin'],
+        ['cli-linux.tar.gz', 'linux'],
+        ['cli.spdx.json', '{}'],
+      ]);
+    });
+
+    it('resolves globs for the root package', async () => {
+      writeFiles({'dist/app.zip': 'zip', 'dist/nested/app.tgz': 'tgz'});
+      const assets = await resolveReleaseAssets(['dist/**/*.*'], '.', root);
+      expect(assets.map(({name}) => name)).to.eql(['app.zip', 'app.tgz']);
+    });
+
+    it('rejects a glob without matches', async () => {
+      await assert.rejects(
+        resolveReleaseAssets(['dist/*.zip'], '.', root),
+        /Release asset glob dist\/\*\.zip matched no files/
+      );
+    });
+
+    it('rejects assets with the same name', async () => {
+      writeFiles({'linux/app.tgz': 'linux', 'darwin/app.tgz': 'darwin'});
+      await assert.rejects(
+        resolveReleaseAssets(['*/app.tgz'], '.', root),
+        /Release assets darwin\/app.tgz and linux\/app.tgz have the same name/
+      );
+    });
+
+    it('rejects an asset named like the checksums file', async () => {
+      writeFiles({'dist/app.tgz': 'app', 'dist/SHA256SUMS': 'sums'});
+      await assert.rejects(
+        resolveReleaseAssets(['dist/*'], '.', root),
+        /Release asset dist\/SHA256SUMS collides with the generated SHA256SUMS/
+      );
+    });
+  });
+
+  describe('buildChecksumsAsset', () => {
+    it('lists sha256 checksums', () => {
+      const checksums = buildChecksumsAsset([
+        {name: 'a.txt', content: Buffer.from('hello\n')},
+        {name: 'b.txt', content: Buffer.from('')},
+      ]);
+      expect(checksums.name).to.eql('SHA256SUMS');
+      expect(checksums.contentType).to.eql('text/plain');
+      expect(checksums.content.toString()).to.eql(
+        '5891b5b522d5df086d0ff0b110fbd9d21bb4fc7163af34d08286a2e846f6be03  a.txt\n' +
+          'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855  b.txt\n'
+      );
+    });
+  });
+});
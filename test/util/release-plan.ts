@@ -0,0 +1,143 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {expect} from 'chai';
+import {afterEach, describe, it} from 'mocha';
+import * as sinon from 'sinon';
+import {GitHub} from '../../src/github';
+import {buildPullRequestPlans} from '../../src/util/release-plan';
+import {PullRequestTitle} from '../../src/util/pull-request-title';
+import {PullRequestBody} from '../../src/util/pull-request-body';
+import {RawContent} from '../../src/updaters/raw-content';
+import {DeleteFile} from '../../src/updaters/delete-file';
+
+const sandbox = sinon.createSandbox();
+
+describe('buildPullRequestPlans', () => {
+  afterEach(() => {
+    sandbox.restore();
+  });
+
+  it('renders new, missing and unchanged files', async () => {
+    const github = await GitHub.create({
+      owner: 'fake-owner',
+      repo: 'fake-repo',
+      defaultBranch: 'main',
+    });
+    const buildChangeSetStub = sandbox
+      .stub(github, 'buildChangeSet')
+      .resolves(
+        new Map([
+          [
+            'CHANGELOG.md',
+            {content: '# Changelog\n', originalContent: null, mode: '100644'},
+          ],
+        ])
+      );
+    const plans = await buildPullRequestPlans(
+      github,
+      [
+        {
+          title: PullRequestTitle.ofTargetBranch('main'),
+          body: new PullRequestBody([]),
+          labels: [],
+          headRefName: 'release-please--branches--main',
+          draft: true,
+          updates: [
+            {
+              path: 'CHANGELOG.md',
+              createIfMissing: true,
+              updater: new RawContent('# Changelog\n'),
+            },
+            {
+              path: 'version.txt',
+              createIfMissing: false,
+              updater: new RawContent('1.0.0'),
+            },
+            {
+              path: 'README.md',
+              createIfMissing: false,
+              updater: new RawContent('same'),
+            },
+          ],
+        },
+      ],
+      'main'
+    );
+    sinon.assert.calledOnceWithExactly(
+      buildChangeSetStub,
+      sinon.match.array,
+      'main'
+    );
+    expect(plans).to.have.lengthOf(1);
+    expect(plans[0].draft).to.be.true;
+    expect(plans[0].version).to.be.undefined;
+    const [changelog, version, readme] = plans[0].updates;
+    expect(changelog.content).to.eql('# Changelog\n');
+    expect(changelog.diff).to.include('+# Changelog');
+    expect(version).to.eql({
+      path: 'version.txt',
+      createIfMissing: false,
+      updater: 'RawContent',
+      content: null,
+      deleted: false,
+      diff: null,
+    });
+    expect(readme.content).to.be.null;
+    expect(readme.deleted).to.be.false;
+    expect(readme.diff).to.be.null;
+  });
+
+  it('renders deleted files', async () => {
+    const github = await GitHub.create({
+      owner: 'fake-owner',
+      repo: 'fake-repo',
+      defaultBranch: 'main',
+    });
+    sandbox
+      .stub(github, 'buildChangeSet')
+      .resolves(
+        new Map([
+          [
+            '.changes/feature.md',
+            {content: null, originalContent: 'a feature\n', mode: '100644'},
+          ],
+        ])
+      );
+    const plans = await buildPullRequestPlans(
+      github,
+      [
+        {
+          title: PullRequestTitle.ofTargetBranch('main'),
+          body: new PullRequestBody([]),
+          labels: [],
+          headRefName: 'release-please--branches--main',
+          draft: false,
+          updates: [
+            {
+              path: '.changes/feature.md',
+              createIfMissing: false,
+              updater: new DeleteFile(),
+            },
+          ],
+        },
+      ],
+      'main'
+    );
+    const [deleted] = plans[0].updates;
+    expect(deleted.deleted).to.be.true;
+    expect(deleted.content).to.be.null;
+    expect(deleted.diff).to.include('-a feature');
+  });
+});
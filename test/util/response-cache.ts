@@ -0,0 +1,104 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {afterEach, beforeEach, describe, it} from 'mocha';
+import {expect} from 'chai';
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readdirSync,
+  rmSync,
+  writeFileSync,
+} from 'fs';
+import {tmpdir} from 'os';
+import {join} from 'path';
+import {ResponseCache} from '../../src/util/response-cache';
+
+const SHA = '2f3d2c47bf49f81aca0df9ffc49524a213a2dc33';
+
+describe('ResponseCache', () => {
+  let cacheDir: string;
+  let cache: ResponseCache;
+
+  beforeEach(() => {
+    cacheDir = mkdtempSync(join(tmpdir(), 'release-please-cache-'));
+    cache = new ResponseCache(cacheDir, {
+      owner: 'fake',
+      repo: 'fake',
+      defaultBranch: 'main',
+    });
+  });
+
+  afterEach(() => {
+    rmSync(cacheDir, {recursive: true, force: true});
+  });
+
+  it('returns undefined for missing entries', async () => {
+    expect(await cache.get('commit-files', SHA)).to.be.undefined;
+  });
+
+  it('stores entries by repository, namespace and sha', async () => {
+    await cache.set('commit-files', SHA, ['a.txt', 'b.txt']);
+    expect(await cache.get('commit-files', SHA)).to.eql(['a.txt', 'b.txt']);
+    expect(await cache.get('blobs', SHA)).to.be.undefined;
+    expect(
+      existsSync(
+        join(cacheDir, 'v1', 'fake', 'fake', 'commit-files', `${SHA}.json`)
+      )
+    ).to.be.true;
+    expect(
+      readdirSync(join(cacheDir, 'v1', 'fake', 'fake', 'commit-files'))
+    ).to.eql([`${SHA}.json`]);
+
+    const otherRepo = new ResponseCache(cacheDir, {
+      owner: 'fake',
+      repo: 'other',
+      defaultBranch: 'main',
+    });
+    expect(await otherRepo.get('commit-files', SHA)).to.be.undefined;
+  });
+
+  it('ignores keys that are not shas', async () => {
+    await cache.set('commit-files', '../main', ['a.txt']);
+    expect(await cache.get('commit-files', '../main')).to.be.undefined;
+    expect(existsSync(join(cacheDir, 'v1'))).to.be.false;
+  });
+
+  it('stores pull requests by number and update time', async () => {
+    await cache.set('pull-requests', '123-1714564800000', {number: 123});
+    expect(await cache.get('pull-requests', '123-1714564800000')).to.eql({
+      number: 123,
+    });
+    expect(await cache.get('pull-requests', '123-1714564900000')).to.be
+      .undefined;
+    await cache.set('pull-requests', SHA, {number: 123});
+    expect(await cache.get('pull-requests', SHA)).to.be.undefined;
+  });
+
+  it('removes the temporary file of a failed write', async () => {
+    const dir = join(cacheDir, 'v1', 'fake', 'fake', 'blobs');
+    // a directory in place of the entry makes the final rename fail
+    mkdirSync(join(dir, `${SHA}.json`, 'nested'), {recursive: true});
+    await cache.set('blobs', SHA, 'content');
+    expect(readdirSync(dir)).to.eql([`${SHA}.json`]);
+  });
+
+  it('ignores corrupt entries', async () => {
+    const dir = join(cacheDir, 'v1', 'fake', 'fake', 'blobs');
+    mkdirSync(dir, {recursive: true});
+    writeFileSync(join(dir, `${SHA}.json`), '{"truncated');
+    expect(await cache.get('blobs', SHA)).to.be.undefined;
+  });
+});
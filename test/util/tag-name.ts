@@ -46,6 +46,26 @@ describe('TagName', () => {
         expect(tagName?.separator).to.eql('-');
         expect(tagName?.toString()).to.eql(name);
       });
+      it('ignores a short version', () => {
+        expect(TagName.parse('some-component-v24.07')).to.be.undefined;
+      });
+      it('handles a short calendar version', () => {
+        const name = 'some-component-v24.07';
+        const tagName = TagName.parse(name, {calendar: true});
+        expect(tagName).to.not.be.undefined;
+        expect(tagName?.component).to.eql('some-component');
+        expect(tagName?.version.toString()).to.eql('24.07');
+        expect(tagName?.separator).to.eql('-');
+        expect(tagName?.toString()).to.eql(name);
+      });
+      it('handles a PEP 440 version', () => {
+        const name = 'some-component-v1.4.0rc1';
+        expect(TagName.parse(name)?.version.toString()).to.eql('1.4.0');
+        const tagName = TagName.parse(name, {pep440: true});
+        expect(tagName?.component).to.eql('some-component');
+        expect(tagName?.version.toString()).to.eql('1.4.0rc1');
+        expect(tagName?.toString()).to.eql(name);
+      });
       it('handles tag without a v with a / separator', () => {
         const name = 'some-component/1.2.3';
         const tagName = TagName.parse(name);
@@ -15,7 +15,12 @@
 import {describe, it} from 'mocha';
 
 import {expect} from 'chai';
-import {Version} from '../src/version';
+import {
+  CalendarVersion,
+  Pep440Version,
+  Version,
+  parseVersion,
+} from '../src/version';
 
 describe('Version', () => {
   describe('parse', () => {
@@ -128,14 +133,141 @@ describe('Version', () => {
       expect(version.build).to.equal('678');
       expect(version.toString()).to.equal(input);
     });
+    it('rejects a short version', async () => {
+      expect(() => Version.parse('1.2')).to.throw(/unable to parse/);
+      expect(() => Version.parse('1.2-SNAPSHOT')).to.throw(/unable to parse/);
+    });
+    it('does not keep zero-padding', async () => {
+      const version = Version.parse('2024.05.3');
+      expect(version).to.not.be.instanceOf(CalendarVersion);
+      expect(version.toString()).to.equal('2024.5.3');
+    });
+    it('can read a PEP 440 pre-release', async () => {
+      const version = parseVersion('1.4.0rc1', {pep440: true});
+      expect(version).to.be.instanceOf(Pep440Version);
+      expect(version.major).to.equal(1);
+      expect(version.minor).to.equal(4);
+      expect(version.patch).to.equal(0);
+      expect(version.preRelease).to.equal('rc1');
+      expect(version.toString()).to.equal('1.4.0rc1');
+    });
+    it('can read PEP 440 post, dev and epoch segments', async () => {
+      const post = parseVersion('1.4.0.post2', {pep440: true}) as Pep440Version;
+      expect(post.post).to.equal(2);
+      expect(post.preRelease).is.undefined;
+      expect(post.toString()).to.equal('1.4.0.post2');
+      const dev = parseVersion('1.4.0.dev3', {pep440: true}) as Pep440Version;
+      expect(dev.dev).to.equal(3);
+      expect(dev.preRelease).to.equal('dev3');
+      const epoch = parseVersion('1!2.0', {pep440: true}) as Pep440Version;
+      expect(epoch.epoch).to.equal(1);
+      expect(epoch.major).to.equal(2);
+      expect(epoch.toString()).to.equal('1!2.0');
+    });
+    it('only reads PEP 440 versions when enabled', async () => {
+      const version = Version.parse('1.4.0rc1');
+      expect(version).not.to.be.instanceOf(Pep440Version);
+      expect(version.toString()).to.equal('1.4.0');
+      expect(() => Version.parse('1!2.0')).to.throw();
+    });
+    it('keeps SemVer pre-releases', async () => {
+      const version = parseVersion('1.4.0-rc.1', {pep440: true});
+      expect(version).not.to.be.instanceOf(Pep440Version);
+      expect(version.toString()).to.equal('1.4.0-rc.1');
+    });
+  });
+  describe('Pep440Version', () => {
+    it('normalizes version strings', () => {
+      expect(Pep440Version.parse('v1.4.0-RC.1').toString()).to.equal(
+        '1.4.0rc1'
+      );
+      expect(Pep440Version.parse('1.4.0-beta').toString()).to.equal('1.4.0b0');
+      expect(Pep440Version.parse('1.4.0.alpha2').toString()).to.equal(
+        '1.4.0a2'
+      );
+      expect(Pep440Version.parse('1.4.0-3').toString()).to.equal('1.4.0.post3');
+      expect(Pep440Version.parse('1.4.0_post.dev1').toString()).to.equal(
+        '1.4.0.post0.dev1'
+      );
+      expect(Pep440Version.parse('1.4.0+Ubuntu-1').toString()).to.equal(
+        '1.4.0+ubuntu.1'
+      );
+    });
+    it('rejects invalid versions', () => {
+      expect(() => Pep440Version.parse('1.4.0-SNAPSHOT')).to.throw();
+    });
+    it('converts SemVer versions', () => {
+      expect(
+        Pep440Version.fromVersion(Version.parse('1.4.0-beta.2')).toString()
+      ).to.equal('1.4.0b2');
+    });
+  });
+  describe('CalendarVersion', () => {
+    it('can read a short calendar version', async () => {
+      const input = '24.07';
+      const version = CalendarVersion.parse(input);
+      expect(version).to.be.instanceOf(CalendarVersion);
+      expect(version.major).to.equal(24);
+      expect(version.minor).to.equal(7);
+      expect(version.patch).to.equal(0);
+      expect(version.toString()).to.equal(input);
+    });
+    it('can read a zero-padded calendar version', async () => {
+      const input = '2024.05.3-rc.1';
+      const version = CalendarVersion.parse(input);
+      expect(version).to.be.instanceOf(CalendarVersion);
+      expect(version.minor).to.equal(5);
+      expect(version.preRelease).to.equal('rc.1');
+      expect(version.toString()).to.equal(input);
+    });
+    it('reads a short version followed by text', async () => {
+      const version = CalendarVersion.parse('24.07 (2024-02-12)');
+      expect(version.toString()).to.equal('24.07');
+    });
+    it('reads other versions as SemVer', async () => {
+      const version = CalendarVersion.parse('1.2.3');
+      expect(version).to.not.be.instanceOf(CalendarVersion);
+      expect(version.toString()).to.equal('1.2.3');
+    });
   });
   describe('compare', () => {
+    it('should compare calendar versions', () => {
+      expect(
+        CalendarVersion.parse('24.07').compare(CalendarVersion.parse('24.10'))
+      ).to.eql(-1);
+      expect(
+        CalendarVersion.parse('24.07').compare(Version.parse('24.7.0'))
+      ).to.eql(0);
+    });
     it('should handle pre-release versions', () => {
       const comparison = Version.parse('1.2.3').compare(
         Version.parse('1.2.3-alpha')
       );
       expect(comparison).to.eql(1);
     });
+    it('should order PEP 440 versions', () => {
+      const input = [
+        '1.4.0.post1',
+        '1!0.1.0',
+        '1.4.0',
+        '1.4.0rc1',
+        '1.4.0.dev1',
+        '1.4.0b2',
+        '1.4.0rc1.dev2',
+        '1.3.9',
+      ].map(version => parseVersion(version, {pep440: true}));
+      const output = input.sort((a, b) => a.compare(b));
+      expect(output.map(version => version.toString())).to.eql([
+        '1.3.9',
+        '1.4.0.dev1',
+        '1.4.0b2',
+        '1.4.0rc1.dev2',
+        '1.4.0rc1',
+        '1.4.0',
+        '1.4.0.post1',
+        '1!0.1.0',
+      ]);
+    });
     it('should sort in ascending order using compare', () => {
       const input = [
         Version.parse('1.2.3'),
@@ -0,0 +1,183 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {afterEach, beforeEach, describe, it} from 'mocha';
+
+import {expect} from 'chai';
+import * as sinon from 'sinon';
+import {
+  CalendarVersioningStrategy,
+  isoWeek,
+} from '../../src/versioning-strategies/calver';
+import {CalendarVersion, Version} from '../../src/version';
+import {TagName} from '../../src/util/tag-name';
+
+describe('CalendarVersioningStrategy', () => {
+  const commits = [
+    {
+      sha: 'sha1',
+      message: 'feat!: some breaking feature',
+      files: ['path1/file1.txt'],
+      type: 'feat',
+      scope: null,
+      bareMessage: 'some breaking feature',
+      notes: [{title: 'BREAKING CHANGE', text: 'some breaking feature'}],
+      references: [],
+      breaking: true,
+    },
+  ];
+  let clock: sinon.SinonFakeTimers;
+  beforeEach(() => {
+    clock = sinon.useFakeTimers(new Date('2024-02-12T10:00:00Z'));
+  });
+  afterEach(() => {
+    clock.restore();
+  });
+
+  describe('with the default format', () => {
+    it('starts the micro counter for a new month', async () => {
+      const strategy = new CalendarVersioningStrategy();
+      const newVersion = await strategy.bump(
+        Version.parse('2024.1.4'),
+        commits
+      );
+      expect(newVersion.toString()).to.equal('2024.2.0');
+    });
+    it('increments the micro counter within a month', async () => {
+      const strategy = new CalendarVersioningStrategy();
+      const newVersion = await strategy.bump(
+        Version.parse('2024.2.0'),
+        commits
+      );
+      expect(newVersion.toString()).to.equal('2024.2.1');
+    });
+    it('replaces a semver version', async () => {
+      const strategy = new CalendarVersioningStrategy();
+      const newVersion = await strategy.bump(Version.parse('1.2.3'), commits);
+      expect(newVersion.toString()).to.equal('2024.2.0');
+    });
+  });
+
+  describe('with a zero-padded format', () => {
+    it('renders zero-padded segments', async () => {
+      const strategy = new CalendarVersioningStrategy({
+        format: 'YYYY.0M.MICRO',
+      });
+      const newVersion = await strategy.bump(
+        CalendarVersion.parse('2024.02.3'),
+        commits
+      );
+      expect(newVersion.toString()).to.equal('2024.02.4');
+    });
+  });
+
+  describe('with a short week format', () => {
+    it('renders two segments', async () => {
+      const strategy = new CalendarVersioningStrategy({format: 'YY.0W'});
+      const newVersion = await strategy.bump(
+        CalendarVersion.parse('24.06'),
+        commits
+      );
+      expect(newVersion.toString()).to.equal('24.07');
+      const tag = new TagName(newVersion, 'data', '-', true);
+      expect(tag.toString()).to.equal('data-v24.07');
+      expect(
+        TagName.parse(tag.toString(), {calendar: true})?.version.toString()
+      ).to.equal('24.07');
+    });
+    it('adds a micro segment when releasing twice in a week', async () => {
+      const strategy = new CalendarVersioningStrategy({format: 'YY.0W'});
+      const newVersion = await strategy.bump(
+        CalendarVersion.parse('24.07'),
+        commits
+      );
+      expect(newVersion.toString()).to.equal('24.07.1');
+      const nextVersion = await strategy.bump(newVersion, commits);
+      expect(nextVersion.toString()).to.equal('24.07.2');
+    });
+    it('uses the ISO week-numbering year', async () => {
+      clock.setSystemTime(new Date('2024-12-30T10:00:00Z'));
+      const strategy = new CalendarVersioningStrategy({format: 'YY.0W'});
+      const newVersion = await strategy.bump(
+        CalendarVersion.parse('24.52'),
+        commits
+      );
+      expect(newVersion.toString()).to.equal('25.01');
+    });
+  });
+
+  describe('isoWeek', () => {
+    it('returns the ISO week', () => {
+      expect(isoWeek(new Date('2024-02-12T10:00:00Z'))).to.eql({
+        year: 2024,
+        week: 7,
+      });
+      // Sunday of the first week of 2025
+      expect(isoWeek(new Date('2025-01-05T10:00:00Z'))).to.eql({
+        year: 2025,
+        week: 1,
+      });
+      // Friday of the last week of 2020
+      expect(isoWeek(new Date('2021-01-01T10:00:00Z'))).to.eql({
+        year: 2020,
+        week: 53,
+      });
+    });
+  });
+
+  it('respects Release-As', async () => {
+    const strategy = new CalendarVersioningStrategy();
+    const newVersion = await strategy.bump(Version.parse('2024.1.4'), [
+      {
+        sha: 'sha2',
+        message: 'chore: release 2024.1.5\n\nRelease-As: 2024.1.5',
+        files: [],
+        type: 'chore',
+        scope: null,
+        bareMessage: 'release 2024.1.5',
+        notes: [{title: 'RELEASE AS', text: '2024.1.5'}],
+        references: [],
+        breaking: false,
+      },
+    ]);
+    expect(newVersion.toString()).to.equal('2024.1.5');
+  });
+
+  it('respects a short Release-As', async () => {
+    const strategy = new CalendarVersioningStrategy({format: 'YY.0M'});
+    const newVersion = await strategy.bump(CalendarVersion.parse('24.01'), [
+      {
+        sha: 'sha2',
+        message: 'chore: release 24.03\n\nRelease-As: 24.03',
+        files: [],
+        type: 'chore',
+        scope: null,
+        bareMessage: 'release 24.03',
+        notes: [{title: 'RELEASE AS', text: '24.03'}],
+        references: [],
+        breaking: false,
+      },
+    ]);
+    expect(newVersion.toString()).to.equal('24.03');
+  });
+
+  it('rejects an invalid format', () => {
+    expect(
+      () => new CalendarVersioningStrategy({format: 'YYYY.MICRO.MM'})
+    ).to.throw(/MICRO must be the last segment/);
+    expect(() => new CalendarVersioningStrategy({format: 'YYYY.Q'})).to.throw(
+      /unknown segment Q/
+    );
+  });
+});
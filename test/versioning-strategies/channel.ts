@@ -0,0 +1,152 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {afterEach, beforeEach, describe, it} from 'mocha';
+
+import {expect} from 'chai';
+import {ChannelVersioningStrategy} from '../../src/versioning-strategies/channel';
+import * as sinon from 'sinon';
+import {DefaultVersioningStrategy} from '../../src/versioning-strategies/default';
+import {CalendarVersioningStrategy} from '../../src/versioning-strategies/calver';
+import {CalendarVersion, Version} from '../../src/version';
+
+describe('ChannelVersioningStrategy', () => {
+  const fix = {
+    sha: 'sha1',
+    message: 'fix: some bugfix',
+    files: ['path1/file1.txt'],
+    type: 'fix',
+    scope: null,
+    bareMessage: 'some bugfix',
+    notes: [],
+    references: [],
+    breaking: false,
+  };
+  const feature = {
+    ...fix,
+    sha: 'sha2',
+    message: 'feat: some feature',
+    type: 'feat',
+    bareMessage: 'some feature',
+  };
+  const breaking = {
+    ...fix,
+    sha: 'sha3',
+    message: 'fix!: some breaking bugfix',
+    notes: [{title: 'BREAKING CHANGE', text: 'some breaking bugfix'}],
+    breaking: true,
+  };
+
+  describe('on a channel branch', () => {
+    const strategy = new ChannelVersioningStrategy(
+      new DefaultVersioningStrategy(),
+      {prereleaseId: 'rc', channelIds: ['rc', 'beta']}
+    );
+    it('starts a prerelease from a stable version', async () => {
+      const newVersion = await strategy.bump(Version.parse('1.2.3'), [feature]);
+      expect(newVersion.toString()).to.equal('1.3.0-rc.1');
+    });
+    it('increments the prerelease number', async () => {
+      const newVersion = await strategy.bump(Version.parse('1.3.0-rc.1'), [
+        feature,
+      ]);
+      expect(newVersion.toString()).to.equal('1.3.0-rc.2');
+    });
+    it('bumps the core version for a larger change', async () => {
+      const newVersion = await strategy.bump(Version.parse('1.3.0-rc.2'), [
+        breaking,
+      ]);
+      expect(newVersion.toString()).to.equal('2.0.0-rc.1');
+    });
+    it('switches the prerelease identifier', async () => {
+      const newVersion = await strategy.bump(Version.parse('1.3.0-beta.4'), [
+        fix,
+      ]);
+      expect(newVersion.toString()).to.equal('1.3.0-rc.1');
+    });
+  });
+
+  describe('on a stable branch', () => {
+    const strategy = new ChannelVersioningStrategy(
+      new DefaultVersioningStrategy(),
+      {channelIds: ['rc', 'beta']}
+    );
+    it('graduates a channel prerelease', async () => {
+      const newVersion = await strategy.bump(Version.parse('1.3.0-rc.2'), [
+        fix,
+        feature,
+      ]);
+      expect(newVersion.toString()).to.equal('1.3.0');
+    });
+    it('bumps past a prerelease for a larger change', async () => {
+      const newVersion = await strategy.bump(Version.parse('1.3.0-rc.2'), [
+        breaking,
+      ]);
+      expect(newVersion.toString()).to.equal('2.0.0');
+    });
+    it('bumps stable versions as usual', async () => {
+      const newVersion = await strategy.bump(Version.parse('1.2.3'), [feature]);
+      expect(newVersion.toString()).to.equal('1.3.0');
+    });
+  });
+
+  describe('with calendar versioning', () => {
+    let clock: sinon.SinonFakeTimers;
+    beforeEach(() => {
+      clock = sinon.useFakeTimers(new Date('2024-07-12T10:00:00Z'));
+    });
+    afterEach(() => {
+      clock.restore();
+    });
+    const calver = new CalendarVersioningStrategy({format: 'YY.0M'});
+    it('keeps the zero-padding of a prerelease', async () => {
+      const strategy = new ChannelVersioningStrategy(calver, {
+        prereleaseId: 'rc',
+        channelIds: ['rc'],
+      });
+      const newVersion = await strategy.bump(CalendarVersion.parse('24.06'), [
+        fix,
+      ]);
+      expect(newVersion).to.be.instanceOf(CalendarVersion);
+      expect(newVersion.toString()).to.equal('24.07-rc.1');
+      const nextVersion = await strategy.bump(
+        CalendarVersion.parse('24.07-rc.1'),
+        [fix]
+      );
+      expect(nextVersion.toString()).to.equal('24.07-rc.2');
+    });
+    it('keeps the zero-padding when graduating', async () => {
+      const strategy = new ChannelVersioningStrategy(calver, {
+        channelIds: ['rc'],
+      });
+      const newVersion = await strategy.bump(
+        CalendarVersion.parse('24.07-rc.2'),
+        [fix]
+      );
+      expect(newVersion).to.be.instanceOf(CalendarVersion);
+      expect(newVersion.toString()).to.equal('24.07');
+    });
+  });
+
+  it('delegates whether commits are releasable', () => {
+    const strategy = new ChannelVersioningStrategy(
+      new DefaultVersioningStrategy({
+        bumpRules: [{type: 'fix', bump: 'none'}],
+      }),
+      {channelIds: ['rc']}
+    );
+    expect(strategy.isReleasable([fix])).to.be.false;
+    expect(strategy.isReleasable([fix, feature])).to.be.true;
+  });
+});
@@ -168,6 +168,127 @@ describe('DefaultVersioningStrategy', () => {
     });
   });
 
+  describe('with bump rules', () => {
+    const commits = [
+      {
+        sha: 'sha1',
+        message: 'perf: faster widgets',
+        files: ['path1/file1.txt'],
+        type: 'perf',
+        scope: null,
+        bareMessage: 'faster widgets',
+        notes: [],
+        references: [],
+        breaking: false,
+      },
+      {
+        sha: 'sha2',
+        message: 'deps(dev)!: update mocha',
+        files: ['package.json'],
+        type: 'deps',
+        scope: 'dev',
+        bareMessage: 'update mocha',
+        notes: [{title: 'BREAKING CHANGE', text: 'update mocha'}],
+        references: [],
+        breaking: true,
+      },
+    ];
+    it('applies the first matching rule', async () => {
+      const strategy = new DefaultVersioningStrategy({
+        bumpRules: [
+          {type: 'deps', scope: 'dev', bump: 'none'},
+          {type: 'perf', bump: 'minor'},
+          {footer: 'breaking change', bump: 'major'},
+        ],
+      });
+      const oldVersion = Version.parse('1.2.3');
+      const newVersion = await strategy.bump(oldVersion, commits);
+      expect(newVersion.toString()).to.equal('1.3.0');
+    });
+    it('falls back to the default bump for unmatched commits', async () => {
+      const strategy = new DefaultVersioningStrategy({
+        bumpRules: [{type: 'perf', scope: 'core', bump: 'major'}],
+      });
+      const oldVersion = Version.parse('1.2.3');
+      const newVersion = await strategy.bump(oldVersion, commits);
+      expect(newVersion.toString()).to.equal('2.0.0');
+    });
+    it('respects bump-minor-pre-major', async () => {
+      const strategy = new DefaultVersioningStrategy({
+        bumpMinorPreMajor: true,
+        bumpRules: [{type: 'perf', bump: 'major'}],
+      });
+      const oldVersion = Version.parse('0.2.3');
+      const newVersion = await strategy.bump(oldVersion, commits.slice(0, 1));
+      expect(newVersion.toString()).to.equal('0.3.0');
+    });
+    it('does not release for commits without a bump', async () => {
+      const strategy = new DefaultVersioningStrategy({
+        bumpRules: [
+          {type: 'deps', scope: 'dev', bump: 'none'},
+          {type: 'perf', bump: 'none'},
+        ],
+      });
+      expect(strategy.isReleasable(commits)).to.be.false;
+      const oldVersion = Version.parse('1.2.3');
+      const newVersion = await strategy.bump(oldVersion, [
+        ...commits,
+        {
+          sha: 'sha3',
+          message: 'fix: some bugfix',
+          files: [],
+          type: 'fix',
+          scope: null,
+          bareMessage: 'some bugfix',
+          notes: [],
+          references: [],
+          breaking: false,
+        },
+      ]);
+      expect(newVersion.toString()).to.equal('1.2.4');
+    });
+    it('lets a rule downgrade a breaking change', async () => {
+      const strategy = new DefaultVersioningStrategy({
+        bumpRules: [{type: 'deps', scope: 'dev', bump: 'patch'}],
+      });
+      const oldVersion = Version.parse('1.2.3');
+      const newVersion = await strategy.bump(oldVersion, commits.slice(1));
+      expect(newVersion.toString()).to.equal('1.2.4');
+    });
+    it('keeps breaking changes major with a footer rule', async () => {
+      const strategy = new DefaultVersioningStrategy({
+        bumpRules: [
+          {footer: 'BREAKING CHANGE', bump: 'major'},
+          {type: 'deps', scope: 'dev', bump: 'none'},
+        ],
+      });
+      expect(strategy.isReleasable([commits[1]])).to.be.true;
+      const oldVersion = Version.parse('1.2.3');
+      const newVersion = await strategy.bump(oldVersion, commits.slice(1));
+      expect(newVersion.toString()).to.equal('2.0.0');
+    });
+    it('always releases for Release-As', async () => {
+      const strategy = new DefaultVersioningStrategy({
+        bumpRules: [{type: 'chore', bump: 'none'}],
+      });
+      expect(
+        strategy.isReleasable([
+          {
+            sha: 'sha4',
+            message: 'chore: release 2.0.0\n\nRelease-As: 2.0.0',
+            files: [],
+            type: 'chore',
+            scope: null,
+            bareMessage: 'release 2.0.0',
+            notes: [{title: 'RELEASE AS', text: '2.0.0'}],
+            references: [],
+            breaking: false,
+          },
+        ])
+      ).to.be.true;
+    });
+  });
+
   describe('with release-as', () => {
     it('sets the version', async () => {
       const commits = [
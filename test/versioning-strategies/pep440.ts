@@ -0,0 +1,110 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {describe, it} from 'mocha';
+
+import {expect} from 'chai';
+import {Pep440VersioningStrategy} from '../../src/versioning-strategies/pep440';
+import {Pep440Version, Version, parseVersion} from '../../src/version';
+import {ConventionalCommit} from '../../src/commit';
+
+function buildCommit(
+  type: string,
+  breaking = false,
+  notes: ConventionalCommit['notes'] = []
+): ConventionalCommit {
+  return {
+    sha: `sha-${type}`,
+    message: `${type}${breaking ? '!' : ''}: some change`,
+    files: ['path1/file1.py'],
+    type,
+    scope: null,
+    bareMessage: 'some change',
+    notes,
+    references: [],
+    breaking,
+  };
+}
+
+describe('Pep440VersioningStrategy', () => {
+  describe('without prerelease type', () => {
+    const expectedBumps: Record<string, [ConventionalCommit, string]> = {
+      '1.2.3': [buildCommit('fix'), '1.2.4'],
+      '1.2.3.post2': [buildCommit('feat'), '1.3.0'],
+      '1.4.0rc1': [buildCommit('feat'), '1.4.0rc2'],
+      '1.4.1rc1': [buildCommit('feat'), '1.5.0'],
+      '2.0.0b3': [buildCommit('fix', true), '2.0.0b4'],
+      '1.4.0.dev3': [buildCommit('fix'), '1.4.0.dev4'],
+      '1!1.2.3': [buildCommit('fix', true), '1!2.0.0'],
+      '1.4.0-rc.1': [buildCommit('fix'), '1.4.0rc2'],
+    };
+    for (const old in expectedBumps) {
+      const [commit, expected] = expectedBumps[old];
+      it(`can bump ${old} to ${expected}`, async () => {
+        const strategy = new Pep440VersioningStrategy();
+        const newVersion = await strategy.bump(
+          parseVersion(old, {pep440: true}),
+          [commit]
+        );
+        expect(newVersion.toString()).to.equal(expected);
+      });
+    }
+  });
+
+  describe('with prerelease type', () => {
+    const expectedBumps: Record<string, [ConventionalCommit, string]> = {
+      '1.2.3': [buildCommit('feat'), '1.3.0rc1'],
+      '1.3.0rc1': [buildCommit('fix'), '1.3.0rc2'],
+      '1.3.0b2': [buildCommit('fix'), '1.3.0rc1'],
+      '1.3.1rc1': [buildCommit('fix', true), '2.0.0rc1'],
+    };
+    for (const old in expectedBumps) {
+      const [commit, expected] = expectedBumps[old];
+      it(`can bump ${old} to ${expected}`, async () => {
+        const strategy = new Pep440VersioningStrategy({prereleaseType: 'rc'});
+        const newVersion = await strategy.bump(
+          parseVersion(old, {pep440: true}),
+          [commit]
+        );
+        expect(newVersion.toString()).to.equal(expected);
+      });
+    }
+    it('normalizes the prerelease type', () => {
+      const strategy = new Pep440VersioningStrategy({prereleaseType: 'alpha'});
+      expect(strategy.prereleaseType).to.equal('a');
+    });
+    it('rejects unknown prerelease types', () => {
+      expect(
+        () => new Pep440VersioningStrategy({prereleaseType: 'snapshot'})
+      ).to.throw();
+    });
+  });
+
+  it('uses the canonical form of Release-As versions', async () => {
+    const strategy = new Pep440VersioningStrategy();
+    const newVersion = await strategy.bump(Version.parse('1.2.3'), [
+      buildCommit('fix', false, [{title: 'RELEASE AS', text: '2.0.0-beta.1'}]),
+    ]);
+    expect(newVersion.toString()).to.equal('2.0.0b1');
+  });
+
+  it('keeps PEP 440 Release-As versions', async () => {
+    const strategy = new Pep440VersioningStrategy();
+    const newVersion = await strategy.bump(Version.parse('1.2.3'), [
+      buildCommit('fix', false, [{title: 'RELEASE AS', text: '2.0.0rc1'}]),
+    ]);
+    expect(newVersion).to.be.instanceOf(Pep440Version);
+    expect(newVersion.toString()).to.equal('2.0.0rc1');
+  });
+});